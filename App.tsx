@@ -3,35 +3,192 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { ChatMessage, MessageSender, Attachment, ApiParts } from './types';
-import { getAssistantResponse } from './services/geminiService';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { ChatMessage, MessageSender, Attachment, ApiParts, ActiveConstitution, AuditAction, AuditEntry, CaseFilter, CaseNote, CaseRecord, CaseSummary, ConstitutionChangeApproval, ContextSource, ContradictionAnalysis, Conversation, ConversationTurn, CustodyDetails, EvidenceClassification, ProviderSettings, PseudonymEntry, QuarantinedFile, ReceiptChannel, RedactionResult, RedactionSettings, Signature, SigningIdentity, TimelineEvent } from './types';
+import { getAssistantResponse } from './services/consensusService';
+import { apiKeysOf, loadProviderSettings, saveProviderSettings, getConfigurationIssues, resolveSlotConfig, setSessionApiKeys } from './services/providerRegistry';
+import ProviderSettingsPanel from './components/ProviderSettingsPanel';
 import KnowledgeBaseManager from './components/KnowledgeBaseManager'; // Will function as CaseWorkspace
 import ChatInterface from './components/ChatInterface';
-import { calculateSHA512, readTextFromFile } from './services/fileService';
+import { calculateSHA512, calculateSHA512FromBytes, extractTextFromFile, downloadBlob } from './services/fileService';
+import { extractMetadata } from './services/metadataService';
+import { buildTimeline, dismissTimelineEvent, extractAnswerEvents, extractAttachmentEvents, saveTimelineEdit } from './services/timelineService';
+import { analyzeContradictions } from './services/contradictionService';
+import { buildRetrievalIndex, chunkContent, describeExtraction, markCitedSources, retrieveContext } from './services/retrievalService';
+import { generateCustodySheet, generateSealedReport } from './services/pdfService';
+import { registerSeal } from './services/verificationService';
+import { unlockVault, listCases, saveCase, loadCase, deleteCase, saveEvidenceFile, loadEvidenceFile, saveSigningKey, loadSigningKey, saveApiKeys, loadApiKeys } from './services/caseStorage';
+import { createSigningKey, exportPublicKey, formatKeyId, trustKey, unlockSigningKey } from './services/signingService';
+import { exportCaseBundle, importCaseBundle } from './services/bundleService';
+import CaseManager from './components/CaseManager';
+import { redactText, rehydrateCaseReport, rehydrateResponse, rehydrateText } from './services/redactionService';
+import { isFabricated, verifyCitations } from './services/citationService';
+import { transcribeAudio } from './services/transcriptionService';
+import { buildHistory, createConversation, forkConversation, MAIN_CONVERSATION_NAME } from './services/conversationService';
+import { classificationOf, describeFilter, EMPTY_CASE_FILTER, initialClassification, isFilterActive, matchesFilter } from './services/classificationService';
+import { openCustodyRecord, recordCustodyDetails, recordCustodyEvent, recordReceivedAgain } from './services/custodyService';
+import { createNote, notesForProviders, notesToText, promoteExcerpt } from './services/notesService';
+import { FAILURE_LABELS, ProviderError } from './services/providers/resilience';
+import { buildReportContext, caseReportToMarkdown, generateCaseReport } from './services/reportService';
+import RedactionPreview from './components/RedactionPreview';
+import { appendAuditEntry, signAuditHead } from './services/auditService';
+import AuditLogViewer from './components/AuditLogViewer';
+import { allowsUnredactedSend, amendConstitution, getActiveConstitution, reviewSend } from './services/governanceService';
+import ConstitutionPanel from './components/ConstitutionPanel';
+import { FolderLock, Landmark, ScrollText, SlidersHorizontal } from 'lucide-react';
+
+interface ActiveCase {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+interface PendingSend {
+  query: string;
+  context: string;
+  purpose: 'chat' | 'report';
+  sources?: ContextSource[]; // Retrieved passages the context is made of
+  history?: Record<string, ConversationTurn[]>; // Earlier turns, by slot id
+  files?: Attachment[]; // The files a scoped query is limited to
+  scope?: string; // Describes the filter the query is scoped to
+}
+
+const REPORT_QUERY = 'Generate a case report: Timeline, Facts, Contradictions, Violations and Guidance.';
+
+const EMPTY_REDACTION_SETTINGS: RedactionSettings = { customTerms: [], exemptTerms: [] };
 
 const App: React.FC = () => {
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   
+  // chatMessages holds the active conversation; its entry in conversations is brought up to date on switching.
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [conversations, setConversations] = useState<Conversation[]>(() => [createConversation(MAIN_CONVERSATION_NAME)]);
+  const [activeConversationId, setActiveConversationId] = useState(() => conversations[0].id);
   const [isLoading, setIsLoading] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
   
   const [caseFiles, setCaseFiles] = useState<Attachment[]>([]);
   const caseFilesRef = useRef(caseFiles);
+  // Original bytes of the files added this session; saved cases keep them in the encrypted case folder.
+  const originalsRef = useRef(new Map<string, Blob>());
+  const [quarantine, setQuarantine] = useState<QuarantinedFile[]>([]);
+  const [caseNotes, setCaseNotes] = useState<CaseNote[]>([]);
+  const [caseFilter, setCaseFilter] = useState<CaseFilter>(EMPTY_CASE_FILTER);
+  const [isQueryScoped, setIsQueryScoped] = useState(false);
+  const [isHighRisk, setIsHighRisk] = useState(false);
+
+  const [redactionMap, setRedactionMap] = useState<PseudonymEntry[]>([]);
+  const [redactionSettings, setRedactionSettings] = useState<RedactionSettings>(EMPTY_REDACTION_SETTINGS);
+  const [pendingSend, setPendingSend] = useState<PendingSend | null>(null);
+  const [timelineEdits, setTimelineEdits] = useState<TimelineEvent[]>([]);
+  const [contradictions, setContradictions] = useState<ContradictionAnalysis | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>([]);
+  const auditLogRef = useRef(auditLog);
+  const auditQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const streamControllersRef = useRef(new Map<string, AbortController>()); // By slot id, while answers stream
+  const [isAuditLogOpen, setIsAuditLogOpen] = useState(false);
+
+  const [constitution, setConstitution] = useState<ActiveConstitution>(getActiveConstitution);
+  const [isConstitutionOpen, setIsConstitutionOpen] = useState(false);
+
+  const [vaultKey, setVaultKey] = useState<CryptoKey | null>(null);
+  const [activeCase, setActiveCase] = useState<ActiveCase | null>(null);
+  // Unlocked with the case folder; exports are signed with it when there is one.
+  const [signingIdentity, setSigningIdentity] = useState<SigningIdentity | null>(null);
+  const [savedCases, setSavedCases] = useState<CaseSummary[]>([]);
+  const [isCaseManagerOpen, setIsCaseManagerOpen] = useState(false);
+
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
+  const [isProviderSettingsOpen, setIsProviderSettingsOpen] = useState(false);
 
   useEffect(() => {
     caseFilesRef.current = caseFiles;
   }, [caseFiles]);
 
+  // Files change rarely and answers often, so extract their events separately.
+  const attachmentEvents = useMemo(() => extractAttachmentEvents(caseFiles), [caseFiles]);
+  const answerEvents = useMemo(() => extractAnswerEvents(chatMessages), [chatMessages]);
+  const timeline = useMemo(
+    () => buildTimeline([...attachmentEvents, ...answerEvents], timelineEdits),
+    [attachmentEvents, answerEvents, timelineEdits],
+  );
+
+  const allConversations = useMemo(
+    () => conversations.map(c => c.id === activeConversationId ? { ...c, messages: chatMessages.filter(m => !m.isLoading) } : c),
+    [conversations, activeConversationId, chatMessages],
+  );
+  const allMessages = useMemo(() => allConversations.flatMap(c => c.messages), [allConversations]);
+
+  // Offered while a filter is set; queries are only limited to the filtered files once the user opts in.
+  const queryScope = useMemo(() => {
+    if (!isFilterActive(caseFilter)) return null;
+    return { label: describeFilter(caseFilter), files: caseFiles.filter(file => matchesFilter(file, caseFilter)).length };
+  }, [caseFilter, caseFiles]);
+
+  // The local analyses read every note; providers only get the notes the user chose to send.
+  const notesText = useMemo(() => notesToText(caseNotes), [caseNotes]);
+
+  // Re-run on every settings change so the preview always shows exactly what will be sent.
+  const pendingRedaction = useMemo(() => {
+    if (!pendingSend) return null;
+    const query = redactText(pendingSend.query, redactionMap, redactionSettings);
+    const context = redactText(pendingSend.context, query.map, redactionSettings);
+    // Earlier turns share the map, so a person keeps the same pseudonym across the conversation.
+    let map: PseudonymEntry[] = context.map;
+    const history: Record<string, { role: ConversationTurn['role']; result: RedactionResult }[]> = {};
+    const histories: Record<string, ConversationTurn[]> = pendingSend.history || {};
+    for (const [slotId, turns] of Object.entries(histories)) {
+      history[slotId] = [];
+      for (const turn of turns) {
+        const result = redactText(turn.text, map, redactionSettings);
+        history[slotId].push({ role: turn.role, result });
+        map = result.map;
+      }
+    }
+    return { query, context, history, map };
+  }, [pendingSend, redactionMap, redactionSettings]);
+
+  const pendingTexts = (send: PendingSend) => [
+    send.query,
+    send.context,
+    ...Object.values(send.history || {}).flatMap(turns => turns.map(turn => turn.text)),
+  ];
+
+  // Recomputed when the constitution is amended, since the rules themselves may have changed.
+  const sendViolations = useMemo(() => {
+    if (!pendingSend) return [];
+    return reviewSend({ texts: pendingTexts(pendingSend), redacted: true, exemptTerms: redactionSettings.exemptTerms });
+  }, [pendingSend, redactionSettings, constitution]);
+
+  // Entries are written one at a time, so each chains to the entry recorded just before it.
+  const recordAudit = useCallback((action: AuditAction, summary: string, data: Record<string, unknown>) => {
+    auditQueueRef.current = auditQueueRef.current
+      .then(async () => {
+        auditLogRef.current = await appendAuditEntry(auditLogRef.current, action, summary, data);
+        setAuditLog(auditLogRef.current);
+      })
+      .catch(error => console.error('Error writing audit entry:', error));
+  }, []);
+
+  // Switching cases swaps the whole log; queued so it cannot interleave with a pending append.
+  const replaceAuditLog = (log: AuditEntry[]) => {
+    auditQueueRef.current = auditQueueRef.current.then(() => {
+      auditLogRef.current = log;
+      setAuditLog(log);
+    });
+  };
+
   const addMessage = useCallback((message: Omit<ChatMessage, 'id' | 'timestamp'>) => {
-    setChatMessages(prev => [...prev, { ...message, id: `msg-${Date.now()}`, timestamp: new Date() }]);
+    setChatMessages(prev => [...prev, { ...message, id: `msg-${crypto.randomUUID()}`, timestamp: new Date() }]);
   }, []);
 
   useEffect(() => {
-    const apiKey = process.env.API_KEY;
-    if (!apiKey) {
+    const issues = getConfigurationIssues(loadProviderSettings());
+    if (issues.length > 0) {
       addMessage({
-        text: 'ERROR: Gemini API Key (process.env.API_KEY) is not configured. Please set this environment variable to use the application.',
+        text: `ERROR: AI providers are not fully configured. Open the provider settings to fix:\n${issues.join('\n')}`,
         sender: MessageSender.SYSTEM,
       });
     } else {
@@ -42,7 +199,215 @@ const App: React.FC = () => {
     }
   }, [addMessage]);
 
-  const handleAddFiles = async (files: FileList) => {
+  const currentCaseRecord = (base: ActiveCase): CaseRecord => ({
+    ...base,
+    attachments: caseFiles,
+    transcript: chatMessages.filter(m => !m.isLoading),
+    conversations: allConversations,
+    activeConversationId,
+    notes: notesText,
+    caseNotes,
+    highRisk: isHighRisk,
+    redactionMap,
+    redactionSettings,
+    timelineEdits,
+    contradictions: contradictions || undefined,
+    auditLog,
+    quarantine: quarantine.length > 0 ? quarantine : undefined,
+    updatedAt: new Date().toISOString(),
+  });
+
+  // Autosave the open case to the encrypted case folder shortly after each change.
+  useEffect(() => {
+    if (!vaultKey || !activeCase) return;
+    const timer = setTimeout(async () => {
+      try {
+        await saveCase(vaultKey, currentCaseRecord(activeCase));
+        setSavedCases(await listCases(vaultKey));
+      } catch (error) {
+        console.error('Error saving case:', error);
+      }
+    }, 800);
+    return () => clearTimeout(timer);
+  }, [vaultKey, activeCase, caseFiles, chatMessages, allConversations, activeConversationId, caseNotes, notesText, isHighRisk, redactionMap, redactionSettings, timelineEdits, contradictions, auditLog, quarantine]);
+
+  const handleUnlockVault = async (passphrase: string) => {
+    const key = await unlockVault(passphrase);
+    setVaultKey(key);
+    setSavedCases(await listCases(key));
+    // Keys entered before unlocking are kept alongside, and win over, the ones already in the folder.
+    const apiKeys = { ...await loadApiKeys(key), ...apiKeysOf(loadProviderSettings()) };
+    setSessionApiKeys(apiKeys);
+    await saveApiKeys(key, apiKeys);
+    setProviderSettings(loadProviderSettings());
+    const signingKey = await loadSigningKey(key);
+    if (signingKey) setSigningIdentity(await unlockSigningKey(signingKey));
+  };
+
+  const handleCreateSigningKey = async (owner: string) => {
+    if (!vaultKey) return;
+    const record = await createSigningKey(owner);
+    await saveSigningKey(vaultKey, record);
+    // Your own signatures verify on this device without importing your key file.
+    trustKey({ keyId: record.keyId, owner: record.owner, publicKey: record.publicKey, addedAt: record.createdAt });
+    setSigningIdentity(await unlockSigningKey(record));
+    addMessage({
+      sender: MessageSender.SYSTEM,
+      text: `Signing key created for ${owner} (key ${formatKeyId(record.keyId)}). Sealed reports, custody sheets, case bundles and audit logs are now signed with it. Export the public key for colleagues to trust.`,
+    });
+  };
+
+  const handleExportPublicKey = () => {
+    if (!signingIdentity) return;
+    const { blob, fileName } = exportPublicKey(signingIdentity);
+    downloadBlob(blob, fileName);
+  };
+
+  const describeSignature = (signature?: Signature) => signature
+    ? `Signed by ${signingIdentity?.owner} with key ${formatKeyId(signature.keyId)}.`
+    : 'Not signed: create a signing key in the case folder to sign exports.';
+
+  const handleNewCase = async (name: string) => {
+    if (!vaultKey) return;
+    const newCase: ActiveCase = { id: `case-${Date.now()}`, name, createdAt: new Date().toISOString() };
+    // The first case adopts the unsaved session; later ones start empty.
+    const adoptSession = !activeCase;
+    const attachments = adoptSession ? caseFiles : [];
+    const transcript = adoptSession ? chatMessages.filter(m => !m.isLoading) : [];
+    const threads = adoptSession ? allConversations : [createConversation(MAIN_CONVERSATION_NAME)];
+    const activeThreadId = adoptSession ? activeConversationId : threads[0].id;
+    const notes = adoptSession ? caseNotes : [];
+    const highRisk = adoptSession ? isHighRisk : false;
+    const map = adoptSession ? redactionMap : [];
+    const settings = adoptSession ? redactionSettings : EMPTY_REDACTION_SETTINGS;
+    const edits = adoptSession ? timelineEdits : [];
+    const analysis = adoptSession ? contradictions : null;
+    const log = adoptSession ? auditLogRef.current : [];
+    const held = adoptSession ? quarantine : [];
+    await saveCase(vaultKey, {
+      ...newCase,
+      attachments,
+      transcript,
+      conversations: threads,
+      activeConversationId: activeThreadId,
+      notes: notesToText(notes),
+      caseNotes: notes,
+      highRisk,
+      redactionMap: map,
+      redactionSettings: settings,
+      timelineEdits: edits,
+      contradictions: analysis || undefined,
+      auditLog: log,
+      quarantine: held.length > 0 ? held : undefined,
+      updatedAt: newCase.createdAt,
+    });
+    if (adoptSession) {
+      for (const [hash, original] of originalsRef.current) {
+        await saveEvidenceFile(vaultKey, newCase.id, hash, await original.arrayBuffer());
+      }
+    }
+    originalsRef.current = new Map();
+    setQuarantine(held);
+    setCaseFiles(attachments);
+    setChatMessages(transcript);
+    setConversations(threads);
+    setActiveConversationId(activeThreadId);
+    setCaseNotes(notes);
+    if (!adoptSession) setCaseFilter(EMPTY_CASE_FILTER);
+    setIsHighRisk(highRisk);
+    setRedactionMap(map);
+    setRedactionSettings(settings);
+    setTimelineEdits(edits);
+    setContradictions(analysis);
+    replaceAuditLog(log);
+    setActiveCase(newCase);
+    setSavedCases(await listCases(vaultKey));
+    setIsCaseManagerOpen(false);
+  };
+
+  // Cases saved before notes could be split up hold them as one text.
+  const notesOf = (record: CaseRecord) =>
+    record.caseNotes || (record.notes.trim() ? [createNote('Case notes', record.notes)] : []);
+
+  const handleOpenCase = async (id: string) => {
+    if (!vaultKey) return;
+    const record = await loadCase(vaultKey, id);
+    if (!record) throw new Error('Case not found in the encrypted case folder.');
+    setCaseFiles(record.attachments);
+    // Cases saved before conversations could be forked hold a single transcript.
+    const threads = record.conversations?.length ? record.conversations : [createConversation(MAIN_CONVERSATION_NAME, record.transcript)];
+    const activeThread = threads.find(c => c.id === record.activeConversationId) || threads[0];
+    setChatMessages(activeThread.messages);
+    setConversations(threads);
+    setActiveConversationId(activeThread.id);
+    setCaseNotes(notesOf(record));
+    setCaseFilter(EMPTY_CASE_FILTER);
+    setQuarantine(record.quarantine || []);
+    originalsRef.current = new Map();
+    setIsHighRisk(!!record.highRisk);
+    setRedactionMap(record.redactionMap || []);
+    setRedactionSettings(record.redactionSettings || EMPTY_REDACTION_SETTINGS);
+    setTimelineEdits(record.timelineEdits || []);
+    setContradictions(record.contradictions || null);
+    replaceAuditLog(record.auditLog || []);
+    setActiveCase({ id: record.id, name: record.name, createdAt: record.createdAt });
+    setIsCaseManagerOpen(false);
+  };
+
+  const handleDeleteCase = async (id: string) => {
+    if (!vaultKey) return;
+    await deleteCase(id);
+    if (activeCase?.id === id) {
+      setActiveCase(null);
+    }
+    setSavedCases(await listCases(vaultKey));
+  };
+
+  // Switching is disabled while answers stream, since they are written into the active conversation.
+  const handleSwitchConversation = (id: string) => {
+    const target = allConversations.find(c => c.id === id);
+    if (isLoading || !target || id === activeConversationId) return;
+    setConversations(allConversations);
+    setActiveConversationId(id);
+    setChatMessages(target.messages);
+  };
+
+  // Forking at a question starts just before it, to ask it differently; at any other message, just after it.
+  const handleForkConversation = (messageId: string) => {
+    const source = allConversations.find(c => c.id === activeConversationId);
+    const index = chatMessages.findIndex(m => m.id === messageId);
+    if (isLoading || !source || index < 0) return;
+    const end = chatMessages[index].sender === MessageSender.USER ? index : index + 1;
+    const fork = forkConversation(source, chatMessages.slice(0, end), allConversations);
+    setConversations([...allConversations, fork]);
+    setActiveConversationId(fork.id);
+    setChatMessages(fork.messages);
+  };
+
+  const handlePromoteExcerpt = async (messageId: string, excerpt: string, slotId?: string) => {
+    const message = chatMessages.find(m => m.id === messageId);
+    if (!message || !excerpt.trim()) return;
+    const note = await promoteExcerpt(message, excerpt, slotId, activeConversationId);
+    setCaseNotes(prev => [note, ...prev]);
+    addMessage({ sender: MessageSender.SYSTEM, text: `Added "${note.title}" to the case notes, with the answer it came from.` });
+  };
+
+  // A message linked from a note may be in another conversation.
+  const handleOpenMessage = (messageId: string) => {
+    const conversation = allConversations.find(c => c.messages.some(m => m.id === messageId));
+    if (!conversation) return;
+    if (conversation.id !== activeConversationId) handleSwitchConversation(conversation.id);
+    setIsSidebarOpen(false);
+    setTimeout(() => document.getElementById(`message-${messageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' }), 0);
+  };
+
+  const handleSaveProviderSettings = async (settings: ProviderSettings) => {
+    saveProviderSettings(settings);
+    setProviderSettings(settings);
+    if (vaultKey) await saveApiKeys(vaultKey, apiKeysOf(settings));
+  };
+
+  const handleAddFiles = async (files: FileList, channel: ReceiptChannel = 'workspace') => {
     if (!files || files.length === 0) return;
 
     addMessage({
@@ -52,17 +417,46 @@ const App: React.FC = () => {
     });
 
     const newAttachments: Attachment[] = [];
+    const receivedAgain: { hash: string; file: File }[] = [];
     for (const file of Array.from(files)) {
       try {
         const hash = await calculateSHA512(file);
-        const content = await readTextFromFile(file); // For context
         
-        // Avoid adding duplicates
-        if (!caseFilesRef.current.some(f => f.hash === hash)) {
+        // A file already in the case is not added twice, but its arrival goes on its chain of custody.
+        const existing = caseFilesRef.current.find(f => f.hash === hash);
+        const batchIndex = newAttachments.findIndex(f => f.hash === hash);
+        if (existing || batchIndex >= 0) {
+          if (batchIndex >= 0) newAttachments[batchIndex] = recordReceivedAgain(newAttachments[batchIndex], file, channel);
+          else receivedAgain.push({ hash, file });
+          recordAudit('file_added', `Received ${file.name} again`, {
+            name: file.name,
+            hash,
+            size: file.size,
+            duplicateOf: existing?.name || newAttachments[batchIndex].name,
+          });
+        } else {
+          const extraction = await extractTextFromFile(file); // For context
+          const metadata = await extractMetadata(file);
           newAttachments.push({
             name: file.name,
             hash: hash,
-            content: content,
+            content: extraction.text,
+            extractor: extraction.extractor,
+            lossy: extraction.lossy,
+            extractionNotes: extraction.notes,
+            metadata,
+            chunks: chunkContent(extraction.text),
+            classification: initialClassification(extraction.extractor),
+            custody: openCustodyRecord(file, channel, metadata),
+          });
+          originalsRef.current.set(hash, file);
+          if (vaultKey && activeCase) await saveEvidenceFile(vaultKey, activeCase.id, hash, await file.arrayBuffer());
+          recordAudit('file_added', `Added ${file.name}`, {
+            name: file.name,
+            hash,
+            size: file.size,
+            extractor: extraction.extractor,
+            lossy: extraction.lossy,
           });
         }
       } catch (error) {
@@ -74,49 +468,203 @@ const App: React.FC = () => {
       }
     }
     
-    setCaseFiles(prev => [...prev, ...newAttachments]);
+    setCaseFiles(prev => [
+      ...prev.map(f => receivedAgain.reduce((file, again) => (again.hash === f.hash ? recordReceivedAgain(file, again.file, channel) : file), f)),
+      ...newAttachments,
+    ]);
     
     // Remove "Processing..." message
     setChatMessages(prev => prev.filter(m => !(m.isLoading && m.text.startsWith('Processing'))));
     
     addMessage({
       sender: MessageSender.SYSTEM,
-      text: `Added ${newAttachments.length} new file(s) to the case. Their SHA-512 hashes are now available in the Case Workspace.`,
+      text: `Added ${newAttachments.length} new file(s) to the case. Their SHA-512 hashes are now available in the Case Workspace.`
+        + (receivedAgain.length > 0 ? ` ${receivedAgain.length} file(s) were already in the case; receiving them again was added to their chain of custody.` : ''),
     });
   };
 
   const handleRemoveFile = (hashToRemove: string) => {
+    const removed = caseFilesRef.current.find(file => file.hash === hashToRemove);
+    if (removed && classificationOf(removed).sealed) {
+      addMessage({ sender: MessageSender.SYSTEM, text: `${removed.name} is sealed and cannot be removed. Unseal it first.` });
+      return;
+    }
     setCaseFiles(prevFiles => prevFiles.filter(file => file.hash !== hashToRemove));
+    if (removed) recordAudit('file_removed', `Removed ${removed.name}`, { name: removed.name, hash: removed.hash });
+  };
+
+  const handleClassifyFile = (hash: string, classification: EvidenceClassification) => {
+    const file = caseFilesRef.current.find(f => f.hash === hash);
+    if (!file) return;
+    const previous = classificationOf(file);
+    setCaseFiles(prevFiles => prevFiles.map(f => (f.hash === hash ? { ...f, classification } : f)));
+    const summary = classification.sealed !== previous.sealed
+      ? `${classification.sealed ? 'Sealed' : 'Unsealed'} ${file.name}`
+      : `Reclassified ${file.name}`;
+    recordAudit('file_classified', summary, { name: file.name, hash, previous, classification });
+  };
+
+  const handleRecordCustody = (hash: string, details: CustodyDetails) => {
+    setCaseFiles(prevFiles => prevFiles.map(f => (f.hash === hash ? recordCustodyDetails(f, details) : f)));
+  };
+
+  // Appends a custody event to each file the summary function returns a summary for.
+  const recordCustody = (kind: 'sent_to_providers' | 'exported', summaryOf: (file: Attachment) => string | null) => {
+    setCaseFiles(prevFiles => prevFiles.map(f => {
+      const summary = summaryOf(f);
+      return summary ? recordCustodyEvent(f, kind, summary) : f;
+    }));
+  };
+
+  const handleRunAnalysis = async () => {
+    setIsAnalyzing(true);
+    try {
+      const analysis = await analyzeContradictions(caseFiles, notesText, timeline);
+      setContradictions(analysis);
+      addMessage({
+        sender: MessageSender.SYSTEM,
+        text: `Contradiction analysis complete: ${analysis.findings.length} finding(s) across ${caseFiles.length} file(s). See Findings in the Case Workspace.`,
+      });
+    } catch (e) {
+      console.error('Error running contradiction analysis:', e);
+      addMessage({
+        sender: MessageSender.SYSTEM,
+        text: `Error: Contradiction analysis failed. ${e instanceof Error ? e.message : ''}`.trim(),
+      });
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  const buildFileContext = (files = caseFilesRef.current) => {
+    let context = "CASE FILE CONTEXT:\n";
+    if (files.length > 0) {
+      context += files.map(f => `File: ${f.name}${describeExtraction(f)}\nContent: ${f.content}`).join('\n\n');
+    } else {
+      context += "No files have been added to the case yet.";
+    }
+    return context;
   };
 
   const handleSendMessage = async (query: string, attachedFiles?: FileList) => {
     if (attachedFiles && attachedFiles.length > 0) {
-      await handleAddFiles(attachedFiles);
+      await handleAddFiles(attachedFiles, 'chat');
     }
 
     if (!query.trim()) return;
 
-    const apiKey = process.env.API_KEY;
-    if (!apiKey) {
+    const issues = getConfigurationIssues(providerSettings, isHighRisk);
+    if (issues.length > 0) {
       addMessage({
-        text: 'ERROR: API Key is not configured. Cannot send message.',
+        text: `ERROR: Cannot send message. ${issues.join(' ')}`,
         sender: MessageSender.SYSTEM,
       });
       return;
     }
     
+    // Each slot is reminded of its own earlier answers in this conversation.
+    const slots = isHighRisk ? providerSettings.slots : providerSettings.slots.slice(0, 2);
+    const earlier = chatMessages.filter(m => !m.isLoading);
+    const history = Object.fromEntries(slots.map(slot => [slot.id, buildHistory(earlier, slot.id, providerSettings.memory.historyTokenBudget)]));
+    // Shared notes travel with the context, so they are redacted and reviewed with it.
+    const sharedNotes = notesForProviders(caseNotes);
+    const withNotes = (context: string) => (sharedNotes ? `${context}\n\n${sharedNotes}` : context);
+
+    // A scoped query only retrieves from, and only quotes, the files that pass the case filter.
+    const scope = isQueryScoped && isFilterActive(caseFilter) ? describeFilter(caseFilter) : undefined;
+    const files = scope ? caseFilesRef.current.filter(file => matchesFilter(file, caseFilter)) : caseFilesRef.current;
+    if (scope && files.length === 0) {
+      addMessage({ sender: MessageSender.SYSTEM, text: `No case files match the scope (${scope}). Change the case filter or ask about the whole case.` });
+      return;
+    }
+
+    if (files.length === 0) {
+      setPendingSend({ query, context: withNotes(buildFileContext()), purpose: 'chat', history });
+      return;
+    }
+    const retrieval = await retrieveContext(buildRetrievalIndex(files), query, providerSettings);
+    if (retrieval.embedding) {
+      const { model, passages } = retrieval.embedding;
+      recordAudit('embedding_request', `Embedded the query and ${passages} passage(s) with ${model}`, { ...retrieval.embedding });
+    }
+    if (retrieval.warning) addMessage({ sender: MessageSender.SYSTEM, text: retrieval.warning });
+    // Apart from the re-rank on this device, nothing leaves it until the user has reviewed the redacted text.
+    setPendingSend({
+      query,
+      context: withNotes(retrieval.context || buildFileContext(files)),
+      purpose: 'chat',
+      sources: retrieval.sources,
+      history,
+      files: scope ? files : undefined,
+      scope,
+    });
+  };
+
+  const handleGenerateReport = () => {
+    if (caseFiles.length === 0) {
+      addMessage({ sender: MessageSender.SYSTEM, text: 'Add files to the case before generating a case report.' });
+      return;
+    }
+    const issues = getConfigurationIssues(providerSettings);
+    if (issues.length > 0) {
+      addMessage({ text: `ERROR: Cannot generate a case report. ${issues.join(' ')}`, sender: MessageSender.SYSTEM });
+      return;
+    }
+    const context = buildReportContext(buildFileContext(), notesToText(caseNotes.filter(note => note.sendToProviders)), timeline, contradictions?.findings || []);
+    setPendingSend({ query: REPORT_QUERY, context, purpose: 'report' });
+  };
+
+  const handleExemptTerm = (term: string) => {
+    setRedactionSettings(prev => ({
+      customTerms: prev.customTerms.filter(t => t.toLowerCase() !== term.toLowerCase()),
+      exemptTerms: [...prev.exemptTerms.filter(t => t.toLowerCase() !== term.toLowerCase()), term],
+    }));
+  };
+
+  const handleRestoreTerm = (term: string) => {
+    setRedactionSettings(prev => ({ ...prev, exemptTerms: prev.exemptTerms.filter(t => t !== term) }));
+  };
+
+  const handleAddRedactionTerm = (term: string) => {
+    setRedactionSettings(prev => ({
+      customTerms: [...prev.customTerms.filter(t => t.toLowerCase() !== term.toLowerCase()), term],
+      exemptTerms: prev.exemptTerms.filter(t => t.toLowerCase() !== term.toLowerCase()),
+    }));
+  };
+
+  const handleApproveSend = async (redacted = true) => {
+    if (!pendingSend || !pendingRedaction) return;
+    const { query, purpose, sources, scope } = pendingSend;
+
+    // The preview already blocks these sends; this is the check that actually guards the providers.
+    const violations = reviewSend({ texts: pendingTexts(pendingSend), redacted, exemptTerms: redactionSettings.exemptTerms });
+    if (violations.length > 0) {
+      recordAudit('send_refused', 'Send refused by the constitution', { purpose, redacted, violations });
+      addMessage({ sender: MessageSender.SYSTEM, text: `Refused by the constitution:\n${violations.join('\n')}` });
+      return;
+    }
+
+    const sentQuery = redacted ? pendingRedaction.query.text : query;
+    const sentContext = redacted ? pendingRedaction.context.text : pendingSend.context;
+    const map = redacted ? pendingRedaction.map : redactionMap;
+    const sentHistory: Record<string, ConversationTurn[]> = redacted
+      ? Object.fromEntries(Object.keys(pendingSend.history || {}).map(slotId =>
+        [slotId, pendingRedaction.history[slotId].map(turn => ({ role: turn.role, text: turn.result.text }))]))
+      : pendingSend.history || {};
+    setPendingSend(null);
+    setRedactionMap(map);
     setIsLoading(true);
 
     const userMessage: ChatMessage = {
-      id: `user-${Date.now()}`,
+      id: `user-${crypto.randomUUID()}`,
       text: query,
       sender: MessageSender.USER,
       timestamp: new Date(),
-      attachments: caseFiles, // Attach current case file state
+      attachments: pendingSend.files || caseFiles, // Attach the case file state the question was asked about
     };
     
     const modelPlaceholderMessage: ChatMessage = {
-      id: `model-${Date.now()}`,
+      id: `model-${crypto.randomUUID()}`,
       text: 'Thinking...', 
       sender: MessageSender.MODEL,
       timestamp: new Date(),
@@ -124,16 +672,85 @@ const App: React.FC = () => {
     };
 
     setChatMessages(prev => [...prev, userMessage, modelPlaceholderMessage]);
-    
-    let context = "CASE FILE CONTEXT:\n";
-    if (caseFilesRef.current.length > 0) {
-      context += caseFilesRef.current.map(f => `File: ${f.name}\nContent: ${f.content}`).join('\n\n');
-    } else {
-      context += "No files have been added to the case yet.";
-    }
+
+    const slots = purpose === 'report' ? providerSettings.slots.slice(0, 1) : isHighRisk ? providerSettings.slots : providerSettings.slots.slice(0, 2);
+    recordAudit('prompt_sent', purpose === 'report' ? 'Sent case report request' : `Sent query to ${slots.length} provider(s)`, {
+      purpose,
+      query: sentQuery,
+      context: sentContext,
+      redacted,
+      providers: slots.map(slot => ({ slot: slot.label, provider: slot.provider, model: resolveSlotConfig(providerSettings, slot).model })),
+      highRisk: isHighRisk,
+      pseudonyms: map.length,
+      passages: sources?.map(s => ({ label: s.label, fileHash: s.fileHash, lines: `${s.lineStart}-${s.lineEnd}`, tokens: s.tokens })),
+      conversation: activeConversationId,
+      scope,
+      history: purpose === 'chat' ? slots.map(slot => ({ slot: slot.label, turns: sentHistory[slot.id] || [] })) : undefined,
+    });
+    const recipients = `${slots.map(slot => slot.label).join(', ')}${redacted ? ', redacted' : ', unredacted'}`;
+    const sentFiles = new Set((pendingSend.files || caseFiles).map(f => f.hash));
+    recordCustody('sent_to_providers', file => {
+      if (sources?.length) {
+        const passages = sources.filter(s => s.fileHash === file.hash).length;
+        return passages > 0 ? `${passages} passage(s) sent to ${recipients}` : null;
+      }
+      if (!sentFiles.has(file.hash)) return null;
+      return `${purpose === 'report' ? 'Full text sent for a case report' : 'Full text sent'} to ${recipients}`;
+    });
 
     try {
-      const response = await getAssistantResponse(query, context);
+      let response: Partial<ChatMessage>;
+      if (purpose === 'report') {
+        const record = await generateCaseReport(sentContext, providerSettings, caseFiles);
+        recordAudit('response_received', `Case report from ${record.provider}`, {
+          provider: record.provider,
+          attempts: record.attempts,
+          repairs: record.repairs,
+          constitution: record.stamp,
+          report: record.report,
+        });
+        const report = redacted ? { ...record, report: rehydrateCaseReport(record.report, map) } : record;
+        response = { text: caseReportToMarkdown(report), report, constitution: record.stamp };
+      } else {
+        const controllers = new Map<string, AbortController>(slots.map(slot => [slot.id, new AbortController()]));
+        streamControllersRef.current = controllers;
+        const sentResponse = await getAssistantResponse(sentQuery, sentContext, providerSettings, isHighRisk, {
+          signals: Object.fromEntries([...controllers].map(([slotId, controller]) => [slotId, controller.signal])),
+          history: sentHistory,
+          // Partial answers are shown with pseudonyms restored, like the final one.
+          onProgress: partial => setChatMessages(prev => prev.map(msg =>
+            msg.id === modelPlaceholderMessage.id
+              ? { ...msg, responses: redacted ? partial.map(r => ({ ...r, text: rehydrateText(r.text, map) })) : partial }
+              : msg)),
+        });
+        const answer = redacted ? rehydrateResponse(sentResponse, map) : sentResponse;
+        // Citations can only be checked when the line-numbered excerpts were sent. They are checked
+        // against the original files, so quotes are compared with pseudonyms restored.
+        const cites = !!sources && sources.length > 0;
+        const responses = (answer.responses || []).map(r => ({ ...r, citations: cites ? verifyCitations(r.text, caseFiles, sources) : undefined }));
+        recordAudit('response_received', `Answers from ${responses.length} provider(s)`, {
+          responses: (sentResponse.responses || []).map((r, i) => ({
+            slot: r.label,
+            provider: r.provider,
+            model: r.model,
+            text: r.text,
+            status: r.status,
+            error: r.error,
+            attempts: r.attempts,
+            latencyMs: r.latencyMs,
+            firstTokenMs: r.firstTokenMs,
+            usage: r.usage,
+            citations: responses[i].citations?.length,
+            fabricatedCitations: responses[i].citations?.filter(isFabricated).map(c => ({ citation: c.citation, status: c.status })),
+          })),
+          isDivergent: !!sentResponse.isDivergent,
+          constitution: sentResponse.constitution,
+        });
+        response = { ...answer, responses };
+        if (sources) {
+          response.sources = markCitedSources(sources, responses.flatMap(r => r.citations || []));
+        }
+      }
       
       setChatMessages(prev =>
         prev.map(msg =>
@@ -142,8 +759,11 @@ const App: React.FC = () => {
             : msg
         )
       );
-    } catch (e: any) {
-      const errorMessage = e.message || 'Failed to get response from AI.';
+    } catch (e) {
+      const errorMessage = e instanceof ProviderError
+        ? `${FAILURE_LABELS[e.kind]} after ${e.attempts} attempt(s): ${e.message}`
+        : (e instanceof Error && e.message) || 'Failed to get response from AI.';
+      recordAudit('response_failed', errorMessage, { purpose, error: errorMessage, kind: e instanceof ProviderError ? e.kind : undefined });
       setChatMessages(prev =>
         prev.map(msg =>
           msg.id === modelPlaceholderMessage.id
@@ -152,10 +772,170 @@ const App: React.FC = () => {
         )
       );
     } finally {
+      streamControllersRef.current = new Map();
       setIsLoading(false);
     }
   };
 
+  // Dictation is transcribed like audio evidence, but only the words are kept; they go through redaction when sent.
+  const handleTranscribe = async (audio: Blob, fileName: string) => {
+    const transcript = await transcribeAudio(audio, providerSettings.transcription, fileName);
+    return transcript.segments.map(s => s.text).join(' ');
+  };
+
+  // Cancels one provider's stream, or every stream when no slot is given.
+  const handleCancelStream = (slotId?: string) => {
+    for (const [id, controller] of streamControllersRef.current) {
+      if (!slotId || id === slotId) controller.abort();
+    }
+  };
+
+  const handleExportReport = async () => {
+    setIsExporting(true);
+    try {
+      const report = await generateSealedReport(chatMessages, caseFiles, caseNotes, signingIdentity);
+      downloadBlob(report.blob, report.fileName);
+      registerSeal(report);
+      recordCustody('exported', () => `Listed in sealed report ${report.fileName}`);
+      recordAudit('export', `Exported sealed report ${report.fileName}`, {
+        fileName: report.fileName,
+        reportHash: report.reportHash,
+        documentHash: report.documentHash,
+        fileHash: report.fileHash,
+        signedWith: report.signature?.keyId,
+      });
+      addMessage({
+        sender: MessageSender.SYSTEM,
+        text: `Sealed report exported as ${report.fileName}.\nReport SHA-512: ${report.reportHash}\n${describeSignature(report.signature)}`,
+      });
+    } catch (e) {
+      console.error('Error generating sealed report:', e);
+      addMessage({
+        sender: MessageSender.SYSTEM,
+        text: `Error: Failed to generate sealed report. ${e instanceof Error ? e.message : ''}`.trim(),
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleExportCustodySheet = async (hashes: string[]) => {
+    const files = caseFilesRef.current.filter(f => hashes.includes(f.hash));
+    try {
+      const sheet = await generateCustodySheet(files, activeCase?.name, signingIdentity);
+      downloadBlob(sheet.blob, sheet.fileName);
+      registerSeal(sheet);
+      recordCustody('exported', file => (hashes.includes(file.hash) ? `Custody sheet ${sheet.fileName} exported` : null));
+      recordAudit('export', `Exported custody sheet ${sheet.fileName}`, {
+        fileName: sheet.fileName,
+        files: files.map(f => ({ name: f.name, hash: f.hash })),
+        reportHash: sheet.reportHash,
+        documentHash: sheet.documentHash,
+        fileHash: sheet.fileHash,
+        signedWith: sheet.signature?.keyId,
+      });
+      addMessage({
+        sender: MessageSender.SYSTEM,
+        text: `Custody sheet for ${files.length} file(s) exported as ${sheet.fileName}.\nSheet SHA-512: ${sheet.reportHash}\n${describeSignature(sheet.signature)}`,
+      });
+    } catch (e) {
+      console.error('Error generating custody sheet:', e);
+      addMessage({ sender: MessageSender.SYSTEM, text: `Error: Failed to generate the custody sheet. ${e instanceof Error ? e.message : ''}`.trim() });
+    }
+  };
+
+  const originalOf = async (hash: string) => {
+    const original = originalsRef.current.get(hash);
+    if (original) return new Uint8Array(await original.arrayBuffer());
+    return vaultKey && activeCase ? loadEvidenceFile(vaultKey, activeCase.id, hash) : null;
+  };
+
+  const handleExportBundle = async () => {
+    if (!activeCase) return;
+    const bundle = await exportCaseBundle(currentCaseRecord(activeCase), originalOf, signingIdentity);
+    downloadBlob(bundle.blob, bundle.fileName);
+    recordCustody('exported', () => `Packed with its original into case bundle ${bundle.fileName}`);
+    recordAudit('export', `Exported case bundle ${bundle.fileName}`, {
+      fileName: bundle.fileName,
+      manifestHash: bundle.manifestHash,
+      files: caseFilesRef.current.length,
+      signedWith: bundle.signature?.keyId,
+    });
+    addMessage({
+      sender: MessageSender.SYSTEM,
+      text: `Case bundle exported as ${bundle.fileName}.\nManifest SHA-512: ${bundle.manifestHash}\n${describeSignature(bundle.signature)}`,
+    });
+  };
+
+  // The bundle is verified before anything is stored; it becomes a new case, so no saved case is overwritten.
+  const handleImportBundle = async (file: File) => {
+    if (!vaultKey) return;
+    const imported = await importCaseBundle(new Uint8Array(await file.arrayBuffer()), file.name);
+    const id = `case-${Date.now()}`;
+    await saveCase(vaultKey, { ...imported.record, id });
+    for (const [hash, bytes] of imported.originals) {
+      await saveEvidenceFile(vaultKey, id, hash, bytes);
+    }
+    for (const { file: held, bytes } of imported.quarantined) {
+      if (bytes && held.actualHash) await saveEvidenceFile(vaultKey, id, `quarantine:${held.actualHash}`, bytes);
+    }
+    await handleOpenCase(id);
+    setSavedCases(await listCases(vaultKey));
+    recordAudit('case_imported', `Imported case bundle ${file.name}`, {
+      fileName: file.name,
+      manifestHash: imported.manifestHash,
+      signature: imported.signature,
+      originalCaseId: imported.record.id,
+      files: imported.record.attachments.map(f => ({ name: f.name, hash: f.hash })),
+      textOnly: imported.textOnly,
+      quarantined: imported.quarantined.map(q => q.file),
+    });
+    const quarantined = imported.quarantined.length > 0
+      ? `\n${imported.quarantined.length} file(s) failed verification and were quarantined: ${imported.quarantined.map(q => q.file.name).join(', ')}.`
+      : '';
+    const textOnly = imported.textOnly.length > 0 ? `\n${imported.textOnly.length} file(s) came as extracted text only, without the original.` : '';
+    addMessage({
+      sender: MessageSender.SYSTEM,
+      text: `Imported "${imported.record.name}" from ${file.name}. ${imported.signature.detail} ${imported.originals.size} original file(s) matched the manifest's SHA-512.${quarantined}${textOnly}`,
+    });
+  };
+
+  const handleDownloadQuarantined = async (held: QuarantinedFile) => {
+    const bytes = vaultKey && activeCase && held.actualHash ? await loadEvidenceFile(vaultKey, activeCase.id, `quarantine:${held.actualHash}`) : null;
+    if (!bytes) {
+      addMessage({ sender: MessageSender.SYSTEM, text: `The bundle did not contain ${held.name}, so there is nothing to download.` });
+      return;
+    }
+    downloadBlob(new Blob([bytes]), `quarantined-${held.name}`);
+  };
+
+  const handleReportExported = async (fileName: string, content: string) => {
+    recordAudit('export', `Exported case report ${fileName}`, { fileName, hash: await calculateSHA512FromBytes(content) });
+  };
+
+  const handleExportAuditLog = async () => {
+    const head = await signAuditHead(auditLogRef.current, signingIdentity);
+    const content = JSON.stringify({ head, entries: auditLogRef.current }, null, 2);
+    const fileName = `audit-log-${(activeCase?.name || 'unsaved-case').replace(/[^\w-]+/g, '-')}.json`;
+    downloadBlob(new Blob([content], { type: 'application/json' }), fileName);
+    recordAudit('export', `Exported audit log ${fileName}`, {
+      fileName,
+      entries: auditLogRef.current.length,
+      hash: await calculateSHA512FromBytes(content),
+      signedWith: head?.signature?.keyId,
+    });
+  };
+
+  const handleAmendConstitution = async (text: string, approval: ConstitutionChangeApproval) => {
+    const amendment = await amendConstitution(text, approval);
+    setConstitution(getActiveConstitution());
+    recordAudit('constitution_changed', `Constitution amended: ${amendment.reason}`, { ...amendment });
+    addMessage({
+      sender: MessageSender.SYSTEM,
+      text: `The constitution was amended (v${amendment.version}). Answers from now on are stamped with SHA-512 ${amendment.hash.substring(0, 16)}...`,
+    });
+  };
+
   const placeholderText = caseFiles.length > 0
     ? "Ask a question about the case files..."
     : "Add files to the Case Workspace to begin.";
@@ -166,6 +946,38 @@ const App: React.FC = () => {
       <header className="absolute top-0 left-0 right-0 p-4 flex justify-between items-center text-sm z-10 pointer-events-none">
         <div className="flex items-center gap-2 pointer-events-auto">
           <span className="bg-blue-500/20 text-blue-300 text-xs font-semibold px-2 py-0.5 rounded-full border border-blue-500/30">Citizen Mode</span>
+          <button
+            onClick={() => setIsCaseManagerOpen(true)}
+            className="flex items-center gap-1.5 text-xs text-[#A8ABB4] hover:text-white px-2 py-0.5 rounded-full border border-[rgba(255,255,255,0.1)] hover:bg-white/10 transition-colors"
+            aria-label="Open encrypted case folder"
+          >
+            <FolderLock size={12} />
+            <span className="truncate max-w-[10rem]">{activeCase ? activeCase.name : 'Unsaved case'}</span>
+          </button>
+          <button
+            onClick={() => setIsProviderSettingsOpen(true)}
+            className="flex items-center gap-1.5 text-xs text-[#A8ABB4] hover:text-white px-2 py-0.5 rounded-full border border-[rgba(255,255,255,0.1)] hover:bg-white/10 transition-colors"
+            aria-label="Open AI provider settings"
+          >
+            <SlidersHorizontal size={12} />
+            <span>Providers</span>
+          </button>
+          <button
+            onClick={() => setIsAuditLogOpen(true)}
+            className="flex items-center gap-1.5 text-xs text-[#A8ABB4] hover:text-white px-2 py-0.5 rounded-full border border-[rgba(255,255,255,0.1)] hover:bg-white/10 transition-colors"
+            aria-label="Open audit log"
+          >
+            <ScrollText size={12} />
+            <span>Audit</span>
+          </button>
+          <button
+            onClick={() => setIsConstitutionOpen(true)}
+            className={`flex items-center gap-1.5 text-xs hover:text-white px-2 py-0.5 rounded-full border hover:bg-white/10 transition-colors ${constitution.source === 'amended' ? 'text-amber-300 border-amber-500/30' : 'text-[#A8ABB4] border-[rgba(255,255,255,0.1)]'}`}
+            aria-label="Open constitution"
+          >
+            <Landmark size={12} />
+            <span>Constitution v{constitution.constitution.version}</span>
+          </button>
         </div>
         <div className="text-xs text-gray-500 hidden md:block">
           Institutions pay after trial.
@@ -191,6 +1003,24 @@ const App: React.FC = () => {
             attachments={caseFiles}
             onAddFiles={handleAddFiles}
             onRemoveFile={handleRemoveFile}
+            onClassifyFile={handleClassifyFile}
+            onRecordCustody={handleRecordCustody}
+            onExportCustodySheet={handleExportCustodySheet}
+            quarantine={quarantine}
+            onDownloadQuarantined={handleDownloadQuarantined}
+            filter={caseFilter}
+            onFilterChange={setCaseFilter}
+            notes={caseNotes}
+            notesText={notesText}
+            onNotesChange={setCaseNotes}
+            messages={allMessages}
+            onOpenMessage={handleOpenMessage}
+            timeline={timeline}
+            onSaveTimelineEvent={event => setTimelineEdits(prev => saveTimelineEdit(prev, event))}
+            onDismissTimelineEvent={event => setTimelineEdits(prev => dismissTimelineEvent(prev, event))}
+            contradictions={contradictions}
+            isAnalyzing={isAnalyzing}
+            onRunAnalysis={handleRunAnalysis}
             onCloseSidebar={() => setIsSidebarOpen(false)}
           />
         </div>
@@ -199,15 +1029,90 @@ const App: React.FC = () => {
         <div className="w-full h-full p-3 pt-14 md:p-0 md:w-2/3 lg:w-3/4">
           <ChatInterface
             messages={chatMessages}
+            conversations={allConversations}
+            activeConversationId={activeConversationId}
+            onSwitchConversation={handleSwitchConversation}
+            onForkConversation={handleForkConversation}
+            onPromoteExcerpt={handlePromoteExcerpt}
+            attachments={caseFiles}
             onSendMessage={handleSendMessage}
+            onTranscribe={handleTranscribe}
+            queryScope={queryScope}
+            isQueryScoped={isQueryScoped}
+            onToggleQueryScope={() => setIsQueryScoped(prev => !prev)}
+            onCancelStream={handleCancelStream}
             isLoading={isLoading}
             placeholderText={placeholderText}
             onToggleSidebar={() => setIsSidebarOpen(true)}
-            onAddFiles={handleAddFiles}
+            onAddFiles={files => handleAddFiles(files, 'chat')}
+            onExportReport={handleExportReport}
+            isExporting={isExporting}
+            onGenerateReport={handleGenerateReport}
+            onReportExported={handleReportExported}
+            isHighRisk={isHighRisk}
+            onToggleHighRisk={() => setIsHighRisk(prev => !prev)}
           />
         </div>
       </div>
       
+      <CaseManager
+        isOpen={isCaseManagerOpen}
+        isUnlocked={!!vaultKey}
+        cases={savedCases}
+        activeCaseId={activeCase?.id}
+        onClose={() => setIsCaseManagerOpen(false)}
+        onUnlock={handleUnlockVault}
+        onNewCase={handleNewCase}
+        onOpenCase={handleOpenCase}
+        onDeleteCase={handleDeleteCase}
+        onExportBundle={handleExportBundle}
+        onImportBundle={handleImportBundle}
+        signingIdentity={signingIdentity}
+        onCreateSigningKey={handleCreateSigningKey}
+        onExportPublicKey={handleExportPublicKey}
+      />
+
+      {pendingRedaction && (
+        <RedactionPreview
+          query={pendingRedaction.query}
+          context={pendingRedaction.context}
+          scope={pendingSend?.scope}
+          history={providerSettings.slots
+            .filter(slot => pendingRedaction.history[slot.id]?.length)
+            .map(slot => ({ label: slot.label, turns: pendingRedaction.history[slot.id] }))}
+          exemptTerms={redactionSettings.exemptTerms}
+          violations={sendViolations}
+          onApprove={() => handleApproveSend()}
+          onApproveUnredacted={allowsUnredactedSend() ? () => handleApproveSend(false) : undefined}
+          onCancel={() => setPendingSend(null)}
+          onExemptTerm={handleExemptTerm}
+          onRestoreTerm={handleRestoreTerm}
+          onAddTerm={handleAddRedactionTerm}
+        />
+      )}
+
+      <AuditLogViewer
+        isOpen={isAuditLogOpen}
+        log={auditLog}
+        onClose={() => setIsAuditLogOpen(false)}
+        onExport={handleExportAuditLog}
+      />
+
+      <ConstitutionPanel
+        isOpen={isConstitutionOpen}
+        active={constitution}
+        onClose={() => setIsConstitutionOpen(false)}
+        onAmend={handleAmendConstitution}
+      />
+
+      <ProviderSettingsPanel
+        isOpen={isProviderSettingsOpen}
+        settings={providerSettings}
+        onClose={() => setIsProviderSettingsOpen(false)}
+        onSave={handleSaveProviderSettings}
+        keysEncrypted={!!vaultKey}
+      />
+
       {/* Footer */}
       <footer className="absolute bottom-0 left-0 right-0 p-2 text-center text-xs text-gray-600 hidden md:block">
         Privacy Disclaimer: All processing is done client-side.
@@ -0,0 +1,144 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { X, ShieldCheck, ShieldX, Download, Loader2 } from 'lucide-react';
+import { AuditAction, AuditEntry, AuditVerification } from '../types';
+import { verifyAuditLog } from '../services/auditService';
+
+interface AuditLogViewerProps {
+  isOpen: boolean;
+  log: AuditEntry[];
+  onClose: () => void;
+  onExport: () => void;
+}
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  file_added: 'File added',
+  file_removed: 'File removed',
+  prompt_sent: 'Prompt sent',
+  send_refused: 'Refused',
+  response_received: 'Response',
+  response_failed: 'Failed',
+  export: 'Export',
+  constitution_changed: 'Constitution',
+  embedding_request: 'Embedding',
+  file_classified: 'Classified',
+  case_imported: 'Imported',
+};
+
+const ACTION_STYLES: Record<AuditAction, string> = {
+  file_added: 'text-green-300',
+  file_removed: 'text-red-300',
+  prompt_sent: 'text-blue-300',
+  send_refused: 'text-red-300',
+  response_received: 'text-purple-300',
+  response_failed: 'text-red-300',
+  export: 'text-amber-300',
+  constitution_changed: 'text-amber-300',
+  embedding_request: 'text-blue-300',
+  file_classified: 'text-blue-300',
+  case_imported: 'text-green-300',
+};
+
+const AuditLogViewer: React.FC<AuditLogViewerProps> = ({ isOpen, log, onClose, onExport }) => {
+  const [verification, setVerification] = useState<AuditVerification | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  // A result only describes the log it was run on.
+  useEffect(() => setVerification(null), [log]);
+
+  if (!isOpen) return null;
+
+  const handleVerify = async () => {
+    setIsVerifying(true);
+    try {
+      setVerification(await verifyAuditLog(log));
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-40 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[85vh] flex flex-col bg-[#1E1E1E] rounded-xl shadow-md border border-[rgba(255,255,255,0.05)] p-4"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-xl font-semibold text-[#E2E2E2]">Audit Log</h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-[#A8ABB4] hover:text-white rounded-md hover:bg-white/10 transition-colors"
+            aria-label="Close audit log"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex items-center justify-between gap-2 mb-3 text-xs">
+          <span className="text-[#777777]">{log.length} entr{log.length === 1 ? 'y' : 'ies'}, each chained to the previous by SHA-512</span>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={handleVerify}
+              disabled={isVerifying || log.length === 0}
+              className="flex items-center gap-1 px-2 py-1 text-[#A8ABB4] hover:text-white rounded hover:bg-white/10 disabled:text-[#555] disabled:hover:bg-transparent"
+            >
+              {isVerifying ? <Loader2 size={12} className="animate-spin" /> : <ShieldCheck size={12} />} Verify chain
+            </button>
+            <button
+              onClick={onExport}
+              disabled={log.length === 0}
+              className="flex items-center gap-1 px-2 py-1 text-[#A8ABB4] hover:text-white rounded hover:bg-white/10 disabled:text-[#555] disabled:hover:bg-transparent"
+            >
+              <Download size={12} /> Export
+            </button>
+          </div>
+        </div>
+
+        {verification && (
+          <div className={`mb-3 p-2 rounded-md text-xs flex items-start gap-1.5 ${verification.intact ? 'bg-green-500/10 text-green-300' : 'bg-red-500/10 text-red-300'}`}>
+            {verification.intact ? <ShieldCheck size={14} className="flex-shrink-0" /> : <ShieldX size={14} className="flex-shrink-0" />}
+            <span>
+              {verification.intact
+                ? `Chain intact: all ${verification.checked} entries match their hashes.`
+                : `Chain broken at entry ${verification.brokenAt}. ${verification.reason} Entries before it (${verification.checked}) are intact.`}
+            </span>
+          </div>
+        )}
+
+        <div className="flex-grow overflow-y-auto chat-container pr-1 space-y-1.5">
+          {log.length === 0 && <p className="text-[#777777] text-center py-3 text-sm">Nothing recorded for this case yet.</p>}
+          {[...log].reverse().map(entry => (
+            <div
+              key={entry.index}
+              className={`p-2 bg-[#2C2C2C] rounded-md text-xs border ${verification?.brokenAt === entry.index ? 'border-red-500/50' : 'border-[rgba(255,255,255,0.05)]'}`}
+            >
+              <button onClick={() => setExpanded(expanded === entry.index ? null : entry.index)} className="w-full text-left">
+                <div className="flex items-center gap-2">
+                  <span className="font-mono text-[#777777]">#{entry.index}</span>
+                  <span className={`font-semibold ${ACTION_STYLES[entry.action]}`}>{ACTION_LABELS[entry.action]}</span>
+                  <span className="text-[#E2E2E2] truncate flex-grow">{entry.summary}</span>
+                  <span className="text-[#777777] flex-shrink-0">{new Date(entry.timestamp).toLocaleString()}</span>
+                </div>
+                <div className="mt-0.5 font-mono text-[10px] text-[#777777] truncate" title={entry.hash}>
+                  SHA512 {entry.hash.substring(0, 24)}... prev {entry.previousHash.substring(0, 12)}...
+                </div>
+              </button>
+              {expanded === entry.index && (
+                <pre className="mt-1.5 p-1.5 bg-[#1E1E1E] rounded text-[11px] text-[#A8ABB4] whitespace-pre-wrap break-words max-h-80 overflow-y-auto">
+                  {JSON.stringify(entry.data, null, 2)}
+                </pre>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AuditLogViewer;
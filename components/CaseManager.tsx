@@ -0,0 +1,261 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { X, Lock, FolderOpen, FolderPlus, Trash2, PackageOpen, PackagePlus, KeyRound, Download } from 'lucide-react';
+import { CaseSummary, SigningIdentity } from '../types';
+import { formatKeyId } from '../services/signingService';
+
+interface CaseManagerProps {
+  isOpen: boolean;
+  isUnlocked: boolean;
+  cases: CaseSummary[];
+  activeCaseId?: string;
+  onClose: () => void;
+  onUnlock: (passphrase: string) => Promise<void>;
+  onNewCase: (name: string) => Promise<void>;
+  onOpenCase: (id: string) => Promise<void>;
+  onDeleteCase: (id: string) => Promise<void>;
+  onExportBundle: () => Promise<void>;
+  onImportBundle: (file: File) => Promise<void>;
+  signingIdentity: SigningIdentity | null;
+  onCreateSigningKey: (owner: string) => Promise<void>;
+  onExportPublicKey: () => void;
+}
+
+const CaseManager: React.FC<CaseManagerProps> = ({
+  isOpen,
+  isUnlocked,
+  cases,
+  activeCaseId,
+  onClose,
+  onUnlock,
+  onNewCase,
+  onOpenCase,
+  onDeleteCase,
+  onExportBundle,
+  onImportBundle,
+  signingIdentity,
+  onCreateSigningKey,
+  onExportPublicKey,
+}) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [newCaseName, setNewCaseName] = useState('');
+  const [keyOwner, setKeyOwner] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  if (!isOpen) return null;
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    setIsBusy(true);
+    try {
+      await action();
+    } catch (e) {
+      setError((e instanceof Error && e.message) || 'Operation failed.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleUnlock = () => run(async () => {
+    await onUnlock(passphrase);
+    setPassphrase('');
+  });
+
+  const handleNewCase = () => run(async () => {
+    await onNewCase(newCaseName.trim());
+    setNewCaseName('');
+  });
+
+  const handleCreateKey = () => run(async () => {
+    await onCreateSigningKey(keyOwner.trim());
+    setKeyOwner('');
+  });
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) run(() => onImportBundle(file));
+  };
+
+  const handleDelete = (summary: CaseSummary) => {
+    if (!confirm(`Permanently delete the case "${summary.name}" from this device?`)) return;
+    run(() => onDeleteCase(summary.id));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-40 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-md bg-[#1E1E1E] rounded-xl shadow-md border border-[rgba(255,255,255,0.05)] p-4"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-xl font-semibold text-[#E2E2E2]">Encrypted Case Folder</h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-[#A8ABB4] hover:text-white rounded-md hover:bg-white/10 transition-colors"
+            aria-label="Close case folder"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {!isUnlocked ? (
+          <div className="space-y-3">
+            <p className="text-xs text-[#A8ABB4]">
+              Cases are stored in this browser, encrypted with AES-GCM under a key derived from your passphrase.
+              The first passphrase you enter creates the folder. It cannot be recovered if lost.
+            </p>
+            <div className="flex items-center gap-2 bg-[#2C2C2C] border border-[rgba(255,255,255,0.1)] rounded-lg p-2">
+              <Lock size={16} className="text-[#A8ABB4] flex-shrink-0" />
+              <input
+                type="password"
+                value={passphrase}
+                onChange={e => setPassphrase(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && passphrase && handleUnlock()}
+                placeholder="Passphrase"
+                className="flex-grow bg-transparent text-sm text-[#E2E2E2] placeholder-[#777777] focus:outline-none"
+                autoFocus
+              />
+            </div>
+            <button
+              onClick={handleUnlock}
+              disabled={!passphrase || isBusy}
+              className="w-full py-1.5 text-sm bg-white/[.12] hover:bg-white/20 text-white rounded-lg transition-colors disabled:bg-[#4A4A4A] disabled:text-[#777777]"
+            >
+              {isBusy ? 'Unlocking...' : 'Unlock'}
+            </button>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <input
+                value={newCaseName}
+                onChange={e => setNewCaseName(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && newCaseName.trim() && handleNewCase()}
+                placeholder="New case name"
+                className="flex-grow bg-[#2C2C2C] border border-[rgba(255,255,255,0.1)] rounded-lg px-2 py-1.5 text-sm text-[#E2E2E2] placeholder-[#777777] focus:outline-none"
+              />
+              <button
+                onClick={handleNewCase}
+                disabled={!newCaseName.trim() || isBusy}
+                className="flex items-center gap-1 px-2.5 py-1.5 text-xs bg-white/[.12] hover:bg-white/20 text-white rounded-lg transition-colors disabled:bg-[#4A4A4A] disabled:text-[#777777]"
+              >
+                <FolderPlus size={14} />
+                Create
+              </button>
+            </div>
+            <label className={`flex items-center justify-center gap-1 py-1.5 text-xs border border-dashed border-[rgba(255,255,255,0.15)] rounded-lg text-[#A8ABB4] transition-colors ${isBusy ? 'opacity-50' : 'hover:text-white hover:bg-white/5 cursor-pointer'}`}>
+              <PackageOpen size={14} />
+              Import case bundle (.zip)
+              <input type="file" accept=".zip,application/zip" onChange={handleImport} disabled={isBusy} className="hidden" />
+            </label>
+            {!activeCaseId && (
+              <p className="text-[11px] text-[#777777]">The current unsaved workspace will be stored in the new case.</p>
+            )}
+            <div className="max-h-72 overflow-y-auto space-y-2 chat-container pr-1">
+              {cases.length === 0 ? (
+                <p className="text-[#777777] text-center py-3 text-sm">No saved cases.</p>
+              ) : (
+                cases.map(summary => (
+                  <div
+                    key={summary.id}
+                    className={`flex items-center justify-between p-2 bg-[#2C2C2C] border rounded-lg text-xs ${summary.id === activeCaseId ? 'border-blue-500/40' : 'border-[rgba(255,255,255,0.05)]'}`}
+                  >
+                    <div className="flex flex-col overflow-hidden">
+                      <span className="text-white truncate font-medium" title={summary.name}>{summary.name}</span>
+                      <span className="text-[#777777]">
+                        {summary.fileCount} file(s) - updated {new Date(summary.updatedAt).toLocaleString()}
+                      </span>
+                    </div>
+                    <div className="flex items-center flex-shrink-0 ml-2">
+                      <button
+                        onClick={() => run(() => onOpenCase(summary.id))}
+                        disabled={isBusy || summary.id === activeCaseId}
+                        className="p-1 text-[#A8ABB4] hover:text-[#79B8FF] rounded-md hover:bg-white/10 disabled:text-[#555]"
+                        aria-label={`Open ${summary.name}`}
+                      >
+                        <FolderOpen size={14} />
+                      </button>
+                      {summary.id === activeCaseId && (
+                        <button
+                          onClick={() => run(onExportBundle)}
+                          disabled={isBusy}
+                          className="p-1 text-[#A8ABB4] hover:text-[#79B8FF] rounded-md hover:bg-white/10 disabled:text-[#555]"
+                          aria-label={`Export ${summary.name} as a case bundle`}
+                          title="Export as a case bundle"
+                        >
+                          <PackagePlus size={14} />
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleDelete(summary)}
+                        disabled={isBusy}
+                        className="p-1 text-[#A8ABB4] hover:text-[#f87171] rounded-md hover:bg-white/10"
+                        aria-label={`Delete ${summary.name}`}
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+            <div className="pt-3 border-t border-[rgba(255,255,255,0.05)] space-y-2">
+              <div className="flex items-center gap-1.5 text-sm font-medium text-[#A8ABB4]">
+                <KeyRound size={14} /> Signing Key
+              </div>
+              {signingIdentity ? (
+                <div className="flex items-center justify-between gap-2 p-2 bg-[#2C2C2C] border border-[rgba(255,255,255,0.05)] rounded-lg text-xs">
+                  <div className="flex flex-col overflow-hidden">
+                    <span className="text-white truncate font-medium">{signingIdentity.owner}</span>
+                    <span className="text-[#777777] font-mono truncate" title={signingIdentity.keyId}>{formatKeyId(signingIdentity.keyId)}</span>
+                  </div>
+                  <button
+                    onClick={onExportPublicKey}
+                    className="flex items-center gap-1 px-2 py-1 text-[#A8ABB4] hover:text-white rounded hover:bg-white/10 flex-shrink-0"
+                    title="Export the public key for colleagues to add to their trusted keys"
+                  >
+                    <Download size={12} /> Public key
+                  </button>
+                </div>
+              ) : (
+                <>
+                  <p className="text-[11px] text-[#777777]">
+                    Seals, case bundles and audit logs are signed with an ECDSA P-384 key kept in this folder, so others can
+                    confirm who produced them.
+                  </p>
+                  <div className="flex items-center gap-2">
+                    <input
+                      value={keyOwner}
+                      onChange={e => setKeyOwner(e.target.value)}
+                      onKeyDown={e => e.key === 'Enter' && keyOwner.trim() && handleCreateKey()}
+                      placeholder="Your name, as signatures will show it"
+                      className="flex-grow bg-[#2C2C2C] border border-[rgba(255,255,255,0.1)] rounded-lg px-2 py-1.5 text-sm text-[#E2E2E2] placeholder-[#777777] focus:outline-none"
+                    />
+                    <button
+                      onClick={handleCreateKey}
+                      disabled={!keyOwner.trim() || isBusy}
+                      className="flex items-center gap-1 px-2.5 py-1.5 text-xs bg-white/[.12] hover:bg-white/20 text-white rounded-lg transition-colors disabled:bg-[#4A4A4A] disabled:text-[#777777]"
+                    >
+                      <KeyRound size={14} />
+                      Create
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+
+        {error && <p className="mt-3 text-xs text-red-400">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default CaseManager;
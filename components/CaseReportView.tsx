@@ -0,0 +1,125 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { AlertTriangle, CalendarRange, FileJson, FileText, ListChecks, Scale, Stamp, Compass } from 'lucide-react';
+import { CaseReportRecord, ContradictionSeverity } from '../types';
+import { caseReportToJson, caseReportToMarkdown } from '../services/reportService';
+import { downloadBlob } from '../services/fileService';
+
+interface CaseReportViewProps {
+  record: CaseReportRecord;
+  onExported?: (fileName: string, content: string) => void;
+}
+
+const SEVERITY_STYLES: Record<ContradictionSeverity, string> = {
+  high: 'bg-red-500/20 text-red-300 border-red-500/30',
+  medium: 'bg-amber-500/20 text-amber-300 border-amber-500/30',
+  low: 'bg-white/10 text-gray-300 border-white/10',
+};
+
+const Section: React.FC<{ icon: React.ReactNode; title: string; count: number; children: React.ReactNode }> = ({ icon, title, count, children }) => (
+  <section className="mb-3">
+    <h3 className="flex items-center gap-1.5 text-xs font-semibold text-gray-300 uppercase tracking-wide mb-1.5">
+      {icon} {title} <span className="font-normal text-gray-500">({count})</span>
+    </h3>
+    {count === 0 ? <p className="text-xs text-gray-500">Nothing to report.</p> : <ul className="space-y-1.5 text-sm">{children}</ul>}
+  </section>
+);
+
+const Sources: React.FC<{ sources: string[] }> = ({ sources }) => sources.length > 0 ? (
+  <span className="block text-[11px] text-gray-500 truncate" title={sources.join(', ')}>Sources: {sources.join(', ')}</span>
+) : null;
+
+const SeverityBadge: React.FC<{ severity: ContradictionSeverity }> = ({ severity }) => (
+  <span className={`px-1.5 py-px rounded-full border text-[10px] font-semibold uppercase mr-1.5 ${SEVERITY_STYLES[severity]}`}>{severity}</span>
+);
+
+const CaseReportView: React.FC<CaseReportViewProps> = ({ record, onExported }) => {
+  const { report, stamp } = record;
+  const baseName = `case-report-${record.generatedAt.slice(0, 19).replace(/[:T]/g, '-')}`;
+
+  const exportAs = (content: string, type: string, fileName: string) => {
+    downloadBlob(new Blob([content], { type }), fileName);
+    onExported?.(fileName, content);
+  };
+
+  return (
+    <div className="text-gray-200">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-base font-semibold">Case Report</h2>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => exportAs(caseReportToJson(record), 'application/json', `${baseName}.json`)}
+            className="flex items-center gap-1 px-2 py-0.5 text-xs text-gray-400 hover:text-white rounded hover:bg-white/10"
+          >
+            <FileJson size={12} /> JSON
+          </button>
+          <button
+            onClick={() => exportAs(caseReportToMarkdown(record), 'text/markdown', `${baseName}.md`)}
+            className="flex items-center gap-1 px-2 py-0.5 text-xs text-gray-400 hover:text-white rounded hover:bg-white/10"
+          >
+            <FileText size={12} /> Markdown
+          </button>
+        </div>
+      </div>
+
+      <Section icon={<CalendarRange size={12} />} title="Timeline" count={report.timeline.length}>
+        {report.timeline.map((entry, i) => (
+          <li key={i} className="flex gap-2">
+            <span className="font-mono text-[#79B8FF] text-xs pt-0.5 flex-shrink-0">{entry.date}</span>
+            <span className="min-w-0">{entry.event}<Sources sources={entry.sources} /></span>
+          </li>
+        ))}
+      </Section>
+
+      <Section icon={<ListChecks size={12} />} title="Facts" count={report.facts.length}>
+        {report.facts.map((fact, i) => (
+          <li key={i}>{fact.statement}<Sources sources={fact.sources} /></li>
+        ))}
+      </Section>
+
+      <Section icon={<AlertTriangle size={12} />} title="Contradictions" count={report.contradictions.length}>
+        {report.contradictions.map((c, i) => (
+          <li key={i}>
+            <SeverityBadge severity={c.severity} />{c.description}
+            {c.statements.map((statement, j) => (
+              <blockquote key={j} className="mt-1 pl-2 border-l-2 border-gray-600 text-xs text-gray-400">{statement}</blockquote>
+            ))}
+            <Sources sources={c.sources} />
+          </li>
+        ))}
+      </Section>
+
+      <Section icon={<Scale size={12} />} title="Violations" count={report.violations.length}>
+        {report.violations.map((v, i) => (
+          <li key={i}>
+            <SeverityBadge severity={v.severity} /><span className="font-medium">{v.right}:</span> {v.description}
+            <Sources sources={v.sources} />
+          </li>
+        ))}
+      </Section>
+
+      <Section icon={<Compass size={12} />} title="Guidance" count={report.guidance.length}>
+        {report.guidance.map((g, i) => (
+          <li key={i}><span className="font-medium">{g.action}</span> <span className="text-gray-400">{g.rationale}</span></li>
+        ))}
+      </Section>
+
+      <div className="pt-2 border-t border-gray-600/50 text-[11px] text-gray-500 space-y-0.5">
+        <div className="flex items-center gap-1 truncate" title={stamp.hash}>
+          <Stamp size={11} className="flex-shrink-0" /> Constitution v{stamp.version} - SHA-512 {stamp.hash.substring(0, 16)}...
+        </div>
+        <div>
+          Generated {new Date(record.generatedAt).toLocaleString()} by {record.provider}
+          {record.attempts > 1 ? ` after ${record.attempts} attempts` : ''}
+          {record.repairs.length > 0 ? `, ${record.repairs.length} schema fix(es) applied locally` : ''}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CaseReportView;
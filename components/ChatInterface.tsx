@@ -4,26 +4,61 @@
 */
 
 import React, { useState, useRef, useEffect } from 'react';
-import { ChatMessage, MessageSender } from '../types'; 
+import { Attachment, ChatMessage, Conversation, MessageSender } from '../types'; 
 import MessageItem from './MessageItem';
-import { Send, Menu, Mic, Paperclip } from 'lucide-react';
+import DictationButton from './DictationButton';
+import { Send, Menu, Paperclip, FileDown, ShieldAlert, ClipboardList, GitBranch, Filter } from 'lucide-react';
 
 interface ChatInterfaceProps {
   messages: ChatMessage[];
+  conversations?: Conversation[];
+  activeConversationId?: string;
+  onSwitchConversation?: (id: string) => void;
+  onForkConversation?: (messageId: string) => void;
+  onPromoteExcerpt?: (messageId: string, excerpt: string, slotId?: string) => void;
+  attachments?: Attachment[];
   onSendMessage: (query: string, files?: FileList) => void;
+  onTranscribe?: (audio: Blob, fileName: string) => Promise<string>; // Speech to text, for dictation
+  queryScope?: { label: string; files: number } | null; // The case filter, while one is set
+  isQueryScoped?: boolean; // Whether queries are limited to the filtered files
+  onToggleQueryScope?: () => void;
+  onCancelStream?: (slotId?: string) => void; // Without a slot id, cancels every stream
   isLoading: boolean;
   placeholderText?: string;
   onToggleSidebar?: () => void;
   onAddFiles: (files: FileList) => void;
+  onExportReport?: () => void;
+  isExporting?: boolean;
+  onGenerateReport?: () => void;
+  onReportExported?: (fileName: string, content: string) => void;
+  isHighRisk?: boolean;
+  onToggleHighRisk?: () => void;
 }
 
 const ChatInterface: React.FC<ChatInterfaceProps> = ({ 
   messages, 
+  conversations = [],
+  activeConversationId,
+  onSwitchConversation,
+  onForkConversation,
+  onPromoteExcerpt,
+  attachments,
   onSendMessage, 
+  onTranscribe,
+  queryScope,
+  isQueryScoped,
+  onToggleQueryScope,
+  onCancelStream,
   isLoading, 
   placeholderText,
   onToggleSidebar,
   onAddFiles,
+  onExportReport,
+  isExporting,
+  onGenerateReport,
+  onReportExported,
+  isHighRisk,
+  onToggleHighRisk,
 }) => {
   const [userQuery, setUserQuery] = useState('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -67,6 +102,13 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
 
   const isChatDisabled = isLoading;
 
+  // A fork taken at a question starts before it, so the question is offered for rewording.
+  const handleFork = (message: ChatMessage) => {
+    if (isLoading || !onForkConversation) return;
+    onForkConversation(message.id);
+    if (message.sender === MessageSender.USER) setUserQuery(message.text);
+  };
+
   return (
     <div className="flex flex-col h-full bg-[#1E1E1E] rounded-xl shadow-md border border-[rgba(255,255,255,0.05)]">
       <div className="p-4 border-b border-[rgba(255,255,255,0.05)] flex justify-between items-center">
@@ -82,28 +124,99 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
           )}
           <div className="overflow-hidden">
             <h2 className="text-xl font-semibold text-[#E2E2E2] truncate">Legal Chat</h2>
+            {onSwitchConversation && conversations.length > 1 && (
+              <label className="flex items-center gap-1 text-xs text-[#A8ABB4]" title="Each conversation keeps its own answers and consensus">
+                <GitBranch size={12} className="flex-shrink-0" />
+                <select
+                  value={activeConversationId}
+                  onChange={e => onSwitchConversation(e.target.value)}
+                  disabled={isLoading}
+                  className="bg-transparent text-[#A8ABB4] hover:text-white focus:outline-none truncate max-w-[14rem] disabled:text-[#555]"
+                  aria-label="Switch conversation"
+                >
+                  {conversations.map(conversation => (
+                    <option key={conversation.id} value={conversation.id} className="bg-[#2C2C2C]">
+                      {conversation.name} ({conversation.messages.filter(m => m.sender === MessageSender.USER).length} questions)
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
           </div>
         </div>
+        <div className="flex items-center gap-1 flex-shrink-0">
+          {onToggleHighRisk && (
+            <button
+              onClick={onToggleHighRisk}
+              className={`flex items-center gap-1.5 px-2.5 py-1.5 text-xs rounded-md transition-colors ${isHighRisk ? 'text-red-300 bg-red-500/15 hover:bg-red-500/25' : 'text-[#A8ABB4] hover:text-white hover:bg-white/10'}`}
+              aria-pressed={!!isHighRisk}
+              title="High-risk cases are analysed by every provider slot (triple-AI consensus)"
+            >
+              <ShieldAlert size={14} />
+              <span className="hidden sm:inline">{isHighRisk ? 'High Risk' : 'Mark High Risk'}</span>
+            </button>
+          )}
+          {onGenerateReport && (
+            <button
+              onClick={onGenerateReport}
+              disabled={isLoading}
+              className="flex items-center gap-1.5 px-2.5 py-1.5 text-xs text-[#A8ABB4] hover:text-white rounded-md hover:bg-white/10 transition-colors disabled:text-[#555] disabled:hover:bg-transparent flex-shrink-0"
+              aria-label="Generate case report"
+              title="Timeline, facts, contradictions, violations and guidance, as structured JSON"
+            >
+              <ClipboardList size={14} />
+              <span className="hidden sm:inline">Case Report</span>
+            </button>
+          )}
+          {onExportReport && (
+            <button
+              onClick={onExportReport}
+              disabled={isExporting || isLoading || messages.length === 0}
+              className="flex items-center gap-1.5 px-2.5 py-1.5 text-xs text-[#A8ABB4] hover:text-white rounded-md hover:bg-white/10 transition-colors disabled:text-[#555] disabled:hover:bg-transparent flex-shrink-0"
+              aria-label="Export sealed report"
+            >
+              {isExporting
+                ? <div className="w-3.5 h-3.5 border-2 border-current border-t-transparent rounded-full animate-spin"></div>
+                : <FileDown size={14} />}
+              <span className="hidden sm:inline">Sealed Report</span>
+            </button>
+          )}
+        </div>
       </div>
 
       <div className="flex-grow p-4 overflow-y-auto chat-container bg-[#282828]">
         <div className="max-w-4xl mx-auto w-full">
           {messages.map((msg) => (
-            <MessageItem key={msg.id} message={msg} />
+            <MessageItem
+              key={msg.id}
+              message={msg}
+              attachments={attachments}
+              onCancelStream={onCancelStream}
+              onFork={onForkConversation && !isLoading ? () => handleFork(msg) : undefined}
+              onPromote={onPromoteExcerpt ? (excerpt, slotId) => onPromoteExcerpt(msg.id, excerpt, slotId) : undefined}
+              onReportExported={onReportExported}
+            />
           ))}
           <div ref={messagesEndRef} />
         </div>
       </div>
 
       <div className="p-4 border-t border-[rgba(255,255,255,0.05)] bg-[#1E1E1E] rounded-b-xl">
+        {queryScope && onToggleQueryScope && (
+          <label className={`flex items-center gap-1.5 mb-2 text-xs ${isQueryScoped ? 'text-blue-300' : 'text-[#A8ABB4]'}`}>
+            <input type="checkbox" checked={!!isQueryScoped} onChange={onToggleQueryScope} disabled={isChatDisabled} />
+            <Filter size={12} />
+            <span className="truncate">Ask only about {queryScope.label} ({queryScope.files} file(s))</span>
+          </label>
+        )}
         <div className="flex items-end gap-2 bg-[#2C2C2C] border border-[rgba(255,255,255,0.1)] rounded-lg p-2">
-          <button
-            className="p-1.5 text-gray-400 hover:text-white rounded-md hover:bg-white/10 transition-colors flex-shrink-0"
-            aria-label="Voice input"
-            onClick={() => alert('Voice input is not yet implemented.')}
-          >
-            <Mic size={18} />
-          </button>
+          {onTranscribe && (
+            <DictationButton
+              onTranscribe={onTranscribe}
+              onText={text => setUserQuery(prev => (prev.trim() ? `${prev.trimEnd()} ${text}` : text))}
+              disabled={isChatDisabled}
+            />
+          )}
           <button
             className="p-1.5 text-gray-400 hover:text-white rounded-md hover:bg-white/10 transition-colors flex-shrink-0"
             aria-label="Attach file"
@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { ClaimAlignment, ClaimStatus, ProviderResponse } from '../types';
+
+interface ClaimTableProps {
+  claims: ClaimAlignment[];
+  responses: ProviderResponse[];
+}
+
+const STATUS_BADGES: Record<ClaimStatus, { label: string; className: string }> = {
+  agreed: { label: 'Agreed', className: 'text-green-300 bg-green-500/10 border-green-500/20' },
+  disputed: { label: 'Disputed', className: 'text-red-300 bg-red-500/10 border-red-500/20' },
+  unique: { label: 'Unique', className: 'text-gray-300 bg-gray-500/10 border-gray-500/20' },
+};
+
+// Disputed claims first: they are what a reviewer must look at.
+const STATUS_ORDER: Record<ClaimStatus, number> = { disputed: 0, agreed: 1, unique: 2 };
+
+const ClaimTable: React.FC<ClaimTableProps> = ({ claims, responses }) => {
+  const sorted = [...claims].sort((a, b) => STATUS_ORDER[a.status] - STATUS_ORDER[b.status]);
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-[11px] border-collapse">
+        <thead>
+          <tr className="text-left text-gray-400">
+            <th className="py-1 pr-2 font-semibold align-bottom">Claim</th>
+            {responses.map(response => (
+              <th key={response.slotId} className="py-1 px-2 font-semibold align-bottom">{response.label}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {sorted.map(claim => {
+            const badge = STATUS_BADGES[claim.status];
+            return (
+              <tr key={claim.id} className="border-t border-[rgba(255,255,255,0.05)] align-top">
+                <td className="py-1.5 pr-2 whitespace-nowrap">
+                  <span className={`px-1.5 py-0.5 rounded border ${badge.className}`}>{badge.label}</span>
+                  {claim.conflict && <div className="mt-1 text-red-300/80 whitespace-normal max-w-[10rem]">{claim.conflict}</div>}
+                </td>
+                {responses.map(response => {
+                  const statement = claim.statements.find(s => s.slotId === response.slotId);
+                  return (
+                    <td key={response.slotId} className={`py-1.5 px-2 ${statement ? 'text-[#C8C8C8]' : 'text-gray-600'}`}>
+                      {statement ? statement.text : '-'}
+                    </td>
+                  );
+                })}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default ClaimTable;
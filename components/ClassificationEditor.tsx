@@ -0,0 +1,111 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { Lock, X } from 'lucide-react';
+import { EvidenceClassification, EvidenceType } from '../types';
+import { EVIDENCE_TYPE_LABELS, normaliseTag } from '../services/classificationService';
+
+interface ClassificationEditorProps {
+  fileHash: string;
+  classification: EvidenceClassification;
+  knownTags: string[]; // Tags used elsewhere in the case, offered as suggestions
+  onChange: (classification: EvidenceClassification) => void;
+}
+
+/**
+ * Files a case file: its evidence type, custodian, tags and whether it is sealed. Each change is applied
+ * at once, except the custodian, which is applied when the field is left.
+ */
+const ClassificationEditor: React.FC<ClassificationEditorProps> = ({ fileHash, classification, knownTags, onChange }) => {
+  const [custodian, setCustodian] = useState(classification.custodian || '');
+  const [newTag, setNewTag] = useState('');
+
+  useEffect(() => setCustodian(classification.custodian || ''), [classification.custodian]);
+
+  const commitCustodian = () => {
+    const value = custodian.trim();
+    if (value !== (classification.custodian || '')) onChange({ ...classification, custodian: value || undefined });
+  };
+
+  const addTag = () => {
+    const tag = normaliseTag(newTag);
+    setNewTag('');
+    if (!tag || classification.tags.some(t => t.toLowerCase() === tag.toLowerCase())) return;
+    onChange({ ...classification, tags: [...classification.tags, tag] });
+  };
+
+  const inputClass = 'bg-[#1E1E1E] border border-[rgba(255,255,255,0.1)] rounded px-1.5 py-0.5 text-[11px] text-[#E2E2E2] focus:outline-none min-w-0';
+  const id = (field: string) => `${field}-${fileHash.substring(0, 16)}`;
+
+  return (
+    <div className="mt-1.5 pt-1.5 border-t border-[rgba(255,255,255,0.05)] grid grid-cols-[auto_1fr] gap-x-2 gap-y-1 items-center text-[11px]">
+      <label className="text-[#777777]" htmlFor={id('evidence-type')}>Type</label>
+      <select
+        id={id('evidence-type')}
+        value={classification.evidenceType || ''}
+        onChange={e => onChange({ ...classification, evidenceType: (e.target.value as EvidenceType) || undefined })}
+        className={inputClass}
+      >
+        <option value="">Unclassified</option>
+        {(Object.keys(EVIDENCE_TYPE_LABELS) as EvidenceType[]).map(type => (
+          <option key={type} value={type}>{EVIDENCE_TYPE_LABELS[type]}</option>
+        ))}
+      </select>
+
+      <label className="text-[#777777]" htmlFor={id('evidence-custodian')}>Custodian</label>
+      <input
+        id={id('evidence-custodian')}
+        value={custodian}
+        onChange={e => setCustodian(e.target.value)}
+        onBlur={commitCustodian}
+        onKeyDown={e => e.key === 'Enter' && commitCustodian()}
+        placeholder="Who held it, or where it came from"
+        className={inputClass}
+      />
+
+      <span className="text-[#777777] self-start mt-0.5">Tags</span>
+      <div className="flex flex-wrap items-center gap-1">
+        {classification.tags.map(tag => (
+          <span key={tag} className="flex items-center gap-0.5 px-1.5 py-0.5 bg-blue-500/15 text-blue-200 rounded">
+            {tag}
+            <button
+              onClick={() => onChange({ ...classification, tags: classification.tags.filter(t => t !== tag) })}
+              className="hover:text-white"
+              aria-label={`Remove tag ${tag}`}
+            >
+              <X size={10} />
+            </button>
+          </span>
+        ))}
+        <input
+          value={newTag}
+          onChange={e => setNewTag(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter' || e.key === ',') {
+              e.preventDefault();
+              addTag();
+            }
+          }}
+          onBlur={addTag}
+          list={id('known-tags')}
+          placeholder="Add tag"
+          className={`${inputClass} w-20`}
+        />
+        <datalist id={id('known-tags')}>
+          {knownTags.filter(tag => !classification.tags.includes(tag)).map(tag => <option key={tag} value={tag} />)}
+        </datalist>
+      </div>
+
+      <span className="text-[#777777]">Sealed</span>
+      <label className="flex items-center gap-1 text-[#A8ABB4]">
+        <input type="checkbox" checked={classification.sealed} onChange={e => onChange({ ...classification, sealed: e.target.checked })} />
+        <Lock size={10} /> Locked in the case; unseal to remove it
+      </label>
+    </div>
+  );
+};
+
+export default ClassificationEditor;
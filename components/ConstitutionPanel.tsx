@@ -0,0 +1,214 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, AlertTriangle, Landmark, Loader2, Pencil, RotateCcw, Stamp } from 'lucide-react';
+import { ActiveConstitution, ConstitutionChangeApproval, ConstitutionStamp } from '../types';
+import { CHANGE_WARNING, getBundledConstitutionText, getConstitutionStamp, reviewAmendment, ruleLabel } from '../services/governanceService';
+
+interface ConstitutionPanelProps {
+  isOpen: boolean;
+  active: ActiveConstitution;
+  onClose: () => void;
+  onAmend: (text: string, approval: ConstitutionChangeApproval) => Promise<void>;
+}
+
+const EMPTY_APPROVAL: ConstitutionChangeApproval = { authorised: false, reason: '', warningAcknowledged: false };
+
+const RuleChip: React.FC<{ label: string; on: boolean }> = ({ label, on }) => (
+  <span className={`px-1.5 py-0.5 rounded text-[11px] ${on ? 'bg-green-500/10 text-green-300' : 'bg-white/5 text-[#777777] line-through'}`}>{label}</span>
+);
+
+const ConstitutionPanel: React.FC<ConstitutionPanelProps> = ({ isOpen, active, onClose, onAmend }) => {
+  const [stamp, setStamp] = useState<ConstitutionStamp | null>(null);
+  const [draft, setDraft] = useState<string | null>(null);
+  const [approval, setApproval] = useState<ConstitutionChangeApproval>(EMPTY_APPROVAL);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    getConstitutionStamp().then(setStamp);
+  }, [active]);
+
+  const problems = useMemo(() => (draft === null ? [] : reviewAmendment(draft, approval)), [draft, approval, active]);
+
+  if (!isOpen) return null;
+
+  const { constitution } = active;
+  const rules = constitution.ai_integration;
+
+  const startEditing = () => {
+    setDraft(active.text);
+    setApproval(EMPTY_APPROVAL);
+    setError('');
+  };
+
+  const handleApply = async () => {
+    if (draft === null) return;
+    setIsApplying(true);
+    setError('');
+    try {
+      await onAmend(draft, approval);
+      setDraft(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'The constitution could not be changed.');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-40 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[85vh] flex flex-col bg-[#1E1E1E] rounded-xl shadow-md border border-[rgba(255,255,255,0.05)] p-4"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-1">
+          <h2 className="text-xl font-semibold text-[#E2E2E2] flex items-center gap-2"><Landmark size={18} /> Constitution</h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-[#A8ABB4] hover:text-white rounded-md hover:bg-white/10 transition-colors"
+            aria-label="Close constitution"
+          >
+            <X size={20} />
+          </button>
+        </div>
+        <div className="flex items-center gap-2 mb-3 text-xs text-[#777777]">
+          <span>{constitution.engine} v{constitution.version}</span>
+          <span className={`px-1.5 py-px rounded-full border text-[10px] font-semibold uppercase ${active.source === 'amended' ? 'bg-amber-500/20 text-amber-300 border-amber-500/30' : 'bg-white/10 text-[#A8ABB4] border-white/10'}`}>
+            {active.source === 'amended' ? 'Amended locally' : 'Bundled'}
+          </span>
+          {stamp && (
+            <span className="flex items-center gap-1 font-mono truncate" title={stamp.hash}>
+              <Stamp size={11} className="flex-shrink-0" /> SHA-512 {stamp.hash.substring(0, 16)}...
+            </span>
+          )}
+        </div>
+
+        {active.loadError && (
+          <div className="mb-3 p-2 rounded-md bg-red-500/10 text-xs text-red-300 flex items-start gap-1.5">
+            <AlertTriangle size={14} className="flex-shrink-0" /> {active.loadError}
+          </div>
+        )}
+
+        {draft === null ? (
+          <div className="flex-grow overflow-y-auto chat-container pr-1 space-y-3 text-xs">
+            <section>
+              <h3 className="font-semibold text-[#A8ABB4] mb-1">Core principles</h3>
+              <ul className="space-y-1">
+                {Object.entries(constitution.core_principles).map(([key, text]) => (
+                  <li key={key} className="text-[#C8C8C8]"><span className="text-[#E2E2E2] font-medium">{ruleLabel(key)}:</span> {text}</li>
+                ))}
+              </ul>
+            </section>
+            <section>
+              <h3 className="font-semibold text-[#A8ABB4] mb-1">Ethical constraints</h3>
+              <div className="flex flex-wrap gap-1">
+                {Object.entries(constitution.ethical_constraints).map(([key, on]) => <RuleChip key={key} label={ruleLabel(key)} on={on} />)}
+              </div>
+            </section>
+            <section>
+              <h3 className="font-semibold text-[#A8ABB4] mb-1">Enforced on every provider call</h3>
+              <div className="flex flex-wrap gap-1">
+                <RuleChip label="Redaction required before analysis" on={rules.redaction_required_before_analysis} />
+                <RuleChip label="Zero raw data leak" on={rules.zero_raw_data_leak_policy} />
+                <RuleChip label="Triple-AI consensus for high-risk cases" on={rules.triple_ai_consensus.enabled} />
+              </div>
+            </section>
+            <section>
+              <h3 className="font-semibold text-[#A8ABB4] mb-1">Amendments ({active.amendments.length})</h3>
+              {active.amendments.length === 0 && <p className="text-[#777777]">The constitution has not been changed on this device.</p>}
+              <ul className="space-y-1">
+                {[...active.amendments].reverse().map(amendment => (
+                  <li key={amendment.amendedAt} className="p-1.5 bg-[#2C2C2C] rounded">
+                    <div className="text-[#E2E2E2]">{amendment.reason}</div>
+                    <div className="font-mono text-[10px] text-[#777777] truncate" title={amendment.hash}>
+                      {new Date(amendment.amendedAt).toLocaleString()} - v{amendment.version} - {amendment.previousHash.substring(0, 12)}... to {amendment.hash.substring(0, 12)}...
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          </div>
+        ) : (
+          <div className="flex-grow overflow-y-auto chat-container pr-1 space-y-2 text-xs">
+            <div className="flex items-center justify-between">
+              <span className="text-[#A8ABB4]">Edit the constitution JSON. Changes apply to this device only.</span>
+              <button
+                onClick={() => setDraft(getBundledConstitutionText())}
+                className="flex items-center gap-1 px-2 py-0.5 text-[#A8ABB4] hover:text-white rounded hover:bg-white/10"
+              >
+                <RotateCcw size={12} /> Bundled text
+              </button>
+            </div>
+            <textarea
+              value={draft}
+              onChange={e => setDraft(e.target.value)}
+              spellCheck={false}
+              className="w-full h-64 p-2 bg-[#2C2C2C] rounded-md font-mono text-[11px] text-[#E2E2E2] focus:outline-none resize-y"
+            />
+            <div className="p-2 rounded-md bg-amber-500/10 text-amber-300 space-y-1.5">
+              <div className="flex items-start gap-1.5"><AlertTriangle size={14} className="flex-shrink-0" /> {CHANGE_WARNING}</div>
+              <label className="flex items-center gap-1.5 text-[#E2E2E2]">
+                <input
+                  type="checkbox"
+                  checked={approval.warningAcknowledged}
+                  onChange={e => setApproval(prev => ({ ...prev, warningAcknowledged: e.target.checked }))}
+                />
+                I have read this warning
+              </label>
+            </div>
+            <textarea
+              value={approval.reason}
+              onChange={e => setApproval(prev => ({ ...prev, reason: e.target.value }))}
+              placeholder="Reason for the change (logged)"
+              className="w-full h-14 p-2 bg-[#2C2C2C] rounded-md text-[#E2E2E2] placeholder-[#777777] focus:outline-none resize-none"
+            />
+            <label className="flex items-center gap-1.5 text-[#E2E2E2]">
+              <input
+                type="checkbox"
+                checked={approval.authorised}
+                onChange={e => setApproval(prev => ({ ...prev, authorised: e.target.checked }))}
+              />
+              I explicitly authorise this change to the constitution
+            </label>
+            {problems.length > 0 && (
+              <ul className="text-[#777777] space-y-0.5">
+                {problems.slice(0, 8).map(problem => <li key={problem}>- {problem}</li>)}
+              </ul>
+            )}
+            {error && <p className="text-red-300">{error}</p>}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 mt-3">
+          {draft === null ? (
+            <button
+              onClick={startEditing}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-[#A8ABB4] hover:text-white rounded-lg hover:bg-white/10"
+            >
+              <Pencil size={14} /> Amend
+            </button>
+          ) : (
+            <>
+              <button onClick={() => setDraft(null)} className="px-3 py-1.5 text-sm text-[#A8ABB4] hover:text-white rounded-lg hover:bg-white/10">
+                Cancel
+              </button>
+              <button
+                onClick={handleApply}
+                disabled={problems.length > 0 || isApplying}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-sm bg-white/[.12] hover:bg-white/20 text-white rounded-lg transition-colors disabled:text-[#777777] disabled:hover:bg-white/[.12]"
+              >
+                {isApplying && <Loader2 size={14} className="animate-spin" />} Apply change
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConstitutionPanel;
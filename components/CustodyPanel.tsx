@@ -0,0 +1,87 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { FileDown } from 'lucide-react';
+import { CustodyDetails, CustodyRecord } from '../types';
+import { CUSTODY_EVENT_LABELS } from '../services/custodyService';
+
+interface CustodyPanelProps {
+  fileHash: string;
+  custody: CustodyRecord;
+  onRecordDetails: (details: CustodyDetails) => void;
+  onExport: () => void;
+}
+
+const DETAIL_FIELDS: [keyof CustodyDetails, string, string][] = [
+  ['providedBy', 'Provided by', 'Who handed the file over'],
+  ['receivedVia', 'Received via', 'e.g. Email, USB stick, WhatsApp'],
+  ['acquisitionDevice', 'Device', 'Camera, phone or program that made it'],
+];
+
+/**
+ * A file's chain of custody: what is known about its receipt, the details the user can add, and every
+ * event since. Details are recorded when their field is left.
+ */
+const CustodyPanel: React.FC<CustodyPanelProps> = ({ fileHash, custody, onRecordDetails, onExport }) => {
+  const [draft, setDraft] = useState<CustodyDetails>({});
+
+  // Only a recorded change resets the fields; other events arriving mid-edit leave them alone.
+  useEffect(
+    () => setDraft({ providedBy: custody.providedBy, receivedVia: custody.receivedVia, acquisitionDevice: custody.acquisitionDevice }),
+    [custody.providedBy, custody.receivedVia, custody.acquisitionDevice],
+  );
+
+  const commit = (key: keyof CustodyDetails) => {
+    const value = draft[key]?.trim() || undefined;
+    if (value !== custody[key]) onRecordDetails({ [key]: value });
+  };
+
+  const inputClass = 'bg-[#1E1E1E] border border-[rgba(255,255,255,0.1)] rounded px-1.5 py-0.5 text-[11px] text-[#E2E2E2] focus:outline-none min-w-0';
+  const id = (field: string) => `${field}-${fileHash.substring(0, 16)}`;
+  const received = [
+    custody.receivedAt && `Received ${new Date(custody.receivedAt).toLocaleString()}`,
+    custody.originalName && `as ${custody.originalName}`,
+    custody.lastModified && `last modified ${new Date(custody.lastModified).toLocaleString()}`,
+  ].filter(Boolean).join(', ');
+
+  return (
+    <div className="mt-1.5 pt-1.5 border-t border-[rgba(255,255,255,0.05)] space-y-1.5 text-[11px]">
+      <div className="text-[#A8ABB4]">{received || 'Added before custody was recorded; its receipt is unknown.'}</div>
+      <div className="grid grid-cols-[auto_1fr] gap-x-2 gap-y-1 items-center">
+        {DETAIL_FIELDS.map(([key, label, placeholder]) => (
+          <React.Fragment key={key}>
+            <label className="text-[#777777]" htmlFor={id(key)}>{label}</label>
+            <input
+              id={id(key)}
+              value={draft[key] || ''}
+              onChange={e => setDraft(prev => ({ ...prev, [key]: e.target.value }))}
+              onBlur={() => commit(key)}
+              onKeyDown={e => e.key === 'Enter' && commit(key)}
+              placeholder={placeholder}
+              className={inputClass}
+            />
+          </React.Fragment>
+        ))}
+      </div>
+      <div className="flex items-center justify-between">
+        <span className="text-[#A8ABB4]">Events ({custody.events.length})</span>
+        <button onClick={onExport} className="flex items-center gap-1 text-[#A8ABB4] hover:text-white" title="Export a sealed custody sheet for this file">
+          <FileDown size={12} /> Custody sheet
+        </button>
+      </div>
+      <ol className="max-h-40 overflow-y-auto chat-container space-y-1 pr-1">
+        {custody.events.map((event, i) => (
+          <li key={i} className="text-[#C8C8C8]" title={event.device}>
+            <span className="text-[#777777]">{new Date(event.at).toLocaleString()}</span>{' '}
+            <span className="font-medium">{CUSTODY_EVENT_LABELS[event.kind]}:</span> {event.summary}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default CustodyPanel;
@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Mic, Square, Loader2 } from 'lucide-react';
+
+interface DictationButtonProps {
+  onTranscribe: (audio: Blob, fileName: string) => Promise<string>;
+  onText: (text: string) => void;
+  disabled?: boolean;
+}
+
+// The recorder's container decides the extension the transcription server is told.
+const extensionOf = (mimeType: string) => (mimeType.includes('ogg') ? 'ogg' : mimeType.includes('mp4') ? 'm4a' : 'webm');
+
+/**
+ * Records from the microphone until pressed again, then has the recording transcribed into the query box.
+ */
+const DictationButton: React.FC<DictationButtonProps> = ({ onTranscribe, onText, disabled }) => {
+  const [state, setState] = useState<'idle' | 'recording' | 'transcribing'>('idle');
+  const [error, setError] = useState('');
+  const recorderRef = useRef<MediaRecorder | null>(null);
+
+  // Release the microphone if the chat is closed mid-recording.
+  useEffect(() => () => recorderRef.current?.stream.getTracks().forEach(track => track.stop()), []);
+
+  const startRecording = async () => {
+    setError('');
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch {
+      setError('Microphone access was denied or no microphone is available.');
+      return;
+    }
+    const recorder = new MediaRecorder(stream);
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = e => chunks.push(e.data);
+    recorder.onstop = async () => {
+      stream.getTracks().forEach(track => track.stop());
+      recorderRef.current = null;
+      setState('transcribing');
+      try {
+        const audio = new Blob(chunks, { type: recorder.mimeType });
+        const text = await onTranscribe(audio, `dictation.${extensionOf(recorder.mimeType)}`);
+        if (text) onText(text);
+        else setError('No speech was recognised.');
+      } catch (e) {
+        setError(`Dictation failed: ${e instanceof Error ? e.message : 'Unknown error'}`);
+      } finally {
+        setState('idle');
+      }
+    };
+    recorderRef.current = recorder;
+    recorder.start();
+    setState('recording');
+  };
+
+  const handleClick = () => {
+    if (state === 'recording') recorderRef.current?.stop();
+    else if (state === 'idle') startRecording();
+  };
+
+  return (
+    <div className="relative flex-shrink-0">
+      <button
+        className={`p-1.5 rounded-md transition-colors ${state === 'recording' ? 'text-red-400 bg-red-500/15 hover:bg-red-500/25' : 'text-gray-400 hover:text-white hover:bg-white/10'} disabled:text-[#555] disabled:hover:bg-transparent`}
+        aria-label={state === 'recording' ? 'Stop dictation' : 'Voice input'}
+        title={state === 'recording' ? 'Stop and transcribe' : 'Dictate; the recording is transcribed by the speech-to-text server set under Providers'}
+        onClick={handleClick}
+        disabled={disabled || state === 'transcribing'}
+      >
+        {state === 'recording' ? <Square size={18} /> : state === 'transcribing' ? <Loader2 size={18} className="animate-spin" /> : <Mic size={18} />}
+      </button>
+      {error && (
+        <button
+          onClick={() => setError('')}
+          className="absolute bottom-full left-0 mb-2 w-64 p-2 text-left text-[11px] text-red-300 bg-[#2C2C2C] border border-red-500/30 rounded-md shadow-md"
+          title="Dismiss"
+        >
+          {error}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default DictationButton;
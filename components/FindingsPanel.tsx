@@ -0,0 +1,162 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, Loader2, ScanSearch } from 'lucide-react';
+import { Attachment, Contradiction, ContradictionAnalysis, ContradictionLayer, ContradictionSeverity, ContradictionStatement } from '../types';
+import SourceExcerpt from './SourceExcerpt';
+
+interface FindingsPanelProps {
+  analysis: ContradictionAnalysis | null;
+  attachments: Attachment[];
+  notes: string;
+  isAnalyzing: boolean;
+  onRunAnalysis: () => void;
+}
+
+const LAYER_LABELS: Record<ContradictionLayer, string> = {
+  timeline: 'Timeline',
+  statements: 'Statements',
+  behaviour: 'Behaviour',
+  metadata: 'Metadata',
+  financial: 'Financial flows',
+  coercion: 'Coercion',
+  rights: 'Rights violations',
+  intent: 'Intent vs action',
+};
+
+const SEVERITY_STYLES: Record<ContradictionSeverity, string> = {
+  high: 'bg-red-500/20 text-red-300 border-red-500/30',
+  medium: 'bg-amber-500/20 text-amber-300 border-amber-500/30',
+  low: 'bg-white/10 text-[#A8ABB4] border-white/10',
+};
+
+const FindingsPanel: React.FC<FindingsPanelProps> = ({ analysis, attachments, notes, isAnalyzing, onRunAnalysis }) => {
+  const [layerFilter, setLayerFilter] = useState<ContradictionLayer | 'all'>('all');
+  const [severityFilter, setSeverityFilter] = useState<ContradictionSeverity | 'all'>('all');
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const findings = analysis?.findings || [];
+  const layerCounts = useMemo(() => {
+    const counts = new Map<ContradictionLayer, number>();
+    for (const finding of findings) counts.set(finding.layer, (counts.get(finding.layer) || 0) + 1);
+    return counts;
+  }, [findings]);
+
+  const visible = findings.filter(f =>
+    (layerFilter === 'all' || f.layer === layerFilter) && (severityFilter === 'all' || f.severity === severityFilter));
+
+  const isStale = !!analysis && (
+    analysis.fileHashes.length !== attachments.length || attachments.some(f => !analysis.fileHashes.includes(f.hash)));
+
+  const excerpt = (s: ContradictionStatement) => {
+    if (s.start === undefined || s.end === undefined) return null;
+    if (!s.fileHash) return <SourceExcerpt content={notes} start={s.start} end={s.end} name={s.fileName || 'Case notes'} />;
+    const file = attachments.find(f => f.hash === s.fileHash);
+    if (!file?.content) return null;
+    return <SourceExcerpt content={file.content} start={s.start} end={s.end} name={file.name} hash={file.hash} />;
+  };
+
+  const renderStatement = (finding: Contradiction, index: number) => {
+    const s = finding.statements[index];
+    const key = `${finding.id}:${index}`;
+    return (
+      <div key={key} className="pl-2 border-l-2 border-[#4A4A4A]">
+        <div className="text-[#E2E2E2] break-words">{s.text}</div>
+        <button
+          onClick={() => setExpanded(expanded === key ? null : key)}
+          className="text-[11px] text-[#777777] hover:text-[#A8ABB4] truncate max-w-full text-left"
+          title={s.fileHash}
+        >
+          {s.fileName}{s.fileHash ? ` - ${s.fileHash.substring(0, 12)}...` : ''}{s.start !== undefined ? ` - chars ${s.start}-${s.end}` : ''}
+        </button>
+        {expanded === key && excerpt(s)}
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col h-full min-h-0">
+      <div className="flex items-center justify-between mb-2 text-xs">
+        <span className="text-[#777777]">
+          {analysis ? `${findings.length} finding(s), ${new Date(analysis.analyzedAt).toLocaleString()}` : 'Not analysed yet'}
+        </span>
+        <button
+          onClick={onRunAnalysis}
+          disabled={isAnalyzing || attachments.length === 0}
+          className="flex items-center gap-1 px-2 py-0.5 text-[#A8ABB4] hover:text-white rounded hover:bg-white/10 disabled:text-[#555] disabled:hover:bg-transparent"
+        >
+          {isAnalyzing ? <Loader2 size={12} className="animate-spin" /> : <ScanSearch size={12} />}
+          {analysis ? 'Run again' : 'Run analysis'}
+        </button>
+      </div>
+
+      {isStale && (
+        <div className="mb-2 text-xs text-amber-300 flex items-center gap-1">
+          <AlertTriangle size={12} /> Case files changed since this analysis. Run it again.
+        </div>
+      )}
+
+      {findings.length > 0 && (
+        <div className="mb-2 space-y-1.5">
+          <div className="flex flex-wrap gap-1">
+            <button
+              onClick={() => setLayerFilter('all')}
+              className={`px-2 py-0.5 text-xs rounded ${layerFilter === 'all' ? 'bg-[#4A4A4A] text-white' : 'bg-[#2C2C2C] text-[#A8ABB4]'}`}
+            >
+              All
+            </button>
+            {(Object.keys(LAYER_LABELS) as ContradictionLayer[]).filter(layer => layerCounts.has(layer)).map(layer => (
+              <button
+                key={layer}
+                onClick={() => setLayerFilter(layer)}
+                className={`px-2 py-0.5 text-xs rounded ${layerFilter === layer ? 'bg-[#4A4A4A] text-white' : 'bg-[#2C2C2C] text-[#A8ABB4]'}`}
+              >
+                {LAYER_LABELS[layer]} ({layerCounts.get(layer)})
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-1 p-0.5 bg-[#2C2C2C] rounded-md w-fit">
+            {(['all', 'high', 'medium', 'low'] as const).map(severity => (
+              <button
+                key={severity}
+                onClick={() => setSeverityFilter(severity)}
+                className={`px-2 py-0.5 text-xs rounded capitalize ${severityFilter === severity ? 'bg-[#4A4A4A] text-white' : 'text-[#A8ABB4]'}`}
+              >
+                {severity}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex-grow overflow-y-auto chat-container pr-1 space-y-2">
+        {!analysis && (
+          <p className="text-[#777777] text-center py-3 text-sm">
+            Scan the case files and notes for contradictions across timeline, statements, behaviour, metadata, finances, coercion, rights and intent.
+          </p>
+        )}
+        {analysis && visible.length === 0 && (
+          <p className="text-[#777777] text-center py-3 text-sm">No contradictions found{findings.length > 0 ? ' for this filter' : ''}.</p>
+        )}
+        {visible.map(finding => (
+          <div key={finding.id} className="p-2 rounded-md text-xs bg-[#2C2C2C] border border-[rgba(255,255,255,0.05)] space-y-1.5">
+            <div className="flex items-center gap-1.5">
+              <span className={`px-1.5 py-px rounded-full border text-[10px] font-semibold uppercase ${SEVERITY_STYLES[finding.severity]}`}>
+                {finding.severity}
+              </span>
+              <span className="text-[#A8ABB4]">{LAYER_LABELS[finding.layer]}</span>
+            </div>
+            <div className="text-[#C8C8C8]">{finding.explanation}</div>
+            {renderStatement(finding, 0)}
+            {renderStatement(finding, 1)}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default FindingsPanel;
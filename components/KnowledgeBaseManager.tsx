@@ -3,15 +3,58 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useCallback } from 'react';
-import { X, File, Copy, Trash2, ShieldCheck, FileClock, Filter } from 'lucide-react';
+import React, { useCallback, useMemo, useState } from 'react';
+import { X, File, Copy, Trash2, ShieldCheck, FileClock, Filter, AlertTriangle, Info, CalendarRange, ScanSearch, NotebookPen, Lock, Search, Tag, ShieldAlert, Download } from 'lucide-react';
 import { useDropzone } from 'react-dropzone';
-import { Attachment } from '../types';
+import { Attachment, CaseFilter, CaseNote, ChatMessage, CustodyDetails, ContradictionAnalysis, EvidenceClassification, EvidenceType, ExtractorKind, NoteReference, QuarantinedFile, Timeline, TimelineEvent } from '../types';
+import { detectMetadataMismatches, formatMetadataValue, METADATA_LABELS } from '../services/metadataService';
+import { caseTags, classificationOf, EMPTY_CASE_FILTER, EVIDENCE_TYPE_LABELS, isFilterActive, matchesFilter } from '../services/classificationService';
+import VerificationPanel from './VerificationPanel';
+import ClassificationEditor from './ClassificationEditor';
+import CustodyPanel from './CustodyPanel';
+import { custodyOf } from '../services/custodyService';
+import NotesPanel from './NotesPanel';
+import TimelineView from './TimelineView';
+import FindingsPanel from './FindingsPanel';
+
+const EXTRACTOR_LABELS: Record<ExtractorKind, string> = {
+  text: 'Plain text',
+  csv: 'CSV',
+  pdf: 'PDF text',
+  docx: 'Word document',
+  xlsx: 'Excel workbook',
+  email: 'Email',
+  msg: 'Outlook message',
+  whatsapp: 'WhatsApp chat',
+  ocr: 'OCR',
+  audio: 'Audio transcript',
+  unsupported: 'Not extracted',
+};
+
+const MODE_TITLES = { workspace: 'Case Workspace', notes: 'Case Notes', timeline: 'Timeline', findings: 'Findings', verify: 'Verify' };
 
 interface CaseWorkspaceProps {
   attachments: Attachment[];
   onAddFiles: (files: FileList) => void;
   onRemoveFile: (hash: string) => void;
+  onClassifyFile: (hash: string, classification: EvidenceClassification) => void;
+  onRecordCustody: (hash: string, details: CustodyDetails) => void;
+  onExportCustodySheet: (hashes: string[]) => void;
+  quarantine: QuarantinedFile[]; // Files from an imported bundle that failed verification
+  onDownloadQuarantined: (file: QuarantinedFile) => void;
+  filter: CaseFilter;
+  onFilterChange: (filter: CaseFilter) => void;
+  notes: CaseNote[];
+  notesText: string; // Every note as one text, as the local analyses read it
+  onNotesChange: (notes: CaseNote[]) => void;
+  messages: ChatMessage[]; // From every conversation, for notes to link to
+  onOpenMessage: (messageId: string) => void;
+  timeline: Timeline;
+  onSaveTimelineEvent: (event: TimelineEvent) => void;
+  onDismissTimelineEvent: (event: TimelineEvent) => void;
+  contradictions: ContradictionAnalysis | null;
+  isAnalyzing: boolean;
+  onRunAnalysis: () => void;
   onCloseSidebar?: () => void;
 }
 
@@ -19,9 +62,28 @@ const CaseWorkspace: React.FC<CaseWorkspaceProps> = ({
   attachments, 
   onAddFiles,
   onRemoveFile,
+  onClassifyFile,
+  onRecordCustody,
+  onExportCustodySheet,
+  quarantine,
+  onDownloadQuarantined,
+  filter,
+  onFilterChange,
+  notes,
+  notesText,
+  onNotesChange,
+  messages,
+  onOpenMessage,
+  timeline,
+  onSaveTimelineEvent,
+  onDismissTimelineEvent,
+  contradictions,
+  isAnalyzing,
+  onRunAnalysis,
   onCloseSidebar,
 }) => {
   const fileInputRef = React.useRef<HTMLInputElement>(null);
+  const [mode, setMode] = useState<keyof typeof MODE_TITLES>('workspace');
 
   const onDrop = useCallback((acceptedFiles: File[]) => {
     const dataTransfer = new DataTransfer();
@@ -31,6 +93,53 @@ const CaseWorkspace: React.FC<CaseWorkspaceProps> = ({
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({ onDrop, noClick: true });
 
+  const [expandedFiles, setExpandedFiles] = useState<Set<string>>(new Set());
+  const [classifyingHash, setClassifyingHash] = useState<string | null>(null);
+  const [custodyHash, setCustodyHash] = useState<string | null>(null);
+
+  const tags = useMemo(() => caseTags(attachments), [attachments]);
+  const visibleFiles = useMemo(() => attachments.filter(file => matchesFilter(file, filter)), [attachments, filter]);
+
+  // The buttons and the select pick one category at a time; the search narrows whichever is picked.
+  const setCategory = (category: Omit<CaseFilter, 'search'>) => onFilterChange({ ...category, search: filter.search });
+  const otherCategory = filter.tag ? `tag:${filter.tag}` : filter.evidenceType && filter.evidenceType !== 'incident' ? `type:${filter.evidenceType}` : '';
+  const handleOtherCategory = (value: string) => {
+    const [kind, ...rest] = value.split(':');
+    const target = rest.join(':');
+    if (kind === 'tag') setCategory({ tag: target });
+    else if (kind === 'type') setCategory({ evidenceType: target as EvidenceType });
+    else setCategory({});
+  };
+
+  // Re-checked whenever the notes change, since the notes are the narrative photos are compared against.
+  const metadataFlags = useMemo(
+    () => new Map(attachments.map(file => [file.hash, detectMetadataMismatches(file, notesText)])),
+    [attachments, notesText],
+  );
+
+  const noteTargets = useMemo(() => ({ attachments, messages, events: timeline.events }), [attachments, messages, timeline]);
+
+  const handleOpenReference = (reference: NoteReference) => {
+    if (reference.kind === 'message') {
+      onOpenMessage(reference.target);
+    } else if (reference.kind === 'event') {
+      setMode('timeline');
+    } else {
+      setMode('workspace');
+      // The file list renders after the mode switch.
+      setTimeout(() => document.getElementById(`case-file-${reference.target}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' }), 0);
+    }
+  };
+
+  const toggleMetadata = (hash: string) => {
+    setExpandedFiles(prev => {
+      const next = new Set(prev);
+      if (next.has(hash)) next.delete(hash);
+      else next.add(hash);
+      return next;
+    });
+  };
+
   const handleCopyHash = (hash: string) => {
     navigator.clipboard.writeText(hash);
   };
@@ -42,7 +151,43 @@ const CaseWorkspace: React.FC<CaseWorkspaceProps> = ({
   return (
     <div className="p-4 bg-[#1E1E1E] shadow-md rounded-xl h-full flex flex-col border border-[rgba(255,255,255,0.05)]">
       <div className="flex items-center justify-between mb-3">
-        <h2 className="text-xl font-semibold text-[#E2E2E2]">Case Workspace</h2>
+        <h2 className="text-xl font-semibold text-[#E2E2E2]">{MODE_TITLES[mode]}</h2>
+        <div className="flex items-center gap-1 p-0.5 bg-[#2C2C2C] rounded-md ml-auto mr-1">
+          <button
+            onClick={() => setMode('workspace')}
+            className={`px-2 py-0.5 text-xs rounded ${mode === 'workspace' ? 'bg-[#4A4A4A] text-white' : 'text-[#A8ABB4]'}`}
+          >
+            Workspace
+          </button>
+          <button
+            onClick={() => setMode('notes')}
+            className={`flex items-center gap-1 px-2 py-0.5 text-xs rounded ${mode === 'notes' ? 'bg-[#4A4A4A] text-white' : 'text-[#A8ABB4]'}`}
+            aria-label="Case notes"
+          >
+            <NotebookPen size={12} />
+          </button>
+          <button
+            onClick={() => setMode('timeline')}
+            className={`flex items-center gap-1 px-2 py-0.5 text-xs rounded ${mode === 'timeline' ? 'bg-[#4A4A4A] text-white' : 'text-[#A8ABB4]'}`}
+          >
+            <CalendarRange size={12} />
+            Timeline
+          </button>
+          <button
+            onClick={() => setMode('findings')}
+            className={`flex items-center gap-1 px-2 py-0.5 text-xs rounded ${mode === 'findings' ? 'bg-[#4A4A4A] text-white' : 'text-[#A8ABB4]'}`}
+          >
+            <ScanSearch size={12} />
+            Findings
+          </button>
+          <button
+            onClick={() => setMode('verify')}
+            className={`flex items-center gap-1 px-2 py-0.5 text-xs rounded ${mode === 'verify' ? 'bg-[#4A4A4A] text-white' : 'text-[#A8ABB4]'}`}
+          >
+            <ShieldCheck size={12} />
+            Verify
+          </button>
+        </div>
         {onCloseSidebar && (
           <button
             onClick={onCloseSidebar}
@@ -54,71 +199,291 @@ const CaseWorkspace: React.FC<CaseWorkspaceProps> = ({
         )}
       </div>
 
-      <div 
-        {...getRootProps()}
-        onClick={handleFileSelectClick}
-        className={`cursor-pointer border-2 border-dashed border-[#4A4A4A] hover:border-[#777] rounded-lg p-4 flex flex-col items-center justify-center text-[#A8ABB4] transition-colors mb-4 ${isDragActive ? 'bg-[#4A4A4A]/50 border-blue-400' : ''}`}
-      >
-        <input {...getInputProps()} ref={fileInputRef} multiple />
-        <File size={24} className="mb-2" />
-        <span className="font-semibold text-sm">Drop files here</span>
-        <span className="text-xs mt-1">or click to select</span>
-      </div>
-
-      <div className="flex items-center justify-between mb-2 text-sm">
-        <span className="font-medium text-[#A8ABB4]">Case Filter</span>
-        <div className="flex items-center gap-1 p-0.5 bg-[#2C2C2C] rounded-md">
-          <button className="px-2 py-0.5 text-xs bg-[#4A4A4A] rounded text-white">All</button>
-          <button className="px-2 py-0.5 text-xs text-[#A8ABB4]">Incidents</button>
-          <button className="px-2 py-0.5 text-xs text-[#A8ABB4]">Sealed</button>
-        </div>
-      </div>
+      {mode === 'verify' ? (
+        <VerificationPanel attachments={attachments} />
+      ) : mode === 'notes' ? (
+        <NotesPanel notes={notes} targets={noteTargets} onChange={onNotesChange} onOpenReference={handleOpenReference} />
+      ) : mode === 'timeline' ? (
+        <TimelineView
+          timeline={timeline}
+          attachments={attachments}
+          onSaveEvent={onSaveTimelineEvent}
+          onDismissEvent={onDismissTimelineEvent}
+        />
+      ) : mode === 'findings' ? (
+        <FindingsPanel
+          analysis={contradictions}
+          attachments={attachments}
+          notes={notesText}
+          isAnalyzing={isAnalyzing}
+          onRunAnalysis={onRunAnalysis}
+        />
+      ) : (
+        <>
+          <div 
+            {...getRootProps()}
+            onClick={handleFileSelectClick}
+            className={`cursor-pointer border-2 border-dashed border-[#4A4A4A] hover:border-[#777] rounded-lg p-4 flex flex-col items-center justify-center text-[#A8ABB4] transition-colors mb-4 ${isDragActive ? 'bg-[#4A4A4A]/50 border-blue-400' : ''}`}
+          >
+            <input {...getInputProps()} ref={fileInputRef} multiple />
+            <File size={24} className="mb-2" />
+            <span className="font-semibold text-sm">Drop files here</span>
+            <span className="text-xs mt-1">or click to select</span>
+          </div>
 
-      <div className="flex-grow overflow-y-auto space-y-2 chat-container pr-1">
-        {attachments.length === 0 ? (
-          <p className="text-[#777777] text-center py-3 text-sm">No files in this case.</p>
-        ) : (
-          attachments.map((file) => (
-            <div key={file.hash} className="flex items-center justify-between p-2 bg-[#2C2C2C] border border-[rgba(255,255,255,0.05)] rounded-lg text-xs">
-              <div className="flex items-center gap-2 overflow-hidden">
-                <File className="text-[#A8ABB4] flex-shrink-0" size={16}/>
-                <div className="flex flex-col overflow-hidden">
-                  <span className="text-white truncate font-medium" title={file.name}>{file.name}</span>
-                  <span className="text-[#777777] truncate font-mono" title={file.hash}>
-                    SHA512: {file.hash.substring(0, 12)}...
-                  </span>
-                </div>
-              </div>
-              <div className="flex items-center flex-shrink-0 ml-2">
-                <button 
-                  onClick={() => handleCopyHash(file.hash)}
-                  className="p-1 text-[#A8ABB4] hover:text-[#79B8FF] rounded-md hover:bg-white/10"
-                  aria-label={`Copy hash for ${file.name}`}
+          <div className="flex items-center justify-between mb-2 text-sm">
+            <span className="flex items-center gap-1 font-medium text-[#A8ABB4]">
+              Case Filter
+              {visibleFiles.length > 0 && (
+                <button
+                  onClick={() => onExportCustodySheet(visibleFiles.map(file => file.hash))}
+                  className="p-1 text-[#A8ABB4] hover:text-white rounded-md hover:bg-white/10"
+                  aria-label="Export a custody sheet for the files shown"
+                  title="Export a sealed custody sheet for the files shown"
                 >
-                  <Copy size={14} />
+                  <FileClock size={14} />
                 </button>
-                <button 
-                  onClick={() => onRemoveFile(file.hash)}
-                  className="p-1 text-[#A8ABB4] hover:text-[#f87171] rounded-md hover:bg-white/10"
-                  aria-label={`Remove ${file.name}`}
+              )}
+            </span>
+            <div className="flex items-center gap-1 p-0.5 bg-[#2C2C2C] rounded-md">
+              {([
+                ['All', {}, !filter.evidenceType && filter.sealed === undefined && !filter.tag],
+                ['Incidents', { evidenceType: 'incident' }, filter.evidenceType === 'incident'],
+                ['Sealed', { sealed: true }, filter.sealed === true],
+              ] as [string, Omit<CaseFilter, 'search'>, boolean][]).map(([label, category, isActive]) => (
+                <button
+                  key={label}
+                  onClick={() => setCategory(category)}
+                  className={`px-2 py-0.5 text-xs rounded ${isActive ? 'bg-[#4A4A4A] text-white' : 'text-[#A8ABB4]'}`}
                 >
-                  <Trash2 size={14} />
+                  {label}
                 </button>
-              </div>
+              ))}
+              <select
+                value={otherCategory}
+                onChange={e => handleOtherCategory(e.target.value)}
+                className={`px-1 py-0.5 text-xs rounded bg-transparent focus:outline-none max-w-[5.5rem] ${otherCategory ? 'bg-[#4A4A4A] text-white' : 'text-[#A8ABB4]'}`}
+                aria-label="Filter by type or tag"
+              >
+                <option value="">More...</option>
+                <optgroup label="Type">
+                  {(Object.keys(EVIDENCE_TYPE_LABELS) as EvidenceType[]).filter(type => type !== 'incident').map(type => (
+                    <option key={type} value={`type:${type}`}>{EVIDENCE_TYPE_LABELS[type]}</option>
+                  ))}
+                </optgroup>
+                {tags.length > 0 && (
+                  <optgroup label="Tag">
+                    {tags.map(tag => <option key={tag} value={`tag:${tag}`}>{tag}</option>)}
+                  </optgroup>
+                )}
+              </select>
             </div>
-          ))
-        )}
-      </div>
+          </div>
+          <div className="flex items-center gap-1.5 mb-2 px-2 py-1 bg-[#2C2C2C] rounded-md text-xs">
+            <Search size={12} className="text-[#777777] flex-shrink-0" />
+            <input
+              value={filter.search}
+              onChange={e => onFilterChange({ ...filter, search: e.target.value })}
+              placeholder="Search names, hashes and content"
+              className="flex-grow min-w-0 bg-transparent text-[#E2E2E2] placeholder-[#777777] focus:outline-none"
+            />
+            {isFilterActive(filter) && (
+              <>
+                <span className="text-[#777777] flex-shrink-0">{visibleFiles.length}/{attachments.length}</span>
+                <button onClick={() => onFilterChange(EMPTY_CASE_FILTER)} className="text-[#A8ABB4] hover:text-white" aria-label="Clear filter">
+                  <X size={12} />
+                </button>
+              </>
+            )}
+          </div>
 
-      <div className="flex-shrink-0 pt-2 mt-2 border-t border-[rgba(255,255,255,0.05)] space-y-2">
-         <div className="text-sm font-medium text-[#A8ABB4]">Timeline &amp; Notes</div>
-         <div className="p-4 bg-[#2C2C2C] rounded-md text-xs text-[#777777] text-center">
-            Timeline feature placeholder.
-         </div>
-         <div className="p-4 bg-[#2C2C2C] rounded-md text-xs text-[#777777] text-center">
-            Notes feature placeholder.
-         </div>
-      </div>
+          <div className="flex-grow overflow-y-auto space-y-2 chat-container pr-1">
+            {attachments.length === 0 ? (
+              <p className="text-[#777777] text-center py-3 text-sm">No files in this case.</p>
+            ) : visibleFiles.length === 0 ? (
+              <p className="text-[#777777] text-center py-3 text-sm">No files match the filter.</p>
+            ) : (
+              visibleFiles.map((file) => {
+                const flags = metadataFlags.get(file.hash) || [];
+                const classification = classificationOf(file);
+                return (
+                  <div key={file.hash} id={`case-file-${file.hash.substring(0, 16)}`} className="p-2 bg-[#2C2C2C] border border-[rgba(255,255,255,0.05)] rounded-lg text-xs">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2 overflow-hidden">
+                        <File className="text-[#A8ABB4] flex-shrink-0" size={16}/>
+                        <div className="flex flex-col overflow-hidden">
+                          <span className="text-white truncate font-medium" title={file.name}>{file.name}</span>
+                          <span className="text-[#777777] truncate font-mono" title={file.hash}>
+                            SHA512: {file.hash.substring(0, 12)}...
+                          </span>
+                          {file.extractor && (
+                            <span
+                              className={`truncate ${file.lossy ? 'text-amber-300/80' : 'text-[#777777]'}`}
+                              title={file.extractionNotes?.join('\n') || undefined}
+                            >
+                              {file.lossy && <AlertTriangle size={10} className="inline mr-1 -mt-0.5" />}
+                              {EXTRACTOR_LABELS[file.extractor]}{file.lossy ? ' (incomplete)' : ''}
+                            </span>
+                          )}
+                          {(classification.evidenceType || classification.custodian) && (
+                            <span className="truncate text-[#A8ABB4]">
+                              {[classification.evidenceType && EVIDENCE_TYPE_LABELS[classification.evidenceType], classification.custodian && `from ${classification.custodian}`].filter(Boolean).join(', ')}
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                      <div className="flex items-center flex-shrink-0 ml-2">
+                        {classification.sealed && <span title="Sealed"><Lock size={12} className="text-amber-300 mr-1" /></span>}
+                        <button
+                          onClick={() => setClassifyingHash(prev => (prev === file.hash ? null : file.hash))}
+                          className={`p-1 rounded-md hover:bg-white/10 ${classifyingHash === file.hash ? 'text-white' : 'text-[#A8ABB4] hover:text-[#79B8FF]'}`}
+                          aria-label={`Classify ${file.name}`}
+                          title="Type, custodian, tags and seal"
+                        >
+                          <Tag size={14} />
+                        </button>
+                        <button
+                          onClick={() => setCustodyHash(prev => (prev === file.hash ? null : file.hash))}
+                          className={`p-1 rounded-md hover:bg-white/10 ${custodyHash === file.hash ? 'text-white' : 'text-[#A8ABB4] hover:text-[#79B8FF]'}`}
+                          aria-label={`Chain of custody for ${file.name}`}
+                          title="Chain of custody"
+                        >
+                          <FileClock size={14} />
+                        </button>
+                        {file.metadata && (
+                          <button
+                            onClick={() => toggleMetadata(file.hash)}
+                            className={`p-1 rounded-md hover:bg-white/10 ${flags.length > 0 ? 'text-amber-300' : 'text-[#A8ABB4] hover:text-[#79B8FF]'}`}
+                            aria-label={`Show metadata for ${file.name}`}
+                            title={flags.length > 0 ? `${flags.length} metadata inconsistency(ies)` : 'Metadata'}
+                          >
+                            <Info size={14} />
+                          </button>
+                        )}
+                        <button 
+                          onClick={() => handleCopyHash(file.hash)}
+                          className="p-1 text-[#A8ABB4] hover:text-[#79B8FF] rounded-md hover:bg-white/10"
+                          aria-label={`Copy hash for ${file.name}`}
+                        >
+                          <Copy size={14} />
+                        </button>
+                        <button 
+                          onClick={() => onRemoveFile(file.hash)}
+                          disabled={classification.sealed}
+                          className="p-1 text-[#A8ABB4] hover:text-[#f87171] rounded-md hover:bg-white/10 disabled:text-[#555] disabled:hover:bg-transparent"
+                          aria-label={`Remove ${file.name}`}
+                          title={classification.sealed ? 'Sealed; unseal the file to remove it' : undefined}
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </div>
+                    </div>
+                    {classification.tags.length > 0 && (
+                      <div className="mt-1 flex flex-wrap gap-1">
+                        {classification.tags.map(tag => (
+                          <button
+                            key={tag}
+                            onClick={() => setCategory({ tag })}
+                            className="px-1.5 py-0.5 bg-blue-500/15 text-blue-200 hover:text-white rounded text-[11px]"
+                            title={`Show files tagged "${tag}"`}
+                          >
+                            {tag}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                    {classifyingHash === file.hash && (
+                      <ClassificationEditor
+                        fileHash={file.hash}
+                        classification={classification}
+                        knownTags={tags}
+                        onChange={next => onClassifyFile(file.hash, next)}
+                      />
+                    )}
+                    {custodyHash === file.hash && (
+                      <CustodyPanel
+                        fileHash={file.hash}
+                        custody={custodyOf(file)}
+                        onRecordDetails={details => onRecordCustody(file.hash, details)}
+                        onExport={() => onExportCustodySheet([file.hash])}
+                      />
+                    )}
+                    {flags.map((flag, i) => (
+                      <div key={i} className="mt-1 text-amber-300/90 flex gap-1">
+                        <AlertTriangle size={12} className="flex-shrink-0 mt-0.5" />
+                        <span>{flag.message}</span>
+                      </div>
+                    ))}
+                    {file.metadata && expandedFiles.has(file.hash) && (
+                      <dl className="mt-1.5 pt-1.5 border-t border-[rgba(255,255,255,0.05)] grid grid-cols-[auto_1fr] gap-x-2 gap-y-0.5 text-[11px]">
+                        {METADATA_LABELS.filter(([key]) => file.metadata![key] !== undefined).map(([key, label]) => (
+                          <React.Fragment key={key}>
+                            <dt className="text-[#777777]">{label}</dt>
+                            <dd className="text-[#C8C8C8] truncate" title={formatMetadataValue(file.metadata![key])}>{formatMetadataValue(file.metadata![key])}</dd>
+                          </React.Fragment>
+                        ))}
+                      </dl>
+                    )}
+                  </div>
+                );
+              })
+            )}
+            {quarantine.length > 0 && (
+              <div className="p-2 bg-red-500/10 border border-red-500/30 rounded-lg text-xs space-y-1.5">
+                <div className="flex items-center gap-1.5 text-red-300 font-medium">
+                  <ShieldAlert size={14} /> Quarantined ({quarantine.length})
+                </div>
+                <p className="text-[11px] text-[#A8ABB4]">Kept out of the case because they failed verification on import. They are never sent to the providers.</p>
+                {quarantine.map((held, i) => (
+                  <div key={i} className="pt-1.5 border-t border-[rgba(255,255,255,0.05)] text-[11px]">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-white truncate font-medium" title={held.name}>{held.name}</span>
+                      {held.actualHash && (
+                        <button
+                          onClick={() => onDownloadQuarantined(held)}
+                          className="p-0.5 text-[#A8ABB4] hover:text-white flex-shrink-0"
+                          aria-label={`Download quarantined ${held.name}`}
+                          title="Download the file as it arrived, for examination"
+                        >
+                          <Download size={12} />
+                        </button>
+                      )}
+                    </div>
+                    <div className="text-red-200/90">{held.reason}</div>
+                    <div className="text-[#777777] font-mono truncate" title={held.expectedHash}>Expected {held.expectedHash.substring(0, 32)}...</div>
+                    {held.actualHash && (
+                      <div className="text-[#777777] font-mono truncate" title={held.actualHash}>Actual {held.actualHash.substring(0, 32)}...</div>
+                    )}
+                    <div className="text-[#777777]">From {held.bundle}, {new Date(held.importedAt).toLocaleString()}</div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex-shrink-0 pt-2 mt-2 border-t border-[rgba(255,255,255,0.05)] space-y-2">
+             <div className="text-sm font-medium text-[#A8ABB4]">Timeline &amp; Notes</div>
+             <button
+                onClick={() => setMode('timeline')}
+                className="w-full flex items-center justify-between p-2 bg-[#2C2C2C] hover:bg-[#353535] rounded-md text-xs text-[#A8ABB4] transition-colors"
+             >
+                <span className="flex items-center gap-1.5"><CalendarRange size={14} /> {timeline.events.length} dated event(s)</span>
+                {timeline.conflicts.length > 0 && (
+                  <span className="flex items-center gap-1 text-red-300"><AlertTriangle size={12} /> {timeline.conflicts.length} conflict(s)</span>
+                )}
+             </button>
+             <button
+                onClick={() => setMode('notes')}
+                className="w-full flex items-center justify-between p-2 bg-[#2C2C2C] hover:bg-[#353535] rounded-md text-xs text-[#A8ABB4] transition-colors"
+             >
+                <span className="flex items-center gap-1.5"><NotebookPen size={14} /> {notes.length} note(s)</span>
+                {notes.some(note => note.sendToProviders) && (
+                  <span className="text-amber-300">{notes.filter(note => note.sendToProviders).length} sent to providers</span>
+                )}
+             </button>
+          </div>
+        </>
+      )}
     </div>
   );
 };
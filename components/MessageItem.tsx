@@ -3,11 +3,17 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React from 'react';
+import React, { useRef, useState } from 'react';
 import { marked } from 'marked';
 import hljs from 'highlight.js';
-import { ChatMessage, MessageSender } from '../types';
-import { File, AlertTriangle, Check, User, Bot, Cog } from 'lucide-react';
+import { Attachment, ChatMessage, CitationCheck, MessageSender, ProviderResponse } from '../types';
+import { File, AlertTriangle, Check, User, Bot, Cog, Stamp, Loader2, Square, GitBranch, NotebookPen } from 'lucide-react';
+import ClaimTable from './ClaimTable';
+import CaseReportView from './CaseReportView';
+import SourceExcerpt from './SourceExcerpt';
+import ProviderFailureNotice from './ProviderFailureNotice';
+import { CITATION_PATTERN, isFabricated } from '../services/citationService';
+import { splitSentences } from '../services/claimService';
 
 marked.setOptions({
   highlight: function(code, lang) {
@@ -19,8 +25,87 @@ marked.setOptions({
 
 interface MessageItemProps {
   message: ChatMessage;
+  attachments?: Attachment[]; // Case files, to open the excerpts that citations point at
+  onCancelStream?: (slotId?: string) => void;
+  onFork?: () => void; // Starts a new conversation branching at this message
+  onPromote?: (excerpt: string, slotId?: string) => void; // Adds an excerpt of the answer to the case notes
+  onReportExported?: (fileName: string, content: string) => void;
 }
 
+// Sentences shorter than this are connective text ("In summary:") rather than claims needing a citation.
+const MIN_CLAIM_WORDS = 6;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const citationClass = (check?: CitationCheck) =>
+  !check || isFabricated(check) ? 'citation-failed' : check.status === 'misplaced' ? 'citation-warning' : 'citation-verified';
+
+/**
+ * Turns each citation into a clickable chip and marks the claims it supports: sentences without a
+ * citation are shown as unverified, and sentences with a fabricated citation as flagged. Code blocks
+ * and tables are left as they are. The n-th citation in the text is described by checks[n].
+ */
+function annotateCitations(text: string, checks: CitationCheck[]): string {
+  let next = 0;
+  let inCode = false;
+  return text.split('\n').map(line => {
+    if (/^\s*(```|~~~)/.test(line)) inCode = !inCode;
+    if (inCode || /^\s*(```|~~~|\|)/.test(line)) {
+      next += [...line.matchAll(CITATION_PATTERN)].length;
+      return line;
+    }
+    const [prefix] = line.match(/^\s*(?:#{1,6}\s+|>\s*|[-*+]\s+|\d+[.)]\s+)*/)!;
+    const body = line.slice(prefix.length);
+
+    // A citation standing after the full stop, as in "It was paid. [1a2b3c4d:4]", belongs to the sentence before it.
+    const sentences: string[] = [];
+    for (const { text: sentence } of splitSentences(body)) {
+      if (sentences.length > 0 && !sentence.replace(CITATION_PATTERN, '').replace(/[\s.,;]/g, '')) {
+        sentences[sentences.length - 1] += ` ${sentence}`;
+      } else {
+        sentences.push(sentence);
+      }
+    }
+
+    const annotated = sentences.map(sentence => {
+      const cited: (CitationCheck | undefined)[] = [];
+      const html = sentence.replace(CITATION_PATTERN, raw => {
+        const index = next++;
+        const check = checks[index];
+        cited.push(check);
+        return `<button type="button" data-citation="${index}" class="citation ${citationClass(check)}" title="${escapeHtml(check?.detail || 'Not checked')}">${escapeHtml(raw)}</button>`;
+      });
+      if (cited.some(check => !check || isFabricated(check))) {
+        return `<span class="claim-flagged" title="A citation for this statement does not match the case files">${html}</span>`;
+      }
+      const isClaim = cited.length === 0 && !/[:?]$/.test(sentence) && sentence.split(/\s+/).length >= MIN_CLAIM_WORDS;
+      return isClaim ? `<span class="claim-unverified" title="No citation supports this statement">${html}</span>` : html;
+    });
+    return prefix + annotated.join(' ');
+  }).join('\n');
+}
+
+const seconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+// Latency and token counts of one provider's answer, e.g. "4.2s (first text 0.8s), 1830 in / 412 out tokens".
+const ResponseMetrics: React.FC<{ response: ProviderResponse }> = ({ response }) => {
+  if (response.latencyMs === undefined) return null;
+  const { usage } = response;
+  return (
+    <span className="font-normal text-gray-500">
+      {' '}- {seconds(response.latencyMs)}
+      {response.firstTokenMs !== undefined && ` (first text ${seconds(response.firstTokenMs)})`}
+      {usage && `, ${usage.estimated ? '~' : ''}${usage.inputTokens} in / ${usage.estimated ? '~' : ''}${usage.outputTokens} out tokens`}
+    </span>
+  );
+};
+
+const STATUS_BADGES: Record<string, { label: string; className: string }> = {
+  cancelled: { label: 'Cancelled', className: 'bg-white/10 text-[#A8ABB4]' },
+  unavailable: { label: 'Unavailable', className: 'bg-red-500/20 text-red-300' },
+};
+
 const SenderAvatar: React.FC<{ sender: MessageSender }> = ({ sender }) => {
   let Icon = User;
   let bgColorClass = 'bg-blue-500/20';
@@ -43,17 +128,130 @@ const SenderAvatar: React.FC<{ sender: MessageSender }> = ({ sender }) => {
   );
 };
 
-const MessageItem: React.FC<MessageItemProps> = ({ message }) => {
+const MessageItem: React.FC<MessageItemProps> = ({ message, attachments = [], onCancelStream, onFork, onPromote, onReportExported }) => {
+  const [openCitation, setOpenCitation] = useState<{ block: string; index: number } | null>(null);
+  const bubbleRef = useRef<HTMLDivElement>(null);
   const isUser = message.sender === MessageSender.USER;
   const isModel = message.sender === MessageSender.MODEL;
   const isSystem = message.sender === MessageSender.SYSTEM;
 
-  const renderMarkdown = (text: string) => {
-    const rawMarkup = marked.parse(text) as string;
-    return <div className="prose prose-sm prose-invert max-w-none" dangerouslySetInnerHTML={{ __html: rawMarkup }} />;
+  const renderCitationSummary = (checks: CitationCheck[]) => {
+    if (checks.length === 0) {
+      return (
+        <div className="flex items-center gap-1 mt-1 text-[11px] text-yellow-300">
+          <AlertTriangle size={12} /> No citations: nothing in this answer is tied to the case files.
+        </div>
+      );
+    }
+    const fabricated = checks.filter(isFabricated).length;
+    const misplaced = checks.filter(c => c.status === 'misplaced').length;
+    return (
+      <div className="flex flex-wrap gap-x-3 mt-1 text-[11px] text-gray-400">
+        <span className="text-green-400">{checks.length - fabricated - misplaced} verified</span>
+        {misplaced > 0 && <span className="text-yellow-300">{misplaced} misplaced</span>}
+        {fabricated > 0 && <span className="text-red-300">{fabricated} fabricated</span>}
+        <span>citation(s); click one to see the cited text</span>
+      </div>
+    );
+  };
+
+  const renderOpenCitation = (check?: CitationCheck) => {
+    if (!check) return null;
+    const file = attachments.find(f => f.hash === check.fileHash);
+    const colour = isFabricated(check) ? 'text-red-300' : check.status === 'misplaced' ? 'text-yellow-300' : 'text-green-400';
+    return (
+      <div className="mt-1 text-[11px]">
+        <div className={colour}>[{check.citation}] {check.detail}</div>
+        {check.quote && <div className="text-gray-400 italic">Quoted: "{check.quote}"</div>}
+        {file?.content && check.start !== undefined && check.end !== undefined && (
+          <SourceExcerpt content={file.content} start={check.start} end={check.end} name={file.name} hash={file.hash} />
+        )}
+      </div>
+    );
+  };
+
+  /**
+   * @param checks The answer's citation checks; when given, citations become clickable and claims are marked.
+   * @param block Identifies the answer within the message, so only its own citation opens.
+   */
+  const renderMarkdown = (text: string, checks?: CitationCheck[], block = 'main') => {
+    const rawMarkup = marked.parse(checks ? annotateCitations(text, checks) : text) as string;
+    const prose = <div data-answer={block} className="prose prose-sm prose-invert max-w-none" dangerouslySetInnerHTML={{ __html: rawMarkup }} />;
+    if (!checks) return prose;
+
+    const handleClick = (e: React.MouseEvent) => {
+      const chip = (e.target as HTMLElement).closest<HTMLElement>('[data-citation]');
+      if (!chip) return;
+      const index = Number(chip.dataset.citation);
+      setOpenCitation(prev => (prev?.block === block && prev.index === index ? null : { block, index }));
+    };
+    return (
+      <div onClick={handleClick}>
+        {prose}
+        {openCitation?.block === block && renderOpenCitation(checks[openCitation.index])}
+        {renderCitationSummary(checks)}
+      </div>
+    );
   };
   
+  const renderStreams = (streams: ProviderResponse[]) => {
+    const streaming = streams.filter(r => r.status === 'streaming').length;
+    return (
+      <div>
+        <div className="flex items-center gap-2 mb-2 text-xs text-[#A8ABB4]">
+          {streaming > 0 && <Loader2 size={12} className="animate-spin" />}
+          <span>
+            {streaming > 0
+              ? `Streaming ${streaming} of ${streams.length} answer(s); consensus is computed when all have finished.`
+              : 'Comparing the answers...'}
+          </span>
+          {streaming > 1 && onCancelStream && (
+            <button onClick={() => onCancelStream()} className="ml-auto flex items-center gap-1 px-1.5 py-0.5 rounded hover:bg-white/10 hover:text-white">
+              <Square size={10} /> Cancel all
+            </button>
+          )}
+        </div>
+        <div className={`grid gap-2 ${streams.length > 1 ? 'md:grid-cols-2' : ''}`}>
+          {streams.map(stream => (
+            <div key={stream.slotId} className="p-2 border border-gray-600/50 rounded-md min-w-0">
+              <div className="flex items-center gap-1.5 mb-1 text-xs font-semibold text-gray-400">
+                <span className="truncate">{stream.label} <span className="font-normal text-gray-500">- {stream.model}</span></span>
+                {stream.status === 'streaming' ? (
+                  onCancelStream && (
+                    <button
+                      onClick={() => onCancelStream(stream.slotId)}
+                      className="ml-auto flex items-center gap-1 px-1.5 py-0.5 font-normal rounded hover:bg-white/10 hover:text-white"
+                      aria-label={`Cancel ${stream.label}`}
+                    >
+                      <Square size={10} /> Cancel
+                    </button>
+                  )
+                ) : STATUS_BADGES[stream.status || ''] ? (
+                  <span className={`ml-auto px-1.5 rounded text-[10px] font-normal ${STATUS_BADGES[stream.status!].className}`}>{STATUS_BADGES[stream.status!].label}</span>
+                ) : (
+                  <Check size={12} className="ml-auto text-green-400" />
+                )}
+              </div>
+              {stream.status === 'unavailable' ? (
+                <ProviderFailureNotice response={stream} />
+              ) : stream.text ? (
+                renderMarkdown(stream.text)
+              ) : (
+                <p className="text-xs text-gray-500">
+                  {stream.attempts && stream.attempts > 1 ? `Retrying (attempt ${stream.attempts})...` : 'Waiting for the first text...'}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
   const renderModelContent = () => {
+    if (message.isLoading && message.responses?.length) {
+      return renderStreams(message.responses);
+    }
     if (message.isLoading) {
       return (
         <div className="flex items-center space-x-1.5 text-[#A8ABB4]">
@@ -64,52 +262,180 @@ const MessageItem: React.FC<MessageItemProps> = ({ message }) => {
       );
     }
 
-    if (message.isDivergent) {
+    if (message.report) {
+      return <CaseReportView record={message.report} onExported={onReportExported} />;
+    }
+
+    const responses = message.responses || [];
+    const consensus = message.consensus;
+    const labelOf = (slotId: string) => responses.find(r => r.slotId === slotId)?.label || slotId;
+
+    const renderResponses = () => (
+      <div className="space-y-3">
+        {responses.map(response => (
+          <div key={response.slotId} className="p-2 border border-gray-600/50 rounded-md">
+            <p className="text-xs font-semibold text-gray-400 mb-1">
+              {response.label} <span className="font-normal text-gray-500">- {response.model}</span>
+              <ResponseMetrics response={response} />
+              {STATUS_BADGES[response.status || ''] && (
+                <span className={`ml-1.5 px-1.5 rounded text-[10px] font-normal ${STATUS_BADGES[response.status!].className}`}>{STATUS_BADGES[response.status!].label}</span>
+              )}
+            </p>
+            {response.status === 'unavailable'
+              ? <ProviderFailureNotice response={response} />
+              : renderMarkdown(response.text || "No response.", response.citations, response.slotId)}
+          </div>
+        ))}
+      </div>
+    );
+
+    const renderPairwise = () => consensus && consensus.pairwise.length > 0 && (
+      <div className="flex flex-wrap gap-x-3 gap-y-1 mt-2 text-[11px] text-gray-400">
+        {consensus.pairwise.map(pair => (
+          <span key={`${pair.a}-${pair.b}`}>
+            {labelOf(pair.a)} / {labelOf(pair.b)}: {Math.round(pair.score * 100)}%
+          </span>
+        ))}
+      </div>
+    );
+
+    // The consensus text is the majority leader's answer, so it carries that answer's citations.
+    const consensusText = message.consensusText || message.text || "No response received.";
+    const consensusChecks = responses.find(r => r.text === consensusText)?.citations;
+
+    const claims = consensus?.claims;
+    if (!claims && responses.length > 0) {
+      // Too few answers finished for a consensus, e.g. after cancelling a provider.
       return (
         <div>
-          <div className="flex items-center gap-2 p-2 mb-2 text-sm text-yellow-300 bg-yellow-500/10 border border-yellow-500/20 rounded-md">
-            <AlertTriangle size={16} />
-            <p>Provider responses diverged. Review both answers.</p>
-          </div>
-          <div className="space-y-3">
-            <div className="p-2 border border-gray-600/50 rounded-md">
-              <p className="text-xs font-semibold text-gray-400 mb-1">Provider 1</p>
-              {renderMarkdown(message.api1Response || "No response.")}
-            </div>
-            <div className="p-2 border border-gray-600/50 rounded-md">
-              <p className="text-xs font-semibold text-gray-400 mb-1">Provider 2</p>
-              {renderMarkdown(message.api2Response || "No response.")}
-            </div>
-          </div>
+          <div className="flex items-center gap-1.5 mb-2 text-xs text-yellow-300"><AlertTriangle size={14} /> {message.text}</div>
+          {renderResponses()}
         </div>
       );
     }
+    if (!claims || responses.length === 0) {
+      return renderMarkdown(consensusText, consensusChecks);
+    }
+
+    const hasMajority = !!consensus && consensus.majority.length > 0;
+    // Answers from before providers could fail or be cancelled have no status, and all voted.
+    const voters = responses.filter(r => !r.status || r.status === 'complete');
+    const unavailable = responses.filter(r => r.status === 'unavailable');
+    const counts = {
+      agreed: claims.filter(c => c.status === 'agreed').length,
+      disputed: claims.filter(c => c.status === 'disputed').length,
+      unique: claims.filter(c => c.status === 'unique').length,
+    };
 
     return (
       <div>
+        <div className={`flex flex-wrap items-center gap-x-3 gap-y-1 mb-2 text-xs ${message.isDivergent ? 'text-yellow-300' : 'text-green-400'}`}>
+          {message.isDivergent ? <AlertTriangle size={14} /> : <Check size={14} />}
+          <span>{counts.agreed} agreed</span>
+          <span className={counts.disputed > 0 ? 'text-red-300' : ''}>{counts.disputed} disputed</span>
+          <span className="text-gray-400">{counts.unique} unique</span>
+          {unavailable.length > 0 && (
+            <span className="text-gray-400">{unavailable.map(r => r.label).join(', ')} unavailable (not counted)</span>
+          )}
+          {consensus!.minority.length > 0 && (
+            <span className="text-gray-400">
+              {hasMajority
+                ? `Majority ${consensus!.majority.length}/${consensus!.majority.length + consensus!.minority.length}, dissent from ${consensus!.minority.map(labelOf).join(', ')}`
+                : 'No majority between providers'}
+            </span>
+          )}
+        </div>
         {message.consensusText ? (
-          <>
-            <div className="flex items-center gap-2 text-xs text-green-400 mb-2">
-              <Check size={14} />
-              <span>Consensus Verified</span>
-            </div>
-            {renderMarkdown(message.consensusText)}
-          </>
+          <div className="mb-3">{renderMarkdown(message.consensusText, consensusChecks)}</div>
         ) : (
-           renderMarkdown(message.text || "No response received.")
+          <div className="mb-3">{renderResponses()}</div>
+        )}
+        <details className="text-sm" open={counts.disputed > 0}>
+          <summary className="cursor-pointer text-xs text-gray-400 mb-2">Claim-by-claim agreement</summary>
+          <ClaimTable claims={claims} responses={voters} />
+        </details>
+        {message.consensusText && (
+          <details className="text-sm mt-2">
+            <summary className="cursor-pointer text-xs text-gray-400 mb-2">All provider answers</summary>
+            {renderResponses()}
+          </details>
         )}
+        {renderPairwise()}
       </div>
     );
   };
   
+  const forkButton = onFork && !isSystem && !message.isLoading && (
+    <button
+      onClick={onFork}
+      className="self-center p-1 text-[#777777] hover:text-white rounded-md hover:bg-white/10 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity flex-shrink-0"
+      aria-label={isUser ? 'Fork the conversation before this question' : 'Fork the conversation after this answer'}
+      title={isUser ? 'Fork here to ask this differently' : 'Fork the conversation after this answer'}
+    >
+      <GitBranch size={14} />
+    </button>
+  );
+
+  // Promotes the text selected in this answer, or the whole answer when nothing is selected.
+  const handlePromote = () => {
+    if (!onPromote) return;
+    const selection = window.getSelection();
+    const excerpt = selection?.toString().trim();
+    const anchor = selection?.anchorNode;
+    if (excerpt && anchor && bubbleRef.current?.contains(anchor)) {
+      const element = anchor instanceof HTMLElement ? anchor : anchor.parentElement;
+      const block = element?.closest<HTMLElement>('[data-answer]')?.dataset.answer;
+      onPromote(excerpt, block && block !== 'main' ? block : undefined);
+    } else {
+      onPromote(message.consensusText || message.text);
+    }
+  };
+
+  const promoteButton = onPromote && isModel && !message.isLoading && (
+    <button
+      // Keeps the selection, which a click would otherwise clear.
+      onMouseDown={e => e.preventDefault()}
+      onClick={handlePromote}
+      className="self-center p-1 text-[#777777] hover:text-white rounded-md hover:bg-white/10 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity flex-shrink-0"
+      aria-label="Add to case notes"
+      title="Add the selected text, or the whole answer, to the case notes"
+    >
+      <NotebookPen size={14} />
+    </button>
+  );
+
   const bubbleClasses = `p-3 rounded-lg shadow-md max-w-full ${isUser ? 'rounded-br-none bg-white/5' : 'rounded-bl-none bg-black/20'}`;
 
   return (
-    <div className={`flex mb-4 ${isUser ? 'justify-end' : 'justify-start'}`}>
+    <div className={`group flex mb-4 ${isUser ? 'justify-end' : 'justify-start'}`}>
       <div className={`flex items-start gap-2.5 w-full ${isUser ? 'max-w-[85%]' : 'max-w-[95%]'}`}>
         {!isUser && <SenderAvatar sender={message.sender} />}
-        <div className={bubbleClasses}>
+        {isUser && forkButton}
+        <div ref={bubbleRef} id={`message-${message.id}`} className={bubbleClasses}>
           {isModel && renderModelContent()}
+          {isModel && !message.isLoading && message.sources && message.sources.length > 0 && (
+            <details className="text-sm mt-2">
+              <summary className="cursor-pointer text-xs text-gray-400 mb-1">
+                Sources: {message.sources.filter(s => s.cited).length} cited of {message.sources.length} passage(s) sent
+                (~{message.sources.reduce((sum, s) => sum + s.tokens, 0)} tokens)
+              </summary>
+              <ul className="space-y-0.5 text-[11px]">
+                {message.sources.map(source => (
+                  <li key={source.label} className={`flex gap-1.5 ${source.cited ? 'text-gray-200' : 'text-gray-500'}`}>
+                    <span className="font-mono flex-shrink-0">[{source.label}]</span>
+                    <span className="truncate">{source.fileName}, lines {source.lineStart}-{source.lineEnd}</span>
+                    <span className="font-mono flex-shrink-0" title={source.fileHash}>{source.fileHash.substring(0, 12)}...</span>
+                    {!source.cited && <span className="flex-shrink-0">(not cited)</span>}
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
+          {isModel && !message.isLoading && !message.report && message.constitution && (
+            <div className="mt-2 pt-1.5 border-t border-[rgba(255,255,255,0.1)] flex items-center gap-1 text-[11px] text-gray-500 truncate" title={message.constitution.hash}>
+              <Stamp size={11} className="flex-shrink-0" /> Constitution v{message.constitution.version} - SHA-512 {message.constitution.hash.substring(0, 16)}...
+            </div>
+          )}
           {isUser && <div className="text-white text-sm whitespace-pre-wrap">{message.text}</div>}
           {isSystem && <div className="text-[#A8ABB4] text-sm whitespace-pre-wrap">{message.text}</div>}
           
@@ -127,6 +453,12 @@ const MessageItem: React.FC<MessageItemProps> = ({ message }) => {
             </div>
           )}
         </div>
+        {!isUser && (
+          <div className="self-center flex flex-col">
+            {forkButton}
+            {promoteButton}
+          </div>
+        )}
         {isUser && <SenderAvatar sender={message.sender} />}
       </div>
     </div>
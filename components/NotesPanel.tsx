@@ -0,0 +1,221 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useRef, useState } from 'react';
+import { marked } from 'marked';
+import { AlertTriangle, ArrowLeft, Eye, Link2, NotebookPen, Pencil, Plus, Quote, Send, Trash2 } from 'lucide-react';
+import { CaseNote, MessageSender, NoteReference, NoteReferenceKind } from '../types';
+import { createNote, findReferences, noteLink, NoteLinkTargets } from '../services/notesService';
+
+interface NotesPanelProps {
+  notes: CaseNote[];
+  targets: NoteLinkTargets;
+  onChange: (notes: CaseNote[]) => void;
+  onOpenReference: (reference: NoteReference) => void;
+}
+
+const LINK_LABEL_CHARS = 50;
+
+const shorten = (text: string) => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > LINK_LABEL_CHARS ? `${flat.substring(0, LINK_LABEL_CHARS - 3)}...` : flat;
+};
+
+const REFERENCE_KINDS: Record<NoteReferenceKind, string> = { file: 'File', message: 'Message', event: 'Event' };
+
+const NotesPanel: React.FC<NotesPanelProps> = ({ notes, targets, onChange, onOpenReference }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isPreview, setIsPreview] = useState(false);
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+  const note = notes.find(n => n.id === selectedId);
+
+  const references = useMemo(() => (note ? findReferences(note.body, targets) : []), [note, targets]);
+  const answers = targets.messages.filter(m => m.sender === MessageSender.MODEL && !m.isLoading);
+
+  const updateNote = (patch: Partial<CaseNote>) => {
+    if (!note) return;
+    onChange(notes.map(n => (n.id === note.id ? { ...n, ...patch, updatedAt: new Date().toISOString() } : n)));
+  };
+
+  const handleNewNote = () => {
+    const created = createNote('Untitled note');
+    onChange([created, ...notes]);
+    setSelectedId(created.id);
+    setIsPreview(false);
+  };
+
+  const handleDelete = () => {
+    if (!note || !window.confirm(`Delete the note "${note.title}"?`)) return;
+    onChange(notes.filter(n => n.id !== note.id));
+    setSelectedId(null);
+  };
+
+  // Inserts the link at the cursor, or appends it in preview mode.
+  const insertLink = (value: string) => {
+    if (!note || !value) return;
+    const [kind, ...rest] = value.split(':');
+    const target = rest.join(':');
+    const label = kind === 'file'
+      ? targets.attachments.find(f => f.hash === target)?.name
+      : kind === 'event'
+        ? targets.events.find(e => e.id === target)?.date
+        : 'answer';
+    const link = noteLink(kind as NoteReferenceKind, target, label || kind);
+    const textarea = bodyRef.current;
+    const at = textarea && !isPreview ? textarea.selectionStart : note.body.length;
+    updateNote({ body: `${note.body.slice(0, at)}${link}${note.body.slice(at)}` });
+  };
+
+  // Links to case files, messages and events open them instead of navigating.
+  const handlePreviewClick = (e: React.MouseEvent) => {
+    const anchor = (e.target as HTMLElement).closest('a');
+    const match = anchor?.getAttribute('href')?.match(/^(file|message|event):(.+)$/);
+    if (!match) return;
+    e.preventDefault();
+    const reference = references.find(r => r.kind === match[1] && r.target === match[2]);
+    if (reference?.found) onOpenReference(reference);
+  };
+
+  if (!note) {
+    return (
+      <div className="flex-grow flex flex-col min-h-0">
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-sm font-medium text-[#A8ABB4]">{notes.length} note(s)</span>
+          <button onClick={handleNewNote} className="flex items-center gap-1 px-2 py-0.5 text-xs text-[#A8ABB4] hover:text-white rounded hover:bg-white/10">
+            <Plus size={12} /> New note
+          </button>
+        </div>
+        <div className="flex-grow overflow-y-auto chat-container space-y-1.5 pr-1">
+          {notes.length === 0 && (
+            <p className="text-xs text-[#777777]">
+              No notes yet. Start one here, or add an excerpt of an answer to the notes from the chat.
+            </p>
+          )}
+          {notes.map(n => (
+            <button
+              key={n.id}
+              onClick={() => { setSelectedId(n.id); setIsPreview(true); }}
+              className="w-full text-left p-2 bg-[#2C2C2C] hover:bg-[#353535] rounded-md"
+            >
+              <div className="flex items-center gap-1.5 text-xs text-[#E2E2E2]">
+                {n.provenance ? <Quote size={12} className="flex-shrink-0 text-blue-300" /> : <NotebookPen size={12} className="flex-shrink-0" />}
+                <span className="truncate font-medium">{n.title}</span>
+                {n.sendToProviders && <Send size={11} className="ml-auto flex-shrink-0 text-amber-300" aria-label="Sent to providers" />}
+              </div>
+              <div className="text-[11px] text-[#777777] truncate">{shorten(n.body) || 'Empty'}</div>
+              <div className="text-[10px] text-[#777777]">Edited {new Date(n.updatedAt).toLocaleString()}</div>
+            </button>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  const provenance = note.provenance;
+  const inputClass = 'bg-[#2C2C2C] border border-[rgba(255,255,255,0.1)] rounded-md px-2 py-1 text-xs text-[#E2E2E2] focus:outline-none';
+
+  return (
+    <div className="flex-grow flex flex-col min-h-0 space-y-2">
+      <div className="flex items-center gap-1">
+        <button onClick={() => setSelectedId(null)} className="p-1 text-[#A8ABB4] hover:text-white rounded hover:bg-white/10" aria-label="Back to all notes">
+          <ArrowLeft size={14} />
+        </button>
+        <input
+          value={note.title}
+          onChange={e => updateNote({ title: e.target.value })}
+          className={`${inputClass} flex-grow font-medium`}
+          aria-label="Note title"
+        />
+        <button
+          onClick={() => setIsPreview(prev => !prev)}
+          className="p-1 text-[#A8ABB4] hover:text-white rounded hover:bg-white/10"
+          aria-label={isPreview ? 'Edit note' : 'Preview note'}
+        >
+          {isPreview ? <Pencil size={14} /> : <Eye size={14} />}
+        </button>
+        <button onClick={handleDelete} className="p-1 text-[#A8ABB4] hover:text-red-300 rounded hover:bg-white/10" aria-label="Delete note">
+          <Trash2 size={14} />
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <label className="flex items-center gap-1 text-[11px] text-[#A8ABB4] flex-shrink-0">
+          <Link2 size={12} />
+          <select value="" onChange={e => insertLink(e.target.value)} className="bg-[#2C2C2C] rounded px-1 py-0.5 text-[11px] max-w-[9rem] focus:outline-none" aria-label="Insert a link">
+            <option value="">Link to...</option>
+            {targets.attachments.length > 0 && (
+              <optgroup label="Case files">
+                {targets.attachments.map(f => <option key={f.hash} value={`file:${f.hash}`}>{f.name}</option>)}
+              </optgroup>
+            )}
+            {targets.events.length > 0 && (
+              <optgroup label="Timeline events">
+                {targets.events.map(e => <option key={e.id} value={`event:${e.id}`}>{e.date} {shorten(e.description)}</option>)}
+              </optgroup>
+            )}
+            {answers.length > 0 && (
+              <optgroup label="Answers">
+                {answers.map(m => <option key={m.id} value={`message:${m.id}`}>{shorten(m.consensusText || m.text)}</option>)}
+              </optgroup>
+            )}
+          </select>
+        </label>
+        <label className="flex items-center gap-1 ml-auto text-[11px] text-[#A8ABB4]" title="Sent with chat queries and case reports as your own notes, after redaction">
+          <input type="checkbox" checked={note.sendToProviders} onChange={e => updateNote({ sendToProviders: e.target.checked })} />
+          Send to providers
+        </label>
+      </div>
+
+      {isPreview ? (
+        <div
+          onClick={handlePreviewClick}
+          className="flex-grow overflow-y-auto chat-container p-2 bg-[#2C2C2C] rounded-md prose prose-sm prose-invert max-w-none text-xs"
+          dangerouslySetInnerHTML={{ __html: marked.parse(note.body || '*Empty note.*') as string }}
+        />
+      ) : (
+        <textarea
+          ref={bodyRef}
+          value={note.body}
+          onChange={e => updateNote({ body: e.target.value })}
+          placeholder="Markdown. Use Link to... to refer to a file, timeline event or answer."
+          className={`${inputClass} flex-grow min-h-[8rem] resize-none font-mono`}
+        />
+      )}
+
+      {references.length > 0 && (
+        <div className="text-[11px] space-y-0.5">
+          <div className="text-[#A8ABB4]">Links</div>
+          {references.map((reference, i) => (
+            <button
+              key={`${reference.kind}:${reference.target}:${i}`}
+              onClick={() => reference.found && onOpenReference(reference)}
+              disabled={!reference.found}
+              className="w-full flex gap-1.5 text-left text-[#C8C8C8] hover:text-white disabled:text-red-300"
+            >
+              <span className="text-[#777777] flex-shrink-0">{REFERENCE_KINDS[reference.kind]}</span>
+              <span className="truncate">{reference.found ? reference.description : `${reference.label}: no longer in the case`}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {provenance && (
+        <div className="p-2 bg-blue-500/10 rounded-md text-[11px] text-[#A8ABB4] space-y-0.5">
+          <div className="flex items-center gap-1 font-semibold text-blue-200"><Quote size={12} /> Excerpt of a model answer</div>
+          <div>
+            {[provenance.source, provenance.provider, provenance.model].filter(Boolean).join(' - ')}, answered {new Date(provenance.answeredAt).toLocaleString()}
+          </div>
+          {provenance.constitution && <div>Constitution v{provenance.constitution.version}</div>}
+          <div className="font-mono truncate" title={provenance.excerptHash}>Excerpt SHA-512 {provenance.excerptHash.substring(0, 16)}...</div>
+          {!note.body.includes(provenance.excerpt.trim().split('\n')[0]) && (
+            <div className="flex items-center gap-1 text-yellow-300"><AlertTriangle size={12} /> The quoted excerpt has been edited since it was added.</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotesPanel;
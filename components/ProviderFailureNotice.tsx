@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { ShieldAlert, WifiOff } from 'lucide-react';
+import { ProviderResponse } from '../types';
+import { FAILURE_LABELS } from '../services/providers/resilience';
+
+interface ProviderFailureNoticeProps {
+  response: ProviderResponse;
+}
+
+/**
+ * Explains why a provider has no answer. Safety blocks get their own notice: abuse evidence regularly
+ * trips provider filters, and the user needs to know the evidence was not judged, only refused.
+ */
+const ProviderFailureNotice: React.FC<ProviderFailureNoticeProps> = ({ response }) => {
+  const error = response.error;
+  if (!error) return null;
+  const attempts = response.attempts && response.attempts > 1 ? ` after ${response.attempts} attempts` : '';
+
+  if (error.kind === 'safety_blocked') {
+    return (
+      <div className="p-2 rounded-md bg-amber-500/10 border border-amber-500/20 text-xs text-amber-200 space-y-1">
+        <div className="flex items-center gap-1.5 font-semibold">
+          <ShieldAlert size={14} className="flex-shrink-0" /> Blocked by {response.label}'s safety filter
+        </div>
+        {error.safetyCategories && error.safetyCategories.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {error.safetyCategories.map(category => (
+              <span key={category} className="px-1.5 py-px rounded bg-amber-500/20 text-[11px]">{category}</span>
+            ))}
+          </div>
+        )}
+        <p className="text-[#C8C8C8]">
+          The provider refused to process this material; it did not assess it. Descriptions of abuse, threats or
+          violence often trip these filters. This provider did not vote, so the other answers stand on their own.
+        </p>
+        <p className="text-[#A8ABB4]">
+          To analyse the material with this slot, bind it to a local model, or lower the Gemini safety threshold
+          under Providers.
+        </p>
+        <p className="font-mono text-[10px] text-[#777777] break-words">{error.message}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-2 rounded-md bg-white/5 text-xs text-[#A8ABB4] space-y-0.5">
+      <div className="flex items-center gap-1.5 font-semibold text-[#E2E2E2]">
+        <WifiOff size={14} className="flex-shrink-0" /> Unavailable: {FAILURE_LABELS[error.kind]}{attempts}
+      </div>
+      <p className="break-words">{error.message}</p>
+      <p className="text-[#777777]">This provider did not vote; its absence is not counted as disagreement.</p>
+    </div>
+  );
+};
+
+export default ProviderFailureNotice;
@@ -0,0 +1,336 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { X, RotateCcw, Plus, Trash2 } from 'lucide-react';
+import { ConsensusSlot, MemorySettings, ProviderConfig, ProviderKind, ProviderSettings, ResilienceSettings, RetrievalSettings, SafetyThreshold, TranscriptionSettings } from '../types';
+import { getDefaultProviderSettings, listProviders } from '../services/providerRegistry';
+
+interface ProviderSettingsPanelProps {
+  isOpen: boolean;
+  settings: ProviderSettings;
+  onClose: () => void;
+  onSave: (settings: ProviderSettings) => void;
+  keysEncrypted: boolean; // Whether the case folder is unlocked, so API keys are stored in it
+}
+
+const SAFETY_THRESHOLDS: { value: SafetyThreshold; label: string }[] = [
+  { value: 'BLOCK_MEDIUM_AND_ABOVE', label: 'Safety filter: block medium and above (default)' },
+  { value: 'BLOCK_ONLY_HIGH', label: 'Safety filter: block only high' },
+  { value: 'BLOCK_NONE', label: 'Safety filter: block none' },
+];
+
+const inputClass = "w-full bg-[#2C2C2C] border border-[rgba(255,255,255,0.1)] rounded-md px-2 py-1 text-xs text-[#E2E2E2] placeholder-[#777777] focus:outline-none";
+
+const ProviderSettingsPanel: React.FC<ProviderSettingsPanelProps> = ({ isOpen, settings, onClose, onSave, keysEncrypted }) => {
+  const [draft, setDraft] = useState<ProviderSettings>(settings);
+
+  useEffect(() => {
+    if (isOpen) setDraft(settings);
+  }, [isOpen, settings]);
+
+  if (!isOpen) return null;
+
+  const updateProvider = (kind: ProviderKind, patch: Partial<ProviderConfig>) => {
+    setDraft(prev => ({ ...prev, providers: { ...prev.providers, [kind]: { ...prev.providers[kind], ...patch } } }));
+  };
+
+  const updateSlot = (id: string, patch: Partial<ConsensusSlot>) => {
+    setDraft(prev => ({ ...prev, slots: prev.slots.map(slot => slot.id === id ? { ...slot, ...patch } : slot) }));
+  };
+
+  const updateRetrieval = (patch: Partial<RetrievalSettings>) => {
+    setDraft(prev => ({ ...prev, retrieval: { ...prev.retrieval, ...patch } }));
+  };
+
+  const updateResilience = (patch: Partial<ResilienceSettings>) => {
+    setDraft(prev => ({ ...prev, resilience: { ...prev.resilience, ...patch } }));
+  };
+
+  const updateMemory = (patch: Partial<MemorySettings>) => {
+    setDraft(prev => ({ ...prev, memory: { ...prev.memory, ...patch } }));
+  };
+
+  const updateTranscription = (patch: Partial<TranscriptionSettings>) => {
+    setDraft(prev => ({ ...prev, transcription: { ...prev.transcription, ...patch } }));
+  };
+
+  const addSlot = () => {
+    setDraft(prev => {
+      const number = Math.max(0, ...prev.slots.map(slot => Number(slot.id.replace('slot-', '')) || 0)) + 1;
+      const template = prev.slots[prev.slots.length - 1];
+      return {
+        ...prev,
+        slots: [...prev.slots, { ...template, id: `slot-${number}`, label: `Provider ${number}`, model: '' }],
+      };
+    });
+  };
+
+  const removeSlot = (id: string) => {
+    setDraft(prev => ({ ...prev, slots: prev.slots.filter(slot => slot.id !== id) }));
+  };
+
+  const handleSave = () => {
+    onSave(draft);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-40 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-full overflow-y-auto chat-container bg-[#1E1E1E] rounded-xl shadow-md border border-[rgba(255,255,255,0.05)] p-4"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-xl font-semibold text-[#E2E2E2]">AI Providers</h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-[#A8ABB4] hover:text-white rounded-md hover:bg-white/10 transition-colors"
+            aria-label="Close provider settings"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-sm font-medium text-[#A8ABB4]">Consensus Slots</span>
+          <button
+            onClick={addSlot}
+            className="flex items-center gap-1 px-2 py-0.5 text-xs text-[#A8ABB4] hover:text-white rounded-md hover:bg-white/10"
+          >
+            <Plus size={12} />
+            Add slot
+          </button>
+        </div>
+        <p className="text-[11px] text-[#777777] mb-2">
+          The first two slots answer every query. High-risk cases use all slots (at least three) for triple-AI consensus.
+        </p>
+        <div className="space-y-2 mb-4">
+          {draft.slots.map(slot => (
+            <div key={slot.id} className="p-2 bg-[#2C2C2C]/60 border border-[rgba(255,255,255,0.05)] rounded-lg space-y-1.5">
+              <div className="flex items-center gap-2">
+                <span className="text-xs font-semibold text-white w-20 flex-shrink-0">{slot.label}</span>
+                <select
+                  value={slot.provider}
+                  onChange={e => updateSlot(slot.id, { provider: e.target.value as ProviderKind })}
+                  className={inputClass}
+                >
+                  {listProviders().map(p => <option key={p.kind} value={p.kind}>{p.label}</option>)}
+                </select>
+                <input
+                  value={slot.model || ''}
+                  onChange={e => updateSlot(slot.id, { model: e.target.value })}
+                  placeholder={`Model (default ${draft.providers[slot.provider].model})`}
+                  className={inputClass}
+                />
+                <button
+                  onClick={() => removeSlot(slot.id)}
+                  disabled={draft.slots.length <= 2}
+                  className="p-1 text-[#A8ABB4] hover:text-[#f87171] rounded-md hover:bg-white/10 disabled:text-[#555] disabled:hover:bg-transparent"
+                  aria-label={`Remove ${slot.label}`}
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+              <textarea
+                value={slot.systemInstruction}
+                onChange={e => updateSlot(slot.id, { systemInstruction: e.target.value })}
+                rows={2}
+                className={`${inputClass} resize-none`}
+                aria-label={`${slot.label} system instruction`}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="text-sm font-medium text-[#A8ABB4] mb-2">Retrieval</div>
+        <p className="text-[11px] text-[#777777] mb-2">
+          Each query is sent with the case file passages that best match it, up to the token budget, rather than every file in full.
+          An embedding model served by the Ollama backend can re-rank the matches, only when that backend runs on this device,
+          since the passages are embedded before redaction.
+        </p>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-1.5 mb-4">
+          <label className="text-[11px] text-[#777777] space-y-0.5">
+            <span>Token budget</span>
+            <input
+              type="number"
+              min={500}
+              step={500}
+              value={draft.retrieval.tokenBudget}
+              onChange={e => updateRetrieval({ tokenBudget: Math.max(500, Number(e.target.value) || 0) })}
+              className={inputClass}
+            />
+          </label>
+          <label className="text-[11px] text-[#777777] space-y-0.5">
+            <span>Max passages</span>
+            <input
+              type="number"
+              min={1}
+              value={draft.retrieval.maxPassages}
+              onChange={e => updateRetrieval({ maxPassages: Math.max(1, Number(e.target.value) || 0) })}
+              className={inputClass}
+            />
+          </label>
+          <label className="text-[11px] text-[#777777] space-y-0.5">
+            <span>Embedding model</span>
+            <input
+              value={draft.retrieval.embeddingModel}
+              onChange={e => updateRetrieval({ embeddingModel: e.target.value })}
+              placeholder="Off (e.g. nomic-embed-text)"
+              className={inputClass}
+            />
+          </label>
+        </div>
+
+        <div className="text-sm font-medium text-[#A8ABB4] mb-2">Reliability</div>
+        <p className="text-[11px] text-[#777777] mb-2">
+          Rate limits, timeouts, network and server errors are retried with increasing delays. A provider that still fails is
+          shown as unavailable and does not vote.
+        </p>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-1.5 mb-4">
+          <label className="text-[11px] text-[#777777] space-y-0.5">
+            <span>Timeout (seconds without new text)</span>
+            <input
+              type="number"
+              min={5}
+              value={draft.resilience.timeoutSeconds}
+              onChange={e => updateResilience({ timeoutSeconds: Math.max(5, Number(e.target.value) || 0) })}
+              className={inputClass}
+            />
+          </label>
+          <label className="text-[11px] text-[#777777] space-y-0.5">
+            <span>Retries</span>
+            <input
+              type="number"
+              min={0}
+              max={5}
+              value={draft.resilience.maxRetries}
+              onChange={e => updateResilience({ maxRetries: Math.min(5, Math.max(0, Number(e.target.value) || 0)) })}
+              className={inputClass}
+            />
+          </label>
+        </div>
+
+        <div className="text-sm font-medium text-[#A8ABB4] mb-2">Conversation Memory</div>
+        <p className="text-[11px] text-[#777777] mb-2">
+          Each provider is sent the earlier questions of the conversation with its own answers. The latest exchanges are sent
+          in full up to this budget; older ones are summarised on this device. Set 0 to send every question on its own.
+        </p>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-1.5 mb-4">
+          <label className="text-[11px] text-[#777777] space-y-0.5">
+            <span>History budget (tokens)</span>
+            <input
+              type="number"
+              min={0}
+              step={500}
+              value={draft.memory.historyTokenBudget}
+              onChange={e => updateMemory({ historyTokenBudget: Math.max(0, Number(e.target.value) || 0) })}
+              className={inputClass}
+            />
+          </label>
+        </div>
+
+        <div className="text-sm font-medium text-[#A8ABB4] mb-2">Speech to Text</div>
+        <p className="text-[11px] text-[#777777] mb-2">
+          Dictation and audio evidence are transcribed by a Whisper-style server with an OpenAI-compatible
+          /audio/transcriptions endpoint. Run one locally so recordings stay on this device.
+        </p>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-1.5 mb-4">
+          <label className="text-[11px] text-[#777777] space-y-0.5">
+            <span>Server URL</span>
+            <input
+              value={draft.transcription.baseUrl}
+              onChange={e => updateTranscription({ baseUrl: e.target.value })}
+              placeholder="http://localhost:8000/v1"
+              className={inputClass}
+            />
+          </label>
+          <label className="text-[11px] text-[#777777] space-y-0.5">
+            <span>Model</span>
+            <input
+              value={draft.transcription.model}
+              onChange={e => updateTranscription({ model: e.target.value })}
+              className={inputClass}
+            />
+          </label>
+          <label className="text-[11px] text-[#777777] space-y-0.5">
+            <span>Language (blank to detect)</span>
+            <input
+              value={draft.transcription.language}
+              onChange={e => updateTranscription({ language: e.target.value.trim() })}
+              placeholder="en"
+              className={inputClass}
+            />
+          </label>
+        </div>
+
+        <div className="text-sm font-medium text-[#A8ABB4] mb-1">Backends</div>
+        <p className="text-[11px] text-[#777777] mb-2">
+          {keysEncrypted
+            ? 'API keys are stored encrypted in the case folder, never in local storage.'
+            : 'API keys are kept for this session only and must be entered again after a reload. Unlock the case folder to store them encrypted.'}
+        </p>
+        <div className="space-y-2">
+          {listProviders().map(provider => {
+            const config = draft.providers[provider.kind];
+            return (
+              <div key={provider.kind} className="p-2 bg-[#2C2C2C]/60 border border-[rgba(255,255,255,0.05)] rounded-lg">
+                <div className="text-xs font-semibold text-white mb-1.5">{provider.label}</div>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-1.5">
+                  <input
+                    type="password"
+                    value={config.apiKey || ''}
+                    onChange={e => updateProvider(provider.kind, { apiKey: e.target.value })}
+                    placeholder={`${provider.requiresApiKey ? 'API key' : 'API key (not required)'}${keysEncrypted ? '' : ', session only'}`}
+                    className={inputClass}
+                  />
+                  <input
+                    value={config.baseUrl || ''}
+                    onChange={e => updateProvider(provider.kind, { baseUrl: e.target.value })}
+                    placeholder={provider.defaultBaseUrl || 'Default endpoint'}
+                    className={inputClass}
+                  />
+                  <input
+                    value={config.model}
+                    onChange={e => updateProvider(provider.kind, { model: e.target.value })}
+                    placeholder="Default model"
+                    className={inputClass}
+                  />
+                </div>
+                {provider.kind === 'gemini' && (
+                  <select
+                    value={config.safetyThreshold || 'BLOCK_MEDIUM_AND_ABOVE'}
+                    onChange={e => updateProvider(provider.kind, { safetyThreshold: e.target.value as SafetyThreshold })}
+                    className={`${inputClass} mt-1.5`}
+                  >
+                    {SAFETY_THRESHOLDS.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+                  </select>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex items-center justify-between mt-4">
+          <button
+            onClick={() => setDraft(getDefaultProviderSettings())}
+            className="flex items-center gap-1 px-2 py-1 text-xs text-[#A8ABB4] hover:text-white rounded-md hover:bg-white/10"
+          >
+            <RotateCcw size={12} />
+            Reset to defaults
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-3 py-1.5 text-sm bg-white/[.12] hover:bg-white/20 text-white rounded-lg transition-colors"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProviderSettingsPanel;
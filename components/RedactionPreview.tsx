@@ -0,0 +1,217 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { X, EyeOff, Plus, Send, ShieldAlert } from 'lucide-react';
+import { ConversationTurn, RedactionResult, RedactionSpan } from '../types';
+
+interface HistoryPreview {
+  label: string; // The slot the turns are sent to
+  turns: { role: ConversationTurn['role']; result: RedactionResult }[];
+}
+
+interface RedactionPreviewProps {
+  query: RedactionResult;
+  context: RedactionResult;
+  history?: HistoryPreview[]; // Earlier turns of the conversation, per slot
+  scope?: string; // The filtered files the query is limited to, when it is
+  exemptTerms: string[];
+  violations: string[]; // Constitution rules the redacted send would break
+  onApprove: () => void;
+  onApproveUnredacted?: () => void; // Only offered when the constitution permits unredacted sends
+  onCancel: () => void;
+  onExemptTerm: (term: string) => void;
+  onRestoreTerm: (term: string) => void;
+  onAddTerm: (term: string) => void;
+}
+
+// Rendering megabytes of context in a diff view locks the browser; the summary above covers the rest.
+const MAX_PREVIEW_CHARS = 20000;
+
+const CATEGORY_LABELS: Record<RedactionSpan['category'], string> = {
+  name: 'Name',
+  id_number: 'ID / passport',
+  phone: 'Phone',
+  email: 'Email',
+  bank_account: 'Bank account',
+  address: 'Address',
+  custom: 'Custom term',
+};
+
+const renderDiff = (result: RedactionResult) => {
+  const nodes: React.ReactNode[] = [];
+  let cursor = 0;
+  for (const span of result.spans) {
+    if (span.start >= MAX_PREVIEW_CHARS) break;
+    nodes.push(result.source.slice(cursor, span.start));
+    nodes.push(
+      <span key={span.start}>
+        <del className="text-red-300/80 bg-red-500/10">{span.original}</del>
+        <ins className="no-underline text-green-300 bg-green-500/10">{span.pseudonym}</ins>
+      </span>,
+    );
+    cursor = span.end;
+  }
+  nodes.push(result.source.slice(cursor, Math.max(cursor, MAX_PREVIEW_CHARS)));
+  if (result.source.length > MAX_PREVIEW_CHARS) {
+    nodes.push(<span key="more" className="text-gray-500">{`\n... ${result.source.length - MAX_PREVIEW_CHARS} more characters, redacted the same way.`}</span>);
+  }
+  return nodes;
+};
+
+const RedactionPreview: React.FC<RedactionPreviewProps> = ({
+  query,
+  context,
+  history = [],
+  scope,
+  exemptTerms,
+  violations,
+  onApprove,
+  onApproveUnredacted,
+  onCancel,
+  onExemptTerm,
+  onRestoreTerm,
+  onAddTerm,
+}) => {
+  const [newTerm, setNewTerm] = useState('');
+
+  const replacements = new Map<string, { span: RedactionSpan; count: number }>();
+  const historySpans = history.flatMap(h => h.turns.flatMap(turn => turn.result.spans));
+  for (const span of [...query.spans, ...context.spans, ...historySpans]) {
+    const existing = replacements.get(span.pseudonym);
+    if (existing) existing.count++;
+    else replacements.set(span.pseudonym, { span, count: 1 });
+  }
+
+  const handleAddTerm = () => {
+    if (!newTerm.trim()) return;
+    onAddTerm(newTerm.trim());
+    setNewTerm('');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-40 flex items-center justify-center p-4" onClick={onCancel}>
+      <div
+        className="w-full max-w-3xl max-h-full flex flex-col bg-[#1E1E1E] rounded-xl shadow-md border border-[rgba(255,255,255,0.05)] p-4"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-1">
+          <h2 className="text-xl font-semibold text-[#E2E2E2] flex items-center gap-2"><EyeOff size={18} /> Review Redaction</h2>
+          <button
+            onClick={onCancel}
+            className="p-1 text-[#A8ABB4] hover:text-white rounded-md hover:bg-white/10 transition-colors"
+            aria-label="Cancel sending"
+          >
+            <X size={20} />
+          </button>
+        </div>
+        <p className="text-xs text-[#A8ABB4] mb-3">
+          Only the redacted text below is sent to the AI providers. Pseudonyms in their answers are restored on this device.
+        </p>
+        {scope && <p className="text-xs text-blue-300 mb-3">Asked only about {scope}.</p>}
+
+        <div className="text-sm font-medium text-[#A8ABB4] mb-1">Replacements ({replacements.size})</div>
+        <div className="max-h-40 overflow-y-auto chat-container mb-2 space-y-1 pr-1">
+          {replacements.size === 0 && <p className="text-xs text-[#777777]">No personal data detected.</p>}
+          {[...replacements.values()].map(({ span, count }) => (
+            <div key={span.pseudonym} className="flex items-center justify-between gap-2 text-xs bg-[#2C2C2C] rounded-md px-2 py-1">
+              <span className="text-green-300 font-mono flex-shrink-0">{span.pseudonym}</span>
+              <span className="text-white truncate flex-grow" title={span.original}>{span.original}</span>
+              <span className="text-[#777777] flex-shrink-0">{CATEGORY_LABELS[span.category]} x{count}</span>
+              <button
+                onClick={() => onExemptTerm(span.original)}
+                className="px-1.5 py-0.5 text-[11px] text-[#A8ABB4] hover:text-white rounded hover:bg-white/10 flex-shrink-0"
+                title="This is not personal data; send it unredacted"
+              >
+                Keep
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {exemptTerms.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1 mb-2 text-[11px] text-[#777777]">
+            <span>Sent unredacted:</span>
+            {exemptTerms.map(term => (
+              <button
+                key={term}
+                onClick={() => onRestoreTerm(term)}
+                className="px-1.5 py-0.5 bg-[#2C2C2C] rounded hover:text-white"
+                title="Redact this term again"
+              >
+                {term} x
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-center gap-2 mb-3">
+          <input
+            value={newTerm}
+            onChange={e => setNewTerm(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && handleAddTerm()}
+            placeholder="Also redact this term (e.g. a nickname or company)"
+            className="flex-grow bg-[#2C2C2C] border border-[rgba(255,255,255,0.1)] rounded-md px-2 py-1 text-xs text-[#E2E2E2] placeholder-[#777777] focus:outline-none"
+          />
+          <button
+            onClick={handleAddTerm}
+            disabled={!newTerm.trim()}
+            className="flex items-center gap-1 px-2 py-1 text-xs text-[#A8ABB4] hover:text-white rounded-md hover:bg-white/10 disabled:text-[#555]"
+          >
+            <Plus size={12} /> Add
+          </button>
+        </div>
+
+        <div className="flex-grow overflow-y-auto chat-container bg-[#282828] rounded-md p-2 text-xs font-mono whitespace-pre-wrap text-[#C8C8C8] min-h-[8rem]">
+          {history.map(({ label, turns }) => (
+            <details key={label} className="mb-3">
+              <summary className="cursor-pointer text-[#A8ABB4]">CONVERSATION HISTORY sent to {label} ({turns.length} turn(s))</summary>
+              {turns.map((turn, i) => (
+                <div key={i} className="mt-1.5 pl-2 border-l border-[rgba(255,255,255,0.1)]">
+                  <div className="text-[#777777]">{turn.role === 'user' ? 'USER:' : `${label.toUpperCase()}:`}</div>
+                  {renderDiff(turn.result)}
+                </div>
+              ))}
+            </details>
+          ))}
+          <div className="text-[#A8ABB4] mb-1">USER QUERY:</div>
+          <div className="mb-3">{renderDiff(query)}</div>
+          {renderDiff(context)}
+        </div>
+
+        {violations.length > 0 && (
+          <div className="mt-3 p-2 rounded-md bg-red-500/10 text-xs text-red-300 space-y-0.5">
+            <div className="flex items-center gap-1 font-semibold"><ShieldAlert size={14} /> Refused by the constitution</div>
+            {violations.map(violation => <div key={violation}>{violation}</div>)}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 mt-3">
+          <button onClick={onCancel} className="px-3 py-1.5 text-sm text-[#A8ABB4] hover:text-white rounded-lg hover:bg-white/10">
+            Cancel
+          </button>
+          {onApproveUnredacted && (
+            <button
+              onClick={onApproveUnredacted}
+              className="px-3 py-1.5 text-sm text-[#A8ABB4] hover:text-white rounded-lg hover:bg-white/10"
+              title="The constitution in force permits sending the original text"
+            >
+              Send original text
+            </button>
+          )}
+          <button
+            onClick={onApprove}
+            disabled={violations.length > 0}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-sm bg-white/[.12] hover:bg-white/20 text-white rounded-lg transition-colors disabled:text-[#777777] disabled:hover:bg-white/[.12]"
+          >
+            <Send size={14} /> Approve &amp; Send
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RedactionPreview;
@@ -0,0 +1,34 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+
+interface SourceExcerptProps {
+  content: string;
+  start: number;
+  end: number;
+  name: string;
+  hash?: string;
+}
+
+const CONTEXT_CHARS = 120;
+
+/**
+ * A passage of a case file or the case notes, highlighted within its surrounding text.
+ */
+const SourceExcerpt: React.FC<SourceExcerptProps> = ({ content, start, end, name, hash }) => (
+  <div className="mt-1 p-1.5 bg-[#1E1E1E] rounded text-[11px] text-[#A8ABB4] whitespace-pre-wrap">
+    {start > CONTEXT_CHARS && '...'}
+    {content.slice(Math.max(0, start - CONTEXT_CHARS), start)}
+    <mark className="bg-yellow-500/20 text-[#E2E2E2]">{content.slice(start, end)}</mark>
+    {content.slice(end, end + CONTEXT_CHARS)}
+    {end + CONTEXT_CHARS < content.length && '...'}
+    <div className="mt-1 font-mono text-[#777777] truncate" title={hash}>
+      {name}{hash ? ` - SHA512 ${hash.substring(0, 12)}...` : ''} - chars {start}-{end}
+    </div>
+  </div>
+);
+
+export default SourceExcerpt;
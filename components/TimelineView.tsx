@@ -0,0 +1,226 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, Bot, FileText, Pencil, Plus, Trash2, UserPen, ZoomOut } from 'lucide-react';
+import { Attachment, Timeline, TimelineEvent } from '../types';
+import SourceExcerpt from './SourceExcerpt';
+
+interface TimelineViewProps {
+  timeline: Timeline;
+  attachments: Attachment[];
+  onSaveEvent: (event: TimelineEvent) => void;
+  onDismissEvent: (event: TimelineEvent) => void;
+}
+
+type ZoomLevel = 'year' | 'month' | 'day';
+
+const BUCKET_LENGTH: Record<ZoomLevel, number> = { year: 4, month: 7, day: 10 };
+const NEXT_LEVEL: Record<ZoomLevel, ZoomLevel> = { year: 'month', month: 'day', day: 'day' };
+const LEVEL_FOR_FOCUS: Record<number, ZoomLevel> = { 0: 'year', 4: 'month', 7: 'day', 10: 'day' };
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const bucketLabel = (bucket: string) => {
+  const [year, month, day] = bucket.split('-');
+  if (day) return `${Number(day)} ${MONTH_NAMES[Number(month) - 1]} ${year}`;
+  if (month) return `${MONTH_NAMES[Number(month) - 1]} ${year}`;
+  return year;
+};
+
+const EMPTY_EVENT: TimelineEvent = { id: '', date: '', description: '', source: { kind: 'manual' } };
+
+const EventEditor: React.FC<{ event: TimelineEvent; onSave: (event: TimelineEvent) => void; onCancel: () => void }> = ({ event, onSave, onCancel }) => {
+  const [draft, setDraft] = useState(event);
+  const valid = /^\d{4}-\d{2}-\d{2}$/.test(draft.date) && draft.description.trim().length > 0;
+  const inputClass = 'bg-[#1E1E1E] border border-[rgba(255,255,255,0.1)] rounded px-1.5 py-1 text-xs text-[#E2E2E2] focus:outline-none';
+
+  return (
+    <div className="space-y-1.5 p-2 bg-[#2C2C2C] rounded-md">
+      <div className="flex gap-1.5">
+        <input type="date" value={draft.date} onChange={e => setDraft({ ...draft, date: e.target.value })} className={`${inputClass} flex-grow`} />
+        <input
+          type="time"
+          value={draft.time || ''}
+          onChange={e => setDraft({ ...draft, time: e.target.value || undefined })}
+          className={inputClass}
+        />
+      </div>
+      <textarea
+        value={draft.description}
+        onChange={e => setDraft({ ...draft, description: e.target.value })}
+        placeholder="What happened?"
+        className={`${inputClass} w-full h-16 resize-none`}
+      />
+      <div className="flex justify-end gap-1.5">
+        <button onClick={onCancel} className="px-2 py-0.5 text-xs text-[#A8ABB4] hover:text-white rounded hover:bg-white/10">Cancel</button>
+        <button
+          onClick={() => onSave({ ...draft, description: draft.description.trim() })}
+          disabled={!valid}
+          className="px-2 py-0.5 text-xs bg-white/[.12] hover:bg-white/20 text-white rounded disabled:text-[#555] disabled:bg-transparent"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const TimelineView: React.FC<TimelineViewProps> = ({ timeline, attachments, onSaveEvent, onDismissEvent }) => {
+  const [focus, setFocus] = useState('');
+  const [level, setLevel] = useState<ZoomLevel>('year');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const conflictsByEvent = useMemo(() => {
+    const map = new Map<string, string[]>();
+    for (const conflict of timeline.conflicts) {
+      for (const id of conflict.eventIds) map.set(id, [...(map.get(id) || []), conflict.reason]);
+    }
+    return map;
+  }, [timeline.conflicts]);
+
+  const visible = timeline.events.filter(e => e.date.startsWith(focus));
+  const buckets = useMemo(() => {
+    const counts = new Map<string, { total: number; conflicts: number }>();
+    for (const event of visible) {
+      const key = event.date.slice(0, BUCKET_LENGTH[level]);
+      const bucket = counts.get(key) || { total: 0, conflicts: 0 };
+      bucket.total++;
+      if (conflictsByEvent.has(event.id)) bucket.conflicts++;
+      counts.set(key, bucket);
+    }
+    return [...counts.entries()];
+  }, [visible, level, conflictsByEvent]);
+  const maxCount = Math.max(1, ...buckets.map(([, b]) => b.total));
+
+  const zoomInto = (bucket: string) => {
+    setFocus(bucket);
+    setLevel(NEXT_LEVEL[level]);
+  };
+
+  const zoomOut = () => {
+    const parent = focus.length === 10 ? focus.slice(0, 7) : focus.length === 7 ? focus.slice(0, 4) : '';
+    setFocus(parent);
+    setLevel(LEVEL_FOR_FOCUS[parent.length]);
+  };
+
+  const sourceContext = (event: TimelineEvent) => {
+    const file = attachments.find(f => f.hash === event.source.fileHash);
+    if (!file?.content || event.source.start === undefined || event.source.end === undefined) return null;
+    return <SourceExcerpt content={file.content} start={event.source.start} end={event.source.end} name={file.name} hash={file.hash} />;
+  };
+
+  let lastGroup = '';
+
+  return (
+    <div className="flex flex-col h-full min-h-0">
+      <div className="flex items-center justify-between mb-2 text-xs">
+        <div className="flex items-center gap-1 text-[#A8ABB4]">
+          {focus && (
+            <button onClick={zoomOut} className="p-1 hover:text-white rounded hover:bg-white/10" aria-label="Zoom out">
+              <ZoomOut size={14} />
+            </button>
+          )}
+          <span>{focus ? bucketLabel(focus) : 'All dates'}</span>
+          <span className="text-[#777777]">- {visible.length} event(s)</span>
+        </div>
+        <button
+          onClick={() => setEditingId('')}
+          className="flex items-center gap-1 px-2 py-0.5 text-[#A8ABB4] hover:text-white rounded hover:bg-white/10"
+        >
+          <Plus size={12} /> Add event
+        </button>
+      </div>
+
+      {timeline.conflicts.length > 0 && (
+        <div className="mb-2 text-xs text-red-300 flex items-center gap-1">
+          <AlertTriangle size={12} /> {timeline.conflicts.length} date conflict(s) between sources
+        </div>
+      )}
+
+      {buckets.length > 1 && (
+        <div className="flex items-end gap-0.5 h-12 mb-2 px-1 bg-[#2C2C2C] rounded-md overflow-x-auto">
+          {buckets.map(([bucket, { total, conflicts }]) => (
+            <button
+              key={bucket}
+              onClick={() => level !== 'day' && zoomInto(bucket)}
+              title={`${bucketLabel(bucket)}: ${total} event(s)${conflicts ? `, ${conflicts} conflicting` : ''}`}
+              className={`flex-1 min-w-[6px] rounded-t ${conflicts ? 'bg-red-400/70 hover:bg-red-300' : 'bg-blue-400/50 hover:bg-blue-300'}`}
+              style={{ height: `${Math.max(10, (total / maxCount) * 100)}%` }}
+              aria-label={`Zoom into ${bucketLabel(bucket)}`}
+            />
+          ))}
+        </div>
+      )}
+
+      <div className="flex-grow overflow-y-auto chat-container pr-1 space-y-1.5">
+        {editingId === '' && (
+          <EventEditor
+            event={{ ...EMPTY_EVENT, date: focus.length === 10 ? focus : '' }}
+            onSave={event => { onSaveEvent(event); setEditingId(null); }}
+            onCancel={() => setEditingId(null)}
+          />
+        )}
+        {visible.length === 0 && editingId !== '' && (
+          <p className="text-[#777777] text-center py-3 text-sm">No dated events found yet. Add files or events.</p>
+        )}
+        {visible.map(event => {
+          const group = event.date.slice(0, BUCKET_LENGTH[NEXT_LEVEL[level]]);
+          const heading = group !== lastGroup ? bucketLabel(group) : null;
+          lastGroup = group;
+          const conflicts = conflictsByEvent.get(event.id);
+          const SourceIcon = event.source.kind === 'model' ? Bot : event.source.kind === 'manual' ? UserPen : FileText;
+          const sourceLabel = event.source.kind === 'model' ? 'AI answer' : event.source.kind === 'manual' ? 'Added manually' : event.source.fileName;
+
+          return (
+            <React.Fragment key={event.id}>
+              {heading && <div className="pt-1 text-[11px] font-semibold text-[#777777] uppercase tracking-wide">{heading}</div>}
+              {editingId === event.id ? (
+                <EventEditor
+                  event={event}
+                  onSave={updated => { onSaveEvent(updated); setEditingId(null); }}
+                  onCancel={() => setEditingId(null)}
+                />
+              ) : (
+                <div className={`group p-2 rounded-md text-xs bg-[#2C2C2C] border ${conflicts ? 'border-red-500/40' : 'border-[rgba(255,255,255,0.05)]'}`}>
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <div className="font-mono text-[#79B8FF]">{event.date}{event.time ? ` ${event.time}` : ''}</div>
+                      <div className="text-[#E2E2E2] break-words">{event.description}</div>
+                    </div>
+                    <div className="flex flex-shrink-0 opacity-0 group-hover:opacity-100 transition-opacity">
+                      <button onClick={() => setEditingId(event.id)} className="p-1 text-[#A8ABB4] hover:text-white rounded hover:bg-white/10" aria-label="Edit event">
+                        <Pencil size={12} />
+                      </button>
+                      <button onClick={() => onDismissEvent(event)} className="p-1 text-[#A8ABB4] hover:text-[#f87171] rounded hover:bg-white/10" aria-label="Remove event">
+                        <Trash2 size={12} />
+                      </button>
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => setExpandedId(expandedId === event.id ? null : event.id)}
+                    className="mt-1 flex items-center gap-1 text-[11px] text-[#777777] hover:text-[#A8ABB4] max-w-full"
+                  >
+                    <SourceIcon size={11} className="flex-shrink-0" />
+                    <span className="truncate">{sourceLabel}{event.replaces ? ' (edited)' : ''}</span>
+                  </button>
+                  {conflicts?.map((reason, i) => (
+                    <div key={i} className="mt-1 text-[11px] text-red-300/90 flex items-center gap-1">
+                      <AlertTriangle size={11} /> {reason}
+                    </div>
+                  ))}
+                  {expandedId === event.id && sourceContext(event)}
+                </div>
+              )}
+            </React.Fragment>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default TimelineView;
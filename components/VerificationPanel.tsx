@@ -0,0 +1,145 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useCallback, useState } from 'react';
+import { useDropzone } from 'react-dropzone';
+import { ShieldCheck, ShieldAlert, ShieldQuestion, ScanLine, Trash2, KeyRound, X } from 'lucide-react';
+import { Attachment, TrustedKey, VerificationResult, VerificationStatus } from '../types';
+import { verifyItem } from '../services/verificationService';
+import { formatKeyId, getTrustedKeys, readPublicKeyFile, trustKey, untrustKey } from '../services/signingService';
+
+interface VerificationPanelProps {
+  attachments: Attachment[];
+}
+
+const STATUS_STYLES: Record<VerificationStatus, { label: string; Icon: typeof ShieldCheck; className: string }> = {
+  intact: { label: 'Intact', Icon: ShieldCheck, className: 'text-green-400 bg-green-500/10 border-green-500/20' },
+  tampered: { label: 'Tampered', Icon: ShieldAlert, className: 'text-red-400 bg-red-500/10 border-red-500/20' },
+  unknown: { label: 'Unknown', Icon: ShieldQuestion, className: 'text-yellow-300 bg-yellow-500/10 border-yellow-500/20' },
+};
+
+const VerificationPanel: React.FC<VerificationPanelProps> = ({ attachments }) => {
+  const [results, setResults] = useState<VerificationResult[]>([]);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [trustedKeys, setTrustedKeys] = useState<TrustedKey[]>(getTrustedKeys);
+  const [keyError, setKeyError] = useState<string | null>(null);
+
+  const onDrop = useCallback(async (acceptedFiles: File[]) => {
+    setIsVerifying(true);
+    try {
+      for (const file of acceptedFiles) {
+        try {
+          const result = await verifyItem(file, attachments);
+          setResults(prev => [result, ...prev]);
+        } catch (error) {
+          console.error('Error verifying file:', file.name, error);
+        }
+      }
+    } finally {
+      setIsVerifying(false);
+    }
+  }, [attachments]);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({ onDrop });
+
+  // Results already shown keep the outcome they had; only later checks see the change.
+  const handleImportKey = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setKeyError(null);
+    try {
+      trustKey(await readPublicKeyFile(await file.text()));
+      setTrustedKeys(getTrustedKeys());
+    } catch (error) {
+      setKeyError(error instanceof Error ? error.message : 'The key file could not be read.');
+    }
+  };
+
+  const handleRemoveKey = (key: TrustedKey) => {
+    if (!confirm(`Stop trusting signatures made with ${key.owner}'s key?`)) return;
+    untrustKey(key.keyId);
+    setTrustedKeys(getTrustedKeys());
+  };
+
+  return (
+    <div className="flex flex-col flex-grow overflow-hidden">
+      <div
+        {...getRootProps()}
+        className={`cursor-pointer border-2 border-dashed border-[#4A4A4A] hover:border-[#777] rounded-lg p-4 flex flex-col items-center justify-center text-[#A8ABB4] transition-colors mb-4 ${isDragActive ? 'bg-[#4A4A4A]/50 border-blue-400' : ''}`}
+      >
+        <input {...getInputProps()} multiple />
+        {isVerifying
+          ? <div className="w-6 h-6 mb-2 border-2 border-current border-t-transparent rounded-full animate-spin"></div>
+          : <ScanLine size={24} className="mb-2" />}
+        <span className="font-semibold text-sm">Drop a report or evidence file</span>
+        <span className="text-xs mt-1 text-center">SHA-512 is recomputed locally and checked against seals, signatures and the case manifest</span>
+      </div>
+
+      <div className="mb-4 space-y-1.5">
+        <div className="flex items-center justify-between text-sm">
+          <span className="flex items-center gap-1.5 font-medium text-[#A8ABB4]"><KeyRound size={14} /> Trusted Keys ({trustedKeys.length})</span>
+          <label className="text-xs text-[#A8ABB4] hover:text-white cursor-pointer" title="Add a colleague's public key file">
+            Import key
+            <input type="file" accept=".json,application/json" onChange={handleImportKey} className="hidden" />
+          </label>
+        </div>
+        {trustedKeys.length === 0 && (
+          <p className="text-[11px] text-[#777777]">No trusted keys. Signatures can only be checked against keys imported here.</p>
+        )}
+        {trustedKeys.map(key => (
+          <div key={key.keyId} className="flex items-center justify-between gap-2 p-1.5 bg-[#2C2C2C] border border-[rgba(255,255,255,0.05)] rounded text-[11px]">
+            <div className="flex flex-col overflow-hidden">
+              <span className="text-white truncate">{key.owner}</span>
+              <span className="text-[#777777] font-mono truncate" title={key.keyId}>{formatKeyId(key.keyId)}</span>
+            </div>
+            <button onClick={() => handleRemoveKey(key)} className="p-0.5 text-[#A8ABB4] hover:text-[#f87171] flex-shrink-0" aria-label={`Stop trusting ${key.owner}'s key`}>
+              <X size={12} />
+            </button>
+          </div>
+        ))}
+        {keyError && <p className="text-[11px] text-red-400">{keyError}</p>}
+      </div>
+
+      <div className="flex items-center justify-between mb-2 text-sm">
+        <span className="font-medium text-[#A8ABB4]">Verification Results</span>
+        {results.length > 0 && (
+          <button
+            onClick={() => setResults([])}
+            className="p-1 text-[#A8ABB4] hover:text-[#f87171] rounded-md hover:bg-white/10"
+            aria-label="Clear verification results"
+          >
+            <Trash2 size={14} />
+          </button>
+        )}
+      </div>
+
+      <div className="flex-grow overflow-y-auto space-y-2 chat-container pr-1">
+        {results.length === 0 ? (
+          <p className="text-[#777777] text-center py-3 text-sm">Nothing verified yet.</p>
+        ) : (
+          results.map(result => {
+            const { label, Icon, className } = STATUS_STYLES[result.status];
+            return (
+              <div key={result.id} className={`p-2 border rounded-lg text-xs ${className}`}>
+                <div className="flex items-center gap-2">
+                  <Icon size={16} className="flex-shrink-0" />
+                  <span className="font-semibold">{label}</span>
+                  <span className="text-white truncate" title={result.fileName}>{result.fileName}</span>
+                </div>
+                <p className="mt-1 text-[#C8C8C8]">{result.detail}</p>
+                <p className="mt-1 text-[#777777] truncate font-mono" title={result.hash}>
+                  SHA512: {result.hash.substring(0, 24)}...
+                </p>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VerificationPanel;
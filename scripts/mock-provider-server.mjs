@@ -0,0 +1,236 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Local stand-in for every supported AI backend, for exercising provider bindings without network access.
+// Usage: npm run mock:providers  (PORT=8787, MOCK_REPLY="fixed answer" and MOCK_DELAY_MS=50 optional)
+// MOCK_FAIL makes a backend fail, e.g. MOCK_FAIL="openai:429:2,anthropic:401,gemini:safety": an HTTP status
+// or a safety block, for the first N requests (every request when N is omitted).
+// Then set each backend's base URL in provider settings:
+//   Gemini            http://localhost:8787          (any API key)
+//   OpenAI-compatible http://localhost:8787/v1
+//   Anthropic         http://localhost:8787
+//   Ollama            http://localhost:8787          (chat and embeddings)
+//   Speech to text    http://localhost:8787/v1
+
+import http from 'node:http';
+
+const PORT = Number(process.env.PORT || 8787);
+// Pause between streamed pieces, to watch answers arrive and to try cancelling them.
+const DELAY_MS = Number(process.env.MOCK_DELAY_MS || 50);
+
+const reply = (provider, prompt) =>
+  process.env.MOCK_REPLY || `Mock ${provider} answer. The query was: ${prompt.slice(-120)}`;
+
+const lastUserText = (messages = []) => {
+  const last = [...messages].reverse().find(m => m.role === 'user');
+  if (!last) return '';
+  return typeof last.content === 'string' ? last.content : JSON.stringify(last.content);
+};
+
+const MOCK_TRANSCRIPT = [
+  { start: 0, end: 3.1, text: 'Mock transcript. I paid the deposit on 3 March 2023.' },
+  { start: 3.2, end: 5.8, text: 'It was five thousand rand in cash.' },
+  { start: 8.0, end: 14.2, text: 'No, you never paid a deposit, and I never received one.' },
+];
+
+// A hashed bag of words: crude, but texts that share words come out similar.
+const embed = text => {
+  const vector = new Array(64).fill(0);
+  for (const word of String(text).toLowerCase().match(/[a-z0-9]+/g) || []) {
+    let hash = 0;
+    for (const char of word) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+    vector[hash % vector.length] += 1;
+  }
+  return vector;
+};
+
+const failures = new Map((process.env.MOCK_FAIL || '').split(',').filter(Boolean).map(spec => {
+  const [provider, kind, count] = spec.split(':');
+  return [provider, { kind, remaining: count ? Number(count) : Infinity }];
+}));
+
+// Streams are sent a few words at a time.
+const pieces = text => text.match(/\S+\s*/g) || [];
+const usage = (prompt, text) => ({ input: Math.ceil(prompt.length / 4), output: Math.ceil(text.length / 4) });
+
+// Each route answers a plain request with handle, and a streamed one with the events from stream.
+const routes = [
+  {
+    provider: 'gemini',
+    match: /^\/v1(beta)?\/models\/[^/:]+:generateContent/,
+    handle: body => {
+      const text = body.contents?.at(-1)?.parts?.map(p => p.text).join('') || '';
+      return { candidates: [{ content: { role: 'model', parts: [{ text: reply('gemini', text) }] }, finishReason: 'STOP' }] };
+    },
+  },
+  {
+    provider: 'gemini',
+    match: /^\/v1(beta)?\/models\/[^/:]+:streamGenerateContent/,
+    format: 'sse',
+    stream: body => {
+      const prompt = body.contents?.at(-1)?.parts?.map(p => p.text).join('') || '';
+      const text = reply('gemini', prompt);
+      const { input, output } = usage(prompt, text);
+      return pieces(text).map((piece, i, all) => ({
+        candidates: [{ content: { role: 'model', parts: [{ text: piece }] }, ...(i === all.length - 1 ? { finishReason: 'STOP' } : {}) }],
+        ...(i === all.length - 1 ? { usageMetadata: { promptTokenCount: input, candidatesTokenCount: output } } : {}),
+      }));
+    },
+  },
+  {
+    provider: 'openai',
+    match: /^\/v1\/chat\/completions/,
+    handle: body => ({
+      choices: [{ index: 0, message: { role: 'assistant', content: reply('openai', lastUserText(body.messages)) }, finish_reason: 'stop' }],
+    }),
+    format: 'sse',
+    stream: body => {
+      const prompt = lastUserText(body.messages);
+      const text = reply('openai', prompt);
+      const { input, output } = usage(prompt, text);
+      return [
+        ...pieces(text).map(piece => ({ choices: [{ index: 0, delta: { content: piece } }] })),
+        { choices: [], usage: { prompt_tokens: input, completion_tokens: output } },
+        '[DONE]',
+      ];
+    },
+  },
+  {
+    provider: 'anthropic',
+    match: /^\/v1\/messages/,
+    handle: body => ({
+      type: 'message',
+      role: 'assistant',
+      content: [{ type: 'text', text: reply('anthropic', lastUserText(body.messages)) }],
+      stop_reason: 'end_turn',
+    }),
+    format: 'sse',
+    stream: body => {
+      const prompt = lastUserText(body.messages);
+      const text = reply('anthropic', prompt);
+      const { input, output } = usage(prompt, text);
+      return [
+        { type: 'message_start', message: { usage: { input_tokens: input, output_tokens: 1 } } },
+        ...pieces(text).map(piece => ({ type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: piece } })),
+        { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: output } },
+        { type: 'message_stop' },
+      ];
+    },
+  },
+  {
+    provider: 'ollama',
+    match: /^\/api\/chat/,
+    handle: body => ({ message: { role: 'assistant', content: reply('ollama', lastUserText(body.messages)) }, done: true }),
+    format: 'ndjson',
+    stream: body => {
+      const prompt = lastUserText(body.messages);
+      const text = reply('ollama', prompt);
+      const { input, output } = usage(prompt, text);
+      return [
+        ...pieces(text).map(piece => ({ message: { role: 'assistant', content: piece }, done: false })),
+        { message: { role: 'assistant', content: '' }, done: true, prompt_eval_count: input, eval_count: output },
+      ];
+    },
+  },
+  {
+    match: /^\/api\/embed/,
+    handle: body => ({ model: body.model, embeddings: [].concat(body.input).map(embed) }),
+  },
+  {
+    // The upload itself is ignored: every recording gets the same transcript, with a pause between turns.
+    provider: 'whisper',
+    match: /^\/v1\/audio\/transcriptions/,
+    handle: () => ({
+      text: MOCK_TRANSCRIPT.map(s => s.text).join(' '),
+      language: 'en',
+      duration: 14.2,
+      segments: MOCK_TRANSCRIPT,
+    }),
+  },
+];
+
+const sendStream = (res, format, events) => {
+  res.writeHead(200, { 'Content-Type': format === 'sse' ? 'text/event-stream' : 'application/x-ndjson' });
+  let closed = false;
+  res.on('close', () => { closed = true; });
+  const send = i => {
+    if (closed) return;
+    if (i === events.length) {
+      res.end();
+      return;
+    }
+    const data = typeof events[i] === 'string' ? events[i] : JSON.stringify(events[i]);
+    res.write(format === 'sse' ? `data: ${data}\n\n` : `${data}\n`);
+    setTimeout(() => send(i + 1), DELAY_MS);
+  };
+  send(0);
+};
+
+// Safety blocks are answered in each API's own form; anything else is an HTTP error status.
+const sendFailure = (res, provider, kind, streaming) => {
+  if (kind !== 'safety') {
+    res.writeHead(Number(kind) || 500, { 'Content-Type': 'application/json' })
+      .end(JSON.stringify({ error: { message: `Mock ${provider} failure (HTTP ${kind})` } }));
+    return;
+  }
+  const blocked = {
+    gemini: [
+      { promptFeedback: { blockReason: 'SAFETY', safetyRatings: [{ category: 'HARM_CATEGORY_HARASSMENT', probability: 'HIGH', blocked: true }] } },
+    ],
+    openai: [
+      { choices: [{ index: 0, message: { role: 'assistant', content: null }, finish_reason: 'content_filter' }] },
+      { choices: [{ index: 0, delta: {}, finish_reason: 'content_filter' }] },
+    ],
+    anthropic: [
+      { type: 'message', role: 'assistant', content: [], stop_reason: 'refusal' },
+      { type: 'message_delta', delta: { stop_reason: 'refusal' }, usage: { output_tokens: 0 } },
+    ],
+  }[provider];
+  if (!blocked) {
+    res.writeHead(400, { 'Content-Type': 'application/json' }).end(JSON.stringify({ error: { message: 'No safety filter to mock' } }));
+    return;
+  }
+  const [plain, event = plain] = blocked;
+  if (streaming) sendStream(res, 'sse', [event]);
+  else res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(plain));
+};
+
+const server = http.createServer((req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+
+  let raw = '';
+  req.on('data', chunk => { raw += chunk; });
+  req.on('end', () => {
+    const route = routes.find(r => r.match.test(req.url || ''));
+    if (!route) {
+      res.writeHead(404, { 'Content-Type': 'application/json' }).end(JSON.stringify({ error: { message: `No mock for ${req.url}` } }));
+      return;
+    }
+    // Transcription uploads are multipart forms; every other API posts JSON.
+    const body = raw && (req.headers['content-type'] || '').includes('json') ? JSON.parse(raw) : {};
+    console.log(`${req.method} ${req.url}`);
+    // Gemini streams by URL; the other APIs by a stream flag in the body.
+    const streaming = !!route.stream && (!!body.stream || !route.handle);
+    const failure = failures.get(route.provider);
+    if (failure && failure.remaining > 0) {
+      failure.remaining--;
+      sendFailure(res, route.provider, failure.kind, streaming);
+      return;
+    }
+    if (streaming) {
+      sendStream(res, route.format, route.stream(body));
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(route.handle(body)));
+  });
+});
+
+server.listen(PORT, () => console.log(`Mock AI providers listening on http://localhost:${PORT}`));
@@ -0,0 +1,100 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AuditAction, AuditEntry, AuditHead, AuditVerification, SignatureCheck, SigningIdentity } from '../types';
+import { calculateSHA512FromBytes } from './fileService';
+import { checkSignature, sign } from './signingService';
+
+const GENESIS_HASH = '0'.repeat(128);
+
+/**
+ * JSON with object keys sorted at every level, so the same entry always hashes the same way
+ * regardless of how it was stored and reloaded.
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+function hashEntry(entry: Omit<AuditEntry, 'hash'>): Promise<string> {
+  const { index, timestamp, action, summary, data, previousHash } = entry;
+  return calculateSHA512FromBytes(canonicalJson({ index, timestamp, action, summary, data, previousHash }));
+}
+
+/**
+ * Appends an entry to a case's audit log, chained to the previous entry by its SHA-512.
+ * The log is never edited in place: the result is a new array with the entry added at the end.
+ * @param log The case's audit log so far.
+ * @param action What happened.
+ * @param summary One line for the viewer, e.g. "Added contract.pdf".
+ * @param data The full detail to preserve, e.g. the exact redacted prompt and context.
+ */
+export async function appendAuditEntry(log: AuditEntry[], action: AuditAction, summary: string, data: Record<string, unknown>): Promise<AuditEntry[]> {
+  const previous = log[log.length - 1];
+  // Round-trip the detail so the stored form, not the live object, is what gets hashed.
+  const entry = {
+    index: log.length,
+    timestamp: new Date().toISOString(),
+    action,
+    summary,
+    data: JSON.parse(JSON.stringify(data)) as Record<string, unknown>,
+    previousHash: previous ? previous.hash : GENESIS_HASH,
+  };
+  return [...log, { ...entry, hash: await hashEntry(entry) }];
+}
+
+/**
+ * Re-computes every hash in the chain and checks each entry points at the one before it.
+ * An edited, inserted, removed or reordered entry breaks the chain from that point on.
+ * @returns Whether the log is intact and, if not, the first entry that fails and why.
+ */
+export async function verifyAuditLog(log: AuditEntry[]): Promise<AuditVerification> {
+  for (let i = 0; i < log.length; i++) {
+    const entry = log[i];
+    const broken = (reason: string): AuditVerification => ({ intact: false, checked: i, brokenAt: i, reason });
+    if (entry.index !== i) return broken(`Entry ${i} is numbered ${entry.index}; an entry was removed or reordered.`);
+    const expectedPrevious = i === 0 ? GENESIS_HASH : log[i - 1].hash;
+    if (entry.previousHash !== expectedPrevious) {
+      return broken(i === 0 ? 'The first entry does not start the chain; earlier entries were removed.' : `Entry ${i} does not point at the hash of entry ${i - 1}.`);
+    }
+    if (await hashEntry(entry) !== entry.hash) return broken(`Entry ${i} was modified after it was recorded; its hash no longer matches.`);
+  }
+  return { intact: true, checked: log.length };
+}
+
+const headPayload = (head: Omit<AuditHead, 'signature'>) => `audit-head index=${head.index} sha512=${head.hash} signed-at=${head.signedAt}`;
+
+/**
+ * The head of a log for export: its last entry's index and hash, signed when the investigator's key is
+ * unlocked. The chain alone cannot show entries cut from the end; a signed head can.
+ * @returns The head, or null for an empty log.
+ */
+export async function signAuditHead(log: AuditEntry[], signer: SigningIdentity | null): Promise<AuditHead | null> {
+  const last = log[log.length - 1];
+  if (!last) return null;
+  const head = { index: last.index, hash: last.hash, signedAt: new Date().toISOString() };
+  return signer ? { ...head, signature: await sign(signer, headPayload(head)) } : head;
+}
+
+/**
+ * Checks that a log ends at its head and that the head's signature verifies against a trusted key.
+ */
+export async function checkAuditHead(log: AuditEntry[], head: AuditHead): Promise<SignatureCheck> {
+  const last = log[log.length - 1];
+  if (!last || last.index !== head.index || last.hash !== head.hash) {
+    return {
+      status: 'invalid',
+      keyId: head.signature?.keyId,
+      detail: `The log ends at entry ${last ? last.index : 'none'}, but its head is entry ${head.index}; entries were added or cut after it was exported.`,
+    };
+  }
+  return checkSignature(headPayload(head), head.signature);
+}
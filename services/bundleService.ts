@@ -0,0 +1,247 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Attachment, BundleFile, BundleImport, BundleManifest, CaseRecord, QuarantinedFile, Signature, SignatureCheck, SigningIdentity } from '../types';
+import { calculateSHA512, calculateSHA512FromBytes } from './fileService';
+import { readZip, writeZip, ZipEntry, ZipInput } from './extractors/zip';
+import { buildTimeline, extractAnswerEvents, extractAttachmentEvents } from './timelineService';
+import { recordCustodyEvent } from './custodyService';
+import { checkSignature, sign, SIGNATURE_ALGORITHM } from './signingService';
+
+const BUNDLE_FORMAT = 'verum-omnis-case-bundle';
+const BUNDLE_VERSION = 1;
+const MANIFEST_PATH = 'manifest.json';
+const MANIFEST_HASH_PATH = 'manifest.sha512';
+const MANIFEST_SIGNATURE_PATH = 'manifest.sig';
+
+// The case data besides the evidence, one JSON entry each.
+const CASE_PATH = 'case/case.json';
+const CONVERSATIONS_PATH = 'case/conversations.json';
+const NOTES_PATH = 'case/notes.json';
+const TIMELINE_PATH = 'case/timeline.json';
+const AUDIT_LOG_PATH = 'case/audit-log.json';
+
+// Keeps a file name usable as a single path segment on every platform.
+const safeName = (name: string) => name.replace(/[\\/:*?"<>|\u0000-\u001f]/g, '_').slice(0, 180) || 'file';
+
+const json = (value: unknown) => new TextEncoder().encode(JSON.stringify(value, null, 2));
+
+/**
+ * Packs a case into a ZIP archive for another investigator: the original evidence files, their extracted
+ * text, every conversation with each provider's answer, the notes, the timeline and the audit log. The
+ * manifest lists every entry with its SHA-512, manifest.sha512 holds the manifest's own, and manifest.sig
+ * its signature when the investigator's key is unlocked.
+ * @param record The case.
+ * @param originalOf Looks up a file's original bytes; files added before originals were kept have none,
+ * and travel as extracted text only.
+ * @param signer The investigator's key, if one is unlocked.
+ * @returns The archive and the manifest's SHA-512.
+ */
+export async function exportCaseBundle(
+  record: CaseRecord,
+  originalOf: (hash: string) => Promise<Uint8Array | null>,
+  signer: SigningIdentity | null = null,
+): Promise<{ blob: Blob; fileName: string; manifestHash: string; signature?: Signature }> {
+  const exportedAt = new Date();
+  const inputs: ZipInput[] = [];
+  const entries: BundleManifest['entries'] = [];
+  const add = async (path: string, data: Uint8Array, listed = true) => {
+    inputs.push({ name: path, data, modifiedAt: exportedAt });
+    if (listed) entries.push({ path, sha512: await calculateSHA512FromBytes(data) });
+  };
+
+  const files: BundleFile[] = [];
+  for (const { content, ...attachment } of record.attachments) {
+    const folder = attachment.hash.substring(0, 16);
+    const textPath = `extracted/${folder}.txt`;
+    await add(textPath, new TextEncoder().encode(content || ''));
+    const original = await originalOf(attachment.hash);
+    const path = original ? `evidence/${folder}/${safeName(attachment.name)}` : undefined;
+    // Originals are checked against the file's own SHA-512 on import, so they are not listed again.
+    if (original && path) await add(path, original, false);
+    files.push({ name: attachment.name, sha512: attachment.hash, size: original?.length, path, textPath, attachment });
+  }
+
+  const conversations = record.conversations?.length
+    ? record.conversations
+    : [{ id: 'main', name: 'Main', messages: record.transcript, createdAt: record.createdAt }];
+  const messages = conversations.flatMap(c => c.messages);
+  await add(CASE_PATH, json({
+    id: record.id,
+    name: record.name,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+    highRisk: record.highRisk,
+    redactionMap: record.redactionMap,
+    redactionSettings: record.redactionSettings,
+    contradictions: record.contradictions,
+    quarantine: record.quarantine,
+  }));
+  await add(CONVERSATIONS_PATH, json({ activeConversationId: record.activeConversationId, conversations }));
+  await add(NOTES_PATH, json({ notes: record.notes, caseNotes: record.caseNotes }));
+  // The events are written out for a reader; an import rebuilds them from the edits.
+  const edits = record.timelineEdits || [];
+  const timeline = buildTimeline([...extractAttachmentEvents(record.attachments), ...extractAnswerEvents(messages)], edits);
+  await add(TIMELINE_PATH, json({ edits, events: timeline.events, conflicts: timeline.conflicts }));
+  await add(AUDIT_LOG_PATH, json(record.auditLog || []));
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    case: { id: record.id, name: record.name, createdAt: record.createdAt },
+    files,
+    entries,
+  };
+  const manifestBytes = json(manifest);
+  const manifestHash = await calculateSHA512FromBytes(manifestBytes);
+  const signature = signer ? await sign(signer, manifestBytes) : undefined;
+  inputs.unshift(
+    { name: MANIFEST_PATH, data: manifestBytes, modifiedAt: exportedAt },
+    { name: MANIFEST_HASH_PATH, data: new TextEncoder().encode(`${manifestHash}  ${MANIFEST_PATH}\n`), modifiedAt: exportedAt },
+  );
+  if (signature) {
+    inputs.splice(2, 0, { name: MANIFEST_SIGNATURE_PATH, data: json({ algorithm: SIGNATURE_ALGORITHM, ...signature }), modifiedAt: exportedAt });
+  }
+
+  return {
+    blob: new Blob([writeZip(inputs)], { type: 'application/zip' }),
+    fileName: `${safeName(record.name).replace(/\s+/g, '-')}-bundle-${exportedAt.toISOString().replace(/[:.]/g, '-')}.zip`,
+    manifestHash,
+    signature,
+  };
+}
+
+async function readEntry(entries: ZipEntry[], path: string): Promise<Uint8Array | null> {
+  const entry = entries.find(e => e.name === path);
+  return entry ? entry.read() : null;
+}
+
+async function readJson<T>(entries: ZipEntry[], path: string): Promise<T> {
+  const bytes = await readEntry(entries, path);
+  if (!bytes) throw new Error(`The bundle has no ${path}.`);
+  return JSON.parse(new TextDecoder().decode(bytes));
+}
+
+/**
+ * Checks a case bundle's manifest and case data: the manifest must match manifest.sha512, its signature, if
+ * any, must verify, and every entry it lists must match it. The evidence files are not checked here.
+ * @param entries The archive's entries.
+ * @returns The manifest, its SHA-512 and the outcome of the signature check.
+ * @throws Error when the archive is not a case bundle or its manifest, signature or case data were altered.
+ */
+export async function checkCaseBundle(entries: ZipEntry[]): Promise<{ manifest: BundleManifest; manifestHash: string; signature: SignatureCheck }> {
+  const manifestBytes = await readEntry(entries, MANIFEST_PATH);
+  const hashLine = await readEntry(entries, MANIFEST_HASH_PATH);
+  if (!manifestBytes || !hashLine) throw new Error('Not a case bundle: the archive has no manifest.');
+  const manifestHash = await calculateSHA512FromBytes(manifestBytes);
+  const recorded = new TextDecoder().decode(hashLine).trim().split(/\s+/)[0];
+  if (recorded !== manifestHash) {
+    throw new Error('The manifest does not match the SHA-512 recorded in manifest.sha512; the bundle was altered.');
+  }
+  const manifest: BundleManifest = JSON.parse(new TextDecoder().decode(manifestBytes));
+  if (manifest.format !== BUNDLE_FORMAT) throw new Error('Not a case bundle.');
+  if (manifest.version > BUNDLE_VERSION) throw new Error(`The bundle is format version ${manifest.version}; this app reads up to version ${BUNDLE_VERSION}.`);
+
+  const signatureBytes = await readEntry(entries, MANIFEST_SIGNATURE_PATH);
+  const signature = await checkSignature(manifestBytes, signatureBytes ? JSON.parse(new TextDecoder().decode(signatureBytes)) : undefined);
+  if (signature.status === 'invalid') throw new Error(`The manifest's signature does not verify. ${signature.detail}`);
+
+  for (const { path, sha512 } of manifest.entries) {
+    const data = await readEntry(entries, path);
+    if (!data) throw new Error(`The bundle is missing ${path}, which its manifest lists.`);
+    if (await calculateSHA512FromBytes(data) !== sha512) throw new Error(`${path} does not match the SHA-512 in the manifest; the bundle was altered.`);
+  }
+  return { manifest, manifestHash, signature };
+}
+
+/**
+ * Reads a case bundle, verifying it with checkCaseBundle before anything is loaded. Each evidence file is
+ * hashed with calculateSHA512; one that is missing or does not match its recorded SHA-512 is quarantined
+ * rather than loaded, and the rest of the case is imported without it.
+ * @param bytes The archive.
+ * @param bundleName The archive's file name, recorded with quarantined files.
+ * @throws Error when the bundle is not a case bundle or its manifest, signature or case data were altered.
+ */
+export async function importCaseBundle(bytes: Uint8Array, bundleName: string): Promise<BundleImport> {
+  const entries = readZip(bytes);
+  const { manifest, manifestHash, signature } = await checkCaseBundle(entries);
+
+  const importedAt = new Date().toISOString();
+  const attachments: Attachment[] = [];
+  const originals = new Map<string, Uint8Array>();
+  const quarantined: BundleImport['quarantined'] = [];
+  const textOnly: string[] = [];
+  const quarantine = (file: BundleFile, reason: string, actualHash?: string, data?: Uint8Array) => {
+    const record: QuarantinedFile = { name: file.name, expectedHash: file.sha512, actualHash, reason, bundle: bundleName, importedAt };
+    quarantined.push({ file: record, bytes: data });
+  };
+
+  for (const file of manifest.files) {
+    if (file.attachment.hash !== file.sha512) {
+      quarantine(file, 'The manifest gives two different SHA-512 hashes for this file.');
+      continue;
+    }
+    // checkCaseBundle verifies the text entries the manifest lists, but a file may name one it does not list.
+    if (!manifest.entries.some(entry => entry.path === file.textPath)) {
+      quarantine(file, `The manifest does not list the extracted text ${file.textPath}, so it cannot be verified.`);
+      continue;
+    }
+    const textBytes = await readEntry(entries, file.textPath);
+    if (!textBytes) {
+      quarantine(file, `The extracted text ${file.textPath} is missing from the bundle.`);
+      continue;
+    }
+    const text = new TextDecoder().decode(textBytes);
+    let summary = `Imported from ${bundleName}; extracted text verified against its manifest`;
+    if (file.path) {
+      const data = await readEntry(entries, file.path);
+      if (!data) {
+        quarantine(file, 'The original file is missing from the bundle.');
+        continue;
+      }
+      const actualHash = await calculateSHA512(new File([data], file.name));
+      if (actualHash !== file.sha512) {
+        quarantine(file, 'The original file does not match the SHA-512 recorded in the manifest.', actualHash, data);
+        continue;
+      }
+      originals.set(file.sha512, data);
+      summary = `Imported from ${bundleName}; SHA-512 of the original verified against its manifest`;
+    } else {
+      textOnly.push(file.name);
+    }
+    const notes = file.path ? file.attachment.extractionNotes : [...(file.attachment.extractionNotes || []), 'Imported without the original file, as extracted text only.'];
+    attachments.push(recordCustodyEvent({ ...file.attachment, content: text, extractionNotes: notes }, 'imported', summary));
+  }
+
+  const caseData = await readJson<Partial<CaseRecord>>(entries, CASE_PATH);
+  const { activeConversationId, conversations } = await readJson<Pick<CaseRecord, 'activeConversationId' | 'conversations'>>(entries, CONVERSATIONS_PATH);
+  const { notes, caseNotes } = await readJson<Pick<CaseRecord, 'notes' | 'caseNotes'>>(entries, NOTES_PATH);
+  const { edits } = await readJson<{ edits: CaseRecord['timelineEdits'] }>(entries, TIMELINE_PATH);
+  const auditLog = await readJson<CaseRecord['auditLog']>(entries, AUDIT_LOG_PATH);
+  const threads = (conversations || []).map(c => ({ ...c, messages: c.messages.map(m => ({ ...m, timestamp: new Date(m.timestamp) })) }));
+  const active = threads.find(c => c.id === activeConversationId) || threads[0];
+
+  const record: CaseRecord = {
+    id: manifest.case.id,
+    name: manifest.case.name,
+    attachments,
+    transcript: active?.messages || [],
+    conversations: threads,
+    activeConversationId: active?.id,
+    notes: notes || '',
+    caseNotes,
+    highRisk: caseData.highRisk,
+    redactionMap: caseData.redactionMap,
+    redactionSettings: caseData.redactionSettings,
+    timelineEdits: edits,
+    contradictions: caseData.contradictions,
+    auditLog,
+    quarantine: [...(caseData.quarantine || []), ...quarantined.map(q => q.file)],
+    createdAt: manifest.case.createdAt,
+    updatedAt: importedAt,
+  };
+  return { record, originals, quarantined, textOnly, manifestHash, signature };
+}
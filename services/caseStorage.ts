@@ -0,0 +1,277 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ApiKeys, CaseRecord, CaseSummary, ChatMessage, SigningKeyRecord } from '../types';
+
+const DB_NAME = 'verum-omnis';
+const DB_VERSION = 2;
+const VAULT_STORE = 'vault';
+const CASES_STORE = 'cases';
+const EVIDENCE_STORE = 'evidence'; // Original file bytes, by case id and SHA-512
+const VAULT_META_KEY = 'meta';
+const SIGNING_KEY_KEY = 'signing-key';
+const API_KEYS_KEY = 'api-keys';
+const PBKDF2_ITERATIONS = 310000;
+// Encrypted with the derived key at vault creation; decrypting it proves the passphrase is right.
+const VERIFIER_TEXT = 'verum-omnis-vault';
+
+interface EncryptedBlob {
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+interface VaultMeta {
+  salt: Uint8Array;
+  verifier: EncryptedBlob;
+}
+
+interface StoredCase {
+  id: string;
+  summary: EncryptedBlob;
+  body: EncryptedBlob;
+}
+
+interface StoredEvidence {
+  id: string; // `${caseId}:${hash}`
+  bytes: EncryptedBlob;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(VAULT_STORE)) db.createObjectStore(VAULT_STORE);
+        if (!db.objectStoreNames.contains(CASES_STORE)) db.createObjectStore(CASES_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(EVIDENCE_STORE)) db.createObjectStore(EVIDENCE_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Runs a single request against an object store and resolves with its result.
+ */
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest,
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = run(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+}
+
+async function encrypt(key: CryptoKey, value: unknown): Promise<EncryptedBlob> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(value)));
+  return { iv, data };
+}
+
+async function encryptBytes(key: CryptoKey, bytes: ArrayBuffer | Uint8Array): Promise<EncryptedBlob> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  return { iv, data: await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, bytes) };
+}
+
+async function decrypt<T>(key: CryptoKey, blob: EncryptedBlob): Promise<T> {
+  const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: blob.iv }, key, blob.data);
+  return JSON.parse(new TextDecoder().decode(plain));
+}
+
+// Cases saved before N-way consensus stored exactly two answers in fixed fields.
+interface LegacyDualAnswer {
+  api1Response?: string;
+  api2Response?: string;
+}
+
+/**
+ * Restores the Date instances JSON serialisation turns into strings and upgrades older message shapes.
+ */
+function reviveTranscript(transcript: (ChatMessage & LegacyDualAnswer)[]): ChatMessage[] {
+  return transcript.map(({ api1Response, api2Response, ...message }) => {
+    const revived: ChatMessage = { ...message, timestamp: new Date(message.timestamp) };
+    if (!revived.responses && (api1Response !== undefined || api2Response !== undefined)) {
+      revived.responses = [api1Response, api2Response].map((text, index) => ({
+        slotId: `slot-${index + 1}`,
+        label: `Provider ${index + 1}`,
+        provider: 'gemini',
+        model: 'gemini-2.5-flash',
+        text: text || '',
+      }));
+    }
+    return revived;
+  });
+}
+
+/**
+ * Returns true once a vault passphrase has been set in this browser.
+ */
+export async function hasVault(): Promise<boolean> {
+  const meta = await withStore<VaultMeta | undefined>(VAULT_STORE, 'readonly', store => store.get(VAULT_META_KEY));
+  return !!meta;
+}
+
+/**
+ * Unlocks the encrypted case folder, creating it on first use.
+ * @param passphrase The user's vault passphrase.
+ * @returns A promise that resolves with the AES-GCM key used for every case record.
+ * @throws If the passphrase does not match the existing vault.
+ */
+export async function unlockVault(passphrase: string): Promise<CryptoKey> {
+  const meta = await withStore<VaultMeta | undefined>(VAULT_STORE, 'readonly', store => store.get(VAULT_META_KEY));
+  if (!meta) {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const key = await deriveKey(passphrase, salt);
+    const newMeta: VaultMeta = { salt, verifier: await encrypt(key, VERIFIER_TEXT) };
+    await withStore(VAULT_STORE, 'readwrite', store => store.put(newMeta, VAULT_META_KEY));
+    return key;
+  }
+
+  const key = await deriveKey(passphrase, meta.salt);
+  try {
+    if (await decrypt<string>(key, meta.verifier) === VERIFIER_TEXT) return key;
+  } catch {
+    // AES-GCM authentication fails when the key is wrong; reported below.
+  }
+  throw new Error('Incorrect passphrase for the encrypted case folder.');
+}
+
+/**
+ * Lists the saved cases, most recently updated first.
+ * @param key The unlocked vault key.
+ */
+export async function listCases(key: CryptoKey): Promise<CaseSummary[]> {
+  const stored = await withStore<StoredCase[]>(CASES_STORE, 'readonly', store => store.getAll());
+  const summaries = await Promise.all(stored.map(record => decrypt<CaseSummary>(key, record.summary)));
+  return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * Encrypts and stores a case, replacing any earlier version with the same id.
+ * @param key The unlocked vault key.
+ * @param record The case to save.
+ */
+export async function saveCase(key: CryptoKey, record: CaseRecord): Promise<void> {
+  const summary: CaseSummary = {
+    id: record.id,
+    name: record.name,
+    updatedAt: record.updatedAt,
+    fileCount: record.attachments.length,
+  };
+  const stored: StoredCase = {
+    id: record.id,
+    summary: await encrypt(key, summary),
+    body: await encrypt(key, record),
+  };
+  await withStore(CASES_STORE, 'readwrite', store => store.put(stored));
+}
+
+/**
+ * Decrypts a saved case.
+ * @param key The unlocked vault key.
+ * @param id The case id.
+ * @returns A promise that resolves with the case, or null if it does not exist.
+ */
+export async function loadCase(key: CryptoKey, id: string): Promise<CaseRecord | null> {
+  const stored = await withStore<StoredCase | undefined>(CASES_STORE, 'readonly', store => store.get(id));
+  if (!stored) return null;
+  const record = await decrypt<CaseRecord>(key, stored.body);
+  return { ...record, transcript: reviveTranscript(record.transcript) };
+}
+
+/**
+ * Permanently removes a saved case.
+ * @param id The case id.
+ */
+export async function deleteCase(id: string): Promise<void> {
+  await withStore(CASES_STORE, 'readwrite', store => store.delete(id));
+  await withStore(EVIDENCE_STORE, 'readwrite', store => store.delete(evidenceRange(id)));
+}
+
+const evidenceRange = (caseId: string) => IDBKeyRange.bound(`${caseId}:`, `${caseId}:\uffff`);
+
+/**
+ * Encrypts and stores the original bytes of a case file, so the case can later be exported with its
+ * evidence as it was received.
+ * @param key The unlocked vault key.
+ * @param caseId The case the file belongs to.
+ * @param hash The file's SHA-512.
+ * @param bytes The file as received.
+ */
+export async function saveEvidenceFile(key: CryptoKey, caseId: string, hash: string, bytes: ArrayBuffer | Uint8Array): Promise<void> {
+  const stored: StoredEvidence = { id: `${caseId}:${hash}`, bytes: await encryptBytes(key, bytes) };
+  await withStore(EVIDENCE_STORE, 'readwrite', store => store.put(stored));
+}
+
+/**
+ * Decrypts the original bytes of a case file.
+ * @returns A promise that resolves with the bytes, or null for files added before originals were kept.
+ */
+export async function loadEvidenceFile(key: CryptoKey, caseId: string, hash: string): Promise<Uint8Array | null> {
+  const stored = await withStore<StoredEvidence | undefined>(EVIDENCE_STORE, 'readonly', store => store.get(`${caseId}:${hash}`));
+  if (!stored) return null;
+  return new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: stored.bytes.iv }, key, stored.bytes.data));
+}
+
+/**
+ * Encrypts and stores the investigator's signing keypair, replacing any earlier one.
+ * @param key The unlocked vault key.
+ */
+export async function saveSigningKey(key: CryptoKey, record: SigningKeyRecord): Promise<void> {
+  const stored = await encrypt(key, record);
+  await withStore(VAULT_STORE, 'readwrite', store => store.put(stored, SIGNING_KEY_KEY));
+}
+
+/**
+ * Decrypts the investigator's signing keypair.
+ * @returns A promise that resolves with the keypair, or null if none has been created.
+ */
+export async function loadSigningKey(key: CryptoKey): Promise<SigningKeyRecord | null> {
+  const stored = await withStore<EncryptedBlob | undefined>(VAULT_STORE, 'readonly', store => store.get(SIGNING_KEY_KEY));
+  return stored ? decrypt<SigningKeyRecord>(key, stored) : null;
+}
+
+/**
+ * Encrypts and stores the providers' API keys, replacing the earlier set.
+ * @param key The unlocked vault key.
+ */
+export async function saveApiKeys(key: CryptoKey, keys: ApiKeys): Promise<void> {
+  const stored = await encrypt(key, keys);
+  await withStore(VAULT_STORE, 'readwrite', store => store.put(stored, API_KEYS_KEY));
+}
+
+/**
+ * Decrypts the providers' API keys.
+ * @returns A promise that resolves with the keys; none have been stored when it is empty.
+ */
+export async function loadApiKeys(key: CryptoKey): Promise<ApiKeys> {
+  const stored = await withStore<EncryptedBlob | undefined>(VAULT_STORE, 'readonly', store => store.get(API_KEYS_KEY));
+  return stored ? decrypt<ApiKeys>(key, stored) : {};
+}
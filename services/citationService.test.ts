@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { Attachment, ContextSource } from '../types';
+import { isFabricated, verifyCitations } from './citationService';
+
+const LEASE: Attachment = {
+  name: 'lease.txt',
+  hash: '1a2b3c4d5e6f'.padEnd(128, '0'),
+  content: [
+    'Residential lease agreement',
+    'Landlord: Sipho Dlamini',
+    'Tenant: Anna Botha',
+    'The monthly rent is R8,500, payable on the first day of each month.',
+    'A deposit of R17,000 was paid on 12 March 2024.',
+    'The lease runs for twelve months.',
+    'Either party may end it with two months\' written notice.',
+    'Signed at Cape Town.',
+  ].join('\n'),
+};
+
+const EMAIL: Attachment = { name: 'email.eml', hash: '1a2b9999'.padEnd(128, '0'), content: 'The deposit was refunded in full.' };
+
+const sent = (lineStart: number, lineEnd: number): ContextSource => ({
+  label: `1a2b3c4d:${lineStart}-${lineEnd}`, fileName: LEASE.name, fileHash: LEASE.hash,
+  start: 0, end: 0, lineStart, lineEnd, tokens: 0, score: 1,
+});
+
+describe('verifyCitations', () => {
+  it('verifies a line citation and a range citation of existing lines', () => {
+    const checks = verifyCitations('The rent is R8,500 [1a2b3c4d:4]. The deposit was paid in March [1a2b3c4d:4-5].', [LEASE, EMAIL]);
+    expect(checks.map(c => c.status)).toEqual(['verified', 'verified']);
+    expect(checks[1]).toMatchObject({ fileName: 'lease.txt', lineStart: 4, lineEnd: 5 });
+  });
+
+  it('verifies a quote at the cited line, or within two lines of it', () => {
+    const [exact, near] = verifyCitations(
+      'It says "A deposit of R17,000 was paid" [1a2b3c4d:5].\nAnd "runs for twelve months" [1a2b3c4d:4].',
+      [LEASE],
+    );
+    expect(exact.status).toBe('verified');
+    expect(near.status).toBe('verified');
+  });
+
+  it('flags a quote found elsewhere in the file as misplaced', () => {
+    const [check] = verifyCitations('"Either party may end it" [1a2b3c4d:1]', [LEASE]);
+    expect(check.status).toBe('misplaced');
+    expect(check.detail).toContain('line 7');
+    expect(isFabricated(check)).toBe(false);
+  });
+
+  it('flags unknown and ambiguous hash prefixes, missing lines and invented quotes as fabricated', () => {
+    const checks = verifyCitations(
+      'A [deadbeef:1]. B [1a2b:1] is too short to be a citation. C [1a2b3c4d:9]. D "the tenant was evicted early" [1a2b3c4d:3].',
+      [LEASE, EMAIL],
+    );
+    expect(checks.map(c => c.status)).toEqual(['unknown_file', 'bad_lines', 'quote_not_found']);
+    expect(checks.every(isFabricated)).toBe(true);
+
+    const [ambiguous] = verifyCitations('E [1a2b0000:1]', [{ ...LEASE, hash: '1a2b0000aa' }, { ...EMAIL, hash: '1a2b0000bb' }]);
+    expect(ambiguous.status).toBe('unknown_file');
+    expect(ambiguous.detail).toContain('ambiguous');
+  });
+
+  it('flags lines that were not among the passages sent as fabricated', () => {
+    const checks = verifyCitations('Rent [1a2b3c4d:4]. Notice [1a2b3c4d:7].', [LEASE], [sent(1, 5)]);
+    expect(checks.map(c => c.status)).toEqual(['verified', 'not_sent']);
+    expect(isFabricated(checks[1])).toBe(true);
+  });
+});
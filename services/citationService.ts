@@ -0,0 +1,169 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Attachment, CitationCheck, CitationStatus, ContextSource } from '../types';
+
+// [1a2b3c4d:12] or [1a2b3c4d:12-14]: a SHA-512 prefix of at least eight hex digits and a line or line range.
+export const CITATION_PATTERN = /\[([0-9a-f]{8,128}):(\d+)(?:\s*[-–]\s*(\d+))?\]/gi;
+
+// Providers are often a line or two out when citing; a quote this close to the cited lines still counts.
+const LINE_SLACK = 2;
+const MIN_QUOTE_LENGTH = 12;
+const MIN_FRAGMENT_LENGTH = 4;
+
+export const FABRICATED_STATUSES: CitationStatus[] = ['unknown_file', 'bad_lines', 'quote_not_found', 'not_sent'];
+
+export const CITATION_INSTRUCTION = 'Support every factual statement with a citation to the case file excerpts, written '
+  + '[hash:line] or [hash:first-last] with the hash prefix and line numbers shown on each excerpt, e.g. [1a2b3c4d:12-14]. '
+  + 'When you quote a file, quote it exactly, in double quotes, directly before the citation. Never cite lines you were not shown.';
+
+/**
+ * Start offset of every line, plus a final entry one past the end, so line n spans offsets[n - 1] to offsets[n] - 1.
+ */
+function lineOffsets(content: string): number[] {
+  const offsets = [0];
+  for (let i = content.indexOf('\n'); i !== -1; i = content.indexOf('\n', i + 1)) offsets.push(i + 1);
+  offsets.push(content.length + 1);
+  return offsets;
+}
+
+function lineAt(offsets: number[], position: number): number {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (offsets[mid] <= position) low = mid;
+    else high = mid - 1;
+  }
+  return low + 1;
+}
+
+// Matches a quoted fragment regardless of case, line wrapping, or straight versus typographic quotes and dashes.
+function fragmentPattern(fragment: string): RegExp {
+  const source = fragment.trim().split(/\s+/).map(word => word
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/['’‘]/g, "['’‘]")
+    .replace(/["“”]/g, '["“”]')
+    .replace(/[-–—]/g, '[-–—]')).join('\\s+');
+  return new RegExp(source, 'i');
+}
+
+/**
+ * Finds a quote in content[from, to). Parts elided with "..." must appear in order.
+ * @returns The span from the first part to the end of the last, or null.
+ */
+function findQuote(content: string, quote: string, from: number, to: number): { start: number; end: number } | null {
+  const fragments = quote.split(/\.\.\.|…/).map(f => f.trim()).filter(f => f.length >= MIN_FRAGMENT_LENGTH);
+  if (fragments.length === 0) return null;
+  const region = content.slice(from, to);
+  let cursor = 0;
+  let start = -1;
+  for (const fragment of fragments) {
+    const match = fragmentPattern(fragment).exec(region.slice(cursor));
+    if (!match) return null;
+    if (start === -1) start = cursor + match.index;
+    cursor += match.index + match[0].length;
+  }
+  return { start: from + start, end: from + cursor };
+}
+
+// The last quotation in the text written before a citation, e.g. `"paid in full" [1a2b3c4d:12]`.
+function quoteBefore(segment: string): string | undefined {
+  const quotes = [...segment.matchAll(/["“]([^"“”]+)["”]/g)].map(m => m[1].trim());
+  const quote = quotes[quotes.length - 1];
+  return quote && quote.length >= MIN_QUOTE_LENGTH ? quote : undefined;
+}
+
+function checkCitation(
+  citation: string,
+  prefix: string,
+  lineStart: number,
+  lineEnd: number,
+  quote: string | undefined,
+  attachments: Attachment[],
+  sources?: ContextSource[],
+): CitationCheck {
+  const base = { citation, lineStart, lineEnd, quote };
+  const matches = attachments.filter(f => f.hash.toLowerCase().startsWith(prefix.toLowerCase()));
+  if (matches.length !== 1) {
+    return {
+      ...base,
+      status: 'unknown_file',
+      detail: matches.length === 0
+        ? `No case file has a SHA-512 starting ${prefix}.`
+        : `The prefix ${prefix} matches ${matches.length} case files; the citation is ambiguous.`,
+    };
+  }
+
+  const file = matches[0];
+  const content = file.content || '';
+  const offsets = lineOffsets(content);
+  const lineCount = offsets.length - 1;
+  const ref = { ...base, fileHash: file.hash, fileName: file.name };
+  const lines = lineStart === lineEnd ? `line ${lineStart}` : `lines ${lineStart}-${lineEnd}`;
+  if (!content.trim() || lineStart < 1 || lineEnd > lineCount) {
+    return { ...ref, status: 'bad_lines', detail: `${file.name} has ${content.trim() ? lineCount : 'no'} lines of text; ${lines} ${lineStart === lineEnd ? 'does' : 'do'} not exist.` };
+  }
+
+  let span = { start: offsets[lineStart - 1], end: offsets[lineEnd] - 1 };
+  if (quote) {
+    const near = findQuote(content, quote, offsets[Math.max(1, lineStart - LINE_SLACK) - 1], offsets[Math.min(lineCount, lineEnd + LINE_SLACK)] - 1);
+    if (!near) {
+      const anywhere = findQuote(content, quote, 0, content.length);
+      if (!anywhere) {
+        return { ...ref, ...span, status: 'quote_not_found', detail: `The quoted text does not appear anywhere in ${file.name}.` };
+      }
+      return {
+        ...ref,
+        ...anywhere,
+        status: 'misplaced',
+        detail: `The quoted text is in ${file.name} at line ${lineAt(offsets, anywhere.start)}, not ${lines}.`,
+      };
+    }
+    span = near;
+  }
+
+  if (sources && !sources.some(s => s.fileHash === file.hash && s.lineStart <= lineEnd && s.lineEnd >= lineStart)) {
+    return {
+      ...ref,
+      ...span,
+      status: 'not_sent',
+      detail: `${lines} of ${file.name} ${lineStart === lineEnd ? 'was' : 'were'} not among the passages sent with the query, so the provider cannot have read ${lineStart === lineEnd ? 'it' : 'them'}.`,
+    };
+  }
+  return { ...ref, ...span, status: 'verified', detail: `${file.name}, ${lines}${quote ? ', contains the quoted text' : ''}.` };
+}
+
+/**
+ * Checks every citation in an answer against the case files: the hash prefix must name exactly one
+ * file, the lines must exist and must have been sent to the provider, and a quote written directly
+ * before the citation must appear in the file at (or within two lines of) the cited lines.
+ * @param text The answer, with pseudonyms already restored so quotes match the original files.
+ * @param attachments The case files.
+ * @param sources The passages sent with the query; when given, citations outside them are flagged.
+ * @returns One check per citation, in the order they appear in the text.
+ */
+export function verifyCitations(text: string, attachments: Attachment[], sources?: ContextSource[]): CitationCheck[] {
+  const checks: CitationCheck[] = [];
+  let previousEnd = 0;
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    const [raw, prefix, first, last] = match;
+    const index = match.index!;
+    const lineStart = Number(first);
+    const lineEnd = Math.max(lineStart, Number(last || first));
+    // A quote belongs to the citation that follows it on the same line, not to an earlier citation.
+    const segment = text.slice(Math.max(previousEnd, text.lastIndexOf('\n', index) + 1), index);
+    previousEnd = index + raw.length;
+    checks.push(checkCitation(raw.slice(1, -1), prefix, lineStart, lineEnd, quoteBefore(segment), attachments, sources));
+  }
+  return checks;
+}
+
+/**
+ * Whether a citation points at something that is not in the case files.
+ */
+export function isFabricated(check: CitationCheck): boolean {
+  return FABRICATED_STATUSES.includes(check.status);
+}
@@ -0,0 +1,53 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { ProviderResponse } from '../types';
+import { alignClaims, extractClaims, extractDates, hasDisputeBetween, pairwiseClaimAgreement } from './claimService';
+
+const answer = (slotId: string, text: string): ProviderResponse => ({ slotId, label: slotId, provider: 'gemini', model: 'test', text });
+
+describe('extractDates', () => {
+  it('normalises written and numeric dates, reading numeric dates day-first', () => {
+    expect(extractDates('Paid on 12 March 2024, again on March 14, 2024 and on 03/04/2024.')).toEqual(['2024-03-12', '2024-03-14', '2024-04-03']);
+  });
+});
+
+describe('extractClaims', () => {
+  it('splits sentences and list items and drops headings, questions and fragments', () => {
+    const claims = extractClaims('## Findings:\n- The tenant paid the deposit in cash.\nWas it refunded? Not stated. The landlord kept the full deposit.');
+    expect(claims).toEqual(['The tenant paid the deposit in cash.', 'The landlord kept the full deposit.']);
+  });
+});
+
+describe('alignClaims', () => {
+  it('labels claims made compatibly by two providers as agreed', () => {
+    const claims = alignClaims([
+      answer('a', 'The tenant paid the deposit of 5000 on 12 March 2024.'),
+      answer('b', 'On 12 March 2024 the tenant paid a deposit of 5000.'),
+    ]);
+    expect(claims).toHaveLength(1);
+    expect(claims[0].status).toBe('agreed');
+    expect(pairwiseClaimAgreement(claims, 'a', 'b')).toBe(1);
+  });
+
+  it('labels aligned claims with different figures as disputed', () => {
+    const claims = alignClaims([
+      answer('a', 'The tenant paid the deposit of 5000 on 12 March 2024.'),
+      answer('b', 'The tenant paid the deposit of 7000 on 12 March 2024.'),
+    ]);
+    expect(claims[0].status).toBe('disputed');
+    expect(claims[0].conflict).toMatch(/Figures differ/);
+    expect(hasDisputeBetween(claims, 'a', 'b')).toBe(true);
+  });
+
+  it('labels a claim only one provider makes as unique', () => {
+    const claims = alignClaims([
+      answer('a', 'The tenant paid the deposit of 5000 on 12 March 2024.'),
+      answer('b', 'The landlord changed the locks without any notice.'),
+    ]);
+    expect(claims.map(c => c.status)).toEqual(['unique', 'unique']);
+  });
+});
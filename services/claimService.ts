@@ -0,0 +1,289 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ClaimAlignment, ClaimStatus, ProviderResponse } from '../types';
+import { CITATION_PATTERN } from './citationService';
+
+// Claims are aligned when their normalised content words overlap at least this much.
+const ALIGNMENT_THRESHOLD = 0.34;
+
+export const STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'of', 'to', 'in', 'on', 'at', 'by', 'for', 'with', 'from', 'as', 'is',
+  'are', 'was', 'were', 'be', 'been', 'being', 'it', 'its', 'this', 'that', 'these', 'those', 'there', 'their',
+  'they', 'he', 'she', 'his', 'her', 'him', 'has', 'have', 'had', 'do', 'does', 'did', 'which', 'who', 'whom',
+  'also', 'then', 'than', 'so', 'such', 'into', 'onto', 'about', 'any', 'all', 'some', 'both', 'each', 'would',
+  'could', 'should', 'may', 'might', 'will', 'shall', 'can', 'according', 'based', 'context', 'provided',
+  'document', 'documents', 'file', 'files', 'appears', 'indicates', 'states', 'stated', 'shows', 'seems',
+]);
+
+const NEGATIONS = new Set(['not', 'no', 'never', 'none', 'neither', 'nor', 'without', "didn't", "wasn't", "isn't", "weren't", "hasn't", "haven't", "hadn't", "doesn't", "don't", 'cannot', "can't", "won't"]);
+
+// Irregular forms the suffix stemmer cannot reach.
+const IRREGULAR: Record<string, string> = {
+  paid: 'pay', sent: 'send', received: 'receive', made: 'make', told: 'tell', said: 'say', gave: 'give',
+  given: 'give', took: 'take', taken: 'take', wrote: 'write', written: 'write', met: 'meet', left: 'leave',
+  bought: 'buy', sold: 'sell', signed: 'sign', signature: 'sign', payment: 'pay', payments: 'pay',
+  transferred: 'transfer', threatened: 'threat', threatening: 'threat', threats: 'threat',
+};
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+const MONTH_PATTERN = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+
+interface Claim {
+  slotId: string;
+  text: string;
+  terms: Set<string>;
+  dates: string[];
+  numbers: string[];
+  negated: boolean;
+}
+
+/**
+ * Reduces a lower-case word to the stem used when comparing claims, e.g. "payments" and "paid" to "pay".
+ */
+export function stem(word: string): string {
+  if (IRREGULAR[word]) return IRREGULAR[word];
+  if (word.length <= 4) return word;
+  return word
+    .replace(/ies$/, 'y')
+    .replace(/(ing|edly|ed|ly|ment|s)$/, '')
+    .replace(/e$/, '');
+}
+
+function monthIndex(name: string): number {
+  return MONTHS.findIndex(m => m.startsWith(name.toLowerCase().replace('.', '').slice(0, 3)));
+}
+
+function isoDate(year: number, month: number, day: number): string {
+  return `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Finds calendar dates in free text and normalises them to YYYY-MM-DD.
+ * Numeric dates are read day-first (DD/MM/YYYY), as in South African and UK documents.
+ */
+export function extractDates(text: string): string[] {
+  const dates: string[] = [];
+  const patterns: [RegExp, (m: RegExpExecArray) => string | null][] = [
+    [/\b(\d{4})-(\d{2})-(\d{2})\b/g, m => isoDate(+m[1], +m[2] - 1, +m[3])],
+    [new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH_PATTERN},?\\s+(\\d{4})\\b`, 'gi'), m => isoDate(+m[3], monthIndex(m[2]), +m[1])],
+    [new RegExp(`\\b${MONTH_PATTERN}\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`, 'gi'), m => isoDate(+m[3], monthIndex(m[1]), +m[2])],
+    [/\b(\d{1,2})[/.](\d{1,2})[/.](\d{4})\b/g, m => isoDate(+m[3], +m[2] - 1, +m[1])],
+  ];
+  for (const [pattern, toIso] of patterns) {
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text))) {
+      const iso = toIso(match);
+      if (iso && !iso.includes('-00-') && !dates.includes(iso)) dates.push(iso);
+    }
+  }
+  return dates;
+}
+
+/**
+ * Amounts and other figures, with currency symbols and thousands separators removed.
+ * Digits that belong to dates are excluded.
+ */
+function extractNumbers(dateFree: string): string[] {
+  const numbers = dateFree.match(/(?<![\d.])\d[\d,]*(?:\.\d+)?/g) || [];
+  return [...new Set(numbers.map(n => String(parseFloat(n.replace(/,/g, '')))))];
+}
+
+function stripDates(text: string): string {
+  return text
+    .replace(/\b\d{4}-\d{2}-\d{2}\b/g, ' ')
+    .replace(new RegExp(`\\b\\d{1,2}(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH_PATTERN},?\\s+\\d{4}\\b`, 'gi'), ' ')
+    .replace(new RegExp(`\\b${MONTH_PATTERN}\\s+\\d{1,2}(?:st|nd|rd|th)?,?\\s+\\d{4}\\b`, 'gi'), ' ')
+    .replace(/\b\d{1,2}[/.]\d{1,2}[/.]\d{4}\b/g, ' ');
+}
+
+function toClaim(slotId: string, text: string): Claim {
+  const dateFree = stripDates(text);
+  const words = dateFree.toLowerCase().replace(/[^a-z0-9'\s]/g, ' ').split(/\s+/).filter(Boolean);
+  return {
+    slotId,
+    text,
+    terms: new Set(words.filter(w => !STOPWORDS.has(w) && !NEGATIONS.has(w) && !/^\d/.test(w) && !MONTHS.includes(w)).map(stem)),
+    dates: extractDates(text),
+    numbers: extractNumbers(dateFree),
+    negated: words.some(w => NEGATIONS.has(w)),
+  };
+}
+
+/**
+ * Breaks an answer into atomic factual statements: one per sentence, list item or semicolon clause.
+ * Headings, questions and very short fragments are dropped.
+ */
+export function extractClaims(text: string): string[] {
+  return text
+    .replace(/```[\s\S]*?```/g, ' ')
+    // Citation line numbers are not figures the providers could disagree on.
+    .replace(CITATION_PATTERN, '')
+    .split(/\n+|(?<=[.!?])\s+(?=[A-Z0-9"'(])|;\s+/)
+    .map(s => s.replace(/^[\s*#>\-•\d.)]+(?=\D)/, '').replace(/\*\*|__|`/g, '').trim())
+    .filter(s => !s.endsWith('?') && !s.endsWith(':') && s.split(/\s+/).length >= 4);
+}
+
+// Sentences end at . ! or ? followed by whitespace, so "12.03.2023" and "R5.50" stay whole.
+const SENTENCE = /(?:[^.!?\n]|[.!?](?!\s|$))+[.!?]?/g;
+
+/**
+ * Splits text into sentences and lines, keeping each one's character span in the source.
+ */
+export function splitSentences(text: string): { text: string; start: number; end: number }[] {
+  const sentences: { text: string; start: number; end: number }[] = [];
+  SENTENCE.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = SENTENCE.exec(text))) {
+    const sentence = match[0].trim();
+    if (!sentence) continue;
+    const start = match.index + match[0].indexOf(sentence);
+    sentences.push({ text: sentence, start, end: start + sentence.length });
+  }
+  return sentences;
+}
+
+/**
+ * Pairs of statements worth comparing: those sharing at least `minShared` distinctive words.
+ * Comparing every pair is quadratic, and words found in more than `maxPerWord` statements
+ * (names, "paid") are too common to suggest the statements are about the same thing.
+ * @returns Index pairs into `texts`, each with the lower index first.
+ */
+export function candidatePairs(texts: string[], minShared = 2, maxPerWord = 40): [number, number][] {
+  const index = new Map<string, number[]>();
+  texts.forEach((text, i) => {
+    for (const word of new Set(text.toLowerCase().match(/[a-z][a-z']{3,}/g) || [])) {
+      const list = index.get(word) || [];
+      list.push(i);
+      index.set(word, list);
+    }
+  });
+  const shared = new Map<string, number>();
+  for (const list of index.values()) {
+    if (list.length > maxPerWord) continue;
+    for (let a = 0; a < list.length; a++) {
+      for (let b = a + 1; b < list.length; b++) {
+        const key = `${list[a]}|${list[b]}`;
+        shared.set(key, (shared.get(key) || 0) + 1);
+      }
+    }
+  }
+  return [...shared].filter(([, count]) => count >= minShared).map(([key]) => key.split('|').map(Number) as [number, number]);
+}
+
+function similarity(a: Claim, b: Claim): number {
+  const shared = [...a.terms].filter(t => b.terms.has(t)).length;
+  const union = new Set([...a.terms, ...b.terms]).size;
+  const termScore = union === 0 ? 0 : shared / union;
+  // A shared date or figure is strong evidence the claims are about the same fact.
+  const anchorBonus = a.dates.some(d => b.dates.includes(d)) || a.numbers.some(n => b.numbers.includes(n)) ? 0.15 : 0;
+  return termScore + anchorBonus;
+}
+
+/**
+ * Compares two free-text statements the way aligned claims are compared.
+ * @returns How similar their content words are (0 to ~1.15) and, if they conflict, why.
+ */
+export function compareStatements(a: string, b: string): { similarity: number; conflict: string | null } {
+  const claimA = toClaim('a', a);
+  const claimB = toClaim('b', b);
+  return { similarity: similarity(claimA, claimB), conflict: findConflict(claimA, claimB) };
+}
+
+/**
+ * Explains why two aligned claims cannot both be true, or returns null if they are compatible.
+ */
+function findConflict(a: Claim, b: Claim): string | null {
+  if (a.dates.length && b.dates.length && !a.dates.some(d => b.dates.includes(d))) {
+    return `Dates differ: ${a.dates.join(', ')} vs ${b.dates.join(', ')}`;
+  }
+  if (a.numbers.length && b.numbers.length && !a.numbers.some(n => b.numbers.includes(n))) {
+    return `Figures differ: ${a.numbers.join(', ')} vs ${b.numbers.join(', ')}`;
+  }
+  if (a.negated !== b.negated) {
+    return 'One statement negates the other';
+  }
+  return null;
+}
+
+/**
+ * Aligns the claims of every provider answer and labels each aligned claim.
+ * A claim is "agreed" when two or more providers make it compatibly, "disputed" when aligned
+ * statements conflict on a date, figure or negation, and "unique" when only one provider makes it.
+ * @param responses One answer per voting provider.
+ * @returns The aligned claims in the order they first appear.
+ */
+export function alignClaims(responses: ProviderResponse[]): ClaimAlignment[] {
+  const clusters: Claim[][] = [];
+  for (const response of responses) {
+    for (const text of extractClaims(response.text)) {
+      const claim = toClaim(response.slotId, text);
+      let best: Claim[] | null = null;
+      let bestScore = ALIGNMENT_THRESHOLD;
+      for (const cluster of clusters) {
+        if (cluster.some(c => c.slotId === claim.slotId)) continue;
+        const score = Math.max(...cluster.map(c => similarity(claim, c)));
+        if (score >= bestScore) {
+          best = cluster;
+          bestScore = score;
+        }
+      }
+      if (best) best.push(claim);
+      else clusters.push([claim]);
+    }
+  }
+
+  return clusters.map((cluster, index) => {
+    let conflict: string | null = null;
+    for (let i = 0; i < cluster.length && !conflict; i++) {
+      for (let j = i + 1; j < cluster.length && !conflict; j++) {
+        conflict = findConflict(cluster[i], cluster[j]);
+      }
+    }
+    const status: ClaimStatus = cluster.length === 1 ? 'unique' : conflict ? 'disputed' : 'agreed';
+    return {
+      id: `claim-${index + 1}`,
+      status,
+      statements: cluster.map(c => ({ slotId: c.slotId, text: c.text })),
+      ...(conflict ? { conflict } : {}),
+    };
+  });
+}
+
+/**
+ * How far two providers agree: agreed claims they share, against claims they dispute or make alone.
+ * Claims only one of them makes count half, since an omission is weaker than a contradiction.
+ * @returns A score between 0 and 1.
+ */
+export function pairwiseClaimAgreement(claims: ClaimAlignment[], slotA: string, slotB: string): number {
+  let agreed = 0;
+  let disputed = 0;
+  let unmatched = 0;
+  for (const claim of claims) {
+    const a = claim.statements.find(s => s.slotId === slotA);
+    const b = claim.statements.find(s => s.slotId === slotB);
+    if (a && b) {
+      const conflict = findConflict(toClaim(slotA, a.text), toClaim(slotB, b.text));
+      if (conflict) disputed++;
+      else agreed++;
+    } else if (a || b) {
+      unmatched++;
+    }
+  }
+  const total = agreed + disputed + unmatched / 2;
+  return total === 0 ? 1 : agreed / total;
+}
+
+/**
+ * Whether two providers contradict each other on any aligned claim.
+ */
+export function hasDisputeBetween(claims: ClaimAlignment[], slotA: string, slotB: string): boolean {
+  return claims.some(claim => {
+    if (claim.status !== 'disputed') return false;
+    const a = claim.statements.find(s => s.slotId === slotA);
+    const b = claim.statements.find(s => s.slotId === slotB);
+    return !!a && !!b && !!findConflict(toClaim(slotA, a.text), toClaim(slotB, b.text));
+  });
+}
@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Attachment, CaseFilter, EvidenceClassification, EvidenceType, ExtractorKind } from '../types';
+
+/** Display names for evidence types, in the order they are offered. */
+export const EVIDENCE_TYPE_LABELS: Record<EvidenceType, string> = {
+  incident: 'Incident',
+  correspondence: 'Correspondence',
+  financial: 'Financial',
+  identity: 'Identity',
+  media: 'Media',
+};
+
+export const EMPTY_CASE_FILTER: CaseFilter = { search: '' };
+
+// Extractors that only ever read one kind of evidence.
+const TYPE_BY_EXTRACTOR: Partial<Record<ExtractorKind, EvidenceType>> = {
+  email: 'correspondence',
+  msg: 'correspondence',
+  whatsapp: 'correspondence',
+  audio: 'media',
+};
+
+/**
+ * The classification a newly added file starts with: unsealed, untagged, and typed only when the
+ * kind of file makes its type plain, e.g. an email is correspondence.
+ */
+export function initialClassification(extractor?: ExtractorKind): EvidenceClassification {
+  return { tags: [], evidenceType: extractor ? TYPE_BY_EXTRACTOR[extractor] : undefined, sealed: false };
+}
+
+/**
+ * A file's classification; files added before files could be classified are unsealed and untagged.
+ */
+export function classificationOf(file: Attachment): EvidenceClassification {
+  return file.classification || { tags: [], sealed: false };
+}
+
+/**
+ * Tidies a tag as typed: trimmed, inner whitespace collapsed, without a leading "#".
+ */
+export function normaliseTag(tag: string): string {
+  return tag.trim().replace(/^#+/, '').replace(/\s+/g, ' ');
+}
+
+/**
+ * Every tag used in the case, sorted.
+ */
+export function caseTags(files: Attachment[]): string[] {
+  const tags = new Set(files.flatMap(file => classificationOf(file).tags));
+  return [...tags].sort((a, b) => a.localeCompare(b));
+}
+
+export function isFilterActive(filter: CaseFilter): boolean {
+  return !!filter.evidenceType || filter.sealed !== undefined || !!filter.tag || !!filter.search.trim();
+}
+
+/**
+ * Whether a file passes the filter. The search is case-insensitive and every word must appear in the
+ * file's name, hash, extracted content, tags or custodian.
+ */
+export function matchesFilter(file: Attachment, filter: CaseFilter): boolean {
+  const classification = classificationOf(file);
+  if (filter.evidenceType && classification.evidenceType !== filter.evidenceType) return false;
+  if (filter.sealed !== undefined && classification.sealed !== filter.sealed) return false;
+  if (filter.tag && !classification.tags.some(tag => tag.toLowerCase() === filter.tag!.toLowerCase())) return false;
+
+  const words = filter.search.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return true;
+  const haystack = [file.name, file.hash, file.content || '', ...classification.tags, classification.custodian || '']
+    .join('\n')
+    .toLowerCase();
+  return words.every(word => haystack.includes(word));
+}
+
+/**
+ * Describes a filter in a few words, e.g. 'sealed incident files tagged "eviction"', to go in a
+ * sentence about a query scoped to it.
+ */
+export function describeFilter(filter: CaseFilter): string {
+  const parts = [
+    filter.sealed ? 'sealed' : filter.sealed === false ? 'unsealed' : '',
+    filter.evidenceType ? EVIDENCE_TYPE_LABELS[filter.evidenceType].toLowerCase() : '',
+    'files',
+    filter.tag ? `tagged "${filter.tag}"` : '',
+    filter.search.trim() ? `matching "${filter.search.trim()}"` : '',
+  ];
+  return parts.filter(Boolean).join(' ');
+}
@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { ProviderResponse } from '../types';
+import { evaluateConsensus } from './consensusService';
+
+const PAID = 'The tenant paid the deposit of 5000 on 12 March 2024.';
+const PAID_AGAIN = 'On 12 March 2024 the tenant paid a deposit of 5000.';
+const PAID_MORE = 'The tenant paid the deposit of 7000 on 12 March 2024.';
+const PAID_LATER = 'The tenant paid the deposit of 5000 on 30 June 2024.';
+
+const answers = (...texts: string[]): ProviderResponse[] =>
+  texts.map((text, i) => ({ slotId: `slot-${i + 1}`, label: `Provider ${i + 1}`, provider: 'gemini', model: 'test', text }));
+
+describe('evaluateConsensus', () => {
+  it('finds a majority when both voters of a dual check agree', () => {
+    const report = evaluateConsensus(answers(PAID, PAID_AGAIN));
+    expect(report.mode).toBe('dual');
+    expect(report.majority).toEqual(['slot-1', 'slot-2']);
+    expect(report.minority).toEqual([]);
+  });
+
+  it('finds no majority when the two voters of a dual check disagree', () => {
+    const report = evaluateConsensus(answers(PAID, PAID_MORE));
+    expect(report.majority).toEqual([]);
+    expect(report.minority).toEqual(['slot-1', 'slot-2']);
+  });
+
+  it('reaches quorum with two of three voters and keeps the dissenter\'s points', () => {
+    const report = evaluateConsensus(answers(PAID, PAID_MORE, PAID_AGAIN));
+    expect(report.mode).toBe('triple');
+    expect(report.majority.sort()).toEqual(['slot-1', 'slot-3']);
+    expect(report.minority).toEqual(['slot-2']);
+    expect(report.dissents).toEqual([{ slotId: 'slot-2', points: [PAID_MORE] }]);
+  });
+
+  it('finds no majority when three voters all disagree', () => {
+    const report = evaluateConsensus(answers(PAID, PAID_MORE, PAID_LATER));
+    expect(report.majority).toEqual([]);
+    expect(report.minority).toHaveLength(3);
+  });
+
+  it('finds no majority when four voters split two against two', () => {
+    const report = evaluateConsensus(answers(PAID, PAID_AGAIN, PAID_MORE, PAID_MORE));
+    expect(report.majority).toEqual([]);
+    expect(report.minority).toHaveLength(4);
+  });
+});
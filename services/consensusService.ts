@@ -0,0 +1,226 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AssistantResponse, ConsensusReport, ConsensusSlot, ConversationTurn, Dissent, PairwiseAgreement, ProviderOutput, ProviderResponse, ProviderSettings, StreamOptions } from '../types';
+import { getProvider, resolveSlotConfig } from './providerRegistry';
+import { alignClaims, hasDisputeBetween, pairwiseClaimAgreement } from './claimService';
+import { buildSystemInstruction, getConstitutionStamp, requiresTripleConsensus } from './governanceService';
+import { CITATION_INSTRUCTION } from './citationService';
+import { estimateTokens } from './retrievalService';
+import { toProviderError, withRetries } from './providers/resilience';
+
+// Two voters agree when most of their claims align compatibly and none contradict.
+const AGREEMENT_THRESHOLD = 0.5;
+export const TRIPLE_CONSENSUS_MIN_VOTERS = 3;
+
+async function callApi(
+    prompt: string,
+    slot: ConsensusSlot,
+    settings: ProviderSettings,
+    onUpdate: (update: Partial<ProviderResponse>) => void,
+    signal?: AbortSignal,
+    history: ConversationTurn[] = [],
+): Promise<ProviderResponse> {
+    const provider = getProvider(slot.provider);
+    const config = resolveSlotConfig(settings, slot);
+    const systemInstruction = buildSystemInstruction(slot.systemInstruction);
+    const response = { slotId: slot.id, label: slot.label, provider: slot.provider, model: config.model };
+    const startedAt = performance.now();
+    let text = '';
+    let attempts = 1;
+    let firstTokenMs: number | undefined;
+    const measure = (usage?: ProviderOutput['usage']) => ({
+        attempts,
+        latencyMs: Math.round(performance.now() - startedAt),
+        firstTokenMs,
+        usage: usage
+            ? { ...usage, estimated: false }
+            : { inputTokens: estimateTokens(systemInstruction + history.map(turn => turn.text).join('\n') + prompt), outputTokens: estimateTokens(text), estimated: true },
+    });
+    try {
+        const { value: output } = await withRetries((attemptSignal, touch) => provider.stream({ prompt, systemInstruction, history, signal: attemptSignal }, config, delta => {
+            touch();
+            if (firstTokenMs === undefined) firstTokenMs = Math.round(performance.now() - startedAt);
+            text += delta;
+            onUpdate({ text });
+        }), {
+            timeoutMs: settings.resilience.timeoutSeconds * 1000,
+            maxRetries: settings.resilience.maxRetries,
+            signal,
+            // Once text has streamed, a retry would start the answer over; report the failure instead.
+            canRetry: () => text === '',
+            onRetry: (_error, attempt) => {
+                attempts = attempt + 1;
+                onUpdate({ attempts });
+            },
+        });
+        text = output.text;
+        return { ...response, text, status: 'complete', ...measure(output.usage) };
+    } catch(e) {
+        if (signal?.aborted) return { ...response, text, status: 'cancelled', ...measure() };
+        const error = toProviderError(e);
+        attempts = error.attempts;
+        console.error(`API call failed (${slot.label}, ${provider.label}):`, e);
+        // An unavailable provider has no answer: partial text is dropped so it can never be read as one.
+        text = '';
+        return { ...response, text, status: 'unavailable', error: error.toFailure(), ...measure() };
+    }
+}
+
+/**
+ * Aligns the voters' claims, scores every pair of voters and finds the largest bloc that agrees
+ * with a common leader. The bloc is a majority only if it holds more than half of the voters.
+ * @param responses One answer per voter.
+ * @returns The claim table, pairwise scores, majority and minority, and each dissenter's points.
+ */
+export function evaluateConsensus(responses: ProviderResponse[]): ConsensusReport {
+    const claims = alignClaims(responses);
+    const pairwise: PairwiseAgreement[] = [];
+    const agrees = new Set<string>();
+    for (let i = 0; i < responses.length; i++) {
+        for (let j = i + 1; j < responses.length; j++) {
+            const a = responses[i].slotId;
+            const b = responses[j].slotId;
+            const score = pairwiseClaimAgreement(claims, a, b);
+            pairwise.push({ a, b, score });
+            if (score >= AGREEMENT_THRESHOLD && !hasDisputeBetween(claims, a, b)) {
+                agrees.add(`${a}|${b}`).add(`${b}|${a}`);
+            }
+        }
+    }
+
+    const partnersOf = (slotId: string) => responses
+        .map(r => r.slotId)
+        .filter(other => agrees.has(`${slotId}|${other}`));
+    const totalScore = (slotId: string) => pairwise
+        .filter(p => p.a === slotId || p.b === slotId)
+        .reduce((sum, p) => sum + p.score, 0);
+
+    let bloc: string[] = [];
+    for (const response of responses) {
+        const candidate = [response.slotId, ...partnersOf(response.slotId)];
+        if (candidate.length > bloc.length || (candidate.length === bloc.length && totalScore(response.slotId) > totalScore(bloc[0]))) {
+            bloc = candidate;
+        }
+    }
+
+    const majority = bloc.length > responses.length / 2 ? bloc : [];
+    const minority = responses.map(r => r.slotId).filter(id => !majority.includes(id));
+
+    const dissents: Dissent[] = minority.map(slotId => ({
+        slotId,
+        points: claims
+            .filter(claim => claim.status !== 'agreed')
+            .map(claim => claim.statements.find(s => s.slotId === slotId)?.text)
+            .filter((text): text is string => !!text),
+    }));
+
+    return {
+        mode: responses.length >= TRIPLE_CONSENSUS_MIN_VOTERS ? 'triple' : 'dual',
+        claims,
+        pairwise,
+        majority,
+        minority,
+        dissents,
+    };
+}
+
+/**
+ * Asks every voting slot the same question, streaming the answers, and compares them once every
+ * stream has finished. Normal cases use the first two slots; high-risk cases use every configured
+ * slot (at least three while the constitution enables triple-AI consensus). Each slot is instructed
+ * from the constitution, and the answer is stamped with the constitution in force. Temporary provider
+ * failures are retried; cancelled and unavailable providers do not vote, and with fewer than two
+ * voters left no consensus is computed. Each slot is sent its own history of the conversation as
+ * earlier turns; only the new question carries the case file context.
+ * @param prompt The user's question.
+ * @param context The case file context.
+ * @param settings The provider bindings.
+ * @param highRisk Whether the case is flagged high risk.
+ * @param options Per-slot abort signals and conversation history, and a callback for the partial answers.
+ */
+export const getAssistantResponse = async (
+  prompt: string,
+  context: string,
+  settings: ProviderSettings,
+  highRisk = false,
+  options: StreamOptions = {},
+): Promise<AssistantResponse> => {
+  const fullPrompt = `${context}\n\n${CITATION_INSTRUCTION}\n\nUSER QUERY: ${prompt}`;
+  const slots = highRisk ? settings.slots : settings.slots.slice(0, 2);
+  const needsTriple = highRisk && requiresTripleConsensus();
+  if (slots.length < 2) {
+    throw new Error("Consensus requires at least two configured provider slots.");
+  }
+  if (needsTriple && slots.length < TRIPLE_CONSENSUS_MIN_VOTERS) {
+    throw new Error(`High-risk cases require at least ${TRIPLE_CONSENSUS_MIN_VOTERS} provider slots for triple-AI consensus.`);
+  }
+
+  const live: ProviderResponse[] = slots.map(slot => ({
+    slotId: slot.id,
+    label: slot.label,
+    provider: slot.provider,
+    model: resolveSlotConfig(settings, slot).model,
+    text: '',
+    status: 'streaming',
+  }));
+  const report = () => options.onProgress?.([...live]);
+  report();
+
+  try {
+    const [responses, constitution] = await Promise.all([
+      Promise.all(slots.map(async (slot, i) => {
+        const response = await callApi(fullPrompt, slot, settings, update => {
+          live[i] = { ...live[i], ...update };
+          report();
+        }, options.signals?.[slot.id], options.history?.[slot.id]);
+        live[i] = response;
+        report();
+        return response;
+      })),
+      getConstitutionStamp(),
+    ]);
+
+    // Only answers vote: a cancelled or unavailable provider neither agrees nor dissents.
+    const voters = responses.filter(r => r.status === 'complete');
+    const minimum = needsTriple ? TRIPLE_CONSENSUS_MIN_VOTERS : 2;
+    if (voters.length < minimum) {
+      const unavailable = responses.filter(r => r.status === 'unavailable').length;
+      const cancelled = responses.filter(r => r.status === 'cancelled').length;
+      const missing = [unavailable > 0 ? `${unavailable} unavailable` : '', cancelled > 0 ? `${cancelled} cancelled` : ''].filter(Boolean);
+      return {
+        responses,
+        text: `Consensus was not computed: ${voters.length} of ${responses.length} provider(s) answered (${missing.join(', ')}), `
+          + `and at least ${minimum} must. The answers received are shown below.`,
+        isDivergent: true,
+        constitution,
+      };
+    }
+
+    const consensus = evaluateConsensus(voters);
+    const isDivergent = consensus.minority.length > 0 || consensus.claims.some(c => c.status === 'disputed');
+
+    let consensusText = "";
+    if (consensus.majority.length > 0) {
+      // Present the answer of the bloc leader; dissenting points are reported alongside.
+      consensusText = voters.find(r => r.slotId === consensus.majority[0])?.text || "";
+    }
+
+    return {
+      responses,
+      consensus,
+      consensusText: consensusText,
+      text: consensusText || "See divergent responses.",
+      isDivergent: isDivergent,
+      constitution,
+    };
+  } catch (error) {
+    console.error("Error in multi-provider orchestration:", error);
+    if (error instanceof Error) {
+       throw new Error(`Failed to get response from AI assistant: ${error.message}`);
+    }
+    throw new Error("Failed to get response from AI assistant due to an unknown error.");
+  }
+};
@@ -0,0 +1,279 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import {
+  Attachment, Contradiction, ContradictionAnalysis, ContradictionLayer, ContradictionSeverity, ContradictionStatement,
+  EvidenceMetadata, Timeline, TimelineEvent,
+} from '../types';
+import { candidatePairs, compareStatements, splitSentences, stem } from './claimService';
+import { detectMetadataMismatches, formatMetadataValue, METADATA_LABELS } from './metadataService';
+
+// Statements this similar are about the same fact, so a differing figure or a negation is a contradiction.
+const SAME_FACT_THRESHOLD = 0.4;
+// Statements of opposing stance only need to share their subject, not their wording.
+const SAME_SUBJECT_THRESHOLD = 0.15;
+// Keep the strongest few pairings per statement, so one boilerplate clause cannot flood the findings.
+const MAX_PAIRS_PER_STATEMENT = 3;
+// Bounds the stance layers, which compare every affirming statement with every opposing one.
+const MAX_STANCE_STATEMENTS = 300;
+
+const SEVERITY_ORDER: ContradictionSeverity[] = ['high', 'medium', 'low'];
+
+interface Passage extends ContradictionStatement {
+  sourceKey: string; // The file hash, or "notes" for the case notes
+  start: number;
+  end: number;
+}
+
+interface CaseEvidence {
+  attachments: Attachment[];
+  notes: string;
+  timeline: Timeline;
+  passages: Passage[];
+}
+
+type Finding = Omit<Contradiction, 'id' | 'layer'>;
+
+interface ContradictionScanner {
+  layer: ContradictionLayer;
+  scan: (evidence: CaseEvidence) => Finding[];
+}
+
+interface Stance {
+  affirms: RegExp; // e.g. a statement that something was done voluntarily
+  denies: RegExp; // e.g. a statement that it was forced
+  explanation: string;
+  severity: ContradictionSeverity;
+}
+
+const MONEY = /(?:\b(?:R|ZAR|USD|EUR|GBP)|[$€£])\s?\d[\d,\s]*(?:\.\d{1,2})?\b|\b\d[\d,]*(?:\.\d{1,2})?\s?(?:rand|dollars?|euros?|pounds?)\b/gi;
+
+const BEHAVIOUR_STANCES: Stance[] = [
+  { affirms: /\b(agree[sd]?|agreeing|consent(?:s|ed)? to|accept(?:s|ed)?)\b/i, denies: /\b(refuse[sd]?|refusing|decline[sd]?|reject(?:s|ed)?)\b/i, explanation: 'One account says the party agreed; another says they refused.', severity: 'medium' },
+  { affirms: /\b(admit(?:s|ted)?|acknowledge[sd]?|confess(?:es|ed)?)\b/i, denies: /\b(den(?:y|ies|ied)|disput(?:es?|ed))\b/i, explanation: 'One account has the party admitting the matter; another has them denying it.', severity: 'medium' },
+  { affirms: /\b(attend(?:s|ed)?|was present|were present|showed up|arrived)\b/i, denies: /\b(absent|did not (?:attend|arrive|show up)|didn't (?:attend|arrive|show up)|failed to (?:attend|appear))\b/i, explanation: 'The party is described as both present and absent.', severity: 'medium' },
+  { affirms: /\b(calm(?:ly)?|polite(?:ly)?|cooperative|respectful(?:ly)?)\b/i, denies: /\b(aggressive(?:ly)?|shout(?:s|ed|ing)|angr(?:y|ily)|abusive(?:ly)?|hostile|threatening)\b/i, explanation: 'The same encounter is described as calm and as aggressive.', severity: 'low' },
+];
+
+const COERCION_STANCE: Stance = {
+  affirms: /\b(voluntar(?:y|ily)|freely|of (?:my|his|her|their|our) own (?:free will|accord)|willingly|without (?:any )?(?:pressure|duress|coercion|undue influence))\b/i,
+  denies: /\b(threat(?:s|en|ened|ening)?|or else|forced|coerc(?:ed|ion)|duress|pressur(?:ed|ing)|intimidat(?:ed|ing|ion)|blackmail(?:ed)?|no choice|(?:you|you'll|you will) (?:lose|regret)|if you (?:don't|do not|refuse))\b/i,
+  explanation: 'A statement that the act was voluntary sits against evidence of pressure or threats.',
+  severity: 'high',
+};
+
+const RIGHTS_STANCES: Stance[] = [
+  { affirms: /\b(?:gave|given|received|served|sent)\b[^.]{0,40}\bnotice\b|\b(?:duly|properly) notified\b/i, denies: /\b(?:without|no|never (?:received|given|got)|not (?:given|served|received))\b[^.]{0,30}\bnotice\b|\bnot notified\b/i, explanation: 'One statement says notice was given; another says it was not.', severity: 'high' },
+  { affirms: /\b(?:opportunity to (?:respond|be heard|reply|explain)|hearing was held|was heard)\b/i, denies: /\b(?:no (?:opportunity|chance) to (?:respond|be heard|reply|explain)|without (?:a )?hearing|not (?:allowed|permitted|given a chance) to (?:respond|speak|reply|explain))\b/i, explanation: 'One statement says the party was heard; another says they had no chance to respond.', severity: 'high' },
+  { affirms: /\b(?:consented|gave (?:(?:my|his|her|their) )?consent|with (?:my|his|her|their|your|full) consent)\b/i, denies: /\b(?:without (?:(?:my|his|her|their|your|any) )?consent|did not consent|didn't consent|never consented|no consent)\b/i, explanation: 'One statement says consent was given; another says it was not.', severity: 'high' },
+  { affirms: /\b(?:lawyer|attorney|legal representative|counsel)\b[^.]{0,30}\b(?:present|allowed|provided|represented)\b|\blegally represented\b/i, denies: /\b(?:denied|refused|without|no)\b[^.]{0,30}\b(?:lawyer|attorney|legal representation|legal representative|counsel)\b/i, explanation: 'One statement says legal representation was available; another says it was refused or absent.', severity: 'high' },
+  { affirms: /\b(?:informed|advised|told) of (?:(?:my|his|her|their|your) )?rights\b|\brights were explained\b/i, denies: /\b(?:not|never) (?:informed|advised|told) of (?:(?:my|his|her|their|your) )?rights\b|\brights were not explained\b/i, explanation: 'One statement says the party was told their rights; another says they never were.', severity: 'high' },
+];
+
+const INTENT = /\b(?:will|shall|promise[sd]? to|undert(?:ake|akes|ook) to|intend(?:s|ed)? to|agreed to|committed to|going to)\s+([a-z]+)/i;
+const FAILED_ACTION = /\b(?:did not|didn't|never|failed to|has not|hasn't|have not|haven't|refused to)\s+([a-z]+)/i;
+
+function severityRank(severity: ContradictionSeverity): number {
+  return SEVERITY_ORDER.indexOf(severity);
+}
+
+function statement(passage: Passage): ContradictionStatement {
+  const { sourceKey: _sourceKey, ...rest } = passage;
+  return rest;
+}
+
+function passagesOf(attachments: Attachment[], notes: string): Passage[] {
+  const passages: Passage[] = attachments.flatMap(file => splitSentences(file.content || '')
+    .map(s => ({ ...s, fileHash: file.hash, fileName: file.name, sourceKey: file.hash })));
+  return passages.concat(splitSentences(notes).map(s => ({ ...s, fileName: 'Case notes', sourceKey: 'notes' })));
+}
+
+function moneyIn(text: string): string[] {
+  return [...new Set((text.match(MONEY) || []).map(m => m.replace(/[\s,]/g, '').toUpperCase()))];
+}
+
+/**
+ * Pairs statements of opposing stance about the same subject, keeping the closest matches for each.
+ */
+function opposingPairs(passages: Passage[], stance: Stance, allowSameSource: boolean): Finding[] {
+  // "Never received notice" also reads as receiving notice; the denial is the more specific reading.
+  const denying = passages.filter(p => stance.denies.test(p.text)).slice(0, MAX_STANCE_STATEMENTS);
+  const affirming = passages.filter(p => stance.affirms.test(p.text) && !stance.denies.test(p.text)).slice(0, MAX_STANCE_STATEMENTS);
+  const findings: Finding[] = [];
+  for (const a of affirming) {
+    const matches = denying
+      .filter(d => allowSameSource || d.sourceKey !== a.sourceKey)
+      .map(d => ({ d, similarity: compareStatements(a.text, d.text).similarity }))
+      .filter(m => m.similarity >= SAME_SUBJECT_THRESHOLD)
+      .sort((x, y) => y.similarity - x.similarity)
+      .slice(0, MAX_PAIRS_PER_STATEMENT);
+    for (const { d } of matches) {
+      findings.push({ severity: stance.severity, statements: [statement(a), statement(d)], explanation: stance.explanation });
+    }
+  }
+  return findings;
+}
+
+function eventStatement(event: TimelineEvent): ContradictionStatement {
+  const { fileHash, fileName, start, end } = event.source;
+  const label = event.source.kind === 'model' ? 'AI answer' : event.source.kind === 'manual' ? 'Added manually' : fileName;
+  // Answer spans index into the chat message, not a case file, so only file events keep theirs.
+  return { text: event.description, fileName: label, ...(fileHash && start !== undefined ? { fileHash, start, end } : {}) };
+}
+
+function metadataStatement(file: Attachment, field: keyof EvidenceMetadata): ContradictionStatement {
+  const label = METADATA_LABELS.find(([key]) => key === field)?.[1] || field;
+  return { text: `${label}: ${formatMetadataValue(file.metadata![field])}`, fileHash: file.hash, fileName: file.name };
+}
+
+const SCANNERS: ContradictionScanner[] = [
+  {
+    layer: 'timeline',
+    scan: ({ timeline }) => {
+      const byId = new Map(timeline.events.map(e => [e.id, e]));
+      return timeline.conflicts.flatMap(conflict => {
+        const [a, b] = conflict.eventIds.map(id => byId.get(id));
+        if (!a || !b) return [];
+        const bothEvidence = a.source.kind === 'attachment' && b.source.kind === 'attachment';
+        const finding: Finding = {
+          severity: bothEvidence ? 'high' : 'medium',
+          statements: [eventStatement(a), eventStatement(b)],
+          explanation: `${conflict.reason}${bothEvidence ? ' in two case files' : ''}.`,
+        };
+        return [finding];
+      });
+    },
+  },
+  {
+    layer: 'statements',
+    scan: ({ passages }) => {
+      const findings: Finding[] = [];
+      for (const [i, j] of candidatePairs(passages.map(p => p.text))) {
+        const a = passages[i];
+        const b = passages[j];
+        if (a.sourceKey === b.sourceKey) continue;
+        const { similarity, conflict } = compareStatements(a.text, b.text);
+        // Date conflicts belong to the timeline layer and amount conflicts to the financial layer.
+        if (!conflict || similarity < SAME_FACT_THRESHOLD || conflict.startsWith('Dates differ')) continue;
+        if (moneyIn(a.text).length > 0 && moneyIn(b.text).length > 0) continue;
+        const negation = conflict === 'One statement negates the other';
+        findings.push({
+          severity: negation ? 'high' : 'medium',
+          statements: [statement(a), statement(b)],
+          explanation: negation ? 'The two sources state the same fact, but one denies it.' : `The two sources describe the same fact with different figures (${conflict.replace(/^Figures differ: /, '')}).`,
+        });
+      }
+      return findings;
+    },
+  },
+  {
+    layer: 'behaviour',
+    scan: ({ passages }) => BEHAVIOUR_STANCES.flatMap(stance => opposingPairs(passages, stance, false)),
+  },
+  {
+    layer: 'metadata',
+    scan: ({ attachments, notes }) => attachments.flatMap(file => detectMetadataMismatches(file, notes).flatMap(flag => {
+      const compared = flag.comparedWith;
+      if (!compared) return [];
+      const source = { fileHash: file.hash, fileName: file.name };
+      const other: ContradictionStatement =
+        compared.kind === 'metadata' ? metadataStatement(file, compared.field)
+        : compared.kind === 'name' ? { text: `File name: ${compared.text}`, ...source }
+        : compared.kind === 'content' ? { text: compared.text, ...source, start: compared.start, end: compared.end }
+        : { text: compared.text, fileName: 'Case notes', start: compared.start, end: compared.end };
+      const finding: Finding = {
+        severity: flag.field === 'captureTime' || compared.kind === 'content' ? 'high' : 'medium',
+        statements: [metadataStatement(file, flag.field), other],
+        explanation: flag.message,
+      };
+      return [finding];
+    })),
+  },
+  {
+    layer: 'financial',
+    scan: ({ passages }) => {
+      const financial = passages.filter(p => moneyIn(p.text).length > 0);
+      const findings: Finding[] = [];
+      for (const [i, j] of candidatePairs(financial.map(p => p.text))) {
+        const a = financial[i];
+        const b = financial[j];
+        if (a.sourceKey === b.sourceKey) continue;
+        const { similarity, conflict } = compareStatements(a.text, b.text);
+        if (similarity < SAME_FACT_THRESHOLD || !conflict || conflict.startsWith('Dates differ')) continue;
+        const amountsA = moneyIn(a.text);
+        const amountsB = moneyIn(b.text);
+        const amountsDiffer = !amountsA.some(m => amountsB.includes(m));
+        if (!amountsDiffer && conflict !== 'One statement negates the other') continue;
+        findings.push({
+          severity: 'high',
+          statements: [statement(a), statement(b)],
+          explanation: amountsDiffer
+            ? `The same payment or transfer is given as ${amountsA.join(', ')} in one source and ${amountsB.join(', ')} in another.`
+            : 'One source records the payment or transfer; another says it did not happen.',
+        });
+      }
+      return findings;
+    },
+  },
+  {
+    layer: 'coercion',
+    scan: ({ passages }) => opposingPairs(passages, COERCION_STANCE, true),
+  },
+  {
+    layer: 'rights',
+    scan: ({ passages }) => RIGHTS_STANCES.flatMap(stance => opposingPairs(passages, stance, true)),
+  },
+  {
+    layer: 'intent',
+    scan: ({ passages }) => {
+      const intents = passages.map(p => ({ p, match: p.text.match(INTENT) })).filter(x => x.match).slice(0, MAX_STANCE_STATEMENTS);
+      const failures = passages.map(p => ({ p, match: p.text.match(FAILED_ACTION) })).filter(x => x.match).slice(0, MAX_STANCE_STATEMENTS);
+      const findings: Finding[] = [];
+      for (const intent of intents) {
+        const verb = stem(intent.match![1].toLowerCase());
+        const matches = failures
+          .filter(f => f.p !== intent.p && stem(f.match![1].toLowerCase()) === verb)
+          .map(f => ({ f, similarity: compareStatements(intent.p.text, f.p.text).similarity }))
+          .filter(m => m.similarity >= SAME_SUBJECT_THRESHOLD)
+          .sort((x, y) => y.similarity - x.similarity)
+          .slice(0, MAX_PAIRS_PER_STATEMENT);
+        for (const { f } of matches) {
+          findings.push({
+            severity: 'medium',
+            statements: [statement(intent.p), statement(f.p)],
+            explanation: `A stated intention to ${intent.match![1].toLowerCase()} is contradicted by a record that it was not done.`,
+          });
+        }
+      }
+      return findings;
+    },
+  },
+];
+
+/**
+ * Scans the whole case for contradictions, one pass per layer of the constitution's contradiction engine:
+ * timeline, statements, behaviour, metadata, financial flows, coercion, rights violations and intent vs action.
+ * Runs locally; nothing is sent to a provider.
+ * @param attachments The case files with their extracted text and metadata.
+ * @param notes The user's case notes, treated as one more source.
+ * @param timeline The case timeline, whose date conflicts feed the timeline layer.
+ * @returns Findings ordered by severity, then by layer.
+ */
+export async function analyzeContradictions(attachments: Attachment[], notes: string, timeline: Timeline): Promise<ContradictionAnalysis> {
+  const evidence: CaseEvidence = { attachments, notes, timeline, passages: passagesOf(attachments, notes) };
+  const findings: Contradiction[] = [];
+  for (const scanner of SCANNERS) {
+    // Yield between passes so the interface stays responsive on large cases.
+    await new Promise(resolve => setTimeout(resolve, 0));
+    scanner.scan(evidence).forEach((finding, i) => findings.push({ ...finding, id: `${scanner.layer}-${i + 1}`, layer: scanner.layer }));
+  }
+  // A pair a specific layer explains (a broken promise, a denied notice) is not repeated as a plain statement conflict.
+  const pairKey = (f: Contradiction) => f.statements.map(s => `${s.fileHash || s.fileName}:${s.start}`).sort().join('|');
+  const explained = new Set(findings.filter(f => f.layer !== 'statements').map(pairKey));
+  const distinct = findings.filter(f => f.layer !== 'statements' || !explained.has(pairKey(f)));
+  const layerOrder = SCANNERS.map(s => s.layer);
+  distinct.sort((a, b) => severityRank(a.severity) - severityRank(b.severity) || layerOrder.indexOf(a.layer) - layerOrder.indexOf(b.layer));
+  return { findings: distinct, fileHashes: attachments.map(f => f.hash), analyzedAt: new Date().toISOString() };
+}
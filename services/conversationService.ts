@@ -0,0 +1,143 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ChatMessage, Conversation, ConversationTurn, MessageSender } from '../types';
+import { extractClaims } from './claimService';
+import { estimateTokens } from './retrievalService';
+
+export const MAIN_CONVERSATION_NAME = 'Main';
+
+// Each summarised exchange keeps the question and the answer's first claims, clipped to this length.
+const SUMMARY_CLIP_CHARS = 240;
+const SUMMARY_CLAIMS = 2;
+
+interface Exchange {
+  question: string;
+  answer: string;
+}
+
+const clip = (text: string) => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > SUMMARY_CLIP_CHARS ? `${flat.substring(0, SUMMARY_CLIP_CHARS - 3)}...` : flat;
+};
+
+/**
+ * The answer a slot is reminded of: its own, when it finished, so each provider keeps reasoning from
+ * what it said itself; otherwise the answer shown to the user.
+ */
+function answerFor(message: ChatMessage, slotId: string): string {
+  const complete = (message.responses || []).filter(r => r.status === 'complete' && r.text);
+  const own = complete.find(r => r.slotId === slotId);
+  if (own) return own.text;
+  if (message.consensusText) return message.consensusText;
+  if (complete.length > 0) return complete[0].text;
+  // Answers saved before providers answered separately only have their text.
+  return message.responses?.length ? '' : message.text;
+}
+
+/**
+ * Pairs each question with its answer. Questions that failed, and case reports (which are sent with
+ * every file in full and are not part of the line of questioning), are left out.
+ */
+function exchangesFor(messages: ChatMessage[], slotId: string): Exchange[] {
+  const exchanges: Exchange[] = [];
+  let question: ChatMessage | null = null;
+  for (const message of messages) {
+    if (message.sender === MessageSender.USER) {
+      question = message;
+    } else if (message.sender === MessageSender.MODEL && question && !message.isLoading) {
+      const answer = message.report ? '' : answerFor(message, slotId);
+      if (answer) exchanges.push({ question: question.text, answer });
+      question = null;
+    }
+  }
+  return exchanges;
+}
+
+const exchangeTokens = (exchange: Exchange) => estimateTokens(exchange.question) + estimateTokens(exchange.answer);
+
+/**
+ * Summarises older exchanges locally, without another provider call: each keeps the question and the
+ * first claims of the answer. The summary is held to a quarter of the budget, oldest exchanges first out.
+ */
+function summarise(exchanges: Exchange[], tokenBudget: number): string {
+  const limit = Math.max(200, Math.floor(tokenBudget / 4));
+  const lines: string[] = [];
+  let used = 0;
+  for (let i = exchanges.length - 1; i >= 0; i--) {
+    const { question, answer } = exchanges[i];
+    const claims = extractClaims(answer).slice(0, SUMMARY_CLAIMS).join(' ');
+    const line = `- Asked: ${clip(question)}\n  Answered: ${clip(claims || answer)}`;
+    const tokens = estimateTokens(line);
+    if (lines.length > 0 && used + tokens > limit) {
+      lines.unshift(`- (${i + 1} earlier exchange(s) omitted)`);
+      break;
+    }
+    lines.unshift(line);
+    used += tokens;
+  }
+  return `EARLIER IN THIS CONVERSATION (summarised):\n${lines.join('\n')}`;
+}
+
+/**
+ * Builds the earlier turns of a conversation as one slot is sent them. The most recent exchanges
+ * are sent verbatim while they fit the token budget; the latest always is, so a follow-up question
+ * can refer to it. Older exchanges are summarised locally into the first turn sent.
+ * @param messages The conversation so far, without the question being asked.
+ * @param slotId The slot the history is for; it is reminded of its own earlier answers.
+ * @param tokenBudget Estimated tokens of exchanges sent verbatim. 0 sends no history.
+ * @returns Alternating user and model turns, oldest first.
+ */
+export function buildHistory(messages: ChatMessage[], slotId: string, tokenBudget: number): ConversationTurn[] {
+  if (tokenBudget <= 0) return [];
+  const exchanges = exchangesFor(messages, slotId);
+  if (exchanges.length === 0) return [];
+
+  let kept = 1;
+  let used = exchangeTokens(exchanges[exchanges.length - 1]);
+  while (kept < exchanges.length) {
+    const tokens = exchangeTokens(exchanges[exchanges.length - 1 - kept]);
+    if (used + tokens > tokenBudget) break;
+    used += tokens;
+    kept++;
+  }
+
+  const turns: ConversationTurn[] = exchanges.slice(-kept).flatMap(exchange => [
+    { role: 'user' as const, text: exchange.question },
+    { role: 'model' as const, text: exchange.answer },
+  ]);
+  const older = exchanges.slice(0, exchanges.length - kept);
+  if (older.length > 0) {
+    turns[0] = { role: 'user', text: `${summarise(older, tokenBudget)}\n\n${turns[0].text}` };
+  }
+  return turns;
+}
+
+/**
+ * Starts a conversation.
+ */
+export function createConversation(name: string, messages: ChatMessage[] = []): Conversation {
+  return { id: `conv-${crypto.randomUUID()}`, name, messages, createdAt: new Date().toISOString() };
+}
+
+/**
+ * Forks a conversation. The fork starts with a copy of the given messages and keeps its own answers
+ * and consensus from then on; the original is left untouched.
+ * @param source The conversation forked from.
+ * @param messages The messages the fork starts with, a leading part of the source's. They are copied under
+ *   new ids, so each message id belongs to one conversation.
+ * @param conversations Every conversation of the case, to number the fork.
+ */
+export function forkConversation(source: Conversation, messages: ChatMessage[], conversations: Conversation[]): Conversation {
+  const forks = conversations.filter(c => c.parentId === source.id).length;
+  const copies = messages
+    .filter(m => !m.isLoading)
+    .map(m => ({ ...m, id: `${m.id.split('-')[0]}-${crypto.randomUUID()}` }));
+  return {
+    ...createConversation(`${source.name} / fork ${forks + 1}`, copies),
+    parentId: source.id,
+    forkedFromMessageId: messages[messages.length - 1]?.id,
+  };
+}
@@ -0,0 +1,100 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Attachment, CustodyDetails, CustodyEvent, CustodyEventKind, CustodyRecord, EvidenceMetadata, ReceiptChannel } from '../types';
+
+export const RECEIPT_CHANNEL_LABELS: Record<ReceiptChannel, string> = {
+  workspace: 'Added in the Case Workspace',
+  chat: 'Attached in the chat',
+};
+
+export const CUSTODY_EVENT_LABELS: Record<CustodyEventKind, string> = {
+  received: 'Received',
+  received_again: 'Received again',
+  details_recorded: 'Details recorded',
+  sent_to_providers: 'Sent to providers',
+  exported: 'Exported',
+  imported: 'Imported',
+};
+
+const DETAIL_LABELS: Record<keyof CustodyDetails, string> = {
+  providedBy: 'Provided by',
+  receivedVia: 'Received via',
+  acquisitionDevice: 'Acquisition device',
+};
+
+/**
+ * The browser and platform this device identifies as.
+ */
+export function currentDevice(): string {
+  return typeof navigator === 'undefined' ? 'Unknown device' : navigator.userAgent;
+}
+
+function custodyEvent(kind: CustodyEventKind, summary: string, extra: Partial<CustodyEvent> = {}): CustodyEvent {
+  return { kind, at: new Date().toISOString(), summary, device: currentDevice(), ...extra };
+}
+
+/**
+ * Opens the chain of custody for a file as it arrives. The acquisition device starts as the camera or
+ * program named in the file's metadata, if any.
+ */
+export function openCustodyRecord(file: File, channel: ReceiptChannel, metadata?: EvidenceMetadata): CustodyRecord {
+  const lastModified = new Date(file.lastModified).toISOString();
+  const receipt = custodyEvent('received', `${RECEIPT_CHANNEL_LABELS[channel]} as ${file.name}`, { fileName: file.name, lastModified, channel });
+  return {
+    originalName: file.name,
+    lastModified,
+    size: file.size,
+    mimeType: file.type || undefined,
+    receivedAt: receipt.at,
+    acquisitionDevice: metadata?.device || metadata?.creatorTool,
+    events: [receipt],
+  };
+}
+
+/**
+ * A file's custody record. Files added before custody was recorded get one with no receipt, so
+ * later events still have somewhere to go.
+ */
+export function custodyOf(file: Attachment): CustodyRecord {
+  return file.custody || { originalName: file.name, events: [] };
+}
+
+function withEvent(file: Attachment, event: CustodyEvent, details: CustodyDetails = {}): Attachment {
+  const record = custodyOf(file);
+  return { ...file, custody: { ...record, ...details, events: [...record.events, event] } };
+}
+
+/**
+ * Records that a file already in the case arrived again, under its name and timestamp at the time.
+ */
+export function recordReceivedAgain(file: Attachment, received: File, channel: ReceiptChannel): Attachment {
+  const summary = `${RECEIPT_CHANNEL_LABELS[channel]} as ${received.name}; identical SHA-512, so the case copy was kept`;
+  return withEvent(file, custodyEvent('received_again', summary, {
+    fileName: received.name,
+    lastModified: new Date(received.lastModified).toISOString(),
+    channel,
+  }));
+}
+
+/**
+ * Sets who provided a file, how it was received or what produced it. The change is appended to the
+ * events, with the previous value, so the record shows what was entered when.
+ */
+export function recordCustodyDetails(file: Attachment, details: CustodyDetails): Attachment {
+  const record = custodyOf(file);
+  const changes = (Object.keys(DETAIL_LABELS) as (keyof CustodyDetails)[])
+    .filter(key => key in details && (details[key] || '') !== (record[key] || ''))
+    .map(key => `${DETAIL_LABELS[key]}: ${details[key] || '(cleared)'}${record[key] ? ` (was ${record[key]})` : ''}`);
+  if (changes.length === 0) return file;
+  return withEvent(file, custodyEvent('details_recorded', changes.join('; ')), details);
+}
+
+/**
+ * Records an access or export of a file, e.g. passages sent to the providers or a report that lists it.
+ */
+export function recordCustodyEvent(file: Attachment, kind: 'sent_to_providers' | 'exported' | 'imported', summary: string): Attachment {
+  return withEvent(file, custodyEvent(kind, summary));
+}
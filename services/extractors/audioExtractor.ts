@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { FileExtractor } from '../../types';
+import { loadProviderSettings } from '../providerRegistry';
+import { formatOffset, formatTranscript, transcribeAudio } from '../transcriptionService';
+import { hasExtension } from './textExtractor';
+
+const ascii = (head: Uint8Array, start: number, end: number) => String.fromCharCode(...head.slice(start, end));
+
+const isAudio = (file: File, head: Uint8Array) =>
+  file.type.startsWith('audio/')
+  || hasExtension(file, 'mp3', 'm4a', 'aac', 'wav', 'ogg', 'oga', 'opus', 'flac', 'amr', 'weba')
+  || ascii(head, 0, 3) === 'ID3' // MP3 with tags
+  || ascii(head, 0, 4) === 'OggS' // Ogg, including WhatsApp voice notes (.opus)
+  || ascii(head, 0, 4) === 'fLaC'
+  || ascii(head, 0, 5) === '#!AMR'
+  || (ascii(head, 0, 4) === 'RIFF' && ascii(head, 8, 12) === 'WAVE')
+  || (ascii(head, 4, 8) === 'ftyp' && ascii(head, 8, 11) === 'M4A');
+
+export const audioExtractor: FileExtractor = {
+  kind: 'audio',
+  label: 'Audio (speech-to-text)',
+  matches: isAudio,
+  extract: async (file) => {
+    const settings = loadProviderSettings().transcription;
+    const transcript = await transcribeAudio(file, settings, file.name);
+    const { text, diarized } = formatTranscript(transcript);
+    const host = new URL(settings.baseUrl).host;
+    const notes = [`Transcribed by ${settings.model} at ${host}; check names, dates and figures against the recording.`];
+    if (transcript.segments.length === 0) notes.push('No speech was recognised in the recording.');
+    else if (!diarized) notes.push('Speakers were not identified; a new line starts at each pause.');
+    const details = [
+      transcript.duration !== undefined ? formatOffset(transcript.duration) : '',
+      transcript.language ? `language ${transcript.language}` : '',
+    ].filter(Boolean).join(', ');
+    const header = `Audio transcript of ${file.name}${details ? ` (${details})` : ''}. Each line gives its time in the recording.`;
+    return { text: text ? `${header}\n${text}` : '', extractor: 'audio', lossy: true, notes };
+  },
+};
@@ -0,0 +1,121 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Sector chain markers from the Compound File Binary format ([MS-CFB] 2.1).
+const END_OF_CHAIN = 0xfffffffe;
+const FREE_SECT = 0xffffffff;
+const NO_STREAM = 0xffffffff;
+
+interface DirectoryEntry {
+  name: string;
+  type: number; // 1 storage, 2 stream, 5 root
+  left: number;
+  right: number;
+  child: number;
+  start: number;
+  size: number;
+}
+
+/**
+ * Reads an OLE compound file (the container of Outlook .msg files) into its streams.
+ * @param data The file bytes.
+ * @returns A map from stream path (e.g. "__attach_version1.0_#00000000/__substg1.0_3707001F") to its bytes.
+ */
+export function readCfb(data: ArrayBuffer | Uint8Array): Map<string, Uint8Array> {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (view.getUint32(0, true) !== 0xe011cfd0 || view.getUint32(4, true) !== 0xe11ab1a1) {
+    throw new Error('Not an OLE compound file.');
+  }
+
+  const sectorSize = 1 << view.getUint16(0x1e, true);
+  const miniSectorSize = 1 << view.getUint16(0x20, true);
+  const firstDirSector = view.getUint32(0x30, true);
+  const miniStreamCutoff = view.getUint32(0x38, true);
+  const firstMiniFatSector = view.getUint32(0x3c, true);
+  let difatSector = view.getUint32(0x44, true);
+
+  const sectorOffset = (sector: number) => (sector + 1) * sectorSize;
+
+  // The first 109 FAT sector numbers live in the header; any more are in a DIFAT chain.
+  const fatSectors: number[] = [];
+  for (let i = 0; i < 109; i++) fatSectors.push(view.getUint32(0x4c + i * 4, true));
+  while (difatSector !== END_OF_CHAIN && difatSector !== FREE_SECT) {
+    const offset = sectorOffset(difatSector);
+    const perSector = sectorSize / 4 - 1;
+    for (let i = 0; i < perSector; i++) fatSectors.push(view.getUint32(offset + i * 4, true));
+    difatSector = view.getUint32(offset + perSector * 4, true);
+  }
+
+  const fat: number[] = [];
+  for (const sector of fatSectors) {
+    if (sector === FREE_SECT || sector === END_OF_CHAIN) continue;
+    const offset = sectorOffset(sector);
+    for (let i = 0; i < sectorSize / 4; i++) fat.push(view.getUint32(offset + i * 4, true));
+  }
+
+  const chain = (start: number, table: number[]) => {
+    const sectors: number[] = [];
+    for (let sector = start; sector !== END_OF_CHAIN && sector < table.length; sector = table[sector]) {
+      if (sectors.length > table.length) throw new Error('Corrupt compound file: sector chain loops.');
+      sectors.push(sector);
+    }
+    return sectors;
+  };
+
+  const readChain = (start: number, size?: number) => {
+    const parts = chain(start, fat).map(sector => bytes.subarray(sectorOffset(sector), sectorOffset(sector) + sectorSize));
+    const joined = new Uint8Array(parts.length * sectorSize);
+    parts.forEach((part, i) => joined.set(part, i * sectorSize));
+    return size === undefined ? joined : joined.subarray(0, size);
+  };
+
+  const directory = readChain(firstDirSector);
+  const dirView = new DataView(directory.buffer, directory.byteOffset, directory.byteLength);
+  const entries: DirectoryEntry[] = [];
+  for (let offset = 0; offset + 128 <= directory.length; offset += 128) {
+    const nameLength = dirView.getUint16(offset + 0x40, true);
+    entries.push({
+      name: new TextDecoder('utf-16le').decode(directory.subarray(offset, offset + Math.max(0, nameLength - 2))),
+      type: dirView.getUint8(offset + 0x42),
+      left: dirView.getUint32(offset + 0x44, true),
+      right: dirView.getUint32(offset + 0x48, true),
+      child: dirView.getUint32(offset + 0x4c, true),
+      start: dirView.getUint32(offset + 0x74, true),
+      size: dirView.getUint32(offset + 0x78, true),
+    });
+  }
+
+  const root = entries[0];
+  const miniStream = readChain(root.start, root.size);
+  const miniFatBytes = firstMiniFatSector === END_OF_CHAIN ? new Uint8Array(0) : readChain(firstMiniFatSector);
+  const miniFatView = new DataView(miniFatBytes.buffer, miniFatBytes.byteOffset, miniFatBytes.byteLength);
+  const miniFat = Array.from({ length: miniFatBytes.length / 4 }, (_, i) => miniFatView.getUint32(i * 4, true));
+
+  const readStream = (entry: DirectoryEntry) => {
+    if (entry.size >= miniStreamCutoff) return readChain(entry.start, entry.size);
+    const out = new Uint8Array(entry.size);
+    chain(entry.start, miniFat).forEach((sector, i) => {
+      const part = miniStream.subarray(sector * miniSectorSize, (sector + 1) * miniSectorSize);
+      out.set(part.subarray(0, Math.min(miniSectorSize, entry.size - i * miniSectorSize)), i * miniSectorSize);
+    });
+    return out;
+  };
+
+  // Each storage's children form a red-black tree through left/right siblings.
+  const streams = new Map<string, Uint8Array>();
+  const visit = (index: number, prefix: string, seen: Set<number>) => {
+    if (index === NO_STREAM || index >= entries.length || seen.has(index)) return;
+    seen.add(index);
+    const entry = entries[index];
+    visit(entry.left, prefix, seen);
+    visit(entry.right, prefix, seen);
+    const path = prefix + entry.name;
+    if (entry.type === 2) streams.set(path, readStream(entry));
+    else if (entry.type === 1) visit(entry.child, `${path}/`, seen);
+  };
+  visit(root.child, '', new Set());
+  return streams;
+}
@@ -0,0 +1,233 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ExtractionResult, FileExtractor } from '../../types';
+import { decodeText, hasExtension, looksLikeText } from './textExtractor';
+import { readCfb } from './cfb';
+
+const HEADERS_SHOWN = ['From', 'To', 'Cc', 'Date', 'Subject', 'Message-ID'];
+
+interface MimePart {
+  headers: Map<string, string>;
+  body: string; // Still transfer-encoded, as raw bytes in a binary string
+}
+
+function latin1(bytes: Uint8Array): string {
+  let out = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) out += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return out;
+}
+
+function binaryToBytes(binary: string): Uint8Array {
+  return Uint8Array.from(binary, c => c.charCodeAt(0) & 0xff);
+}
+
+function decodeBase64(text: string): Uint8Array {
+  try {
+    return binaryToBytes(atob(text.replace(/[^A-Za-z0-9+/=]/g, '')));
+  } catch {
+    return new Uint8Array(0);
+  }
+}
+
+function decodeQuotedPrintable(text: string, underscoresAreSpaces = false): Uint8Array {
+  const source = underscoresAreSpaces ? text.replace(/_/g, ' ') : text;
+  return binaryToBytes(source.replace(/=\r?\n/g, '').replace(/=([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))));
+}
+
+/**
+ * Decodes RFC 2047 encoded words such as =?UTF-8?B?...?= in header values.
+ */
+function decodeHeaderValue(value: string): string {
+  return value
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?)/g, '$1')
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_, charset, encoding, text) => {
+      const bytes = encoding.toUpperCase() === 'B' ? decodeBase64(text) : decodeQuotedPrintable(text, true);
+      return decodeText(bytes, charset);
+    });
+}
+
+function parseHeaders(block: string): Map<string, string> {
+  const headers = new Map<string, string>();
+  for (const line of block.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    if (!headers.has(name)) headers.set(name, line.slice(colon + 1).trim());
+  }
+  return headers;
+}
+
+function headerParam(value: string | undefined, param: string): string | undefined {
+  const match = value?.match(new RegExp(`${param}\\*?=\\s*(?:"([^"]*)"|([^;\\s]+))`, 'i'));
+  return match ? decodeHeaderValue(match[1] ?? match[2]) : undefined;
+}
+
+function splitPart(raw: string): MimePart {
+  const match = raw.match(/\r?\n\r?\n/);
+  if (!match || match.index === undefined) return { headers: parseHeaders(raw), body: '' };
+  return { headers: parseHeaders(raw.slice(0, match.index)), body: raw.slice(match.index + match[0].length) };
+}
+
+function leafParts(part: MimePart): MimePart[] {
+  const contentType = part.headers.get('content-type') || 'text/plain';
+  const boundary = headerParam(contentType, 'boundary');
+  if (!/^multipart\//i.test(contentType) || !boundary) return [part];
+  const sections = part.body.split(new RegExp(`\\r?\\n?--${boundary.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?:--)?[ \\t]*\\r?\\n?`));
+  // Drop the preamble before the first boundary and the epilogue after the last.
+  return sections.slice(1, -1).filter(s => s.trim()).flatMap(s => leafParts(splitPart(s)));
+}
+
+function decodeBody(part: MimePart): string {
+  const encoding = (part.headers.get('content-transfer-encoding') || '').toLowerCase();
+  const charset = headerParam(part.headers.get('content-type'), 'charset');
+  const bytes = encoding === 'base64' ? decodeBase64(part.body)
+    : encoding === 'quoted-printable' ? decodeQuotedPrintable(part.body)
+    : binaryToBytes(part.body);
+  return decodeText(bytes, charset);
+}
+
+/**
+ * Converts an HTML email body to readable text, keeping line structure.
+ */
+export function htmlToText(html: string): string {
+  const withBreaks = html
+    .replace(/<(style|script)[\s\S]*?<\/\1>/gi, '')
+    .replace(/<(br|\/p|\/div|\/tr|\/li|\/h\d|\/blockquote)\b[^>]*>/gi, '$&\n');
+  const text = new DOMParser().parseFromString(withBreaks, 'text/html').body.textContent || '';
+  return text.replace(/[ \t\u00a0]+/g, ' ').replace(/\n\s*\n\s*\n+/g, '\n\n').trim();
+}
+
+function formatEmail(headerLines: string[], body: string, attachments: string[], notes: string[], extractor: 'email' | 'msg'): ExtractionResult {
+  const sections = [headerLines.join('\n'), body.trim()];
+  if (attachments.length > 0) {
+    sections.push(`Attachments (not extracted): ${attachments.join(', ')}`);
+    notes.push(`${attachments.length} attachment(s) were listed but not extracted; add them to the case separately.`);
+  }
+  return { text: sections.filter(Boolean).join('\n\n'), extractor, lossy: attachments.length > 0, notes };
+}
+
+export const emailExtractor: FileExtractor = {
+  kind: 'email',
+  label: 'Email (.eml)',
+  matches: (file, head) => (hasExtension(file, 'eml') || file.type === 'message/rfc822') && looksLikeText(head),
+  extract: async (file) => {
+    const message = splitPart(latin1(new Uint8Array(await file.arrayBuffer())));
+    const headerLines = HEADERS_SHOWN
+      .filter(name => message.headers.has(name.toLowerCase()))
+      // Headers were read as Latin-1; re-decode any raw 8-bit bytes (usually UTF-8) before unfolding encoded words.
+      .map(name => `${name}: ${decodeHeaderValue(decodeText(binaryToBytes(message.headers.get(name.toLowerCase())!)))}`);
+
+    const notes: string[] = [];
+    const attachments: string[] = [];
+    const plain: string[] = [];
+    const html: string[] = [];
+    for (const part of leafParts(message)) {
+      const contentType = (part.headers.get('content-type') || 'text/plain').toLowerCase();
+      const disposition = part.headers.get('content-disposition');
+      const fileName = headerParam(disposition, 'filename') || headerParam(part.headers.get('content-type'), 'name');
+      if (/^attachment/i.test(disposition || '') || (fileName && !contentType.startsWith('text/'))) {
+        attachments.push(fileName || contentType);
+      } else if (contentType.startsWith('text/html')) {
+        html.push(decodeBody(part));
+      } else if (contentType.startsWith('text/') || contentType.startsWith('message/')) {
+        plain.push(decodeBody(part));
+      }
+    }
+
+    let body = plain.join('\n\n');
+    if (!body.trim() && html.length > 0) {
+      body = html.map(htmlToText).join('\n\n');
+      notes.push('The message had only an HTML body; formatting was removed.');
+    }
+    return formatEmail(headerLines, body, attachments, notes, 'email');
+  },
+};
+
+// MAPI property ids stored as __substg1.0_<id><type> streams ([MS-OXMSG] 2.1).
+const MSG_PROPERTIES = {
+  subject: '0037',
+  senderName: '0C1A',
+  senderEmail: '0C1F',
+  senderSmtp: '5D01',
+  displayTo: '0E04',
+  displayCc: '0E03',
+  body: '1000',
+  htmlBody: '1013',
+  messageId: '1035',
+  attachLongFileName: '3707',
+  attachFileName: '3704',
+};
+const PR_CLIENT_SUBMIT_TIME = 0x00390040;
+const PR_MESSAGE_DELIVERY_TIME = 0x0e060040;
+
+function msgString(streams: Map<string, Uint8Array>, prefix: string, id: string): string {
+  const unicode = streams.get(`${prefix}__substg1.0_${id}001F`);
+  if (unicode) return new TextDecoder('utf-16le').decode(unicode).replace(/\0+$/, '');
+  const ansi = streams.get(`${prefix}__substg1.0_${id}001E`);
+  if (ansi) return decodeText(ansi).replace(/\0+$/, '');
+  const binary = streams.get(`${prefix}__substg1.0_${id}0102`);
+  return binary ? decodeText(binary).replace(/\0+$/, '') : '';
+}
+
+/**
+ * Reads a FILETIME property from the top-level fixed-size property stream.
+ */
+function msgTime(streams: Map<string, Uint8Array>, tag: number): string | null {
+  const props = streams.get('__properties_version1.0');
+  if (!props) return null;
+  const view = new DataView(props.buffer, props.byteOffset, props.byteLength);
+  // The top-level message's property stream has a 32-byte header, then 16-byte entries.
+  for (let offset = 32; offset + 16 <= props.length; offset += 16) {
+    if (view.getUint32(offset, true) !== tag) continue;
+    const filetime = view.getBigUint64(offset + 8, true);
+    const ms = Number(filetime / 10000n) - 11644473600000;
+    return new Date(ms).toISOString();
+  }
+  return null;
+}
+
+export const msgExtractor: FileExtractor = {
+  kind: 'msg',
+  label: 'Outlook message (.msg)',
+  matches: (file, head) => hasExtension(file, 'msg') && head[0] === 0xd0 && head[1] === 0xcf,
+  extract: async (file) => {
+    const streams = readCfb(await file.arrayBuffer());
+    const get = (id: string) => msgString(streams, '', id);
+
+    const senderEmail = get(MSG_PROPERTIES.senderSmtp) || get(MSG_PROPERTIES.senderEmail);
+    const sender = [get(MSG_PROPERTIES.senderName), senderEmail && `<${senderEmail}>`].filter(Boolean).join(' ');
+    const date = msgTime(streams, PR_CLIENT_SUBMIT_TIME) || msgTime(streams, PR_MESSAGE_DELIVERY_TIME);
+    const headerLines = [
+      ['From', sender],
+      ['To', get(MSG_PROPERTIES.displayTo)],
+      ['Cc', get(MSG_PROPERTIES.displayCc)],
+      ['Date', date || ''],
+      ['Subject', get(MSG_PROPERTIES.subject)],
+      ['Message-ID', get(MSG_PROPERTIES.messageId)],
+    ].filter(([, value]) => value).map(([name, value]) => `${name}: ${value}`);
+
+    const notes: string[] = [];
+    let body = get(MSG_PROPERTIES.body);
+    if (!body.trim()) {
+      const html = get(MSG_PROPERTIES.htmlBody);
+      if (html) {
+        body = htmlToText(html);
+        notes.push('The message had only an HTML body; formatting was removed.');
+      } else {
+        notes.push('No plain-text or HTML body was found; the message may use RTF only.');
+      }
+    }
+
+    const attachmentPrefixes = new Set(
+      [...streams.keys()].filter(path => path.startsWith('__attach_version1.0_')).map(path => path.slice(0, path.indexOf('/') + 1)),
+    );
+    const attachments = [...attachmentPrefixes].map(prefix =>
+      msgString(streams, prefix, MSG_PROPERTIES.attachLongFileName) || msgString(streams, prefix, MSG_PROPERTIES.attachFileName) || 'unnamed attachment');
+
+    const result = formatEmail(headerLines, body, attachments, notes, 'msg');
+    return body.trim() ? result : { ...result, lossy: true };
+  },
+};
@@ -0,0 +1,230 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { FileExtractor } from '../../types';
+import { hasExtension } from './textExtractor';
+import { readZip, readZipText, ZipEntry } from './zip';
+
+const isZip = (head: Uint8Array) => head[0] === 0x50 && head[1] === 0x4b;
+
+function parseXml(xml: string): Document {
+  return new DOMParser().parseFromString(xml, 'application/xml');
+}
+
+// Office XML uses several namespaces for the same local names, so match on local name only.
+function elements(root: Document | Element, localName: string): Element[] {
+  return Array.from(root.getElementsByTagNameNS('*', localName));
+}
+
+function childElements(element: Element, localName: string): Element[] {
+  return Array.from(element.children).filter(child => child.localName === localName);
+}
+
+interface DocxState {
+  embeddedObjects: number;
+  trackedDeletions: number;
+}
+
+function runText(element: Element, state: DocxState): string {
+  let text = '';
+  for (const child of Array.from(element.children)) {
+    switch (child.localName) {
+      case 't':
+      case 'delText':
+        text += child.textContent || '';
+        break;
+      case 'tab':
+        text += '\t';
+        break;
+      case 'br':
+      case 'cr':
+        text += '\n';
+        break;
+      case 'noBreakHyphen':
+        text += '-';
+        break;
+      case 'del':
+        state.trackedDeletions++;
+        text += `[deleted: ${runText(child, state)}]`;
+        break;
+      case 'drawing':
+      case 'pict':
+      case 'object':
+        state.embeddedObjects++;
+        break;
+      case 'pPr':
+      case 'rPr':
+        // Formatting only; pPr also holds tab stop definitions that must not become text.
+        break;
+      default:
+        text += runText(child, state);
+    }
+  }
+  return text;
+}
+
+function blockText(element: Element, state: DocxState): string[] {
+  const lines: string[] = [];
+  for (const child of Array.from(element.children)) {
+    if (child.localName === 'p') {
+      lines.push(runText(child, state));
+    } else if (child.localName === 'tbl') {
+      for (const row of childElements(child, 'tr')) {
+        const cells = childElements(row, 'tc').map(cell => blockText(cell, state).join(' ').trim());
+        lines.push(cells.join(' | '));
+      }
+    } else if (child.localName !== 'sectPr') {
+      lines.push(...blockText(child, state));
+    }
+  }
+  return lines;
+}
+
+async function docxPartText(entries: ZipEntry[], path: string, state: DocxState): Promise<string[]> {
+  const xml = await readZipText(entries, path);
+  if (!xml) return [];
+  const root = parseXml(xml).documentElement;
+  if (path.endsWith('document.xml')) {
+    const body = elements(root, 'body')[0];
+    return body ? blockText(body, state) : [];
+  }
+  // Footnotes, endnotes and comments: one block per note, skipping the separator notes.
+  return Array.from(root.children)
+    .filter(note => !['separator', 'continuationSeparator'].includes(note.getAttribute('w:type') || ''))
+    .map(note => {
+      const author = note.getAttribute('w:author');
+      const text = blockText(note, state).join(' ').trim();
+      return author ? `${author}: ${text}` : text;
+    })
+    .filter(Boolean);
+}
+
+export const docxExtractor: FileExtractor = {
+  kind: 'docx',
+  label: 'Word document',
+  matches: (file, head) => isZip(head) && hasExtension(file, 'docx', 'docm'),
+  extract: async (file) => {
+    const entries = readZip(await file.arrayBuffer());
+    const state: DocxState = { embeddedObjects: 0, trackedDeletions: 0 };
+    const body = await docxPartText(entries, 'word/document.xml', state);
+    if (body.length === 0) throw new Error('The document has no word/document.xml part.');
+
+    const sections = [body.join('\n')];
+    for (const [path, heading] of [['word/footnotes.xml', 'FOOTNOTES'], ['word/endnotes.xml', 'ENDNOTES'], ['word/comments.xml', 'COMMENTS']]) {
+      const notes = await docxPartText(entries, path, state);
+      if (notes.length > 0) sections.push(`${heading}:\n${notes.join('\n')}`);
+    }
+
+    const notes: string[] = [];
+    if (state.trackedDeletions > 0) notes.push(`Contains ${state.trackedDeletions} tracked deletion(s), shown as [deleted: ...].`);
+    if (state.embeddedObjects > 0) notes.push(`${state.embeddedObjects} embedded image(s) or object(s) were not extracted.`);
+    return { text: sections.join('\n\n'), extractor: 'docx', lossy: state.embeddedObjects > 0, notes };
+  },
+};
+
+// Built-in number formats that display dates or times (ECMA-376 18.8.30).
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+function isDateFormatCode(code: string): boolean {
+  const bare = code.replace(/"[^"]*"|\[[^\]]*\]|\\./g, '');
+  return /[dmyhs]/i.test(bare);
+}
+
+/**
+ * Which cell style indexes (cellXfs) display their number as a date.
+ */
+function dateStyles(stylesXml: string | null): Set<number> {
+  const result = new Set<number>();
+  if (!stylesXml) return result;
+  const doc = parseXml(stylesXml);
+  const customDates = new Set(
+    elements(doc, 'numFmt')
+      .filter(fmt => isDateFormatCode(fmt.getAttribute('formatCode') || ''))
+      .map(fmt => Number(fmt.getAttribute('numFmtId'))),
+  );
+  const cellXfs = elements(doc, 'cellXfs')[0];
+  if (!cellXfs) return result;
+  childElements(cellXfs, 'xf').forEach((xf, index) => {
+    const id = Number(xf.getAttribute('numFmtId') || 0);
+    if (BUILTIN_DATE_FORMATS.has(id) || customDates.has(id)) result.add(index);
+  });
+  return result;
+}
+
+function serialToDate(serial: number, date1904: boolean): string {
+  const epoch = date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30);
+  const iso = new Date(epoch + Math.round(serial * 86400) * 1000).toISOString();
+  return Number.isInteger(serial) ? iso.slice(0, 10) : iso.slice(0, 19).replace('T', ' ');
+}
+
+function columnIndex(reference: string): number {
+  const letters = reference.replace(/\d+$/, '');
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+function resolveTarget(target: string): string {
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+}
+
+export const xlsxExtractor: FileExtractor = {
+  kind: 'xlsx',
+  label: 'Excel workbook',
+  matches: (file, head) => isZip(head) && hasExtension(file, 'xlsx', 'xlsm'),
+  extract: async (file) => {
+    const entries = readZip(await file.arrayBuffer());
+    const workbookXml = await readZipText(entries, 'xl/workbook.xml');
+    if (!workbookXml) throw new Error('The workbook has no xl/workbook.xml part.');
+    const workbook = parseXml(workbookXml);
+    const date1904 = ['1', 'true'].includes(elements(workbook, 'workbookPr')[0]?.getAttribute('date1904') || '');
+
+    const rels = parseXml((await readZipText(entries, 'xl/_rels/workbook.xml.rels')) || '<Relationships/>');
+    const targets = new Map(elements(rels, 'Relationship').map(rel => [rel.getAttribute('Id'), rel.getAttribute('Target') || '']));
+
+    const sharedXml = await readZipText(entries, 'xl/sharedStrings.xml');
+    const shared = sharedXml
+      ? elements(parseXml(sharedXml), 'si').map(si => elements(si, 't').filter(t => t.parentElement?.localName !== 'rPh').map(t => t.textContent).join(''))
+      : [];
+    const dates = dateStyles(await readZipText(entries, 'xl/styles.xml'));
+
+    let uncalculatedFormulas = 0;
+    const sections: string[] = [];
+    for (const sheet of elements(workbook, 'sheet')) {
+      const name = sheet.getAttribute('name') || 'Sheet';
+      const relId = sheet.getAttribute('r:id') || sheet.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id');
+      const target = targets.get(relId);
+      const sheetXml = target ? await readZipText(entries, resolveTarget(target)) : null;
+      if (!sheetXml) continue;
+
+      const rows: string[] = [];
+      for (const row of elements(parseXml(sheetXml), 'row')) {
+        const values: string[] = [];
+        for (const cell of childElements(row, 'c')) {
+          const type = cell.getAttribute('t');
+          const raw = childElements(cell, 'v')[0]?.textContent ?? '';
+          let value: string;
+          if (type === 's') value = shared[Number(raw)] ?? '';
+          else if (type === 'inlineStr') value = elements(cell, 't').map(t => t.textContent).join('');
+          else if (type === 'b') value = raw === '1' ? 'TRUE' : 'FALSE';
+          else if (raw && !type && dates.has(Number(cell.getAttribute('s') || 0))) value = serialToDate(Number(raw), date1904);
+          else value = raw;
+          if (!raw && childElements(cell, 'f').length > 0) uncalculatedFormulas++;
+          const reference = cell.getAttribute('r');
+          const column = reference ? columnIndex(reference) : values.length;
+          while (values.length < column) values.push('');
+          values[column] = value;
+        }
+        while (values.length > 0 && !values[values.length - 1]) values.pop();
+        if (values.length > 0) rows.push(values.join(' | '));
+      }
+      sections.push(`Sheet: ${name}\n${rows.join('\n')}`);
+    }
+
+    const notes: string[] = [];
+    const hasCharts = entries.some(e => e.name.startsWith('xl/charts/') || e.name.startsWith('xl/drawings/'));
+    if (hasCharts) notes.push('Charts and drawings were not extracted.');
+    if (uncalculatedFormulas > 0) notes.push(`${uncalculatedFormulas} formula cell(s) had no saved value.`);
+    return { text: sections.join('\n\n'), extractor: 'xlsx', lossy: hasCharts || uncalculatedFormulas > 0, notes };
+  },
+};
@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { FileExtractor } from '../../types';
+import { recognizeImages } from './ocrExtractor';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+// Pages with less text than this are treated as scans and sent to OCR.
+const MIN_TEXT_LAYER_CHARS = 20;
+const OCR_RENDER_SCALE = 2;
+
+/**
+ * Loads pdf.js on first use, so the main bundle does not carry it.
+ */
+export async function loadPdfJs() {
+  const pdfjs = await import('pdfjs-dist');
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    // The worker is bundled with the app, so PDFs are read offline.
+    pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+  }
+  return pdfjs;
+}
+
+export const pdfExtractor: FileExtractor = {
+  kind: 'pdf',
+  label: 'PDF',
+  // "%PDF"
+  matches: (_file, head) => head[0] === 0x25 && head[1] === 0x50 && head[2] === 0x44 && head[3] === 0x46,
+  extract: async (file) => {
+    const pdfjs = await loadPdfJs();
+    const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+    try {
+      const pages: string[] = [];
+      const scanned: number[] = [];
+      for (let number = 1; number <= pdf.numPages; number++) {
+        const page = await pdf.getPage(number);
+        const content = await page.getTextContent();
+        const text = content.items
+          .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : '') : ''))
+          .join('')
+          .trim();
+        pages.push(text);
+        if (text.replace(/\s/g, '').length < MIN_TEXT_LAYER_CHARS) scanned.push(number);
+      }
+
+      const notes: string[] = [];
+      let lossy = false;
+      if (scanned.length > 0) {
+        lossy = true;
+        try {
+          const canvases: HTMLCanvasElement[] = [];
+          for (const number of scanned) {
+            const page = await pdf.getPage(number);
+            const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+            const canvas = document.createElement('canvas');
+            canvas.width = viewport.width;
+            canvas.height = viewport.height;
+            await page.render({ canvasContext: canvas.getContext('2d')!, viewport }).promise;
+            canvases.push(canvas);
+          }
+          const results = await recognizeImages(canvases);
+          results.forEach((result, i) => {
+            pages[scanned[i] - 1] = [pages[scanned[i] - 1], result.text].filter(Boolean).join('\n');
+          });
+          const confidence = Math.round(results.reduce((sum, r) => sum + r.confidence, 0) / results.length);
+          notes.push(`Page(s) ${scanned.join(', ')} had no text layer and were read by OCR (confidence ${confidence}%).`);
+        } catch (error) {
+          console.error('OCR of scanned PDF pages failed:', error);
+          notes.push(`Page(s) ${scanned.join(', ')} had no text layer and OCR failed; their content is missing.`);
+        }
+      }
+
+      const text = pages.map((page, i) => `--- Page ${i + 1} ---\n${page}`).join('\n\n');
+      return { text, extractor: 'pdf', lossy, notes };
+    } finally {
+      await pdf.destroy();
+    }
+  },
+};
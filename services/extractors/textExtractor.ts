@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { FileExtractor } from '../../types';
+
+/**
+ * Decodes text bytes, honouring UTF-16 and UTF-8 byte-order marks.
+ * Bytes that are not valid UTF-8 are read as Windows-1252, the usual encoding of older exports.
+ * @param bytes The raw file bytes.
+ * @param charset A declared charset to try first, e.g. from an email header.
+ */
+export function decodeText(bytes: Uint8Array, charset?: string): string {
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return new TextDecoder('utf-16le').decode(bytes.subarray(2));
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return new TextDecoder('utf-16be').decode(bytes.subarray(2));
+  if (charset) {
+    try {
+      return new TextDecoder(charset.toLowerCase()).decode(bytes);
+    } catch {
+      // Unknown label; fall through to detection.
+    }
+  }
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder('windows-1252').decode(bytes);
+  }
+}
+
+/**
+ * Whether the leading bytes look like text rather than a binary format.
+ */
+export function looksLikeText(head: Uint8Array): boolean {
+  if ((head[0] === 0xff && head[1] === 0xfe) || (head[0] === 0xfe && head[1] === 0xff)) return true;
+  return !head.includes(0);
+}
+
+export function hasExtension(file: File, ...extensions: string[]): boolean {
+  const name = file.name.toLowerCase();
+  return extensions.some(ext => name.endsWith(`.${ext}`));
+}
+
+export const csvExtractor: FileExtractor = {
+  kind: 'csv',
+  label: 'CSV / TSV',
+  matches: (file, head) => (hasExtension(file, 'csv', 'tsv') || file.type === 'text/csv') && looksLikeText(head),
+  extract: async (file) => ({
+    text: decodeText(new Uint8Array(await file.arrayBuffer())),
+    extractor: 'csv',
+    lossy: false,
+    notes: [],
+  }),
+};
+
+export const textExtractor: FileExtractor = {
+  kind: 'text',
+  label: 'Plain text',
+  matches: (_file, head) => looksLikeText(head),
+  extract: async (file) => ({
+    text: decodeText(new Uint8Array(await file.arrayBuffer())),
+    extractor: 'text',
+    lossy: false,
+    notes: [],
+  }),
+};
@@ -0,0 +1,105 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { FileExtractor } from '../../types';
+import { decodeText, hasExtension, looksLikeText } from './textExtractor';
+import { readZip } from './zip';
+
+// Android: "12/03/2023, 14:05 - Name: text"; iOS: "[12/03/2023, 14:05:33] Name: text".
+// Either may carry a leading left-to-right mark and a 12-hour clock.
+const MESSAGE_LINE = /^[\u200e\u200f]?\[?(\d{1,4})[/.-](\d{1,2})[/.-](\d{2,4}),?\s+(\d{1,2}):(\d{2})(?::(\d{2}))?[\s\u202f]*([AaPp]\.?\s?[Mm]\.?)?\]?\s*(?:-\s+)?(.*)$/;
+const MEDIA_MARKERS = /<Media omitted>|\(file attached\)|<attached: [^>]+>|^(?:image|video|audio|sticker|GIF|document) omitted$/i;
+
+interface ChatMessageLine {
+  fields: number[]; // first, second, year, hour, minute
+  meridiem?: string;
+  rest: string;
+}
+
+function isWhatsAppText(text: string): boolean {
+  const lines = text.split(/\r?\n/).filter(line => line.trim()).slice(0, 10);
+  return lines.filter(line => MESSAGE_LINE.test(line)).length >= Math.min(2, lines.length) && lines.length > 0;
+}
+
+/**
+ * Rewrites a WhatsApp chat export as one normalised, timestamped line per message.
+ * The export's date order depends on the phone's locale, so it is inferred from the whole chat.
+ */
+export function parseWhatsAppChat(text: string): { text: string; messages: number; media: number; notes: string[] } {
+  const parsed: ChatMessageLine[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const match = line.match(MESSAGE_LINE);
+    if (match) {
+      parsed.push({ fields: [+match[1], +match[2], +match[3], +match[4], +match[5]], meridiem: match[7], rest: match[8] });
+    } else if (parsed.length > 0 && line.trim()) {
+      parsed[parsed.length - 1].rest += `\n${line}`;
+    }
+  }
+
+  const notes: string[] = [];
+  const yearFirst = parsed.some(m => m.fields[0] > 31);
+  const dayFirst = parsed.some(m => m.fields[0] > 12);
+  const monthFirst = !dayFirst && parsed.some(m => m.fields[1] > 12);
+  if (!yearFirst && !dayFirst && !monthFirst) notes.push('Date order is ambiguous in this export; dates were read as day/month/year.');
+
+  const participants = new Set<string>();
+  let media = 0;
+  const lines = parsed.map(({ fields: [a, b, c, hour, minute], meridiem, rest }) => {
+    const [year, month, day] = yearFirst ? [a, b, c] : monthFirst ? [c, a, b] : [c, b, a];
+    const fullYear = year < 100 ? 2000 + year : year;
+    let hours = hour;
+    if (meridiem) {
+      const pm = /^p/i.test(meridiem);
+      hours = (hour % 12) + (pm ? 12 : 0);
+    }
+    const stamp = `${fullYear}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')} ${String(hours).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+
+    const body = rest.replace(/^[\u200e\u200f]/, '');
+    const colon = body.indexOf(': ');
+    if (colon < 0) return `${stamp} | [system] ${body}`;
+    const sender = body.slice(0, colon).trim();
+    const message = body.slice(colon + 2).replace(/[\u200e\u200f]/g, '');
+    participants.add(sender);
+    if (MEDIA_MARKERS.test(message.trim())) media++;
+    return `${stamp} | ${sender}: ${message}`;
+  });
+
+  const span = lines.length > 0 ? ` between ${lines[0].slice(0, 10)} and ${lines[lines.length - 1].slice(0, 10)}` : '';
+  const header = `WhatsApp chat export: ${parsed.length} message(s) from ${[...participants].join(', ') || 'unknown participants'}${span}.`;
+  return { text: [header, ...lines].join('\n'), messages: parsed.length, media, notes };
+}
+
+export const whatsappExtractor: FileExtractor = {
+  kind: 'whatsapp',
+  label: 'WhatsApp chat export',
+  matches: (file, head) => {
+    if (head[0] === 0x50 && head[1] === 0x4b) return hasExtension(file, 'zip');
+    return hasExtension(file, 'txt') && looksLikeText(head) && isWhatsAppText(decodeText(head));
+  },
+  extract: async (file) => {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    let text: string;
+    let bundledFiles = 0;
+    if (bytes[0] === 0x50 && bytes[1] === 0x4b) {
+      // The export ZIP holds the chat as "_chat.txt" (iOS) or "WhatsApp Chat with ....txt" (Android), plus media.
+      const entries = readZip(bytes);
+      const chat = entries.find(e => /(^|\/)_chat\.txt$/i.test(e.name))
+        || entries.find(e => /whatsapp.*\.txt$/i.test(e.name))
+        || entries.find(e => e.name.toLowerCase().endsWith('.txt'));
+      if (!chat) throw new Error('The ZIP archive does not contain a WhatsApp chat export.');
+      text = decodeText(await chat.read());
+      if (!isWhatsAppText(text)) throw new Error('The ZIP archive does not contain a WhatsApp chat export.');
+      bundledFiles = entries.filter(e => e !== chat && !e.name.endsWith('/')).length;
+    } else {
+      text = decodeText(bytes);
+    }
+
+    const chat = parseWhatsAppChat(text);
+    const notes = [...chat.notes];
+    if (chat.media > 0) notes.push(`${chat.media} media message(s) are referenced; their content was not extracted.`);
+    if (bundledFiles > 0) notes.push(`${bundledFiles} bundled media file(s) in the export were not extracted.`);
+    return { text: chat.text, extractor: 'whatsapp', lossy: chat.media > 0 || bundledFiles > 0, notes };
+  },
+};
@@ -0,0 +1,189 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface ZipEntry {
+  name: string;
+  size: number;
+  read: () => Promise<Uint8Array>;
+}
+
+export interface ZipInput {
+  name: string;
+  data: Uint8Array;
+  modifiedAt?: Date;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+// Bit 11 of the general-purpose flags: the entry name is UTF-8.
+const UTF8_FLAG = 0x0800;
+const MAX_ZIP_SIZE = 0xffffffff;
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS date and time, in local time as ZIP tools expect.
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: (Math.max(0, date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Lists the entries of a ZIP archive (DOCX, XLSX and WhatsApp exports are all ZIPs).
+ * Supports stored and deflated entries; ZIP64 and encrypted archives are rejected.
+ * @param data The archive bytes.
+ * @returns The entries in central-directory order; each is decompressed on demand.
+ */
+export function readZip(data: ArrayBuffer | Uint8Array): ZipEntry[] {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // The end-of-central-directory record sits within the last 64 KiB (its comment is at most 65535 bytes).
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('Not a ZIP archive.');
+
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  if (offset === 0xffffffff) throw new Error('ZIP64 archives are not supported.');
+
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_SIGNATURE) throw new Error('Corrupt ZIP central directory.');
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    entries.push({
+      name,
+      size,
+      read: async () => {
+        if (flags & 0x1) throw new Error(`${name} is encrypted.`);
+        if (view.getUint32(localOffset, true) !== LOCAL_SIGNATURE) throw new Error(`Corrupt ZIP entry: ${name}`);
+        const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+        const raw = bytes.subarray(start, start + compressedSize);
+        if (method === 0) return raw;
+        if (method === 8) return inflateRaw(raw);
+        throw new Error(`Unsupported ZIP compression method ${method} for ${name}.`);
+      },
+    });
+  }
+  return entries;
+}
+
+/**
+ * Reads a ZIP entry as UTF-8 text, or returns null if the archive has no such entry.
+ */
+export async function readZipText(entries: ZipEntry[], name: string): Promise<string | null> {
+  const entry = entries.find(e => e.name === name);
+  return entry ? new TextDecoder().decode(await entry.read()) : null;
+}
+
+/**
+ * Writes a ZIP archive with every entry stored uncompressed, so the bytes of each file in the archive are
+ * exactly the bytes that were hashed. ZIP64 is not written, so the archive must stay under 4 GiB.
+ * @param inputs The entries, in the order they are written.
+ * @returns The archive bytes.
+ */
+export function writeZip(inputs: ZipInput[]): Uint8Array {
+  if (inputs.length > 0xffff) throw new Error('ZIP without ZIP64 holds at most 65535 entries.');
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const input of inputs) {
+    const name = encoder.encode(input.name);
+    const crc = crc32(input.data);
+    const { time, date } = dosDateTime(input.modifiedAt || new Date());
+
+    const local = new Uint8Array(30 + name.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, LOCAL_SIGNATURE, true);
+    lv.setUint16(4, 20, true); // Version needed to extract
+    lv.setUint16(6, UTF8_FLAG, true);
+    lv.setUint16(8, 0, true); // Stored
+    lv.setUint16(10, time, true);
+    lv.setUint16(12, date, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, input.data.length, true);
+    lv.setUint32(22, input.data.length, true);
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, CENTRAL_SIGNATURE, true);
+    cv.setUint16(4, 20, true); // Version made by
+    cv.setUint16(6, 20, true);
+    cv.setUint16(8, UTF8_FLAG, true);
+    cv.setUint16(10, 0, true);
+    cv.setUint16(12, time, true);
+    cv.setUint16(14, date, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, input.data.length, true);
+    cv.setUint32(24, input.data.length, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local, input.data);
+    centrals.push(central);
+    offset += local.length + input.data.length;
+    if (offset > MAX_ZIP_SIZE) throw new Error('The archive would exceed 4 GiB, which ZIP without ZIP64 cannot hold.');
+  }
+
+  const centralSize = centrals.reduce((sum, c) => sum + c.length, 0);
+  const eocd = new Uint8Array(22);
+  const ev = new DataView(eocd.buffer);
+  ev.setUint32(0, EOCD_SIGNATURE, true);
+  ev.setUint16(8, inputs.length, true);
+  ev.setUint16(10, inputs.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  const out = new Uint8Array(offset + centralSize + eocd.length);
+  let at = 0;
+  for (const part of [...locals, ...centrals, eocd]) {
+    out.set(part, at);
+    at += part.length;
+  }
+  return out;
+}
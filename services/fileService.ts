@@ -3,6 +3,15 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
+import { ExtractionResult, FileExtractor } from '../types';
+import { pdfExtractor } from './extractors/pdfExtractor';
+import { docxExtractor, xlsxExtractor } from './extractors/officeExtractor';
+import { emailExtractor, msgExtractor } from './extractors/emailExtractor';
+import { whatsappExtractor } from './extractors/whatsappExtractor';
+import { ocrExtractor } from './extractors/ocrExtractor';
+import { audioExtractor } from './extractors/audioExtractor';
+import { csvExtractor, textExtractor } from './extractors/textExtractor';
+
 /**
  * Calculates the SHA-512 hash of a file.
  * @param file The file to hash.
@@ -10,27 +19,71 @@
  */
 export async function calculateSHA512(file: File): Promise<string> {
   const buffer = await file.arrayBuffer();
-  const hashBuffer = await crypto.subtle.digest('SHA-512', buffer);
+  return calculateSHA512FromBytes(buffer);
+}
+
+/**
+ * Calculates the SHA-512 hash of raw bytes or a string (UTF-8 encoded).
+ * @param data The bytes or text to hash.
+ * @returns A promise that resolves with the hex-encoded SHA-512 hash string.
+ */
+export async function calculateSHA512FromBytes(data: ArrayBuffer | Uint8Array | string): Promise<string> {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  const hashBuffer = await crypto.subtle.digest('SHA-512', bytes);
   const hashArray = Array.from(new Uint8Array(hashBuffer));
   const hashHex = hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
   return hashHex;
 }
 
+// Most specific first: WhatsApp .txt exports must be claimed before the plain-text reader.
+const EXTRACTORS: FileExtractor[] = [
+  pdfExtractor,
+  docxExtractor,
+  xlsxExtractor,
+  msgExtractor,
+  emailExtractor,
+  whatsappExtractor,
+  ocrExtractor,
+  audioExtractor,
+  csvExtractor,
+  textExtractor,
+];
+
+const HEAD_BYTES = 4096;
+
 /**
- * Reads the content of a file as a string.
- * This is a simplified reader for demonstration; it works best for text-based files.
+ * Extracts readable text from a case file, choosing an extractor by file type and magic number.
+ * Extraction never throws: a failure is reported as an empty, lossy result with a note.
  * @param file The file to read.
- * @returns A promise that resolves with the file's text content.
+ * @returns The text, which extractor produced it, and whether anything was lost.
+ */
+export async function extractTextFromFile(file: File): Promise<ExtractionResult> {
+  const head = new Uint8Array(await file.slice(0, HEAD_BYTES).arrayBuffer());
+  const extractor = EXTRACTORS.find(e => e.matches(file, head));
+  if (!extractor) {
+    return { text: '', extractor: 'unsupported', lossy: true, notes: ['This file type is not supported; only its hash is recorded.'] };
+  }
+  try {
+    return await extractor.extract(file);
+  } catch (error) {
+    console.error(`${extractor.label} extraction failed:`, file.name, error);
+    const reason = error instanceof Error ? error.message : 'Unknown error';
+    return { text: '', extractor: 'unsupported', lossy: true, notes: [`${extractor.label} extraction failed: ${reason}`] };
+  }
+}
+
+/**
+ * Triggers a browser download for a generated blob.
+ * @param blob The data to download.
+ * @param fileName The suggested file name.
  */
-export function readTextFromFile(file: File): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      resolve(event.target?.result as string);
-    };
-    reader.onerror = (error) => {
-      reject(error);
-    };
-    reader.readAsText(file);
-  });
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
 }
@@ -0,0 +1,346 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Attachment, EvidenceMetadata, MetadataFlag } from '../types';
+import { extractDates } from './claimService';
+import { loadPdfJs } from './extractors/pdfExtractor';
+import { readZip, readZipText } from './extractors/zip';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Clocks, time zones and copy tools routinely shift timestamps by hours; only flag gaps larger than this.
+const DATE_TOLERANCE_MS = DAY_MS;
+
+// TIFF/EXIF tags ([EXIF 2.32] 4.6).
+const TAG = {
+  make: 0x010f,
+  model: 0x0110,
+  software: 0x0131,
+  dateTime: 0x0132,
+  artist: 0x013b,
+  exifIfd: 0x8769,
+  gpsIfd: 0x8825,
+  dateTimeOriginal: 0x9003,
+  offsetTimeOriginal: 0x9011,
+  gpsLatitudeRef: 0x0001,
+  gpsLatitude: 0x0002,
+  gpsLongitudeRef: 0x0003,
+  gpsLongitude: 0x0004,
+  gpsTimeStamp: 0x0007,
+  gpsDateStamp: 0x001d,
+};
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+/** Display names for metadata fields, in the order they are shown. */
+export const METADATA_LABELS: [keyof EvidenceMetadata, string][] = [
+  ['title', 'Title'],
+  ['author', 'Author'],
+  ['lastModifiedBy', 'Last modified by'],
+  ['creatorTool', 'Created with'],
+  ['producer', 'Producer'],
+  ['createdAt', 'Created'],
+  ['modifiedAt', 'Modified'],
+  ['xmpCreatedAt', 'XMP created'],
+  ['xmpModifiedAt', 'XMP modified'],
+  ['revisions', 'Revisions'],
+  ['captureTime', 'Captured'],
+  ['device', 'Device'],
+  ['gps', 'GPS'],
+  ['gpsTime', 'GPS time'],
+  ['fileLastModified', 'File last modified'],
+];
+
+/**
+ * Formats a metadata value for display; GPS positions become "latitude, longitude".
+ */
+export function formatMetadataValue(value: EvidenceMetadata[keyof EvidenceMetadata]): string {
+  if (value && typeof value === 'object' && 'latitude' in value) {
+    return `${value.latitude.toFixed(5)}, ${value.longitude.toFixed(5)}`;
+  }
+  return String(value);
+}
+
+type IfdValue = string | number | number[];
+
+function readIfd(view: DataView, tiffStart: number, offset: number, little: boolean): Map<number, IfdValue> {
+  const values = new Map<number, IfdValue>();
+  const count = view.getUint16(tiffStart + offset, little);
+  for (let i = 0; i < count; i++) {
+    const entry = tiffStart + offset + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const n = view.getUint32(entry + 4, little);
+    const size = (TYPE_SIZES[type] || 1) * n;
+    const at = size <= 4 ? entry + 8 : tiffStart + view.getUint32(entry + 8, little);
+    if (at + size > view.byteLength) continue;
+    if (type === 2) {
+      let text = '';
+      for (let j = 0; j < n; j++) {
+        const c = view.getUint8(at + j);
+        if (c === 0) break;
+        text += String.fromCharCode(c);
+      }
+      values.set(tag, text.trim());
+    } else if (type === 5 || type === 10) {
+      const parts: number[] = [];
+      for (let j = 0; j < n; j++) {
+        const num = type === 5 ? view.getUint32(at + j * 8, little) : view.getInt32(at + j * 8, little);
+        const den = type === 5 ? view.getUint32(at + j * 8 + 4, little) : view.getInt32(at + j * 8 + 4, little);
+        parts.push(den ? num / den : 0);
+      }
+      values.set(tag, n === 1 ? parts[0] : parts);
+    } else if (type === 3 || type === 4) {
+      values.set(tag, type === 3 ? view.getUint16(at, little) : view.getUint32(at, little));
+    }
+  }
+  return values;
+}
+
+/** "2023:03:12 14:05:33" -> "2023-03-12T14:05:33", with the offset appended when known. */
+function exifDate(value: IfdValue | undefined, offset?: IfdValue): string | undefined {
+  const match = typeof value === 'string' ? value.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/) : null;
+  if (!match || match[1] === '0000') return undefined;
+  const zone = typeof offset === 'string' && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : '';
+  return `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}${zone}`;
+}
+
+function parseTiff(view: DataView, tiffStart: number, metadata: EvidenceMetadata): void {
+  const little = view.getUint16(tiffStart) === 0x4949; // "II"
+  const ifd0 = readIfd(view, tiffStart, view.getUint32(tiffStart + 4, little), little);
+  const exifOffset = ifd0.get(TAG.exifIfd);
+  const exif = typeof exifOffset === 'number' ? readIfd(view, tiffStart, exifOffset, little) : new Map<number, IfdValue>();
+  const gpsOffset = ifd0.get(TAG.gpsIfd);
+  const gps = typeof gpsOffset === 'number' ? readIfd(view, tiffStart, gpsOffset, little) : new Map<number, IfdValue>();
+
+  metadata.sources.push('exif');
+  const device = [ifd0.get(TAG.make), ifd0.get(TAG.model)].filter(Boolean).join(' ');
+  if (device) metadata.device = device;
+  if (ifd0.get(TAG.software)) metadata.creatorTool = String(ifd0.get(TAG.software));
+  if (ifd0.get(TAG.artist)) metadata.author = String(ifd0.get(TAG.artist));
+  metadata.captureTime = exifDate(exif.get(TAG.dateTimeOriginal), exif.get(TAG.offsetTimeOriginal));
+  metadata.modifiedAt = exifDate(ifd0.get(TAG.dateTime));
+
+  const lat = gps.get(TAG.gpsLatitude);
+  const lon = gps.get(TAG.gpsLongitude);
+  if (Array.isArray(lat) && Array.isArray(lon) && lat.length === 3 && lon.length === 3) {
+    const toDegrees = ([d, m, s]: number[]) => d + m / 60 + s / 3600;
+    metadata.gps = {
+      latitude: (gps.get(TAG.gpsLatitudeRef) === 'S' ? -1 : 1) * toDegrees(lat),
+      longitude: (gps.get(TAG.gpsLongitudeRef) === 'W' ? -1 : 1) * toDegrees(lon),
+    };
+  }
+  const gpsDate = gps.get(TAG.gpsDateStamp);
+  const gpsTime = gps.get(TAG.gpsTimeStamp);
+  if (typeof gpsDate === 'string' && Array.isArray(gpsTime)) {
+    // GPS time is always UTC.
+    const [h, m, s] = gpsTime.map(n => String(Math.floor(n)).padStart(2, '0'));
+    metadata.gpsTime = exifDate(`${gpsDate} ${h}:${m}:${s}`, '+00:00');
+  }
+}
+
+function readExif(bytes: Uint8Array, metadata: EvidenceMetadata): void {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  // TIFF files are themselves an EXIF container.
+  if ((bytes[0] === 0x49 && bytes[1] === 0x49) || (bytes[0] === 0x4d && bytes[1] === 0x4d)) {
+    parseTiff(view, 0, metadata);
+    return;
+  }
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return;
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    const length = view.getUint16(offset + 2);
+    // APP1 segment starting "Exif\0\0".
+    if (marker === 0xe1 && view.getUint32(offset + 4) === 0x45786966) {
+      parseTiff(view, offset + 10, metadata);
+      return;
+    }
+    if (marker === 0xda) return; // Start of scan: no more metadata segments.
+    offset += 2 + length;
+  }
+}
+
+function readPdfDate(value: unknown, toDate: (input: string) => Date | null): string | undefined {
+  if (typeof value !== 'string' || !value) return undefined;
+  const date = toDate(value);
+  return date ? date.toISOString() : undefined;
+}
+
+async function readPdfMetadata(bytes: Uint8Array, metadata: EvidenceMetadata): Promise<void> {
+  // Each incremental save appends a new trailer ending in %%EOF.
+  const raw = new TextDecoder('latin1').decode(bytes);
+  metadata.revisions = (raw.match(/%%EOF/g) || []).length || undefined;
+
+  const pdfjs = await loadPdfJs();
+  // pdf.js transfers the buffer to its worker, so give it a copy.
+  const pdf = await pdfjs.getDocument({ data: bytes.slice() }).promise;
+  try {
+    const { info, metadata: xmp } = await pdf.getMetadata();
+    const dict = info as Record<string, unknown>;
+    const toDate = (input: string) => pdfjs.PDFDateString.toDateObject(input);
+    metadata.sources.push('pdf-info');
+    metadata.title = (dict.Title as string) || undefined;
+    metadata.author = (dict.Author as string) || undefined;
+    metadata.creatorTool = (dict.Creator as string) || undefined;
+    metadata.producer = (dict.Producer as string) || undefined;
+    metadata.createdAt = readPdfDate(dict.CreationDate, toDate);
+    metadata.modifiedAt = readPdfDate(dict.ModDate, toDate);
+
+    if (xmp) {
+      metadata.sources.push('xmp');
+      const isoOrUndefined = (value: unknown) => (typeof value === 'string' && !isNaN(Date.parse(value)) ? new Date(value).toISOString() : undefined);
+      metadata.xmpCreatedAt = isoOrUndefined(xmp.get('xmp:createdate'));
+      metadata.xmpModifiedAt = isoOrUndefined(xmp.get('xmp:modifydate'));
+      metadata.author ||= xmp.get('dc:creator')?.[0] || undefined;
+      metadata.title ||= xmp.get('dc:title') || undefined;
+      metadata.creatorTool ||= xmp.get('xmp:creatortool') || undefined;
+      metadata.producer ||= xmp.get('pdf:producer') || undefined;
+      metadata.createdAt ||= metadata.xmpCreatedAt;
+      metadata.modifiedAt ||= metadata.xmpModifiedAt;
+    }
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+async function readOfficeMetadata(bytes: Uint8Array, metadata: EvidenceMetadata): Promise<void> {
+  const entries = readZip(bytes);
+  const core = await readZipText(entries, 'docProps/core.xml');
+  if (!core) return;
+  const doc = new DOMParser().parseFromString(core, 'application/xml');
+  const field = (name: string) => doc.getElementsByTagNameNS('*', name)[0]?.textContent?.trim() || undefined;
+  metadata.sources.push('docx-core');
+  metadata.title = field('title');
+  metadata.author = field('creator');
+  metadata.lastModifiedBy = field('lastModifiedBy');
+  metadata.createdAt = field('created');
+  metadata.modifiedAt = field('modified');
+  const revision = Number(field('revision'));
+  if (revision) metadata.revisions = revision;
+
+  const app = await readZipText(entries, 'docProps/app.xml');
+  if (app) {
+    const appDoc = new DOMParser().parseFromString(app, 'application/xml');
+    const application = appDoc.getElementsByTagNameNS('*', 'Application')[0]?.textContent?.trim();
+    const version = appDoc.getElementsByTagNameNS('*', 'AppVersion')[0]?.textContent?.trim();
+    if (application) metadata.creatorTool = version ? `${application} ${version}` : application;
+  }
+}
+
+/**
+ * Reads the metadata a file carries about its own origin: EXIF for photos, the Info dictionary
+ * and XMP packet for PDFs, core properties for Office documents, plus the browser's lastModified.
+ * Unreadable metadata is skipped rather than failing the upload.
+ * @param file The evidence file.
+ * @returns The metadata found, with the sources it came from.
+ */
+export async function extractMetadata(file: File): Promise<EvidenceMetadata> {
+  const metadata: EvidenceMetadata = { sources: ['file-system'] };
+  if (file.lastModified) metadata.fileLastModified = new Date(file.lastModified).toISOString();
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  try {
+    if (bytes[0] === 0x25 && bytes[1] === 0x50 && bytes[2] === 0x44 && bytes[3] === 0x46) {
+      await readPdfMetadata(bytes, metadata);
+    } else if (bytes[0] === 0x50 && bytes[1] === 0x4b && /\.(docx|docm|xlsx|xlsm|pptx)$/i.test(file.name)) {
+      await readOfficeMetadata(bytes, metadata);
+    } else {
+      readExif(bytes, metadata);
+    }
+  } catch (error) {
+    console.error('Error reading metadata:', file.name, error);
+  }
+
+  // Drop fields the parsers left undefined so stored records stay compact.
+  return Object.fromEntries(Object.entries(metadata).filter(([, value]) => value !== undefined)) as EvidenceMetadata;
+}
+
+const day = (iso: string) => iso.slice(0, 10);
+
+function laterBy(a: string | undefined, b: string | undefined): number {
+  if (!a || !b) return 0;
+  const diff = Date.parse(a) - Date.parse(b);
+  return isNaN(diff) ? 0 : diff;
+}
+
+// Dates embedded in camera and messenger file names, e.g. IMG-20230312-WA0001.jpg or PXL_20230312_140533.jpg.
+function fileNameDate(name: string): string | null {
+  const match = name.match(/(?:^|\D)(20\d{2})[-_]?(0[1-9]|1[0-2])[-_]?(0[1-9]|[12]\d|3[01])(?!\d)/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+const SIGNING_SENTENCE = /[^.\n]*\b(?:signed|dated|executed|sworn|attested|commissioned)\b[^.\n]*/gi;
+
+/**
+ * Flags metadata that contradicts itself, the file's own content, or the case narrative.
+ * @param file The attachment, with its extracted text and metadata.
+ * @param narrative The user's case notes; lines that name the file are checked against its dates.
+ * @returns One flag per inconsistency, empty when nothing looks wrong.
+ */
+export function detectMetadataMismatches(file: Attachment, narrative = ''): MetadataFlag[] {
+  const meta = file.metadata;
+  if (!meta) return [];
+  const flags: MetadataFlag[] = [];
+
+  if (laterBy(meta.createdAt, meta.modifiedAt) > DATE_TOLERANCE_MS) {
+    flags.push({ field: 'modifiedAt', message: `Modified (${day(meta.modifiedAt!)}) before it was created (${day(meta.createdAt!)}).`, comparedWith: { kind: 'metadata', field: 'createdAt' } });
+  }
+  if (Math.abs(laterBy(meta.createdAt, meta.xmpCreatedAt)) > 60_000) {
+    flags.push({ field: 'xmpCreatedAt', message: `PDF Info creation date (${meta.createdAt}) differs from the XMP creation date (${meta.xmpCreatedAt}).`, comparedWith: { kind: 'metadata', field: 'createdAt' } });
+  }
+  if (Math.abs(laterBy(meta.modifiedAt, meta.xmpModifiedAt)) > 60_000 && meta.sources.includes('pdf-info')) {
+    flags.push({ field: 'xmpModifiedAt', message: `PDF Info modification date (${meta.modifiedAt}) differs from the XMP modification date (${meta.xmpModifiedAt}); one was edited without the other.`, comparedWith: { kind: 'metadata', field: 'modifiedAt' } });
+  }
+  if (meta.sources.includes('pdf-info') && (meta.revisions || 0) > 1) {
+    flags.push({ field: 'revisions', message: `The PDF was saved ${meta.revisions} times; later revisions may have changed its content.` });
+  }
+  if (laterBy(meta.createdAt || meta.captureTime, meta.fileLastModified) > DATE_TOLERANCE_MS) {
+    flags.push({ field: 'fileLastModified', message: `The file was last modified on disk (${day(meta.fileLastModified!)}) before its internal creation date.`, comparedWith: { kind: 'metadata', field: meta.createdAt ? 'createdAt' : 'captureTime' } });
+  }
+
+  // A document created after the date it says it was signed was re-created or re-typed later.
+  if (meta.createdAt && !meta.captureTime && file.content) {
+    let signed: { date: string; text: string; start: number } | null = null;
+    for (const match of file.content.matchAll(SIGNING_SENTENCE)) {
+      for (const date of extractDates(match[0])) {
+        if (!signed || date > signed.date) signed = { date, text: match[0].trim(), start: match.index! + match[0].indexOf(match[0].trim()) };
+      }
+    }
+    if (signed && laterBy(meta.createdAt, `${signed.date}T23:59:59`) > DATE_TOLERANCE_MS) {
+      flags.push({
+        field: 'createdAt',
+        message: `Created ${day(meta.createdAt)}, after the signing date it states (${signed.date}).`,
+        comparedWith: { kind: 'content', text: signed.text, start: signed.start, end: signed.start + signed.text.length },
+      });
+    }
+  }
+
+  if (meta.captureTime) {
+    const captured = day(meta.captureTime);
+    if (meta.modifiedAt && Math.abs(laterBy(meta.modifiedAt, meta.captureTime)) > DATE_TOLERANCE_MS) {
+      flags.push({ field: 'modifiedAt', message: `Photo was re-saved on ${day(meta.modifiedAt)}${meta.creatorTool ? ` with ${meta.creatorTool}` : ''}, after capture on ${captured}.`, comparedWith: { kind: 'metadata', field: 'captureTime' } });
+    }
+    if (meta.gpsTime && Math.abs(laterBy(meta.gpsTime, meta.captureTime)) > DATE_TOLERANCE_MS) {
+      flags.push({ field: 'gpsTime', message: `GPS timestamp (${day(meta.gpsTime)}) contradicts the camera capture date (${captured}).`, comparedWith: { kind: 'metadata', field: 'captureTime' } });
+    }
+    const named = fileNameDate(file.name);
+    if (named && Math.abs(laterBy(named, captured)) > DATE_TOLERANCE_MS) {
+      flags.push({ field: 'captureTime', message: `File name dates the photo ${named}, but EXIF says it was taken ${captured}.`, comparedWith: { kind: 'name', text: file.name } });
+    }
+    const baseName = file.name.replace(/\.[^.]+$/, '').toLowerCase();
+    const narrativeLines = [...narrative.matchAll(/[^\n]+/g)].filter(line => line[0].toLowerCase().includes(baseName));
+    const narrativeDates = narrativeLines.flatMap(line => extractDates(line[0]));
+    if (narrativeDates.length > 0 && !narrativeDates.some(d => Math.abs(laterBy(d, captured)) <= DATE_TOLERANCE_MS)) {
+      const line = narrativeLines.find(l => extractDates(l[0]).length > 0)!;
+      flags.push({
+        field: 'captureTime',
+        message: `Case notes date this photo ${narrativeDates.join(', ')}, but EXIF says it was taken ${captured}.`,
+        comparedWith: { kind: 'notes', text: line[0], start: line.index!, end: line.index! + line[0].length },
+      });
+    }
+  }
+
+  return flags;
+}
@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Attachment, CaseNote, ChatMessage, MessageSender, NoteProvenance, NoteReference, NoteReferenceKind, TimelineEvent } from '../types';
+import { calculateSHA512FromBytes } from './fileService';
+
+// [label](file:hash), [label](message:id) or [label](event:id)
+export const NOTE_LINK_PATTERN = /\[([^\]]*)\]\((file|message|event):([^)\s]+)\)/g;
+
+// File links carry this much of the SHA-512, enough to be unambiguous within a case.
+const FILE_LINK_HASH_CHARS = 16;
+
+const EXCERPT_TITLE_CHARS = 60;
+
+export interface NoteLinkTargets {
+  attachments: Attachment[];
+  messages: ChatMessage[]; // From every conversation
+  events: TimelineEvent[];
+}
+
+/**
+ * Starts a note.
+ */
+export function createNote(title: string, body = '', provenance?: NoteProvenance): CaseNote {
+  const now = new Date().toISOString();
+  return { id: `note-${crypto.randomUUID()}`, title, body, sendToProviders: false, provenance, createdAt: now, updatedAt: now };
+}
+
+/**
+ * The Markdown link a note embeds for a case file, chat message or timeline event.
+ */
+export function noteLink(kind: NoteReferenceKind, target: string, label: string): string {
+  const id = kind === 'file' ? target.substring(0, FILE_LINK_HASH_CHARS) : target;
+  return `[${label.replace(/[[\]]/g, '')}](${kind}:${id})`;
+}
+
+const describeMessage = (message: ChatMessage) =>
+  `${message.sender === MessageSender.USER ? 'Question' : 'Answer'} of ${new Date(message.timestamp).toLocaleString()}`;
+
+/**
+ * Resolves a note's links against the case. Links to files since removed, messages since deleted with their
+ * conversation, or events since dismissed are reported as not found rather than dropped.
+ */
+export function findReferences(body: string, targets: NoteLinkTargets): NoteReference[] {
+  return [...body.matchAll(NOTE_LINK_PATTERN)].map(([, label, kind, target]) => {
+    const reference = { kind: kind as NoteReferenceKind, target, label };
+    if (kind === 'file') {
+      const file = targets.attachments.find(f => f.hash.startsWith(target.toLowerCase()));
+      return { ...reference, found: !!file, description: file && `${file.name} (SHA-512 ${file.hash.substring(0, 16)}...)` };
+    }
+    if (kind === 'message') {
+      const message = targets.messages.find(m => m.id === target);
+      return { ...reference, found: !!message, description: message && describeMessage(message) };
+    }
+    // An event the user corrected keeps its place under the correction's id.
+    const event = targets.events.find(e => e.id === target || e.replaces === target);
+    return { ...reference, found: !!event, description: event && `${event.date}: ${event.description}` };
+  });
+}
+
+/**
+ * A note's body with links written out as plain text, e.g. "lease.pdf (file 1a2b3c4d)".
+ */
+export function plainNoteText(body: string): string {
+  return body.replace(NOTE_LINK_PATTERN, (_match, label: string, kind: string, target: string) =>
+    kind === 'file' ? `${label} (file ${target.substring(0, 8)})` : `${label} (${kind === 'message' ? 'chat message' : 'timeline event'})`);
+}
+
+/**
+ * Every note as one text, for the local analyses that read the case notes as a source.
+ */
+export function notesToText(notes: CaseNote[]): string {
+  return notes.map(note => `## ${note.title}\n${plainNoteText(note.body).trim()}`).join('\n\n');
+}
+
+/**
+ * The notes the user chose to send to the providers, as one block of context. Empty when none are.
+ */
+export function notesForProviders(notes: CaseNote[]): string {
+  const shared = notes.filter(note => note.sendToProviders && note.body.trim());
+  if (shared.length === 0) return '';
+  return `CASE NOTES (the user's own notes, not evidence):\n${notesToText(shared)}`;
+}
+
+/**
+ * Makes a note from an excerpt of a model answer, recording which answer it came from and the
+ * excerpt's hash, so the note can be traced back even after it is edited.
+ * @param message The answer.
+ * @param excerpt The promoted text; the whole answer when nothing was selected.
+ * @param slotId The provider answer the excerpt came from; the consensus answer when omitted.
+ */
+export async function promoteExcerpt(message: ChatMessage, excerpt: string, slotId?: string, conversationId?: string): Promise<CaseNote> {
+  const leader = message.consensus?.majority[0];
+  const response = message.responses?.find(r => r.slotId === (slotId || leader));
+  const source = slotId ? response?.label || slotId : 'Consensus';
+  const provenance: NoteProvenance = {
+    messageId: message.id,
+    conversationId,
+    source,
+    provider: response?.provider,
+    model: response?.model,
+    answeredAt: new Date(message.timestamp).toISOString(),
+    constitution: message.constitution,
+    excerpt,
+    excerptHash: await calculateSHA512FromBytes(excerpt),
+    promotedAt: new Date().toISOString(),
+  };
+  const firstLine = excerpt.trim().split('\n')[0];
+  const title = firstLine.length > EXCERPT_TITLE_CHARS ? `${firstLine.substring(0, EXCERPT_TITLE_CHARS - 3)}...` : firstLine;
+  const quote = excerpt.trim().split('\n').map(line => `> ${line}`).join('\n');
+  return createNote(title || 'Answer excerpt', `${quote}\n\n${noteLink('message', message.id, `${source} answer`)}\n`, provenance);
+}
@@ -0,0 +1,572 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import QRCode from 'qrcode';
+import { Attachment, CaseNote, ChatMessage, MessageSender, ReportSeal, SealedReport, SigningIdentity } from '../types';
+import { calculateSHA512FromBytes } from './fileService';
+import { isFabricated } from './citationService';
+import { FAILURE_LABELS } from './providers/resilience';
+import { plainNoteText } from './notesService';
+import { CUSTODY_EVENT_LABELS, custodyOf } from './custodyService';
+import { formatKeyId, sign, SIGNATURE_ALGORITHM } from './signingService';
+
+// A4 portrait, in PDF points.
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_HEIGHT = 30;
+
+// Appended after %%EOF; PDF readers ignore trailing comments, the verifier does not.
+const SEAL_PREFIX = '%VERUM-SEAL';
+const SEAL_PATTERN = /%VERUM-SEAL report-sha512=([0-9a-f]{128}) document-sha512=([0-9a-f]{128})(?: key=([0-9a-f]{32}) signature=([A-Za-z0-9+/=]+))?\n?$/;
+
+type FontKey = 'F1' | 'F2' | 'F3';
+
+const FONTS: Record<FontKey, string> = {
+  F1: 'Helvetica',
+  F2: 'Helvetica-Bold',
+  F3: 'Courier',
+};
+
+// Helvetica advance widths (1/1000 em) for printable ASCII, starting at 0x20.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const REPLACEMENTS: Record<string, string> = {
+  '‘': "'", '’': "'", '“': '"', '”': '"',
+  '–': '-', '—': '-', '•': '-', '…': '...', '\u00a0': ' ', '\t': '    ',
+};
+
+/**
+ * Reduces text to the WinAnsi subset the standard PDF fonts can render.
+ */
+function toWinAnsi(text: string): string {
+  let out = '';
+  for (const ch of text) {
+    if (REPLACEMENTS[ch] !== undefined) {
+      out += REPLACEMENTS[ch];
+      continue;
+    }
+    const code = ch.charCodeAt(0);
+    out += (code >= 0x20 && code <= 0x7e) || (code >= 0xa1 && code <= 0xff) || ch === '\n' ? ch : '?';
+  }
+  return out;
+}
+
+/**
+ * Strips the markdown syntax the model commonly emits so the PDF shows readable prose.
+ */
+function markdownToPlainText(markdown: string): string {
+  return markdown
+    .replace(/```[a-z]*\n?/gi, '')
+    .replace(/^#{1,6}\s+/gm, '')
+    .replace(/\*\*(.+?)\*\*/g, '$1')
+    .replace(/__(.+?)__/g, '$1')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/^\s*[-*+]\s+/gm, '- ')
+    .replace(/\[([^\]]+)\]\(([^)]+)\)/g, '$1 ($2)');
+}
+
+function escapePdfString(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)');
+}
+
+function textWidth(text: string, font: FontKey, size: number): number {
+  if (font === 'F3') return text.length * 0.6 * size;
+  let units = 0;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    units += code >= 0x20 && code <= 0x7e ? HELVETICA_WIDTHS[code - 0x20] : 556;
+  }
+  // Helvetica-Bold runs roughly 5% wider than the regular face.
+  return (units / 1000) * size * (font === 'F2' ? 1.05 : 1);
+}
+
+/**
+ * Greedy word wrap. Words longer than a full line (e.g. hashes) are broken by character.
+ */
+function wrapText(text: string, font: FontKey, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(' ')) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, font, size) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      line = word;
+      while (textWidth(line, font, size) > maxWidth) {
+        let cut = line.length - 1;
+        while (cut > 1 && textWidth(line.slice(0, cut), font, size) > maxWidth) cut--;
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/**
+ * Lays out report content top-down across as many pages as needed,
+ * collecting one PDF content stream per page.
+ */
+class ReportLayout {
+  pages: string[][] = [[]];
+  private y = PAGE_HEIGHT - MARGIN;
+
+  private get ops(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  ensureSpace(height: number): void {
+    if (this.y - height < MARGIN + FOOTER_HEIGHT) {
+      this.pages.push([]);
+      this.y = PAGE_HEIGHT - MARGIN;
+    }
+  }
+
+  space(height: number): void {
+    this.y -= height;
+  }
+
+  text(text: string, options: { font?: FontKey; size?: number; color?: [number, number, number]; indent?: number } = {}): void {
+    const { font = 'F1', size = 10, color = [0.1, 0.1, 0.1], indent = 0 } = options;
+    const leading = size * 1.35;
+    for (const line of wrapText(toWinAnsi(text), font, size, CONTENT_WIDTH - indent)) {
+      this.ensureSpace(leading);
+      this.y -= leading;
+      this.ops.push(
+        `BT /${font} ${size} Tf ${color.join(' ')} rg ${(MARGIN + indent).toFixed(2)} ${this.y.toFixed(2)} Td (${escapePdfString(line)}) Tj ET`,
+      );
+    }
+  }
+
+  rule(): void {
+    this.ensureSpace(10);
+    this.y -= 6;
+    this.ops.push(`0.75 0.75 0.75 RG 0.5 w ${MARGIN} ${this.y.toFixed(2)} m ${PAGE_WIDTH - MARGIN} ${this.y.toFixed(2)} l S`);
+    this.y -= 4;
+  }
+
+  heading(text: string): void {
+    this.ensureSpace(40);
+    this.space(8);
+    this.text(text, { font: 'F2', size: 13, color: [0.05, 0.15, 0.35] });
+    this.rule();
+  }
+
+  /**
+   * Draws a QR code as vector squares with its top-left corner at the current cursor.
+   */
+  qrCode(payload: string, size: number): void {
+    const modules = QRCode.create(payload, { errorCorrectionLevel: 'M' }).modules;
+    const quiet = 2;
+    const cell = size / (modules.size + quiet * 2);
+    this.ensureSpace(size);
+    const top = this.y;
+    const rects: string[] = [];
+    for (let row = 0; row < modules.size; row++) {
+      for (let col = 0; col < modules.size; col++) {
+        if (!modules.get(row, col)) continue;
+        const x = MARGIN + (col + quiet) * cell;
+        const y = top - (row + quiet + 1) * cell;
+        rects.push(`${x.toFixed(3)} ${y.toFixed(3)} ${cell.toFixed(3)} ${cell.toFixed(3)} re`);
+      }
+    }
+    this.ops.push(`q 0 0 0 rg ${rects.join(' ')} f Q`);
+    this.y = top - size;
+  }
+}
+
+/**
+ * Centred watermark: the VERUM OMNIS emblem (concentric rings) behind rotated lettering.
+ */
+function watermarkOps(): string {
+  const cx = PAGE_WIDTH / 2;
+  const cy = PAGE_HEIGHT / 2;
+  const ring = (r: number) => {
+    const k = r * 0.5523;
+    return `${cx + r} ${cy} m ${cx + r} ${cy + k} ${cx + k} ${cy + r} ${cx} ${cy + r} c ` +
+      `${cx - k} ${cy + r} ${cx - r} ${cy + k} ${cx - r} ${cy} c ` +
+      `${cx - r} ${cy - k} ${cx - k} ${cy - r} ${cx} ${cy - r} c ` +
+      `${cx + k} ${cy - r} ${cx + r} ${cy - k} ${cx + r} ${cy} c S`;
+  };
+  const label = 'VERUM OMNIS';
+  const size = 64;
+  const half = textWidth(label, 'F2', size) / 2;
+  return [
+    'q /GS1 gs 0.1 0.2 0.45 RG 0.1 0.2 0.45 rg 6 w',
+    ring(170),
+    '2 w',
+    ring(150),
+    // Offset copy of the lettering gives the mark its layered, three-dimensional look.
+    `BT /F2 ${size} Tf 0.7071 0.7071 -0.7071 0.7071 ${cx + 3} ${cy - 3} Tm ${-half} ${-size / 3} Td (${label}) Tj ET`,
+    `BT /F2 ${size} Tf 0.7071 0.7071 -0.7071 0.7071 ${cx} ${cy} Tm ${-half} ${-size / 3} Td (${label}) Tj ET`,
+    'Q',
+  ].join('\n');
+}
+
+function footerOps(pageNumber: number, pageCount: number, reportHash: string, label: string): string {
+  const text = `Verum Omnis ${label} - Page ${pageNumber} of ${pageCount} - Report SHA-512 ${reportHash.substring(0, 32)}...`;
+  return `BT /F1 7 Tf 0.45 0.45 0.45 rg ${MARGIN} ${MARGIN / 2} Td (${escapePdfString(text)}) Tj ET`;
+}
+
+function pdfDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+/**
+ * Serialises laid-out pages into a PDF 1.7 file with a classic cross-reference table.
+ */
+function buildPdf(pages: string[], info: Record<string, string>): Uint8Array {
+  const objects: string[] = [];
+  const add = (body: string) => {
+    objects.push(body);
+    return objects.length;
+  };
+
+  const catalogId = add('');
+  const pagesId = add('');
+  const fontIds = (Object.keys(FONTS) as FontKey[]).map(key =>
+    `/${key} ${add(`<< /Type /Font /Subtype /Type1 /BaseFont /${FONTS[key]} /Encoding /WinAnsiEncoding >>`)} 0 R`);
+  const gsId = add('<< /Type /ExtGState /ca 0.07 /CA 0.07 >>');
+  const resources = `<< /Font << ${fontIds.join(' ')} >> /ExtGState << /GS1 ${gsId} 0 R >> >>`;
+
+  const pageIds = pages.map(content => {
+    const contentId = add(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    return add(`<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources ${resources} /Contents ${contentId} 0 R >>`);
+  });
+
+  objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+  objects[pagesId - 1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+  const infoId = add(`<< ${Object.entries(info).map(([k, v]) => `/${k} (${escapePdfString(toWinAnsi(v))})`).join(' ')} >>`);
+
+  // The binary comment marks the file as 8-bit for transfer tools.
+  let out = '%PDF-1.7\n%âãÏÓ\n';
+  const offsets: number[] = [];
+  objects.forEach((body, index) => {
+    offsets.push(out.length);
+    out += `${index + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xrefOffset = out.length;
+  out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  out += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  out += `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  // Every character is within Latin-1 at this point, so one char maps to one byte.
+  return Uint8Array.from(out, ch => ch.charCodeAt(0));
+}
+
+/**
+ * Builds the canonical, order-stable payload the report hash is computed over.
+ */
+function canonicalPayload(messages: ChatMessage[], attachments: Attachment[], notes: CaseNote[], generatedAt: Date): string {
+  return JSON.stringify({
+    generatedAt: generatedAt.toISOString(),
+    files: attachments.map(f => ({ name: f.name, sha512: f.hash })),
+    notes: notes.map(n => ({ id: n.id, title: n.title, body: n.body, provenance: n.provenance ?? null })),
+    transcript: messages
+      .filter(m => !m.isLoading)
+      .map(m => ({
+        id: m.id,
+        sender: m.sender,
+        timestamp: new Date(m.timestamp).toISOString(),
+        text: m.text,
+        responses: m.responses ?? null,
+        consensus: m.consensus ?? null,
+        consensusText: m.consensusText ?? null,
+        isDivergent: m.isDivergent ?? null,
+        constitution: m.constitution ?? null,
+        sources: m.sources ?? null,
+      })),
+  });
+}
+
+const SENDER_LABELS: Record<MessageSender, string> = {
+  [MessageSender.USER]: 'USER',
+  [MessageSender.MODEL]: 'VERUM OMNIS (MULTI-AI)',
+  [MessageSender.SYSTEM]: 'SYSTEM',
+};
+
+/**
+ * Generates a sealed PDF 1.7 forensic report for the current case.
+ * The report hash is the SHA-512 of the canonical transcript, file list and notes; it is printed
+ * in the seal block and encoded in the QR code so a printed copy can be checked against the data.
+ * A seal line recording the SHA-512 of the finished document is appended after %%EOF.
+ * @param messages The chat transcript to include.
+ * @param attachments The case files whose SHA-512 hashes are listed as evidence.
+ * @param notes The case notes, printed with the provenance of excerpts promoted from answers.
+ * @param signer The investigator's key, if one is unlocked, to sign the seal with.
+ * @returns A promise that resolves with the PDF blob and its report hash.
+ */
+export async function generateSealedReport(
+  messages: ChatMessage[],
+  attachments: Attachment[],
+  notes: CaseNote[] = [],
+  signer: SigningIdentity | null = null,
+): Promise<SealedReport> {
+  const generatedAt = new Date();
+  const reportHash = await calculateSHA512FromBytes(canonicalPayload(messages, attachments, notes, generatedAt));
+  const layout = new ReportLayout();
+
+  layout.text('VERUM OMNIS', { font: 'F2', size: 20, color: [0.05, 0.15, 0.35] });
+  layout.text('Sealed Forensic Report', { font: 'F2', size: 14 });
+  layout.space(4);
+  layout.text(`Generated: ${generatedAt.toISOString()}`, { size: 9, color: [0.35, 0.35, 0.35] });
+  layout.text('Hash standard: SHA-512 - Format: PDF 1.7 - Tamper detection: mandatory', { size: 9, color: [0.35, 0.35, 0.35] });
+
+  layout.heading(`Evidence Files (${attachments.length})`);
+  if (attachments.length === 0) {
+    layout.text('No files were added to this case.', { color: [0.4, 0.4, 0.4] });
+  }
+  attachments.forEach((file, index) => {
+    layout.ensureSpace(50);
+    layout.text(`${index + 1}. ${file.name}`, { font: 'F2', size: 10 });
+    layout.text(`SHA-512: ${file.hash}`, { font: 'F3', size: 7.5, indent: 12 });
+    layout.space(4);
+  });
+
+  if (notes.length > 0) {
+    layout.heading(`Case Notes (${notes.length})`);
+    for (const note of notes) {
+      layout.ensureSpace(40);
+      layout.text(note.title, { font: 'F2', size: 10 });
+      const provenance = note.provenance;
+      if (provenance) {
+        const from = [provenance.source, provenance.provider, provenance.model].filter(Boolean).join(', ');
+        layout.text(`Excerpt of the answer of ${provenance.answeredAt} (${from}), promoted ${provenance.promotedAt}`, { size: 8, indent: 12, color: [0.35, 0.35, 0.35] });
+        layout.text(`Excerpt SHA-512: ${provenance.excerptHash}`, { font: 'F3', size: 6.5, indent: 12, color: [0.35, 0.35, 0.35] });
+      }
+      layout.text(markdownToPlainText(plainNoteText(note.body)), { indent: 12 });
+      layout.space(6);
+    }
+  }
+
+  layout.heading('Transcript');
+  for (const message of messages.filter(m => !m.isLoading)) {
+    layout.ensureSpace(40);
+    layout.text(`[${new Date(message.timestamp).toISOString()}] ${SENDER_LABELS[message.sender]}`, { font: 'F2', size: 9, color: [0.3, 0.3, 0.3] });
+    if (message.sender === MessageSender.MODEL && message.responses?.length) {
+      const consensus = message.consensus;
+      const hasMajority = !!consensus && consensus.majority.length > 0;
+      const labelOf = (slotId: string) => message.responses!.find(r => r.slotId === slotId)?.label || slotId;
+      const voters = consensus ? consensus.majority.length + consensus.minority.length : 0;
+      const verdict = !consensus
+        ? 'NOT EVALUATED - too few provider answers finished; human review required'
+        : !message.isDivergent
+          ? 'CONSENSUS VERIFIED'
+          : hasMajority
+            ? `MAJORITY ${consensus.majority.length}/${voters} - dissent from ${consensus.minority.map(labelOf).join(', ')}; human review required`
+            : 'DIVERGENT - provider responses disagree; human review required';
+      layout.text(`Consensus verdict: ${verdict}`, { font: 'F2', size: 10, color: message.isDivergent ? [0.7, 0.35, 0] : [0, 0.45, 0.15] });
+      if (message.constitution) {
+        layout.text(`Constitution v${message.constitution.version}, SHA-512 ${message.constitution.hash}`, { font: 'F3', size: 6.5, indent: 12, color: [0.35, 0.35, 0.35] });
+      }
+      for (const response of message.responses) {
+        const state = response.status === 'cancelled'
+          ? ' - CANCELLED, partial answer'
+          : response.error ? ` - UNAVAILABLE: ${FAILURE_LABELS[response.error.kind]}, did not vote` : '';
+        layout.text(`${response.label} (${response.provider}, ${response.model})${state}`, { font: 'F2', size: 9, indent: 12 });
+        if (response.latencyMs !== undefined) {
+          const usage = response.usage ? `, ${response.usage.inputTokens} input / ${response.usage.outputTokens} output tokens${response.usage.estimated ? ' (estimated)' : ''}` : '';
+          const attempts = response.attempts && response.attempts > 1 ? `, ${response.attempts} attempts` : '';
+          layout.text(`Latency ${response.latencyMs} ms${usage}${attempts}`, { size: 8, indent: 12, color: [0.35, 0.35, 0.35] });
+        }
+        layout.text(response.error ? response.error.message : markdownToPlainText(response.text || 'No response.'), { indent: 12 });
+        if (response.citations) {
+          const flagged = response.citations.filter(c => c.status !== 'verified');
+          layout.text(`Citations: ${response.citations.length - flagged.length} of ${response.citations.length} verified against the case files`, { size: 8, indent: 12, color: [0.35, 0.35, 0.35] });
+          for (const check of flagged) {
+            layout.text(`[${check.citation}] ${check.status.toUpperCase()}: ${check.detail}`, { size: 8, indent: 24, color: isFabricated(check) ? [0.7, 0.1, 0.1] : [0.7, 0.35, 0] });
+          }
+        }
+      }
+      if (consensus?.claims.length) {
+        layout.text('Claim-by-claim agreement', { font: 'F2', size: 9, indent: 12 });
+      }
+      for (const claim of consensus?.claims || []) {
+        const statements = claim.statements.map(s => `${labelOf(s.slotId)}: ${s.text}`).join(' | ');
+        layout.text(`[${claim.status.toUpperCase()}] ${statements}`, { size: 9, indent: 12, color: claim.status === 'disputed' ? [0.7, 0.1, 0.1] : [0.1, 0.1, 0.1] });
+        if (claim.conflict) layout.text(claim.conflict, { size: 8, indent: 24, color: [0.7, 0.1, 0.1] });
+      }
+      if (message.consensusText) {
+        layout.text(message.isDivergent ? 'Majority answer' : 'Consensus answer', { font: 'F2', size: 9, indent: 12 });
+        layout.text(markdownToPlainText(message.consensusText), { indent: 12 });
+      }
+      const cited = (message.sources || []).filter(source => source.cited);
+      if (cited.length > 0) {
+        layout.text('Sources cited', { font: 'F2', size: 9, indent: 12 });
+        for (const source of cited) {
+          layout.text(`[${source.label}] ${source.fileName}, lines ${source.lineStart}-${source.lineEnd}, SHA-512 ${source.fileHash.substring(0, 32)}...`, { size: 8, indent: 12 });
+        }
+      }
+    } else {
+      layout.text(markdownToPlainText(message.text));
+    }
+    layout.space(8);
+  }
+
+  layout.heading('Seal');
+  layout.text('Report SHA-512 (computed over the file list, notes and transcript above):', { size: 9 });
+  layout.text(reportHash, { font: 'F3', size: 7.5 });
+  layout.space(8);
+  layout.qrCode(`VO-SHA512:${reportHash}`, 120);
+  layout.space(4);
+  layout.text('The QR code encodes the report SHA-512. Any alteration of the listed files, notes or transcript changes this value.', { size: 8, color: [0.35, 0.35, 0.35] });
+
+  return sealDocument(layout, reportHash, generatedAt, { title: 'Verum Omnis Sealed Forensic Report', footer: 'sealed report', fileName: 'verum-omnis-report' }, signer);
+}
+
+/**
+ * What a seal's signature covers: both of its hashes, and through them the whole document.
+ */
+export function sealPayload(reportHash: string, documentHash: string): string {
+  return `report-sha512=${reportHash} document-sha512=${documentHash}`;
+}
+
+/**
+ * Adds the watermark and footers, builds the PDF and appends the seal line recording the document's SHA-512,
+ * signed when the investigator's key is unlocked.
+ */
+async function sealDocument(
+  layout: ReportLayout,
+  reportHash: string,
+  generatedAt: Date,
+  kind: { title: string; footer: string; fileName: string },
+  signer: SigningIdentity | null,
+): Promise<SealedReport> {
+  layout.space(4);
+  layout.text(signer
+    ? `Signed by ${signer.owner} with key ${formatKeyId(signer.keyId)} (${SIGNATURE_ALGORITHM}). The signature is in the seal line after the document.`
+    : 'Not signed: no signing key was unlocked when this document was sealed.', { size: 8, color: [0.35, 0.35, 0.35] });
+  const watermark = watermarkOps();
+  const pageCount = layout.pages.length;
+  const contents = layout.pages.map((ops, index) =>
+    [watermark, ...ops, footerOps(index + 1, pageCount, reportHash, kind.footer)].join('\n'));
+
+  const bytes = buildPdf(contents, {
+    Title: kind.title,
+    Producer: 'Verum Omnis',
+    CreationDate: pdfDate(generatedAt),
+    Subject: `SHA-512 ${reportHash}`,
+  });
+
+  const documentHash = await calculateSHA512FromBytes(bytes);
+  const payload = sealPayload(reportHash, documentHash);
+  const signature = signer ? await sign(signer, payload) : undefined;
+  const signed = signature ? ` key=${signature.keyId} signature=${signature.value}` : '';
+  const sealLine = Uint8Array.from(`${SEAL_PREFIX} ${payload}${signed}\n`, ch => ch.charCodeAt(0));
+  const sealed = new Uint8Array(bytes.length + sealLine.length);
+  sealed.set(bytes);
+  sealed.set(sealLine, bytes.length);
+
+  return {
+    fileName: `${kind.fileName}-${generatedAt.toISOString().replace(/[:.]/g, '-')}.pdf`,
+    blob: new Blob([sealed], { type: 'application/pdf' }),
+    reportHash,
+    documentHash,
+    fileHash: await calculateSHA512FromBytes(sealed),
+    generatedAt,
+    signature,
+  };
+}
+
+/**
+ * Generates a sealed chain-of-custody sheet for case files: for each file, its hash, how and when it was
+ * received, who provided it, and every event since. It is sealed like a report, over the canonical JSON
+ * of the records it prints, so the verifier recognises it.
+ * @param attachments The files to cover.
+ * @param caseName The case the files belong to, if it has been saved.
+ * @param signer The investigator's key, if one is unlocked, to sign the seal with.
+ */
+export async function generateCustodySheet(attachments: Attachment[], caseName?: string, signer: SigningIdentity | null = null): Promise<SealedReport> {
+  const generatedAt = new Date();
+  const records = attachments.map(file => ({ file, custody: custodyOf(file) }));
+  const sheetHash = await calculateSHA512FromBytes(JSON.stringify({
+    generatedAt: generatedAt.toISOString(),
+    case: caseName ?? null,
+    files: records.map(({ file, custody }) => ({ name: file.name, sha512: file.hash, custody })),
+  }));
+  const layout = new ReportLayout();
+  const muted: [number, number, number] = [0.35, 0.35, 0.35];
+
+  layout.text('VERUM OMNIS', { font: 'F2', size: 20, color: [0.05, 0.15, 0.35] });
+  layout.text('Chain of Custody', { font: 'F2', size: 14 });
+  layout.space(4);
+  if (caseName) layout.text(`Case: ${caseName}`, { size: 9, color: muted });
+  layout.text(`Generated: ${generatedAt.toISOString()}`, { size: 9, color: muted });
+  layout.text(`Files: ${attachments.length} - Hash standard: SHA-512`, { size: 9, color: muted });
+
+  records.forEach(({ file, custody }, index) => {
+    layout.heading(`${index + 1}. ${file.name}`);
+    layout.text(`SHA-512: ${file.hash}`, { font: 'F3', size: 7.5 });
+    layout.space(4);
+    const fields: [string, string | undefined][] = [
+      ['Original file name', custody.originalName],
+      ['Last modified (file system)', custody.lastModified],
+      ['Size', custody.size !== undefined ? `${custody.size} bytes` : undefined],
+      ['Type', custody.mimeType],
+      ['Received', custody.receivedAt],
+      ['Provided by', custody.providedBy],
+      ['Received via', custody.receivedVia],
+      ['Acquisition device', custody.acquisitionDevice],
+    ];
+    for (const [label, value] of fields) {
+      layout.text(`${label}: ${value || 'Not recorded'}`, { size: 9, color: value ? [0.1, 0.1, 0.1] : muted });
+    }
+    layout.space(4);
+    layout.text(`Custody events (${custody.events.length})`, { font: 'F2', size: 9 });
+    if (custody.events.length === 0) {
+      layout.text('None recorded; the file was added before custody was recorded.', { size: 8, indent: 12, color: muted });
+    }
+    for (const event of custody.events) {
+      layout.ensureSpace(30);
+      layout.text(`${event.at} ${CUSTODY_EVENT_LABELS[event.kind]}: ${event.summary}`, { size: 8.5, indent: 12 });
+      const received = event.lastModified ? `File last modified ${event.lastModified}. ` : '';
+      layout.text(`${received}Device: ${event.device}`, { size: 7, indent: 24, color: muted });
+    }
+  });
+
+  layout.heading('Seal');
+  layout.text('Sheet SHA-512 (computed over the file records and custody events above):', { size: 9 });
+  layout.text(sheetHash, { font: 'F3', size: 7.5 });
+  layout.space(8);
+  layout.qrCode(`VO-SHA512:${sheetHash}`, 120);
+  layout.space(4);
+  layout.text('The QR code encodes the sheet SHA-512. Any alteration of the records or events changes this value.', { size: 8, color: muted });
+
+  return sealDocument(layout, sheetHash, generatedAt, { title: 'Verum Omnis Chain of Custody', footer: 'custody sheet', fileName: 'verum-omnis-custody' }, signer);
+}
+
+/**
+ * Reads the seal line appended to a report by generateSealedReport.
+ * @param bytes The full contents of a PDF file.
+ * @returns The recorded hashes and the length of the sealed document body, or null if the file carries no seal.
+ */
+export function readReportSeal(bytes: Uint8Array): ReportSeal | null {
+  // The seal line is ASCII and always sits within the last few hundred bytes.
+  const tailStart = Math.max(0, bytes.length - 800);
+  const tail = String.fromCharCode(...bytes.subarray(tailStart));
+  const match = SEAL_PATTERN.exec(tail);
+  if (!match) return null;
+  return {
+    reportHash: match[1],
+    documentHash: match[2],
+    documentLength: tailStart + match.index,
+    signature: match[3] ? { keyId: match[3], value: match[4] } : undefined,
+  };
+}
@@ -0,0 +1,173 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AiProvider, ApiKeys, ConsensusSlot, ProviderConfig, ProviderKind, ProviderSettings } from '../types';
+import { geminiProvider } from './providers/geminiProvider';
+import { openAiProvider } from './providers/openAiProvider';
+import { anthropicProvider } from './providers/anthropicProvider';
+import { ollamaProvider } from './providers/ollamaProvider';
+import { requiresTripleConsensus } from './governanceService';
+
+const SETTINGS_KEY = 'verum-omnis.provider-settings';
+
+// API keys are held in memory for the session and, once the case folder is unlocked, stored encrypted in it.
+// Local storage only ever gets the settings without them.
+let sessionApiKeys: ApiKeys = {};
+
+const PROVIDERS: Record<ProviderKind, AiProvider> = {
+  gemini: geminiProvider,
+  openai: openAiProvider,
+  anthropic: anthropicProvider,
+  ollama: ollamaProvider,
+};
+
+/**
+ * Returns every registered provider backend.
+ */
+export function listProviders(): AiProvider[] {
+  return Object.values(PROVIDERS);
+}
+
+/**
+ * Looks up a provider backend by kind.
+ * @throws If no provider of that kind is registered.
+ */
+export function getProvider(kind: ProviderKind): AiProvider {
+  const provider = PROVIDERS[kind];
+  if (!provider) {
+    throw new Error(`Unknown AI provider: ${kind}`);
+  }
+  return provider;
+}
+
+/**
+ * The out-of-the-box setup: Gemini slots with complementary system prompts.
+ * The third slot only votes in high-risk cases.
+ */
+export function getDefaultProviderSettings(): ProviderSettings {
+  const providers = Object.fromEntries(
+    listProviders().map(p => [p.kind, { apiKey: '', baseUrl: p.defaultBaseUrl, model: p.defaultModel }]),
+  ) as Record<ProviderKind, ProviderConfig>;
+  return {
+    providers,
+    slots: [
+      {
+        id: 'slot-1',
+        label: 'Provider 1',
+        provider: 'gemini',
+        systemInstruction: "You are a helpful legal assistant. Provide a clear, concise, and direct answer based on the provided context.",
+      },
+      {
+        id: 'slot-2',
+        label: 'Provider 2',
+        provider: 'gemini',
+        systemInstruction: "You are a cautious forensic AI. Analyze the context carefully and provide a detailed, descriptive answer, noting any ambiguities.",
+      },
+      {
+        id: 'slot-3',
+        label: 'Provider 3',
+        provider: 'gemini',
+        systemInstruction: "You are an independent forensic reviewer. Verify each fact against the provided context and state plainly anything that is unsupported or contradicted.",
+      },
+    ],
+    retrieval: { tokenBudget: 6000, maxPassages: 24, embeddingModel: '' },
+    resilience: { timeoutSeconds: 90, maxRetries: 2 },
+    memory: { historyTokenBudget: 3000 },
+    transcription: { baseUrl: 'http://localhost:8000/v1', model: 'Systran/faster-whisper-small', language: '' },
+  };
+}
+
+/**
+ * The API keys entered in a set of settings.
+ */
+export function apiKeysOf(settings: Pick<ProviderSettings, 'providers'>): ApiKeys {
+  const keys: ApiKeys = {};
+  for (const [kind, config] of Object.entries(settings.providers || {}) as [ProviderKind, ProviderConfig][]) {
+    if (config?.apiKey) keys[kind] = config.apiKey;
+  }
+  return keys;
+}
+
+function withoutApiKeys<T extends Partial<ProviderSettings>>(settings: T): T {
+  const providers = Object.fromEntries(Object.entries(settings.providers || {}).map(([kind, { apiKey, ...config }]) => [kind, config]));
+  return { ...settings, providers };
+}
+
+/**
+ * Replaces the API keys held for this session, e.g. with those decrypted from the case folder.
+ */
+export function setSessionApiKeys(keys: ApiKeys): void {
+  sessionApiKeys = { ...keys };
+}
+
+/**
+ * Loads provider settings from local storage, filling anything missing from the defaults, with the API keys
+ * held for this session.
+ */
+export function loadProviderSettings(): ProviderSettings {
+  const defaults = getDefaultProviderSettings();
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}') as Partial<ProviderSettings>;
+    const providers = { ...defaults.providers };
+    for (const kind of Object.keys(providers) as ProviderKind[]) {
+      providers[kind] = { ...providers[kind], ...stored.providers?.[kind], apiKey: sessionApiKeys[kind] || '' };
+    }
+    return {
+      providers,
+      slots: stored.slots?.length ? stored.slots : defaults.slots,
+      retrieval: { ...defaults.retrieval, ...stored.retrieval },
+      resilience: { ...defaults.resilience, ...stored.resilience },
+      memory: { ...defaults.memory, ...stored.memory },
+      transcription: { ...defaults.transcription, ...stored.transcription },
+    };
+  } catch {
+    return defaults;
+  }
+}
+
+/**
+ * Persists provider settings to local storage, without the API keys, which are held for the session.
+ * Call saveApiKeys as well to keep the keys in the unlocked case folder.
+ */
+export function saveProviderSettings(settings: ProviderSettings): void {
+  sessionApiKeys = apiKeysOf(settings);
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(withoutApiKeys(settings)));
+}
+
+/**
+ * Resolves the effective configuration for a consensus slot.
+ */
+export function resolveSlotConfig(settings: ProviderSettings, slot: ConsensusSlot): ProviderConfig {
+  const base = settings.providers[slot.provider];
+  return { ...base, model: slot.model || base.model };
+}
+
+/**
+ * Describes why the slots a query would use cannot run, e.g. a missing API key.
+ * @param settings The provider bindings.
+ * @param highRisk Whether every slot votes (triple-AI consensus) rather than the first two.
+ * @returns One message per problem; empty when every slot is usable.
+ */
+export function getConfigurationIssues(settings: ProviderSettings, highRisk = false): string[] {
+  const issues: string[] = [];
+  const slots = highRisk ? settings.slots : settings.slots.slice(0, 2);
+  if (highRisk && requiresTripleConsensus() && slots.length < 3) {
+    issues.push('High-risk cases need at least 3 provider slots for triple-AI consensus.');
+  }
+  for (const slot of slots) {
+    const provider = getProvider(slot.provider);
+    const config = resolveSlotConfig(settings, slot);
+    const hasKey = !!config.apiKey || (slot.provider === 'gemini' && !!process.env.API_KEY);
+    // Custom endpoints (local servers, mocks) may not need a key.
+    const isDefaultEndpoint = (config.baseUrl || '') === provider.defaultBaseUrl;
+    if (provider.requiresApiKey && !hasKey && isDefaultEndpoint) {
+      issues.push(`${slot.label} (${provider.label}) has no API key configured.`);
+    }
+    if (!config.model) {
+      issues.push(`${slot.label} (${provider.label}) has no model configured.`);
+    }
+  }
+  return issues;
+}
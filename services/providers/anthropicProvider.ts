@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AiProvider, ProviderConfig, ProviderOutput, ProviderRequest } from '../../types';
+import { historyMessages, joinUrl, postJson, postJsonStream } from './http';
+import { ProviderError } from './resilience';
+
+const DEFAULT_BASE_URL = 'https://api.anthropic.com';
+const ANTHROPIC_VERSION = '2023-06-01';
+const MAX_TOKENS = 4096;
+
+interface MessagesResponse {
+  content: { type: string; text?: string }[];
+  stop_reason?: string;
+}
+
+// The stream events this provider reads; others (pings, block starts and stops) are ignored.
+interface MessagesStreamEvent {
+  type: string;
+  message?: { usage?: { input_tokens: number } }; // message_start
+  delta?: { type?: string; text?: string; stop_reason?: string }; // content_block_delta, message_delta
+  usage?: { output_tokens: number }; // message_delta
+  error?: { type?: string; message: string };
+}
+
+const refused = () => new ProviderError('safety_blocked', 'Claude declined to answer (stop_reason: refusal).');
+
+const bodyOf = (request: ProviderRequest, config: ProviderConfig) => ({
+  model: config.model,
+  max_tokens: MAX_TOKENS,
+  system: request.systemInstruction,
+  messages: [...historyMessages(request), { role: 'user', content: request.prompt }],
+});
+
+const headersOf = (config: ProviderConfig) => ({
+  'x-api-key': config.apiKey || '',
+  'anthropic-version': ANTHROPIC_VERSION,
+  // Required for calls made directly from the browser.
+  'anthropic-dangerous-direct-browser-access': 'true',
+});
+
+export const anthropicProvider: AiProvider = {
+  kind: 'anthropic',
+  label: 'Anthropic Claude',
+  defaultModel: 'claude-sonnet-4-5',
+  defaultBaseUrl: DEFAULT_BASE_URL,
+  requiresApiKey: true,
+  async generate(request: ProviderRequest, config: ProviderConfig): Promise<string> {
+    const response = await postJson<MessagesResponse>(
+      joinUrl(config.baseUrl || DEFAULT_BASE_URL, 'v1/messages'),
+      bodyOf(request, config),
+      headersOf(config),
+      request.signal,
+    );
+    if (response.stop_reason === 'refusal') throw refused();
+    return response.content.filter(block => block.type === 'text').map(block => block.text).join('');
+  },
+  async stream(request: ProviderRequest, config: ProviderConfig, onText: (delta: string) => void): Promise<ProviderOutput> {
+    const output: ProviderOutput = { text: '' };
+    let inputTokens = 0;
+    await postJsonStream<MessagesStreamEvent>(
+      joinUrl(config.baseUrl || DEFAULT_BASE_URL, 'v1/messages'),
+      { ...bodyOf(request, config), stream: true },
+      headersOf(config),
+      (event: MessagesStreamEvent) => {
+        if (event.type === 'error') {
+          // Errors after the stream has started arrive as events, e.g. overloaded_error.
+          const kind = event.error?.type === 'rate_limit_error' ? 'rate_limited' : 'server';
+          throw new ProviderError(kind, event.error?.message || 'The stream reported an error.');
+        }
+        if (event.type === 'message_delta' && event.delta?.stop_reason === 'refusal') throw refused();
+        if (event.type === 'message_start') inputTokens = event.message?.usage?.input_tokens || 0;
+        if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta' && event.delta.text) {
+          output.text += event.delta.text;
+          onText(event.delta.text);
+        }
+        if (event.type === 'message_delta' && event.usage) output.usage = { inputTokens, outputTokens: event.usage.output_tokens };
+      },
+      request.signal,
+    );
+    return output;
+  },
+};
@@ -0,0 +1,108 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GoogleGenAI, GenerateContentResponse, HarmCategory, HarmBlockThreshold, Content, FinishReason } from "@google/genai";
+import { AiProvider, ProviderConfig, ProviderOutput, ProviderRequest } from '../../types';
+import { ProviderError } from './resilience';
+
+const instances = new Map<string, GoogleGenAI>();
+
+const getAiInstance = (config: ProviderConfig): GoogleGenAI => {
+  const apiKey = config.apiKey || process.env.API_KEY;
+  if (!apiKey) {
+    throw new ProviderError('auth', "Gemini API Key not configured. Set process.env.API_KEY or add a key in provider settings.");
+  }
+  const cacheKey = `${apiKey}|${config.baseUrl || ''}`;
+  let ai = instances.get(cacheKey);
+  if (!ai) {
+    ai = new GoogleGenAI({ apiKey, ...(config.baseUrl ? { httpOptions: { baseUrl: config.baseUrl } } : {}) });
+    instances.set(cacheKey, ai);
+  }
+  return ai;
+};
+
+const HARM_CATEGORIES = [
+  HarmCategory.HARM_CATEGORY_HARASSMENT,
+  HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+  HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+  HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+];
+
+// Finish reasons that mean the answer was withheld by a filter rather than completed.
+const BLOCKING_FINISH_REASONS: string[] = [FinishReason.SAFETY, FinishReason.PROHIBITED_CONTENT, FinishReason.BLOCKLIST, FinishReason.SPII];
+
+const paramsOf = (request: ProviderRequest, config: ProviderConfig) => {
+  const contents: Content[] = [
+    ...(request.history || []).map(turn => ({ role: turn.role, parts: [{ text: turn.text }] })),
+    { role: "user", parts: [{ text: request.prompt }] },
+  ];
+  const threshold = (config.safetyThreshold as HarmBlockThreshold | undefined) || HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE;
+  return {
+    model: config.model,
+    contents: contents,
+    config: {
+      systemInstruction: request.systemInstruction,
+      safetySettings: HARM_CATEGORIES.map(category => ({ category, threshold })),
+      abortSignal: request.signal,
+    },
+  };
+};
+
+const categoryLabel = (category?: string) => (category || '').replace(/^HARM_CATEGORY_/, '').replace(/_/g, ' ').toLowerCase();
+
+/**
+ * Detects a prompt or answer withheld by Gemini's safety filters. Abuse evidence often trips them,
+ * so this is reported as its own failure rather than as an empty answer.
+ */
+function safetyBlock(response: GenerateContentResponse): ProviderError | null {
+  const feedback = response.promptFeedback;
+  const candidate = response.candidates?.[0];
+  const blockedPrompt = !!feedback?.blockReason;
+  if (!blockedPrompt && !BLOCKING_FINISH_REASONS.includes(candidate?.finishReason || '')) return null;
+  const ratings = (blockedPrompt ? feedback?.safetyRatings : candidate?.safetyRatings) || [];
+  const flagged = ratings.filter(r => r.blocked);
+  const categories = (flagged.length > 0 ? flagged : ratings.filter(r => r.probability === 'HIGH' || r.probability === 'MEDIUM'))
+    .map(r => categoryLabel(r.category));
+  const reason = blockedPrompt ? feedback!.blockReason : candidate!.finishReason;
+  return new ProviderError(
+    'safety_blocked',
+    `Gemini withheld the ${blockedPrompt ? 'request' : 'answer'} (${reason}${categories.length > 0 ? `: ${categories.join(', ')}` : ''}).`,
+    { safetyCategories: categories },
+  );
+}
+
+export const geminiProvider: AiProvider = {
+  kind: 'gemini',
+  label: 'Google Gemini',
+  defaultModel: 'gemini-2.5-flash',
+  defaultBaseUrl: '',
+  requiresApiKey: true,
+  async generate(request: ProviderRequest, config: ProviderConfig): Promise<string> {
+    const response: GenerateContentResponse = await getAiInstance(config).models.generateContent(paramsOf(request, config));
+    const blocked = safetyBlock(response);
+    if (blocked) throw blocked;
+    return response.text || '';
+  },
+  async stream(request: ProviderRequest, config: ProviderConfig, onText: (delta: string) => void): Promise<ProviderOutput> {
+    const output: ProviderOutput = { text: '' };
+    const chunks = await getAiInstance(config).models.generateContentStream(paramsOf(request, config));
+    for await (const chunk of chunks) {
+      // The SDK only checks the signal between requests; stop reading a stream that was cancelled.
+      request.signal?.throwIfAborted();
+      const blocked = safetyBlock(chunk);
+      if (blocked) throw blocked;
+      const delta = chunk.text;
+      if (delta) {
+        output.text += delta;
+        onText(delta);
+      }
+      const usage = chunk.usageMetadata;
+      if (usage?.candidatesTokenCount !== undefined) {
+        output.usage = { inputTokens: usage.promptTokenCount || 0, outputTokens: usage.candidatesTokenCount };
+      }
+    }
+    return output;
+  },
+};
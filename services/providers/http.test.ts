@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { postJsonStream } from './http';
+
+// A stream that sends the given lines and records whether the reader cancelled it.
+function mockStream(lines: string[]) {
+  const state = { cancelled: false };
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const line of lines) controller.enqueue(new TextEncoder().encode(`${line}\n`));
+      // Left open, like a provider still generating.
+    },
+    cancel() {
+      state.cancelled = true;
+    },
+  });
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(body)));
+  return state;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('postJsonStream', () => {
+  it('parses server-sent events and newline-delimited JSON, skipping markers', async () => {
+    const events: unknown[] = [];
+    const state = mockStream(['event: delta', 'data: {"a":1}', '', '{"a":2}', 'data: [DONE]']);
+    const pending = postJsonStream<{ a: number }>('http://localhost/x', {}, {}, event => {
+      events.push(event);
+      if (event.a === 2) throw new Error('stop');
+    });
+    await expect(pending).rejects.toThrow('stop');
+    expect(events).toEqual([{ a: 1 }, { a: 2 }]);
+    expect(state.cancelled).toBe(true);
+  });
+
+  it('cancels the stream when a line is not JSON', async () => {
+    const state = mockStream(['data: {"a":1}', 'data: <html>']);
+    const pending = postJsonStream('http://localhost/x', {}, {}, () => {});
+    await expect(pending).rejects.toThrow('not JSON');
+    await expect(pending).rejects.toMatchObject({ name: 'ProviderError', kind: 'server' });
+    expect(state.cancelled).toBe(true);
+  });
+});
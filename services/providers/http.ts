@@ -0,0 +1,115 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ProviderRequest } from '../../types';
+import { httpError, ProviderError } from './resilience';
+
+async function post(url: string, body: unknown, headers: Record<string, string>, signal?: AbortSignal): Promise<Response> {
+  return send(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal,
+  });
+}
+
+async function send(url: string, init: RequestInit): Promise<Response> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    let detail = response.statusText;
+    try {
+      const errorBody = await response.json();
+      detail = errorBody?.error?.message || errorBody?.error || detail;
+    } catch {
+      // Non-JSON error body; the status text is the best we have.
+    }
+    throw httpError(response.status, detail, response.headers.get('retry-after'));
+  }
+  return response;
+}
+
+/**
+ * POSTs a JSON body and parses the JSON response, surfacing the provider's error message on failure.
+ * @param url The endpoint to call.
+ * @param body The request payload.
+ * @param headers Extra headers such as authentication.
+ * @param signal Aborts the request.
+ * @returns A promise that resolves with the parsed response body.
+ */
+export async function postJson<T>(url: string, body: unknown, headers: Record<string, string> = {}, signal?: AbortSignal): Promise<T> {
+  const response = await post(url, body, headers, signal);
+  return response.json() as Promise<T>;
+}
+
+/**
+ * POSTs a multipart form, e.g. an audio file, and parses the JSON response.
+ * @param signal Aborts the request.
+ */
+export async function postForm<T>(url: string, form: FormData, signal?: AbortSignal): Promise<T> {
+  const response = await send(url, { method: 'POST', body: form, signal });
+  return response.json() as Promise<T>;
+}
+
+/**
+ * POSTs a JSON body and parses the streamed response line by line: server-sent events
+ * ("data: {...}") and newline-delimited JSON alike. Blank lines, event names and the
+ * "[DONE]" marker are skipped. The stream is cancelled if a line is not JSON or onEvent throws.
+ * @param onEvent Called with each parsed JSON object, in order.
+ * @param signal Aborts the request, or the stream part-way through.
+ */
+export async function postJsonStream<T>(
+  url: string,
+  body: unknown,
+  headers: Record<string, string>,
+  onEvent: (event: T) => void,
+  signal?: AbortSignal,
+): Promise<void> {
+  const response = await post(url, body, headers, signal);
+  if (!response.body) throw new Error('The provider returned an empty stream.');
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  const handleLine = (line: string) => {
+    const data = line.startsWith('data:') ? line.slice(5).trim() : line.trim();
+    if (!data || data === '[DONE]' || line.startsWith('event:') || line.startsWith(':')) return;
+    let event: T;
+    try {
+      event = JSON.parse(data);
+    } catch {
+      throw new ProviderError('server', `The provider sent a stream line that is not JSON: ${data.substring(0, 80)}`);
+    }
+    onEvent(event);
+  };
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop()!;
+      lines.forEach(handleLine);
+    }
+    handleLine(buffer + decoder.decode());
+  } catch (e) {
+    // A bad line or a failing handler must not leave the connection open.
+    reader.cancel().catch(() => {});
+    throw e;
+  }
+}
+
+/**
+ * Joins a base URL and a path without doubling or dropping the separating slash.
+ */
+export function joinUrl(baseUrl: string, path: string): string {
+  return `${baseUrl.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
+}
+
+/**
+ * Maps the earlier turns of a conversation to chat messages, in the role names the
+ * OpenAI-compatible, Anthropic and Ollama APIs share.
+ */
+export function historyMessages(request: ProviderRequest): { role: 'user' | 'assistant'; content: string }[] {
+  return (request.history || []).map(turn => ({ role: turn.role === 'model' ? 'assistant' : 'user', content: turn.text }));
+}
@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AiProvider, ProviderConfig, ProviderOutput, ProviderRequest } from '../../types';
+import { historyMessages, joinUrl, postJson, postJsonStream } from './http';
+import { ProviderError } from './resilience';
+
+const DEFAULT_BASE_URL = 'http://localhost:11434';
+
+const messagesOf = (request: ProviderRequest) => [
+  { role: 'system', content: request.systemInstruction },
+  ...historyMessages(request),
+  { role: 'user', content: request.prompt },
+];
+
+interface OllamaChatResponse {
+  message: { content: string };
+}
+
+// One line of a streamed chat; the counts arrive on the final line, where done is true.
+interface OllamaChatChunk {
+  message?: { content: string };
+  done?: boolean;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+}
+
+interface OllamaEmbedResponse {
+  embeddings: number[][];
+}
+
+/**
+ * A model served on this machine by Ollama. Nothing leaves the device.
+ * llama.cpp's server speaks the OpenAI API instead; bind it through the OpenAI-compatible provider.
+ */
+export const ollamaProvider: AiProvider = {
+  kind: 'ollama',
+  label: 'Local (Ollama)',
+  defaultModel: 'llama3.1',
+  defaultBaseUrl: DEFAULT_BASE_URL,
+  requiresApiKey: false,
+  async generate(request: ProviderRequest, config: ProviderConfig): Promise<string> {
+    const response = await postJson<OllamaChatResponse>(
+      joinUrl(config.baseUrl || DEFAULT_BASE_URL, 'api/chat'),
+      { model: config.model, stream: false, messages: messagesOf(request) },
+      {},
+      request.signal,
+    );
+    return response.message?.content || '';
+  },
+  async stream(request: ProviderRequest, config: ProviderConfig, onText: (delta: string) => void): Promise<ProviderOutput> {
+    const output: ProviderOutput = { text: '' };
+    await postJsonStream<OllamaChatChunk>(
+      joinUrl(config.baseUrl || DEFAULT_BASE_URL, 'api/chat'),
+      { model: config.model, stream: true, messages: messagesOf(request) },
+      {},
+      (chunk: OllamaChatChunk) => {
+        if (chunk.error) throw new ProviderError('server', chunk.error);
+        const delta = chunk.message?.content;
+        if (delta) {
+          output.text += delta;
+          onText(delta);
+        }
+        if (chunk.done && chunk.eval_count !== undefined) {
+          output.usage = { inputTokens: chunk.prompt_eval_count || 0, outputTokens: chunk.eval_count };
+        }
+      },
+      request.signal,
+    );
+    return output;
+  },
+  async embed(texts: string[], config: ProviderConfig): Promise<number[][]> {
+    const response = await postJson<OllamaEmbedResponse>(
+      joinUrl(config.baseUrl || DEFAULT_BASE_URL, 'api/embed'),
+      { model: config.model, input: texts },
+    );
+    return response.embeddings || [];
+  },
+};
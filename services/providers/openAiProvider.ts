@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AiProvider, ProviderConfig, ProviderOutput, ProviderRequest } from '../../types';
+import { historyMessages, joinUrl, postJson, postJsonStream } from './http';
+import { ProviderError } from './resilience';
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+
+interface ChatCompletionResponse {
+  choices: { message: { content: string | null }; finish_reason?: string }[];
+}
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string | null }; finish_reason?: string | null }[];
+  usage?: { prompt_tokens: number; completion_tokens: number } | null; // Only on the final chunk
+  error?: { message: string };
+}
+
+const messagesOf = (request: ProviderRequest) => [
+  { role: 'system', content: request.systemInstruction },
+  ...historyMessages(request),
+  { role: 'user', content: request.prompt },
+];
+
+// Azure OpenAI and some compatible servers end filtered answers this way.
+const contentFiltered = () => new ProviderError('safety_blocked', 'The content filter withheld the answer (finish_reason: content_filter).');
+
+const headersOf = (config: ProviderConfig): Record<string, string> => (config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {});
+
+/**
+ * Any backend speaking the OpenAI Chat Completions API (OpenAI, DeepSeek, llama.cpp server, vLLM, ...).
+ */
+export const openAiProvider: AiProvider = {
+  kind: 'openai',
+  label: 'OpenAI-compatible',
+  defaultModel: 'gpt-4o-mini',
+  defaultBaseUrl: DEFAULT_BASE_URL,
+  requiresApiKey: true,
+  async generate(request: ProviderRequest, config: ProviderConfig): Promise<string> {
+    const response = await postJson<ChatCompletionResponse>(
+      joinUrl(config.baseUrl || DEFAULT_BASE_URL, 'chat/completions'),
+      { model: config.model, messages: messagesOf(request) },
+      headersOf(config),
+      request.signal,
+    );
+    if (response.choices[0]?.finish_reason === 'content_filter') throw contentFiltered();
+    return response.choices[0]?.message?.content || '';
+  },
+  async stream(request: ProviderRequest, config: ProviderConfig, onText: (delta: string) => void): Promise<ProviderOutput> {
+    const output: ProviderOutput = { text: '' };
+    await postJsonStream<ChatCompletionChunk>(
+      joinUrl(config.baseUrl || DEFAULT_BASE_URL, 'chat/completions'),
+      { model: config.model, messages: messagesOf(request), stream: true, stream_options: { include_usage: true } },
+      headersOf(config),
+      (chunk: ChatCompletionChunk) => {
+        if (chunk.error) throw new ProviderError('server', chunk.error.message);
+        if (chunk.choices?.[0]?.finish_reason === 'content_filter') throw contentFiltered();
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+          output.text += delta;
+          onText(delta);
+        }
+        if (chunk.usage) output.usage = { inputTokens: chunk.usage.prompt_tokens, outputTokens: chunk.usage.completion_tokens };
+      },
+      request.signal,
+    );
+    return output;
+  },
+};
@@ -0,0 +1,154 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ProviderErrorKind, ProviderFailure } from '../../types';
+
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+
+const RETRYABLE: ProviderErrorKind[] = ['rate_limited', 'timeout', 'network', 'server'];
+
+// 429 means either "slow down" or "out of credit"; only the first is worth retrying.
+const EXHAUSTED_QUOTA = /insufficient_quota|billing|credit balance|out of credits/i;
+
+export const FAILURE_LABELS: Record<ProviderErrorKind, string> = {
+  auth: 'API key rejected',
+  quota: 'Quota or credit exhausted',
+  rate_limited: 'Rate limited',
+  safety_blocked: 'Blocked by the safety filter',
+  timeout: 'Timed out',
+  network: 'Network error',
+  bad_request: 'Request rejected',
+  server: 'Provider error',
+  unknown: 'Unexpected error',
+};
+
+/**
+ * A provider call that failed, typed by what the user can do about it.
+ */
+export class ProviderError extends Error {
+  kind: ProviderErrorKind;
+  status?: number;
+  retryAfterMs?: number; // From a Retry-After header
+  safetyCategories?: string[];
+  attempts = 1;
+
+  constructor(kind: ProviderErrorKind, message: string, details: { status?: number; retryAfterMs?: number; safetyCategories?: string[] } = {}) {
+    super(message);
+    this.name = 'ProviderError';
+    this.kind = kind;
+    Object.assign(this, details);
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE.includes(this.kind);
+  }
+
+  toFailure(): ProviderFailure {
+    return { kind: this.kind, message: this.message, status: this.status, safetyCategories: this.safetyCategories };
+  }
+}
+
+/**
+ * Types an HTTP error response by its status code.
+ * @param retryAfter The Retry-After header, in seconds or as a date.
+ */
+export function httpError(status: number, detail: string, retryAfter?: string | null): ProviderError {
+  const message = `HTTP ${status}: ${detail}`;
+  let retryAfterMs: number | undefined;
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    retryAfterMs = Number.isFinite(seconds) ? seconds * 1000 : Math.max(0, Date.parse(retryAfter) - Date.now()) || undefined;
+  }
+  if (status === 401 || status === 403) return new ProviderError('auth', message, { status });
+  if (status === 429) return new ProviderError(EXHAUSTED_QUOTA.test(detail) ? 'quota' : 'rate_limited', message, { status, retryAfterMs });
+  if (status === 408) return new ProviderError('timeout', message, { status });
+  if (status >= 500) return new ProviderError('server', message, { status, retryAfterMs });
+  return new ProviderError('bad_request', message, { status });
+}
+
+/**
+ * Types any error thrown by a provider call. SDK errors carrying an HTTP status are typed by it.
+ */
+export function toProviderError(e: unknown): ProviderError {
+  if (e instanceof ProviderError) return e;
+  const message = e instanceof Error ? e.message : String(e);
+  const status = (e as { status?: unknown })?.status;
+  if (typeof status === 'number') return httpError(status, message);
+  // fetch rejects with a TypeError when the server cannot be reached at all.
+  if (e instanceof TypeError) return new ProviderError('network', message);
+  return new ProviderError('unknown', message || 'Unknown error');
+}
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  }, { once: true });
+});
+
+/**
+ * Exponential backoff with jitter: about 1s, 2s, 4s... each randomised by up to half, so providers
+ * that failed together do not retry together. A server's Retry-After takes precedence.
+ */
+export function backoffDelay(attempt: number, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined) return Math.min(MAX_DELAY_MS, retryAfterMs);
+  const exponential = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1));
+  return exponential / 2 + Math.random() * exponential / 2;
+}
+
+/**
+ * Runs a provider call with a timeout, retrying temporary failures with backoff.
+ * @param call Makes one attempt. It must honour the signal it is given, and may call touch
+ *   whenever it makes progress (e.g. on each streamed piece) to restart the timeout.
+ * @param options.signal The user's cancellation; it aborts the current attempt and any wait.
+ * @param options.canRetry Whether a failed attempt may be repeated, e.g. not once text has streamed.
+ * @throws The user's abort reason if cancelled; otherwise a ProviderError recording the attempts made.
+ */
+export async function withRetries<T>(
+  call: (signal: AbortSignal, touch: () => void) => Promise<T>,
+  options: {
+    timeoutMs: number;
+    maxRetries: number;
+    signal?: AbortSignal;
+    canRetry?: () => boolean;
+    onRetry?: (error: ProviderError, attempt: number, delayMs: number) => void;
+  },
+): Promise<{ value: T; attempts: number }> {
+  for (let attempt = 1; ; attempt++) {
+    const controller = new AbortController();
+    const cancel = () => controller.abort(options.signal?.reason);
+    options.signal?.addEventListener('abort', cancel, { once: true });
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const touch = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, options.timeoutMs);
+    };
+    touch();
+
+    try {
+      return { value: await call(controller.signal, touch), attempts: attempt };
+    } catch (e) {
+      clearTimeout(timer);
+      if (options.signal?.aborted) throw options.signal.reason ?? e;
+      const error = timedOut
+        ? new ProviderError('timeout', `No response within ${Math.round(options.timeoutMs / 1000)} seconds.`)
+        : toProviderError(e);
+      error.attempts = attempt;
+      if (!error.retryable || attempt > options.maxRetries || options.canRetry?.() === false) throw error;
+      const delayMs = backoffDelay(attempt, error.retryAfterMs);
+      options.onRetry?.(error, attempt, delayMs);
+      await wait(delayMs, options.signal);
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', cancel);
+    }
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { RedactionSettings } from '../types';
+import { redactText, rehydrateResponse, rehydrateText } from './redactionService';
+
+const NO_TERMS: RedactionSettings = { customTerms: [], exemptTerms: [] };
+
+const STATEMENT = 'Mr Sipho Dlamini (ID 8001015009087) emailed sipho.dlamini@example.com from 082 555 1234 '
+  + 'about account no. 62001234567 and the flat at 14 Long Street, Cape Town.';
+
+describe('redactText', () => {
+  it('replaces every kind of personal data with a pseudonym', () => {
+    const { text, map } = redactText(STATEMENT, [], NO_TERMS);
+    for (const value of ['Sipho Dlamini', '8001015009087', 'sipho.dlamini@example.com', '082 555 1234', '62001234567', '14 Long Street']) {
+      expect(text).not.toContain(value);
+    }
+    expect(map.map(e => e.category).sort()).toEqual(['address', 'bank_account', 'email', 'id_number', 'name', 'phone']);
+  });
+
+  it('gives the same value the same pseudonym, in this text and in later ones', () => {
+    const first = redactText('Dr Thandi Mokoena met Dr Thandi Mokoena.', [], NO_TERMS);
+    expect(first.text).toBe('[PERSON_1] met [PERSON_1].');
+    const second = redactText('Later, Dr Thandi Mokoena wrote to Ms Anna Botha.', first.map, NO_TERMS);
+    expect(second.text).toBe('Later, [PERSON_1] wrote to [PERSON_2].');
+  });
+
+  it('always redacts custom terms and never redacts exempt ones', () => {
+    const { text } = redactText('Project Nightjar was run by Mr Sipho Dlamini.', [], {
+      customTerms: ['Project Nightjar'],
+      exemptTerms: ['Mr Sipho Dlamini'],
+    });
+    expect(text).toBe('[TERM_1] was run by Mr Sipho Dlamini.');
+  });
+});
+
+describe('rehydrateText', () => {
+  it('round-trips redacted text back to the original', () => {
+    const { text, map } = redactText(STATEMENT, [], NO_TERMS);
+    expect(rehydrateText(text, map)).toBe(STATEMENT);
+  });
+
+  it('restores pseudonyms a model wrote without brackets, without touching longer numbers', () => {
+    const map = [
+      { original: 'Sipho Dlamini', pseudonym: '[PERSON_1]', category: 'name' as const },
+      { original: 'Anna Botha', pseudonym: '[PERSON_12]', category: 'name' as const },
+    ];
+    expect(rehydrateText('PERSON_1 paid [PERSON_12].', map)).toBe('Sipho Dlamini paid Anna Botha.');
+  });
+
+  it('restores every text in an assistant response', () => {
+    const { map } = redactText('Mr Sipho Dlamini', [], NO_TERMS);
+    const response = rehydrateResponse({
+      text: '[PERSON_1] paid.',
+      responses: [{ slotId: 'a', label: 'A', provider: 'gemini', model: 'test', text: 'PERSON_1 paid.' }],
+    }, map);
+    expect(response.text).toBe('Mr Sipho Dlamini paid.');
+    expect(response.responses?.[0].text).toBe('Mr Sipho Dlamini paid.');
+  });
+});
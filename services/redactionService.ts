@@ -0,0 +1,190 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AssistantResponse, CaseReport, PseudonymEntry, RedactionCategory, RedactionResult, RedactionSettings, RedactionSpan } from '../types';
+
+const PSEUDONYM_PREFIX: Record<RedactionCategory, string> = {
+  name: 'PERSON',
+  id_number: 'ID',
+  phone: 'PHONE',
+  email: 'EMAIL',
+  bank_account: 'ACCOUNT',
+  address: 'ADDRESS',
+  custom: 'TERM',
+};
+
+const HONORIFIC_NAME = /\b(?:Mr|Mrs|Ms|Miss|Dr|Adv|Prof|Judge|Sgt|Capt|Col|Rev)\.?\s+[A-Z][a-zA-Z'-]+(?:\s+[A-Z][a-zA-Z'-]+){0,2}/g;
+const LABELLED_NAME = /\b(?:[Nn]ame|[Ss]urname|[Cc]omplainant|[Aa]pplicant|[Rr]espondent|[Ww]itness|[Ff]rom|[Tt]o|[Ss]ender|[Rr]ecipient)\s*:\s*([A-Z][a-zA-Z'-]+(?:\s+[A-Z][a-zA-Z'-]+){0,3})/g;
+// Two to four capitalised words in a row, e.g. "Thandi Mokoena" or "John Peter Smith".
+const CAPITALISED_RUN = /\b[A-Z][a-z'-]+(?:\s+[A-Z][a-z'-]+){1,3}\b/g;
+
+// Capitalised words that start phrases which are not personal names.
+const NOT_NAMES = new Set([
+  'The', 'This', 'That', 'These', 'Those', 'A', 'An', 'In', 'On', 'At', 'By', 'For', 'From', 'To', 'Of', 'And', 'But', 'Or',
+  'If', 'When', 'While', 'After', 'Before', 'During', 'Dear', 'Regards', 'Kind', 'Best', 'Yours', 'Subject', 'Re', 'Case',
+  'File', 'Content', 'User', 'Query', 'Context', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday',
+  'Sunday', 'January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November',
+  'December', 'South', 'North', 'East', 'West', 'High', 'Court', 'Magistrates', 'Police', 'Station', 'Bank', 'Street',
+  'Road', 'Avenue', 'Please', 'Thank', 'Thanks', 'Hi', 'Hello', 'Good', 'Morning', 'Afternoon', 'Evening', 'Verum', 'Omnis',
+]);
+
+const DETECTORS: { category: RedactionCategory; pattern: RegExp; group?: number }[] = [
+  { category: 'email', pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g },
+  // IBANs, then labelled account numbers, then 16-digit card numbers.
+  { category: 'bank_account', pattern: /\b[A-Z]{2}\d{2}(?:\s?[A-Z0-9]{4}){2,7}(?:\s?[A-Z0-9]{1,4})?\b/g },
+  { category: 'bank_account', pattern: /\b(?:account|acc\.?|a\/c)(?:\s+(?:no\.?|number|#))?\s*[:#]?\s*(\d[\d\s-]{5,18}\d)/gi, group: 1 },
+  { category: 'bank_account', pattern: /\b\d{4}[\s-]?\d{4}[\s-]?\d{4}[\s-]?\d{4}\b/g },
+  // South African ID numbers (13 digits) and passport-style identifiers.
+  { category: 'id_number', pattern: /\b\d{13}\b/g },
+  { category: 'id_number', pattern: /\b[A-Z]{1,2}\d{6,9}\b/g },
+  { category: 'id_number', pattern: /\b(?:ID|identity|passport)(?:\s+(?:no\.?|number))?\s*[:#]?\s*([A-Z0-9][A-Z0-9-]{5,15})/gi, group: 1 },
+  { category: 'phone', pattern: /(?:\+\d{1,3}[\s-]?|\b0)\(?\d{2,3}\)?[\s-]?\d{3}[\s-]?\d{3,4}\b/g },
+  {
+    category: 'address',
+    pattern: /\b\d{1,5}\s+(?:[A-Z][a-z]+\s+){1,3}(?:Street|St|Road|Rd|Avenue|Ave|Drive|Dr|Lane|Ln|Crescent|Cres|Close|Way|Boulevard|Blvd|Place|Pl)\b\.?(?:,\s*[A-Z][a-z]+(?:\s+[A-Z][a-z]+)?)?/g,
+  },
+  { category: 'address', pattern: /\bP\.?\s?O\.?\s+Box\s+\d+/gi },
+  { category: 'name', pattern: HONORIFIC_NAME },
+  { category: 'name', pattern: LABELLED_NAME, group: 1 },
+];
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function normalise(text: string): string {
+  return text.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+interface Match {
+  start: number;
+  end: number;
+  category: RedactionCategory;
+}
+
+function findMatches(text: string, settings: RedactionSettings): Match[] {
+  const matches: Match[] = [];
+  const push = (start: number, value: string, category: RedactionCategory) => {
+    if (value.trim()) matches.push({ start, end: start + value.length, category });
+  };
+
+  for (const term of settings.customTerms) {
+    if (!term.trim()) continue;
+    const pattern = new RegExp(escapeRegExp(term.trim()), 'gi');
+    let m: RegExpExecArray | null;
+    while ((m = pattern.exec(text))) push(m.index, m[0], 'custom');
+  }
+
+  for (const { category, pattern, group } of DETECTORS) {
+    pattern.lastIndex = 0;
+    let m: RegExpExecArray | null;
+    while ((m = pattern.exec(text))) {
+      const value = group ? m[group] : m[0];
+      if (!value) continue;
+      push(m.index + m[0].indexOf(value), value, category);
+    }
+  }
+
+  CAPITALISED_RUN.lastIndex = 0;
+  let m: RegExpExecArray | null;
+  while ((m = CAPITALISED_RUN.exec(text))) {
+    const words = m[0].split(/\s+/);
+    // Trim leading words that begin ordinary phrases, e.g. "Dear Thandi Mokoena".
+    while (words.length && NOT_NAMES.has(words[0])) words.shift();
+    if (words.length < 2 || words.some(w => NOT_NAMES.has(w))) continue;
+    const value = words.join(' ');
+    push(m.index + m[0].indexOf(value), value, 'name');
+  }
+
+  // Earliest first, longest first; drop anything overlapping an accepted match.
+  matches.sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start));
+  const accepted: Match[] = [];
+  for (const match of matches) {
+    const last = accepted[accepted.length - 1];
+    if (!last || match.start >= last.end) accepted.push(match);
+  }
+  const exempt = new Set(settings.exemptTerms.map(normalise));
+  return accepted.filter(match => !exempt.has(normalise(text.slice(match.start, match.end))));
+}
+
+/**
+ * Replaces personal data in text with stable pseudonyms such as [PERSON_1] or [EMAIL_2].
+ * Detects names, ID and passport numbers, phone numbers, emails, bank accounts and addresses,
+ * plus the user's own terms. The same original value always maps to the same pseudonym.
+ * @param text The text to redact.
+ * @param map Pseudonyms already assigned in this case; new ones are appended.
+ * @param settings The user's custom and exempt terms.
+ * @returns The redacted text, the replaced spans and the updated pseudonym map.
+ */
+export function redactText(text: string, map: PseudonymEntry[], settings: RedactionSettings): RedactionResult {
+  const entries = [...map];
+  const spans: RedactionSpan[] = [];
+  let redacted = '';
+  let cursor = 0;
+
+  for (const match of findMatches(text, settings)) {
+    const original = text.slice(match.start, match.end);
+    let entry = entries.find(e => normalise(e.original) === normalise(original));
+    if (!entry) {
+      const prefix = PSEUDONYM_PREFIX[match.category];
+      const count = entries.filter(e => e.category === match.category).length;
+      entry = { original, pseudonym: `[${prefix}_${count + 1}]`, category: match.category };
+      entries.push(entry);
+    }
+    redacted += text.slice(cursor, match.start);
+    spans.push({ start: match.start, end: match.end, original, pseudonym: entry.pseudonym, category: match.category });
+    redacted += entry.pseudonym;
+    cursor = match.end;
+  }
+  redacted += text.slice(cursor);
+
+  return { source: text, text: redacted, spans, map: entries };
+}
+
+/**
+ * Puts the original values back in place of pseudonyms. Runs locally on model answers only.
+ * @param text Text that may contain pseudonyms.
+ * @param map The case's pseudonym map.
+ */
+export function rehydrateText(text: string, map: PseudonymEntry[]): string {
+  if (!text || map.length === 0) return text;
+  // Models sometimes drop the brackets, so match the bare token too.
+  return map.reduce((result, entry) => {
+    const bare = entry.pseudonym.slice(1, -1);
+    return result.replace(new RegExp(`\\[?${escapeRegExp(bare)}\\]?(?!\\d)`, 'g'), entry.original);
+  }, text);
+}
+
+/**
+ * Re-hydrates every piece of model text in an assistant response.
+ */
+export function rehydrateResponse(response: AssistantResponse, map: PseudonymEntry[]): AssistantResponse {
+  const r = (text: string) => rehydrateText(text, map);
+  return {
+    ...response,
+    text: r(response.text),
+    consensusText: response.consensusText && r(response.consensusText),
+    responses: response.responses?.map(p => ({ ...p, text: r(p.text) })),
+    consensus: response.consensus && {
+      ...response.consensus,
+      claims: response.consensus.claims.map(c => ({ ...c, statements: c.statements.map(s => ({ ...s, text: r(s.text) })) })),
+      dissents: response.consensus.dissents.map(d => ({ ...d, points: d.points.map(r) })),
+    },
+  };
+}
+
+/**
+ * Re-hydrates every text field of a case report; severities are left as they are.
+ */
+export function rehydrateCaseReport(report: CaseReport, map: PseudonymEntry[]): CaseReport {
+  const r = (text: string) => rehydrateText(text, map);
+  return {
+    timeline: report.timeline.map(e => ({ ...e, event: r(e.event), sources: e.sources.map(r) })),
+    facts: report.facts.map(f => ({ statement: r(f.statement), sources: f.sources.map(r) })),
+    contradictions: report.contradictions.map(c => ({ ...c, description: r(c.description), statements: c.statements.map(r), sources: c.sources.map(r) })),
+    violations: report.violations.map(v => ({ ...v, right: r(v.right), description: r(v.description), sources: v.sources.map(r) })),
+    guidance: report.guidance.map(g => ({ action: r(g.action), rationale: r(g.rationale) })),
+  };
+}
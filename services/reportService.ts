@@ -0,0 +1,221 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Attachment, CaseReport, CaseReportRecord, Contradiction, ContradictionSeverity, ProviderSettings, Timeline } from '../types';
+import { getProvider, resolveSlotConfig } from './providerRegistry';
+import { buildSystemInstruction, getConstitutionStamp } from './governanceService';
+import { JsonSchema, validateJson } from './schemaService';
+import { withRetries } from './providers/resilience';
+
+const MAX_REPORT_ATTEMPTS = 3;
+// Local analysis passed to the provider as hints; beyond this the context is mostly noise.
+const MAX_CONTEXT_EVENTS = 200;
+const MAX_CONTEXT_FINDINGS = 100;
+
+const SECTIONS = ['timeline', 'facts', 'contradictions', 'violations', 'guidance'] as const;
+const SEVERITIES: ContradictionSeverity[] = ['high', 'medium', 'low'];
+
+const SOURCES: JsonSchema = { type: 'array', items: { type: 'string', minLength: 1 }, description: 'Names of the case files that support this entry' };
+const SEVERITY: JsonSchema = { type: 'string', enum: SEVERITIES };
+const TEXT: JsonSchema = { type: 'string', minLength: 1 };
+
+const CASE_REPORT_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: [...SECTIONS],
+  properties: {
+    timeline: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['date', 'event', 'sources'],
+        properties: { date: { type: 'string', pattern: '^\\d{4}(-\\d{2}){0,2}$', description: 'YYYY-MM-DD, or YYYY-MM / YYYY if only that is known' }, event: TEXT, sources: SOURCES },
+      },
+    },
+    facts: {
+      type: 'array',
+      items: { type: 'object', required: ['statement', 'sources'], properties: { statement: TEXT, sources: SOURCES } },
+    },
+    contradictions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['description', 'statements', 'sources', 'severity'],
+        properties: { description: TEXT, statements: { type: 'array', items: TEXT, description: 'The conflicting statements, quoted' }, sources: SOURCES, severity: SEVERITY },
+      },
+    },
+    violations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['right', 'description', 'sources', 'severity'],
+        properties: { right: { type: 'string', minLength: 1, description: 'The right or rule breached' }, description: TEXT, sources: SOURCES, severity: SEVERITY },
+      },
+    },
+    guidance: {
+      type: 'array',
+      items: { type: 'object', required: ['action', 'rationale'], properties: { action: TEXT, rationale: TEXT } },
+    },
+  },
+};
+
+const REPORT_INSTRUCTION = `Write a structured case report from the case file context above.
+Respond with a single JSON object and nothing else: no prose, no Markdown code fences.
+The object must validate against this JSON Schema:
+${JSON.stringify(CASE_REPORT_SCHEMA)}
+Rules: use only what the case files state, never invent events; cite case files by their file name in "sources";
+quote conflicting statements exactly; a section with nothing to report is an empty array.`;
+
+/**
+ * Pulls the JSON object out of a model answer that may wrap it in code fences or commentary.
+ */
+function parseJsonAnswer(text: string): unknown {
+  const unfenced = text.replace(/```(?:json)?/gi, '');
+  const start = unfenced.indexOf('{');
+  const end = unfenced.lastIndexOf('}');
+  if (start === -1 || end <= start) throw new Error('The answer contains no JSON object.');
+  return JSON.parse(unfenced.slice(start, end + 1));
+}
+
+/**
+ * Fixes schema violations that have only one sensible correction, so they do not cost another provider call:
+ * missing sections, a lone entry instead of a list, a single source string, and severity casing.
+ * @returns The corrected value and a description of each correction.
+ */
+function repairReport(value: unknown): { value: unknown; repairs: string[] } {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return { value, repairs: [] };
+  const repairs: string[] = [];
+  const report = { ...(value as Record<string, unknown>) };
+  for (const section of SECTIONS) {
+    if (report[section] === undefined || report[section] === null) {
+      report[section] = [];
+      repairs.push(`Added the missing "${section}" section as empty.`);
+    } else if (!Array.isArray(report[section]) && typeof report[section] === 'object') {
+      report[section] = [report[section]];
+      repairs.push(`Wrapped the single "${section}" entry in a list.`);
+    }
+    if (!Array.isArray(report[section])) continue;
+    report[section] = (report[section] as unknown[]).map((entry, i) => {
+      if (!entry || typeof entry !== 'object') return entry;
+      const fixed = { ...(entry as Record<string, unknown>) };
+      for (const key of ['sources', 'statements']) {
+        if (typeof fixed[key] === 'string') {
+          fixed[key] = [fixed[key]];
+          repairs.push(`Turned ${section}[${i}].${key} into a list.`);
+        }
+      }
+      if (typeof fixed.severity === 'string' && !SEVERITIES.includes(fixed.severity as ContradictionSeverity)
+        && SEVERITIES.includes(fixed.severity.toLowerCase() as ContradictionSeverity)) {
+        fixed.severity = fixed.severity.toLowerCase();
+        repairs.push(`Lower-cased ${section}[${i}].severity.`);
+      }
+      return fixed;
+    });
+  }
+  return { value: report, repairs };
+}
+
+/**
+ * Builds the context for a case report: the case files, the user's notes, and the local timeline and
+ * contradiction findings as leads for the provider to check against the files.
+ */
+export function buildReportContext(fileContext: string, notes: string, timeline: Timeline, findings: Contradiction[]): string {
+  const parts = [fileContext];
+  if (notes.trim()) parts.push(`CASE NOTES (the user's own account):\n${notes.trim()}`);
+  if (timeline.events.length > 0) {
+    const events = timeline.events.slice(0, MAX_CONTEXT_EVENTS)
+      .map(e => `${e.date}${e.time ? ` ${e.time}` : ''}: ${e.description} (${e.source.fileName || (e.source.kind === 'model' ? 'AI answer' : 'added manually')})`);
+    parts.push(`DATED EVENTS FOUND LOCALLY:\n${events.join('\n')}`);
+  }
+  if (findings.length > 0) {
+    const lines = findings.slice(0, MAX_CONTEXT_FINDINGS)
+      .map(f => `[${f.severity}] ${f.layer}: ${f.explanation} "${f.statements[0].text}" (${f.statements[0].fileName}) vs "${f.statements[1].text}" (${f.statements[1].fileName})`);
+    parts.push(`CONTRADICTIONS FOUND LOCALLY:\n${lines.join('\n')}`);
+  }
+  return parts.join('\n\n');
+}
+
+/**
+ * Asks the lead provider slot for a case report in the constitution's five-section structure
+ * (Timeline + Facts + Contradictions + Violations + Guidance), validating the JSON it returns.
+ * Violations with an obvious fix are repaired locally; otherwise the provider is asked again with the
+ * validation errors, up to three calls in all.
+ * @param context The (redacted) case context, from buildReportContext.
+ * @param settings The provider bindings; the first slot writes the report.
+ * @param attachments The case files the report covers.
+ * @throws A ProviderError if the provider fails after its retries, or an Error if no valid report is
+ *   returned within the allowed attempts.
+ */
+export async function generateCaseReport(context: string, settings: ProviderSettings, attachments: Attachment[]): Promise<CaseReportRecord> {
+  const slot = settings.slots[0];
+  if (!slot) throw new Error('Generating a case report requires a configured provider slot.');
+  const provider = getProvider(slot.provider);
+  const config = resolveSlotConfig(settings, slot);
+  const stamp = await getConstitutionStamp();
+
+  let prompt = `${context}\n\n${REPORT_INSTRUCTION}`;
+  let errors: string[] = [];
+  for (let attempt = 1; attempt <= MAX_REPORT_ATTEMPTS; attempt++) {
+    const { value: answer } = await withRetries(
+      signal => provider.generate({ prompt, systemInstruction: buildSystemInstruction(slot.systemInstruction), signal }, config),
+      { timeoutMs: settings.resilience.timeoutSeconds * 1000, maxRetries: settings.resilience.maxRetries },
+    );
+    let parsed: unknown;
+    try {
+      parsed = parseJsonAnswer(answer);
+    } catch (e) {
+      errors = [`The answer is not valid JSON: ${e instanceof Error ? e.message : 'parse error'}`];
+    }
+    if (parsed !== undefined) {
+      const { value, repairs } = repairReport(parsed);
+      errors = validateJson(value, CASE_REPORT_SCHEMA);
+      if (errors.length === 0) {
+        return {
+          report: value as CaseReport,
+          stamp,
+          generatedAt: new Date().toISOString(),
+          provider: `${slot.label} (${provider.label}, ${config.model})`,
+          attempts: attempt,
+          repairs,
+          fileHashes: attachments.map(f => f.hash),
+        };
+      }
+    }
+    prompt = `${context}\n\n${REPORT_INSTRUCTION}\n\nYour previous answer was rejected:\n${errors.slice(0, 20).join('\n')}\n\nPrevious answer:\n${answer}\n\nReturn the corrected JSON object only.`;
+  }
+  throw new Error(`The provider did not return a valid case report after ${MAX_REPORT_ATTEMPTS} attempts: ${errors.slice(0, 3).join('; ')}`);
+}
+
+const list = (items: string[]) => items.length > 0 ? items.join(', ') : 'none cited';
+
+/**
+ * Renders a case report as Markdown, with the constitution stamp at the end.
+ */
+export function caseReportToMarkdown(record: CaseReportRecord): string {
+  const { report, stamp } = record;
+  const section = (title: string, lines: string[]) => `## ${title}\n\n${lines.length > 0 ? lines.join('\n') : '_Nothing to report._'}`;
+  return [
+    '# Case Report',
+    section('Timeline', report.timeline.map(e => `- **${e.date}** ${e.event} _(sources: ${list(e.sources)})_`)),
+    section('Facts', report.facts.map(f => `- ${f.statement} _(sources: ${list(f.sources)})_`)),
+    section('Contradictions', report.contradictions.map(c =>
+      `- **[${c.severity}]** ${c.description}\n${c.statements.map(s => `  > ${s}`).join('\n')}\n  _(sources: ${list(c.sources)})_`)),
+    section('Violations', report.violations.map(v => `- **[${v.severity}] ${v.right}:** ${v.description} _(sources: ${list(v.sources)})_`)),
+    section('Guidance', report.guidance.map(g => `- **${g.action}** ${g.rationale}`)),
+    `---\n\nConstitution v${stamp.version}, SHA-512 ${stamp.hash}\n\nGenerated ${record.generatedAt} by ${record.provider}.`,
+  ].join('\n\n');
+}
+
+/**
+ * Serialises a case report with its stamp for machine consumption.
+ */
+export function caseReportToJson(record: CaseReportRecord): string {
+  return JSON.stringify({
+    constitution: record.stamp,
+    generatedAt: record.generatedAt,
+    provider: record.provider,
+    caseFileHashes: record.fileHashes,
+    ...record.report,
+  }, null, 2);
+}
@@ -0,0 +1,304 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Attachment, CitationCheck, ContextSource, EvidenceChunk, IndexedPassage, ProviderSettings, RetrievalIndex, RetrievalResult } from '../types';
+import { STOPWORDS, stem } from './claimService';
+import { getProvider } from './providerRegistry';
+
+// Rough for English prose and conservative for most tokenizers; only used to stay under the budget.
+const CHARS_PER_TOKEN = 4;
+const CHUNK_TOKENS = 250;
+const MAX_CHUNK_CHARS = CHUNK_TOKENS * CHARS_PER_TOKEN;
+
+// BM25 parameters, the usual defaults.
+const K1 = 1.2;
+const B = 0.75;
+
+// Embeddings only re-rank this many BM25 candidates per selected passage, to bound the cost of a query.
+const RERANK_POOL_FACTOR = 4;
+const EMBEDDING_BATCH = 32;
+// Reciprocal rank fusion constant; damps the influence of the very top ranks.
+const RRF_K = 60;
+
+const passageCache = new WeakMap<Attachment, IndexedPassage[]>();
+const embeddingCache = new Map<string, number[]>();
+
+/**
+ * Estimates how many model tokens a text costs.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.trim().length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Tells the providers when text came from OCR or an incomplete extraction, so they weigh it accordingly.
+ */
+export function describeExtraction(file: Attachment): string {
+  if (!file.extractor) return '';
+  return file.lossy ? ` (extracted via ${file.extractor}; incomplete: ${(file.extractionNotes || []).join(' ')})` : ` (extracted via ${file.extractor})`;
+}
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+(?:'[a-z]+)?/g) || [])
+    .filter(word => word.length > 1 && !STOPWORDS.has(word))
+    .map(stem);
+}
+
+/**
+ * Cuts extracted text into passages of about 250 tokens along line boundaries, ending early at a blank
+ * line when a passage is already half full. Lines longer than a passage are split at a space.
+ */
+export function chunkContent(content: string): EvidenceChunk[] {
+  const units: { start: number; end: number; line: number }[] = [];
+  let lineStart = 0;
+  let line = 1;
+  while (lineStart <= content.length) {
+    const newline = content.indexOf('\n', lineStart);
+    const lineEnd = newline === -1 ? content.length : newline;
+    let start = lineStart;
+    while (lineEnd - start > MAX_CHUNK_CHARS) {
+      let cut = content.lastIndexOf(' ', start + MAX_CHUNK_CHARS);
+      if (cut <= start) cut = start + MAX_CHUNK_CHARS;
+      units.push({ start, end: cut, line });
+      start = cut;
+    }
+    units.push({ start, end: lineEnd, line });
+    if (newline === -1) break;
+    lineStart = newline + 1;
+    line++;
+  }
+
+  const chunks: EvidenceChunk[] = [];
+  let current: typeof units = [];
+  const flush = () => {
+    const first = current[0];
+    const last = current[current.length - 1];
+    current = [];
+    if (!first || !content.slice(first.start, last.end).trim()) return;
+    chunks.push({
+      index: chunks.length,
+      start: first.start,
+      end: last.end,
+      lineStart: first.line,
+      lineEnd: last.line,
+      tokens: estimateTokens(content.slice(first.start, last.end)),
+    });
+  };
+  for (const unit of units) {
+    const size = current.length > 0 ? current[current.length - 1].end - current[0].start : 0;
+    const isBlank = !content.slice(unit.start, unit.end).trim();
+    if (current.length > 0 && unit.end - current[0].start > MAX_CHUNK_CHARS) {
+      flush();
+    } else if (isBlank && size >= MAX_CHUNK_CHARS / 2) {
+      flush();
+      continue;
+    }
+    if (current.length === 0 && isBlank) continue;
+    current.push(unit);
+  }
+  flush();
+  return chunks;
+}
+
+function indexAttachment(file: Attachment): IndexedPassage[] {
+  const cached = passageCache.get(file);
+  if (cached) return cached;
+  const content = file.content || '';
+  const passages = (file.chunks || chunkContent(content)).map(chunk => {
+    const words = tokenize(content.slice(chunk.start, chunk.end));
+    const terms = new Map<string, number>();
+    for (const word of words) terms.set(word, (terms.get(word) || 0) + 1);
+    return { file, chunk, terms, length: words.length };
+  });
+  passageCache.set(file, passages);
+  return passages;
+}
+
+/**
+ * Builds the BM25 index over every passage of the case files. Each file's passages are tokenised once
+ * and reused for as long as the attachment object lives, so rebuilding after a file is added is cheap.
+ */
+export function buildRetrievalIndex(attachments: Attachment[]): RetrievalIndex {
+  const passages = attachments.filter(f => f.content).flatMap(indexAttachment);
+  const documentFrequency = new Map<string, number>();
+  let totalLength = 0;
+  for (const passage of passages) {
+    totalLength += passage.length;
+    for (const term of passage.terms.keys()) documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+  }
+  return { passages, documentFrequency, averageLength: passages.length > 0 ? totalLength / passages.length : 0 };
+}
+
+function bm25(index: RetrievalIndex, passage: IndexedPassage, queryTerms: string[]): number {
+  const n = index.passages.length;
+  let score = 0;
+  for (const term of queryTerms) {
+    const tf = passage.terms.get(term);
+    if (!tf) continue;
+    const df = index.documentFrequency.get(term) || 0;
+    const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+    score += idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * passage.length / (index.averageLength || 1)));
+  }
+  return score;
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// Passages are embedded before the redaction preview, so only an endpoint on this device may see them.
+function isLoopbackUrl(url: string): boolean {
+  try {
+    const { hostname } = new URL(url);
+    return hostname === 'localhost' || hostname === '[::1]' || /^127(?:\.\d{1,3}){3}$/.test(hostname);
+  } catch {
+    return false;
+  }
+}
+
+const passageText = (passage: IndexedPassage) => (passage.file.content || '').slice(passage.chunk.start, passage.chunk.end).trim();
+
+// Prefixes each line with its line number in the file, e.g. "40: ...", so answers can cite exact lines.
+function numberedPassageText(passage: IndexedPassage): string {
+  const { start, end, lineStart } = passage.chunk;
+  return (passage.file.content || '').slice(start, end).split('\n')
+    .map((line, i) => `${lineStart + i}: ${line}`)
+    .join('\n');
+}
+
+/**
+ * The citation label of a passage: its file's SHA-512 prefix and line range, e.g. "1a2b3c4d:40-51".
+ */
+const sourceLabel = (file: Attachment, lineStart: number, lineEnd: number) => `${file.hash.substring(0, 8)}:${lineStart}-${lineEnd}`;
+
+/**
+ * Re-orders BM25 candidates by fusing their BM25 rank with their embedding similarity rank.
+ * Passage embeddings are cached per model, so each passage is embedded once.
+ */
+async function rerankWithEmbeddings(candidates: IndexedPassage[], query: string, settings: ProviderSettings): Promise<IndexedPassage[]> {
+  const provider = getProvider('ollama');
+  const model = settings.retrieval.embeddingModel;
+  const config = { ...settings.providers.ollama, model };
+  const keyOf = (p: IndexedPassage) => `${model}\u0000${p.file.hash}:${p.chunk.index}`;
+
+  const missing = candidates.filter(p => !embeddingCache.has(keyOf(p)));
+  for (let i = 0; i < missing.length; i += EMBEDDING_BATCH) {
+    const batch = missing.slice(i, i + EMBEDDING_BATCH);
+    const vectors = await provider.embed!(batch.map(passageText), config);
+    if (vectors.length !== batch.length) throw new Error(`expected ${batch.length} embeddings, got ${vectors.length}`);
+    batch.forEach((p, j) => embeddingCache.set(keyOf(p), vectors[j]));
+  }
+  const [queryVector] = await provider.embed!([query], config);
+
+  const similarity = new Map(candidates.map(p => [p, cosine(queryVector, embeddingCache.get(keyOf(p))!)]));
+  const semanticRank = new Map([...candidates].sort((a, b) => similarity.get(b)! - similarity.get(a)!).map((p, rank) => [p, rank]));
+  const fused = (p: IndexedPassage, lexicalRank: number) => 1 / (RRF_K + lexicalRank) + 1 / (RRF_K + semanticRank.get(p)!);
+  return candidates
+    .map((p, rank) => ({ p, score: fused(p, rank) }))
+    .sort((a, b) => b.score - a.score)
+    .map(({ p }) => p);
+}
+
+/**
+ * Selects the case file passages most relevant to a query, within the token budget, and formats them
+ * as the context sent to the providers. Each passage is headed by its file's hash prefix and its lines
+ * are numbered, so answers can cite them as [hash:first-last].
+ * When no passage shares a term with the query (e.g. "summarise the case"), the opening passages of
+ * every file are used instead, taken in turn from each file.
+ * @param index The case's retrieval index.
+ * @param query The user's question.
+ * @param settings Provider settings; retrieval.embeddingModel turns on the re-rank, which only runs when the
+ * Ollama backend is on this device, since the query and passages are not yet redacted.
+ */
+export async function retrieveContext(index: RetrievalIndex, query: string, settings: ProviderSettings): Promise<RetrievalResult> {
+  const { tokenBudget, maxPassages, embeddingModel } = settings.retrieval;
+  const queryTerms = [...new Set(tokenize(query))];
+  const scores = new Map(index.passages.map(p => [p, bm25(index, p, queryTerms)]));
+
+  let ranked = index.passages.filter(p => scores.get(p)! > 0).sort((a, b) => scores.get(b)! - scores.get(a)!);
+  const matched = ranked.length;
+  if (ranked.length === 0) {
+    ranked = [...index.passages].sort((a, b) => a.chunk.index - b.chunk.index);
+  }
+
+  let method: RetrievalResult['method'] = 'bm25';
+  let warning: string | undefined;
+  let embedding: RetrievalResult['embedding'];
+  const { baseUrl } = settings.providers.ollama;
+  if (embeddingModel.trim() && ranked.length > 0 && !isLoopbackUrl(baseUrl)) {
+    warning = `Embedding re-rank skipped: the Ollama base URL ${baseUrl} is not on this device, and passages are only embedded locally before redaction. Passages were ranked by BM25 alone.`;
+  } else if (embeddingModel.trim() && ranked.length > 0) {
+    const pool = ranked.slice(0, maxPassages * RERANK_POOL_FACTOR);
+    embedding = { model: embeddingModel, baseUrl, passages: pool.length };
+    try {
+      ranked = [...await rerankWithEmbeddings(pool, query, settings), ...ranked.slice(pool.length)];
+      method = 'hybrid';
+    } catch (e) {
+      warning = `Embedding re-rank with ${embeddingModel} failed (${e instanceof Error ? e.message : 'unknown error'}); passages were ranked by BM25 alone.`;
+    }
+  }
+  if (matched === 0 && index.passages.length > 0 && method === 'bm25') {
+    warning = warning || 'No passage matched the query terms, so the opening passages of each file were sent.';
+  }
+
+  const selected: IndexedPassage[] = [];
+  let usedTokens = 0;
+  for (const passage of ranked) {
+    if (selected.length >= maxPassages) break;
+    if (usedTokens + passage.chunk.tokens > tokenBudget) continue;
+    selected.push(passage);
+    usedTokens += passage.chunk.tokens;
+  }
+
+  // Present the passages in reading order: by file, then by position in the file.
+  const fileOrder = new Map<Attachment, number>();
+  for (const { file } of index.passages) if (!fileOrder.has(file)) fileOrder.set(file, fileOrder.size);
+  selected.sort((a, b) => fileOrder.get(a.file)! - fileOrder.get(b.file)! || a.chunk.index - b.chunk.index);
+
+  const sources: ContextSource[] = selected.map(p => ({
+    label: sourceLabel(p.file, p.chunk.lineStart, p.chunk.lineEnd),
+    fileName: p.file.name,
+    fileHash: p.file.hash,
+    start: p.chunk.start,
+    end: p.chunk.end,
+    lineStart: p.chunk.lineStart,
+    lineEnd: p.chunk.lineEnd,
+    tokens: p.chunk.tokens,
+    score: scores.get(p)!,
+  }));
+
+  const fileCount = new Set(index.passages.map(p => p.file.hash)).size;
+  const context = selected.length === 0 ? '' : [
+    `CASE FILE EXCERPTS: ${selected.length} passage(s) selected for this query from ${index.passages.length} in ${fileCount} file(s). `
+      + 'Each line starts with its line number, which is not part of the text; the 8-character hash in each header identifies the file.',
+    ...selected.map(p => {
+      const { lineStart, lineEnd } = p.chunk;
+      const header = `[${sourceLabel(p.file, lineStart, lineEnd)}] File: ${p.file.name}${describeExtraction(p.file)} | SHA-512 ${p.file.hash.substring(0, 16)}`;
+      return `${header}\n${numberedPassageText(p)}`;
+    }),
+  ].join('\n\n');
+
+  return { context, sources, method, usedTokens, totalPassages: index.passages.length, warning, embedding };
+}
+
+/**
+ * Marks which of the passages sent with a query the answers cite: a passage is cited when a
+ * citation resolves to its file and overlaps its lines.
+ * @param checks The verified citations of every answer to the query.
+ */
+export function markCitedSources(sources: ContextSource[], checks: CitationCheck[]): ContextSource[] {
+  return sources.map(source => ({
+    ...source,
+    cited: checks.some(c => c.fileHash === source.fileHash && c.lineStart <= source.lineEnd && c.lineEnd >= source.lineStart),
+  }));
+}
@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * The subset of JSON Schema used for the case report and the constitution.
+ */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'boolean';
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: JsonSchema; // Schema for keys not listed in properties
+  required?: string[];
+  items?: JsonSchema;
+  minItems?: number;
+  enum?: string[];
+  minLength?: number;
+  pattern?: string;
+  description?: string;
+}
+
+/**
+ * Checks a value against a schema.
+ * @returns One message per violation, each prefixed with the JSON path.
+ */
+export function validateJson(value: unknown, schema: JsonSchema, path = '$'): string[] {
+  if (schema.type === 'object') {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return [`${path} must be an object`];
+    const record = value as Record<string, unknown>;
+    const properties = schema.properties || {};
+    const missing = (schema.required || []).filter(key => record[key] === undefined).map(key => `${path}.${key} is required`);
+    const nested = Object.entries(record).flatMap(([key, child]) => {
+      const childSchema = properties[key] || schema.additionalProperties;
+      return childSchema && child !== undefined ? validateJson(child, childSchema, `${path}.${key}`) : [];
+    });
+    return [...missing, ...nested];
+  }
+  if (schema.type === 'array') {
+    if (!Array.isArray(value)) return [`${path} must be an array`];
+    if (schema.minItems && value.length < schema.minItems) return [`${path} must have at least ${schema.minItems} item(s)`];
+    return value.flatMap((item, i) => validateJson(item, schema.items!, `${path}[${i}]`));
+  }
+  if (schema.type === 'boolean') {
+    return typeof value === 'boolean' ? [] : [`${path} must be true or false`];
+  }
+  if (typeof value !== 'string') return [`${path} must be a string`];
+  if (schema.minLength && value.trim().length < schema.minLength) return [`${path} must not be empty`];
+  if (schema.enum && !schema.enum.includes(value)) return [`${path} must be one of ${schema.enum.join(', ')}`];
+  if (schema.pattern && !new RegExp(schema.pattern).test(value)) return [`${path} must match ${schema.pattern}`];
+  return [];
+}
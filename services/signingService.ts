@@ -0,0 +1,154 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Signature, SignatureCheck, SigningIdentity, SigningKeyRecord, TrustedKey } from '../types';
+import { calculateSHA512FromBytes } from './fileService';
+
+const KEY_ALGORITHM: EcKeyImportParams = { name: 'ECDSA', namedCurve: 'P-384' };
+const SIGN_ALGORITHM: EcdsaParams = { name: 'ECDSA', hash: 'SHA-384' };
+export const SIGNATURE_ALGORITHM = 'ECDSA P-384 with SHA-384';
+
+const TRUSTED_KEYS_KEY = 'verum-omnis.trusted-keys';
+const PUBLIC_KEY_FORMAT = 'verum-omnis-public-key';
+
+const toBase64 = (bytes: ArrayBuffer | Uint8Array) => btoa(String.fromCharCode(...new Uint8Array(bytes)));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), ch => ch.charCodeAt(0));
+const toBytes = (data: string | Uint8Array) => (typeof data === 'string' ? new TextEncoder().encode(data) : data);
+
+async function keyIdOf(publicKey: string): Promise<string> {
+  return (await calculateSHA512FromBytes(fromBase64(publicKey))).substring(0, 32);
+}
+
+/**
+ * A key id in groups of four, e.g. "1a2b 3c4d ...", for reading aloud or comparing by eye.
+ */
+export function formatKeyId(keyId: string): string {
+  return keyId.match(/.{1,4}/g)?.join(' ') || keyId;
+}
+
+/**
+ * Generates a new ECDSA P-384 keypair for an investigator. The private key is returned as a JWK so the
+ * case folder can store it encrypted; it never leaves the browser otherwise.
+ * @param owner The investigator's name, shown with every signature the key makes.
+ */
+export async function createSigningKey(owner: string): Promise<SigningKeyRecord> {
+  const pair = await crypto.subtle.generateKey(KEY_ALGORITHM, true, ['sign', 'verify']);
+  const publicKey = toBase64(await crypto.subtle.exportKey('spki', pair.publicKey));
+  return {
+    keyId: await keyIdOf(publicKey),
+    owner,
+    publicKey,
+    privateKey: await crypto.subtle.exportKey('jwk', pair.privateKey),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Imports a stored keypair for signing. The private key is imported as non-extractable.
+ */
+export async function unlockSigningKey(record: SigningKeyRecord): Promise<SigningIdentity> {
+  const privateKey = await crypto.subtle.importKey('jwk', record.privateKey, KEY_ALGORITHM, false, ['sign']);
+  return { keyId: record.keyId, owner: record.owner, publicKey: record.publicKey, privateKey, createdAt: record.createdAt };
+}
+
+/**
+ * Signs data with the investigator's private key.
+ */
+export async function sign(identity: SigningIdentity, data: string | Uint8Array): Promise<Signature> {
+  const value = await crypto.subtle.sign(SIGN_ALGORITHM, identity.privateKey, toBytes(data));
+  return { keyId: identity.keyId, value: toBase64(value) };
+}
+
+/**
+ * Returns the public keys whose signatures this browser trusts.
+ */
+export function getTrustedKeys(): TrustedKey[] {
+  try {
+    return JSON.parse(localStorage.getItem(TRUSTED_KEYS_KEY) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Adds a public key to the trusted keys, replacing an earlier entry for the same key.
+ */
+export function trustKey(key: TrustedKey): void {
+  const others = getTrustedKeys().filter(k => k.keyId !== key.keyId);
+  localStorage.setItem(TRUSTED_KEYS_KEY, JSON.stringify([...others, key]));
+}
+
+export function untrustKey(keyId: string): void {
+  localStorage.setItem(TRUSTED_KEYS_KEY, JSON.stringify(getTrustedKeys().filter(k => k.keyId !== keyId)));
+}
+
+/**
+ * Checks a signature against the trusted keys. A signature from a key that is not trusted cannot be
+ * checked, since only trusted keys are known.
+ * @param data What was signed.
+ * @param signature The signature, if there is one.
+ */
+export async function checkSignature(data: string | Uint8Array, signature?: Signature): Promise<SignatureCheck> {
+  if (!signature) return { status: 'unsigned', detail: 'Not signed.' };
+  const { keyId } = signature;
+  const trusted = getTrustedKeys().find(k => k.keyId === keyId);
+  if (!trusted) {
+    return { status: 'untrusted', keyId, detail: `Signed with key ${formatKeyId(keyId)}, which is not among your trusted keys.` };
+  }
+  let valid = false;
+  try {
+    const publicKey = await crypto.subtle.importKey('spki', fromBase64(trusted.publicKey), KEY_ALGORITHM, false, ['verify']);
+    valid = await crypto.subtle.verify(SIGN_ALGORITHM, publicKey, fromBase64(signature.value), toBytes(data));
+  } catch {
+    // A malformed signature fails like a wrong one.
+  }
+  return valid
+    ? { status: 'trusted', keyId, owner: trusted.owner, detail: `Signed by ${trusted.owner} (key ${formatKeyId(keyId)}).` }
+    : { status: 'invalid', keyId, owner: trusted.owner, detail: `The signature does not verify against ${trusted.owner}'s key ${formatKeyId(keyId)}; what it covers was altered after signing.` };
+}
+
+/**
+ * Exports the investigator's public key as a key file for colleagues to add to their trusted keys.
+ */
+export function exportPublicKey(identity: SigningIdentity): { blob: Blob; fileName: string } {
+  const file = {
+    format: PUBLIC_KEY_FORMAT,
+    algorithm: SIGNATURE_ALGORITHM,
+    keyId: identity.keyId,
+    owner: identity.owner,
+    publicKey: identity.publicKey,
+    createdAt: identity.createdAt,
+  };
+  return {
+    blob: new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' }),
+    fileName: `verum-omnis-public-key-${identity.owner.replace(/[^\w-]+/g, '-')}-${identity.keyId.substring(0, 8)}.json`,
+  };
+}
+
+/**
+ * Reads a key file made by exportPublicKey. The key id is recomputed from the key itself rather than
+ * taken from the file.
+ * @throws Error when the file is not a public key file or the key is not an ECDSA P-384 key.
+ */
+export async function readPublicKeyFile(text: string): Promise<TrustedKey> {
+  let file: { format?: string; owner?: string; publicKey?: string };
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('Not a public key file.');
+  }
+  if (file.format !== PUBLIC_KEY_FORMAT || typeof file.publicKey !== 'string') throw new Error('Not a public key file.');
+  try {
+    await crypto.subtle.importKey('spki', fromBase64(file.publicKey), KEY_ALGORITHM, false, ['verify']);
+  } catch {
+    throw new Error(`The key file does not hold a valid ${SIGNATURE_ALGORITHM} public key.`);
+  }
+  return {
+    keyId: await keyIdOf(file.publicKey),
+    owner: file.owner?.trim() || 'Unnamed key',
+    publicKey: file.publicKey,
+    addedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,116 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Attachment, ChatMessage, MessageSender, Timeline, TimelineConflict, TimelineEvent, TimelineSource } from '../types';
+import { candidatePairs, compareStatements, extractDates, splitSentences } from './claimService';
+
+// Statements this similar describe the same event, so differing dates are a conflict.
+const SAME_EVENT_THRESHOLD = 0.4;
+const MAX_DESCRIPTION_LENGTH = 240;
+
+const TIME = /\b([01]?\d|2[0-3]):([0-5]\d)\b/;
+
+/**
+ * Finds dated events in a text: one event per date mentioned in a sentence or line.
+ * @param text The file content or model answer.
+ * @param source Where the text came from; each event adds its sentence's character span.
+ * @param idPrefix Makes event ids stable across re-extraction, e.g. the file hash.
+ */
+export function extractEvents(text: string, source: TimelineSource, idPrefix: string): TimelineEvent[] {
+  const events: TimelineEvent[] = [];
+  for (const { text: sentence, start, end } of splitSentences(text)) {
+    const dates = extractDates(sentence);
+    if (dates.length === 0) continue;
+    const time = dates.length === 1 ? sentence.match(TIME) : null;
+    const description = sentence.length > MAX_DESCRIPTION_LENGTH ? `${sentence.slice(0, MAX_DESCRIPTION_LENGTH - 3)}...` : sentence;
+    for (const date of dates) {
+      events.push({
+        id: `${idPrefix}:${start}:${date}`,
+        date,
+        ...(time ? { time: `${time[1].padStart(2, '0')}:${time[2]}` } : {}),
+        description,
+        source: { ...source, start, end },
+      });
+    }
+  }
+  return events;
+}
+
+/**
+ * Dated events from every case file, anchored to the file's hash and the sentence they came from.
+ */
+export function extractAttachmentEvents(attachments: Attachment[]): TimelineEvent[] {
+  return attachments.flatMap(file => file.content
+    ? extractEvents(file.content, { kind: 'attachment', fileHash: file.hash, fileName: file.name }, file.hash.slice(0, 16))
+    : []);
+}
+
+/**
+ * Dated events from the models' answers: the consensus answer where there is one, otherwise each provider's.
+ */
+export function extractAnswerEvents(messages: ChatMessage[]): TimelineEvent[] {
+  return messages
+    .filter(m => m.sender === MessageSender.MODEL && !m.isLoading)
+    .flatMap(m => {
+      if (m.consensusText || !m.responses) {
+        return extractEvents(m.consensusText || m.text, { kind: 'model', messageId: m.id }, m.id);
+      }
+      return m.responses.flatMap(r => extractEvents(r.text, { kind: 'model', messageId: m.id }, `${m.id}:${r.slotId}`));
+    });
+}
+
+const sourceKey = (source: TimelineSource) => source.fileHash || source.messageId || 'manual';
+
+/**
+ * Pairs of events from different sources that describe the same thing but give different dates.
+ */
+export function findTimelineConflicts(events: TimelineEvent[]): TimelineConflict[] {
+  const conflicts: TimelineConflict[] = [];
+  for (const pair of candidatePairs(events.map(e => e.description))) {
+    const [a, b] = pair.map(i => events[i]);
+    if (a.date === b.date || sourceKey(a.source) === sourceKey(b.source)) continue;
+    const { similarity, conflict } = compareStatements(a.description, b.description);
+    // A figure or negation conflict means different events, not the same event misdated.
+    if (similarity < SAME_EVENT_THRESHOLD || (conflict && !conflict.startsWith('Dates differ'))) continue;
+    conflicts.push({ eventIds: [a.id, b.id], reason: `Same event dated ${a.date} and ${b.date}` });
+  }
+  return conflicts;
+}
+
+/**
+ * Merges extracted events with the user's manual additions and corrections, sorts them and finds conflicts.
+ * @param extracted Events read from files and answers.
+ * @param edits Manual events; an edit with `replaces` supersedes that extracted event, and `dismissed` hides it.
+ */
+export function buildTimeline(extracted: TimelineEvent[], edits: TimelineEvent[]): Timeline {
+  const replaced = new Set(edits.map(e => e.replaces).filter(Boolean));
+  const events = [
+    ...extracted.filter(e => !replaced.has(e.id)),
+    ...edits.filter(e => !e.dismissed),
+  ].sort((a, b) => a.date.localeCompare(b.date) || (a.time || '').localeCompare(b.time || ''));
+  return { events, conflicts: findTimelineConflicts(events) };
+}
+
+/**
+ * Records a manual addition or correction. Saving an extracted event stores a corrected copy that replaces it.
+ * @param edits The case's current manual edits.
+ * @param event The event as the user saved it; an empty id means a new event.
+ * @returns The updated edits.
+ */
+export function saveTimelineEdit(edits: TimelineEvent[], event: TimelineEvent): TimelineEvent[] {
+  if (edits.some(e => e.id === event.id)) return edits.map(e => (e.id === event.id ? event : e));
+  if (!event.id) return [...edits, { ...event, id: `manual-${Date.now()}`, source: { kind: 'manual' } }];
+  return [...edits, { ...event, id: `edit-${Date.now()}`, replaces: event.id }];
+}
+
+/**
+ * Removes an event from the timeline. Extracted events are hidden rather than deleted, so the change is recorded.
+ */
+export function dismissTimelineEvent(edits: TimelineEvent[], event: TimelineEvent): TimelineEvent[] {
+  const existing = edits.find(e => e.id === event.id);
+  if (existing && !existing.replaces) return edits.filter(e => e.id !== event.id);
+  if (existing) return edits.map(e => (e.id === event.id ? { ...e, dismissed: true } : e));
+  return [...edits, { ...event, id: `edit-${Date.now()}`, replaces: event.id, dismissed: true }];
+}
@@ -0,0 +1,111 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { TranscriptionSettings } from '../types';
+import { joinUrl, postForm } from './providers/http';
+import { ProviderError } from './providers/resilience';
+
+// Without speaker labels from the server, a pause this long starts a new line of the transcript.
+const TURN_PAUSE_SECONDS = 1.5;
+// Long monologues are still cut, so a line stays a citable passage.
+const MAX_TURN_SECONDS = 60;
+
+export interface TranscriptSegment {
+  start: number; // Seconds from the start of the recording
+  end: number;
+  text: string;
+  speaker?: string; // Set by servers that identify speakers, e.g. SPEAKER_00
+}
+
+export interface Transcript {
+  segments: TranscriptSegment[];
+  language?: string;
+  duration?: number; // Seconds
+}
+
+// The verbose_json response of the OpenAI-compatible transcription API.
+interface VerboseTranscription {
+  text: string;
+  language?: string;
+  duration?: number;
+  segments?: { start: number; end: number; text: string; speaker?: string }[];
+}
+
+/**
+ * Transcribes a recording with timestamps on the configured speech-to-text server. With a local
+ * Whisper server (whisper.cpp, faster-whisper-server and the like) the audio never leaves the device.
+ * @param audio The recording, in any format the server accepts.
+ * @param settings The server, model and language.
+ * @param fileName The name the recording is uploaded under; servers read its extension.
+ * @throws ProviderError when the server cannot be reached or rejects the recording.
+ */
+export async function transcribeAudio(
+  audio: Blob,
+  settings: TranscriptionSettings,
+  fileName: string,
+  signal?: AbortSignal,
+): Promise<Transcript> {
+  const form = new FormData();
+  form.append('file', audio, fileName);
+  form.append('model', settings.model);
+  form.append('response_format', 'verbose_json');
+  form.append('timestamp_granularities[]', 'segment');
+  if (settings.language) form.append('language', settings.language);
+
+  let body: VerboseTranscription;
+  try {
+    body = await postForm<VerboseTranscription>(joinUrl(settings.baseUrl, 'audio/transcriptions'), form, signal);
+  } catch (e) {
+    if (e instanceof TypeError) {
+      throw new ProviderError('network', `The transcription server at ${settings.baseUrl} could not be reached. Start a local Whisper server or change its URL under Providers.`);
+    }
+    throw e;
+  }
+  const segments = body.segments?.length
+    ? body.segments.map(s => ({ start: s.start, end: s.end, text: s.text.trim(), speaker: s.speaker }))
+    : body.text?.trim() ? [{ start: 0, end: body.duration || 0, text: body.text.trim() }] : [];
+  return { segments: segments.filter(s => s.text), language: body.language, duration: body.duration };
+}
+
+/**
+ * Formats seconds as hh:mm:ss.
+ */
+export function formatOffset(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  return [Math.floor(total / 3600), Math.floor(total / 60) % 60, total % 60].map(n => String(n).padStart(2, '0')).join(':');
+}
+
+/**
+ * Lays a transcript out one speaker turn per line, each with its time range in the recording, e.g.
+ * "[00:01:02-00:01:09] Speaker 1: ...". Speakers are numbered in order of appearance when the server
+ * labelled them; otherwise turns are split at pauses and left unattributed.
+ * @returns The transcript text, and whether speakers were identified.
+ */
+export function formatTranscript(transcript: Transcript): { text: string; diarized: boolean } {
+  const diarized = transcript.segments.some(s => s.speaker);
+  const speakers = new Map<string, string>();
+  const turns: TranscriptSegment[] = [];
+  for (const segment of transcript.segments) {
+    const turn = turns[turns.length - 1];
+    const sameTurn = turn
+      && segment.end - turn.start <= MAX_TURN_SECONDS
+      && (diarized ? segment.speaker === turn.speaker : segment.start - turn.end < TURN_PAUSE_SECONDS);
+    if (sameTurn) {
+      turn.text += ` ${segment.text}`;
+      turn.end = segment.end;
+    } else {
+      turns.push({ ...segment });
+    }
+  }
+  const lines = turns.map(turn => {
+    let label = '';
+    if (turn.speaker) {
+      if (!speakers.has(turn.speaker)) speakers.set(turn.speaker, `Speaker ${speakers.size + 1}`);
+      label = `${speakers.get(turn.speaker)}: `;
+    }
+    return `[${formatOffset(turn.start)}-${formatOffset(turn.end)}] ${label}${turn.text}`;
+  });
+  return { text: lines.join('\n'), diarized };
+}
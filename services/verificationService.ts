@@ -0,0 +1,151 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Attachment, AuditEntry, AuditHead, SealRecord, SignatureCheck, SealedReport, VerificationResult, VerificationStatus } from '../types';
+import { calculateSHA512, calculateSHA512FromBytes } from './fileService';
+import { readReportSeal, sealPayload } from './pdfService';
+import { checkSignature, formatKeyId } from './signingService';
+import { checkCaseBundle } from './bundleService';
+import { readZip, ZipEntry } from './extractors/zip';
+import { checkAuditHead, verifyAuditLog } from './auditService';
+
+const SEAL_REGISTRY_KEY = 'verum-omnis.seal-registry';
+
+/**
+ * Returns the seals of every report exported from this browser.
+ */
+export function getSealRegistry(): SealRecord[] {
+  try {
+    return JSON.parse(localStorage.getItem(SEAL_REGISTRY_KEY) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Records an exported report's seal so the verifier can recognise it later, even offline.
+ * @param report The report that was just exported.
+ */
+export function registerSeal(report: SealedReport): void {
+  const record: SealRecord = {
+    fileName: report.fileName,
+    reportHash: report.reportHash,
+    documentHash: report.documentHash,
+    fileHash: report.fileHash,
+    generatedAt: report.generatedAt.toISOString(),
+    keyId: report.signature?.keyId,
+  };
+  localStorage.setItem(SEAL_REGISTRY_KEY, JSON.stringify([...getSealRegistry(), record]));
+}
+
+/**
+ * Verifies a previously exported report, case bundle or audit log, or an evidence file.
+ * The file's SHA-512 is recomputed and matched against the case manifest, the local seal
+ * registry and, for sealed reports, the seal line embedded in the file itself. Signatures on
+ * seals, bundle manifests and audit-log heads are checked against the trusted keys.
+ * @param file The report or evidence file to check.
+ * @param manifest The files of the current case.
+ * @returns A promise that resolves with the verification outcome.
+ */
+export async function verifyItem(file: File, manifest: Attachment[]): Promise<VerificationResult> {
+  const hash = await calculateSHA512(file);
+  const result = (status: VerificationStatus, detail: string): VerificationResult => ({
+    id: `verify-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    fileName: file.name,
+    hash,
+    status,
+    detail,
+    checkedAt: new Date(),
+  });
+
+  const caseMatch = manifest.find(f => f.hash === hash);
+  if (caseMatch) {
+    return result('intact', `Matches case file "${caseMatch.name}".`);
+  }
+
+  const registry = getSealRegistry();
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const seal = readReportSeal(bytes);
+  if (seal) {
+    const documentHash = await calculateSHA512FromBytes(bytes.subarray(0, seal.documentLength));
+    if (documentHash !== seal.documentHash) {
+      return result('tampered', 'The report body no longer matches the SHA-512 recorded in its seal.');
+    }
+    const known = registry.find(r => r.reportHash === seal.reportHash);
+    if (known && known.documentHash !== seal.documentHash) {
+      return result('tampered', `The seal was rewritten: report ${seal.reportHash.substring(0, 12)}... was exported with a different document hash.`);
+    }
+    const signature = await checkSignature(sealPayload(seal.reportHash, seal.documentHash), seal.signature);
+    if (signature.status === 'invalid') return result('tampered', `The seal line was rewritten. ${signature.detail}`);
+    if (signature.status === 'trusted') return result('intact', `Seal valid. ${signature.detail}`);
+    if (known) return result('intact', `Seal valid and matches the report exported ${known.generatedAt}. ${signature.detail}`);
+    // Anyone who edits the PDF can recompute both hashes and append a new seal line.
+    return result('unknown', `Self-consistent but unverified seal: the hashes match, but ${unverifiedReason(signature)}, and the report was not exported from this browser.`);
+  }
+
+  const registered = registry.find(r => r.fileHash === hash);
+  if (registered) {
+    return result('intact', `Matches sealed report exported ${registered.generatedAt}.`);
+  }
+
+  const bundle = readBundle(bytes);
+  if (bundle) {
+    try {
+      const { manifest, signature } = await checkCaseBundle(bundle);
+      return signature.status === 'trusted'
+        ? result('intact', `Case bundle for "${manifest.case.name}": the manifest and case data match. ${signature.detail} Evidence files are checked on import.`)
+        : result('unknown', `Self-consistent but unverified case bundle "${manifest.case.name}": the manifest and case data match, but ${unverifiedReason(signature)}.`);
+    } catch (e) {
+      return result('tampered', e instanceof Error ? e.message : 'The case bundle could not be read.');
+    }
+  }
+
+  const auditExport = readAuditExport(bytes);
+  if (auditExport) {
+    const chain = await verifyAuditLog(auditExport.entries);
+    if (!chain.intact) return result('tampered', `Audit log chain broken at entry ${chain.brokenAt}. ${chain.reason}`);
+    const head = await checkAuditHead(auditExport.entries, auditExport.head);
+    if (head.status === 'invalid') return result('tampered', head.detail);
+    return head.status === 'trusted'
+      ? result('intact', `Audit log of ${chain.checked} entries, chain intact. ${head.detail}`)
+      : result('unknown', `Self-consistent but unverified audit log: the chain of ${chain.checked} entries is intact, but ${unverifiedReason(head)}.`);
+  }
+
+  const sameName = manifest.find(f => f.name === file.name);
+  if (sameName) {
+    return result('tampered', `Content differs from case file "${sameName.name}" (recorded SHA-512 ${sameName.hash.substring(0, 12)}...).`);
+  }
+
+  return result('unknown', 'No matching hash in the case manifest or seal registry, and no embedded seal.');
+}
+
+// A ZIP archive holding a manifest, or null for anything else.
+function readBundle(bytes: Uint8Array): ZipEntry[] | null {
+  if (bytes[0] !== 0x50 || bytes[1] !== 0x4b) return null;
+  try {
+    const entries = readZip(bytes);
+    return entries.some(e => e.name === 'manifest.json') ? entries : null;
+  } catch {
+    return null;
+  }
+}
+
+// An audit log exported with its head, or null for anything else.
+function readAuditExport(bytes: Uint8Array): { entries: AuditEntry[]; head: AuditHead } | null {
+  if (bytes[0] !== 0x7b) return null; // '{'
+  try {
+    const value = JSON.parse(new TextDecoder().decode(bytes));
+    return Array.isArray(value.entries) && value.head ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+// Why a self-consistent seal, manifest or log head proves nothing on its own: its hashes can be recomputed by anyone.
+function unverifiedReason(signature: SignatureCheck): string {
+  return signature.status === 'untrusted' && signature.keyId
+    ? `it is signed with key ${formatKeyId(signature.keyId)}, which is not among your trusted keys`
+    : 'it is not signed';
+}
@@ -13,23 +13,750 @@ export interface Attachment {
   name: string;
   hash: string;
   content?: string; // Content for context, may not always be present
+  extractor?: ExtractorKind;
+  lossy?: boolean; // True when the extracted text may not capture everything in the file
+  extractionNotes?: string[];
+  metadata?: EvidenceMetadata;
+  chunks?: EvidenceChunk[]; // Retrieval passages, cut once when the file is added
+  classification?: EvidenceClassification; // Absent on files added before files could be classified
+  custody?: CustodyRecord; // Absent on files added before custody was recorded
+}
+
+// How a file was brought into the case.
+export type ReceiptChannel = 'workspace' | 'chat';
+
+export type CustodyEventKind = 'received' | 'received_again' | 'details_recorded' | 'sent_to_providers' | 'exported' | 'imported';
+
+export interface CustodyEvent {
+  kind: CustodyEventKind;
+  at: string; // ISO 8601
+  summary: string;
+  device: string; // The browser and platform the event happened on
+  // Receipts only: the file as it arrived.
+  fileName?: string;
+  lastModified?: string; // ISO 8601, as the file system reported it
+  channel?: ReceiptChannel;
+}
+
+// A file's chain of custody. The details can be filled in later; every change, access and export is
+// appended to the events, which are never rewritten.
+export interface CustodyRecord {
+  originalName: string;
+  lastModified?: string; // ISO 8601, as the file system reported it at receipt
+  size?: number; // Bytes
+  mimeType?: string;
+  receivedAt?: string; // ISO 8601; unknown for files added before custody was recorded
+  providedBy?: string; // Who handed the file over
+  receivedVia?: string; // How it reached the user, e.g. "Email from the landlord's agent"
+  acquisitionDevice?: string; // The camera, phone or program that produced the file
+  events: CustodyEvent[];
+}
+
+export type CustodyDetails = Pick<CustodyRecord, 'providedBy' | 'receivedVia' | 'acquisitionDevice'>;
+
+export type EvidenceType = 'incident' | 'correspondence' | 'financial' | 'identity' | 'media';
+
+// How the user has filed a case file.
+export interface EvidenceClassification {
+  tags: string[];
+  evidenceType?: EvidenceType;
+  sealed: boolean; // Sealed files are locked: they cannot be removed until unsealed
+  custodian?: string; // Who held the file or where it came from, e.g. "Landlord's agent"
+}
+
+// Narrows the case file list, and the files a query is asked about.
+export interface CaseFilter {
+  evidenceType?: EvidenceType;
+  sealed?: boolean;
+  tag?: string;
+  search: string; // Matched against names, hashes, content, tags and custodians
+}
+
+// A passage of an attachment's extracted text; the text itself stays in Attachment.content.
+export interface EvidenceChunk {
+  index: number;
+  start: number; // Character offsets into Attachment.content
+  end: number;
+  lineStart: number; // 1-based, inclusive
+  lineEnd: number;
+  tokens: number; // Estimated
+}
+
+export interface RetrievalSettings {
+  tokenBudget: number; // Estimated tokens of case file text sent with each query
+  maxPassages: number;
+  embeddingModel: string; // Local (Ollama) embedding model that re-ranks BM25 results; empty for BM25 alone
+}
+
+export interface IndexedPassage {
+  file: Attachment;
+  chunk: EvidenceChunk;
+  terms: Map<string, number>; // Term frequencies
+  length: number; // Terms in the passage
+}
+
+export interface RetrievalIndex {
+  passages: IndexedPassage[];
+  documentFrequency: Map<string, number>; // Passages containing each term
+  averageLength: number;
+}
+
+// A passage sent to the providers with a query.
+export interface ContextSource {
+  label: string; // e.g. "1a2b3c4d:40-51": the SHA-512 prefix and line range answers cite it by
+  fileName: string;
+  fileHash: string;
+  start: number;
+  end: number;
+  lineStart: number;
+  lineEnd: number;
+  tokens: number;
+  score: number;
+  cited?: boolean; // Set once the answer is in: whether any provider cited lines of this passage
+}
+
+export interface RetrievalResult {
+  context: string;
+  sources: ContextSource[];
+  method: 'bm25' | 'hybrid';
+  usedTokens: number;
+  totalPassages: number;
+  warning?: string; // e.g. the embedding re-rank failed and BM25 alone was used
+  embedding?: { model: string; baseUrl: string; passages: number }; // Set when the query and passages were sent to be embedded
+}
+
+export interface ProviderResponse {
+  slotId: string;
+  label: string;
+  provider: ProviderKind;
+  model: string;
+  text: string;
+  citations?: CitationCheck[]; // One per citation in text, in order of appearance
+  status?: StreamStatus;
+  error?: ProviderFailure; // Why the provider is unavailable
+  attempts?: number; // Calls made, retries included
+  latencyMs?: number; // From sending the request to the end of the stream
+  firstTokenMs?: number; // From sending the request to the first streamed text
+  usage?: TokenUsage;
+}
+
+// cancelled: the user stopped the stream; text holds what had arrived by then.
+// unavailable: the provider failed after any retries; it has no answer and no vote.
+export type StreamStatus = 'streaming' | 'complete' | 'cancelled' | 'unavailable';
+
+// rate_limited, timeout, network and server failures are retried; the others would only fail again.
+export type ProviderErrorKind = 'auth' | 'quota' | 'rate_limited' | 'safety_blocked' | 'timeout' | 'network' | 'bad_request' | 'server' | 'unknown';
+
+export interface ProviderFailure {
+  kind: ProviderErrorKind;
+  message: string;
+  status?: number; // HTTP status, when there was one
+  safetyCategories?: string[]; // For safety_blocked: the harm categories the provider reported, when it did
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  estimated: boolean; // True when the provider did not report usage and the counts are estimated from the text
+}
+
+// verified: the cited lines exist and hold any quote; misplaced: the quote is in the file but elsewhere;
+// unknown_file, bad_lines, quote_not_found and not_sent mark fabricated citations.
+export type CitationStatus = 'verified' | 'misplaced' | 'unknown_file' | 'bad_lines' | 'quote_not_found' | 'not_sent';
+
+export interface CitationCheck {
+  citation: string; // As written, without brackets, e.g. "1a2b3c4d:12-14"
+  status: CitationStatus;
+  detail: string;
+  lineStart: number;
+  lineEnd: number;
+  quote?: string; // Text the answer quoted just before the citation
+  fileHash?: string;
+  fileName?: string;
+  start?: number; // Character span in the file to show: the quote if found, otherwise the cited lines
+  end?: number;
+}
+
+export interface PairwiseAgreement {
+  a: string; // slot ids
+  b: string;
+  score: number; // 0..1
+}
+
+export interface Dissent {
+  slotId: string;
+  points: string[]; // Claims the dissenter disputes or makes alone
+}
+
+export type ClaimStatus = 'agreed' | 'disputed' | 'unique';
+
+export interface ClaimAlignment {
+  id: string;
+  status: ClaimStatus;
+  statements: { slotId: string; text: string }[]; // At most one per provider
+  conflict?: string; // Why the statements of a disputed claim cannot both be true
+}
+
+export interface ConsensusReport {
+  mode: 'dual' | 'triple';
+  claims: ClaimAlignment[];
+  pairwise: PairwiseAgreement[];
+  majority: string[]; // slot ids agreeing with each other; empty when no majority exists
+  minority: string[];
+  dissents: Dissent[];
 }
 
 export interface ApiParts {
-  api1Response?: string;
-  api2Response?: string;
+  responses?: ProviderResponse[];
+  consensus?: ConsensusReport;
   consensusText?: string;
   isDivergent?: boolean;
+  constitution?: ConstitutionStamp; // The constitution the providers were instructed under
 }
 
 export interface AssistantResponse extends ApiParts {
   text: string;
 }
 
+export interface StreamOptions {
+  signals?: Record<string, AbortSignal>; // By slot id; aborting one cancels that provider's stream
+  history?: Record<string, ConversationTurn[]>; // By slot id; the earlier turns each provider is sent
+  onProgress?: (responses: ProviderResponse[]) => void; // Every slot's answer so far, on each change
+}
+
 export interface ChatMessage extends AssistantResponse {
   id: string;
   sender: MessageSender;
   timestamp: Date;
   isLoading?: boolean;
   attachments?: Attachment[];
+  report?: CaseReportRecord; // Set on answers to "Generate case report"; text then holds its Markdown
+  sources?: ContextSource[]; // Case file passages the query was sent with
+}
+
+export interface ReportSeal {
+  reportHash: string;
+  documentHash: string;
+  documentLength: number; // Byte length of the document the seal covers
+  signature?: Signature;
+}
+
+// A detached ECDSA P-384 signature and the key that made it.
+export interface Signature {
+  keyId: string; // First 32 hex digits of the SHA-512 of the public key
+  value: string; // Base64, in WebCrypto's raw r||s form
+}
+
+// An investigator's keypair, as stored encrypted in the case folder.
+export interface SigningKeyRecord {
+  keyId: string;
+  owner: string; // Who the key belongs to, shown with every signature it makes
+  publicKey: string; // Base64 SPKI
+  privateKey: JsonWebKey;
+  createdAt: string;
+}
+
+// The unlocked keypair, ready to sign.
+export interface SigningIdentity {
+  keyId: string;
+  owner: string;
+  publicKey: string;
+  privateKey: CryptoKey;
+  createdAt: string;
+}
+
+// A public key whose signatures this browser accepts, e.g. a colleague's imported from their key file.
+export interface TrustedKey {
+  keyId: string;
+  owner: string;
+  publicKey: string; // Base64 SPKI
+  addedAt: string;
+}
+
+export type SignatureStatus = 'trusted' | 'untrusted' | 'invalid' | 'unsigned';
+
+export interface SignatureCheck {
+  status: SignatureStatus;
+  keyId?: string;
+  owner?: string; // Known only for trusted keys
+  detail: string;
+}
+
+// The last entry of an exported audit log, signed so entries cut from the end can be detected.
+export interface AuditHead {
+  index: number;
+  hash: string;
+  signedAt: string;
+  signature?: Signature;
+}
+
+export interface SealedReport {
+  fileName: string;
+  blob: Blob;
+  reportHash: string;
+  documentHash: string;
+  fileHash: string; // SHA-512 of the exported file, seal line included
+  generatedAt: Date;
+  signature?: Signature;
+}
+
+export interface SealRecord {
+  fileName: string;
+  reportHash: string;
+  documentHash: string;
+  fileHash: string;
+  generatedAt: string;
+  keyId?: string; // The key the seal was signed with
+}
+
+export type VerificationStatus = 'intact' | 'tampered' | 'unknown';
+
+export interface VerificationResult {
+  id: string;
+  fileName: string;
+  hash: string;
+  status: VerificationStatus;
+  detail: string;
+  checkedAt: Date;
+}
+
+// What a note links to, written in its body as a Markdown link, e.g. [lease.pdf](file:1a2b3c4d5e6f7a8b).
+export type NoteReferenceKind = 'file' | 'message' | 'event';
+
+export interface NoteReference {
+  kind: NoteReferenceKind;
+  target: string; // A file hash prefix, message id or timeline event id
+  label: string; // The link text
+  found: boolean;
+  description?: string; // What the link points at now, when found
+}
+
+// Where a note promoted from a model answer came from.
+export interface NoteProvenance {
+  messageId: string;
+  conversationId?: string;
+  source: string; // The slot label, or "Consensus"
+  provider?: ProviderKind;
+  model?: string;
+  answeredAt: string;
+  constitution?: ConstitutionStamp;
+  excerpt: string; // As promoted, before any editing of the note
+  excerptHash: string; // SHA-512 of the excerpt
+  promotedAt: string;
+}
+
+export interface CaseNote {
+  id: string;
+  title: string;
+  body: string; // Markdown
+  sendToProviders: boolean; // Sent with chat queries and case report requests as the user's own notes
+  provenance?: NoteProvenance;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// One earlier turn of a conversation, as sent back to a provider.
+export interface ConversationTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+// A line of questioning in a case. Forks start as a copy of another conversation up to one message.
+export interface Conversation {
+  id: string;
+  name: string;
+  messages: ChatMessage[];
+  parentId?: string; // The conversation this one was forked from
+  forkedFromMessageId?: string; // The last message copied from the parent, by its id there; copies get new ids
+  createdAt: string;
+}
+
+export interface CaseRecord {
+  id: string;
+  name: string;
+  attachments: Attachment[];
+  transcript: ChatMessage[]; // The active conversation's messages
+  conversations?: Conversation[]; // Every conversation, including the active one; absent in older cases
+  activeConversationId?: string;
+  notes: string; // Every note as one text, which contradiction findings point into
+  caseNotes?: CaseNote[]; // Absent in cases saved before notes were separate; their notes are one text
+
+  highRisk?: boolean;
+  redactionMap?: PseudonymEntry[];
+  redactionSettings?: RedactionSettings;
+  timelineEdits?: TimelineEvent[];
+  contradictions?: ContradictionAnalysis;
+  auditLog?: AuditEntry[];
+  quarantine?: QuarantinedFile[]; // Files of an imported bundle that failed verification
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A file from a case bundle whose bytes did not match the bundle's manifest; kept out of the case.
+export interface QuarantinedFile {
+  name: string;
+  expectedHash: string; // SHA-512 recorded in the manifest
+  actualHash?: string; // SHA-512 of the bytes found; absent when the file was missing
+  reason: string;
+  bundle: string; // File name of the bundle it came from
+  importedAt: string;
+}
+
+// One evidence file in a case bundle.
+export interface BundleFile {
+  name: string;
+  sha512: string;
+  size?: number;
+  path?: string; // The original file in the archive; absent when the case no longer had it
+  textPath: string; // The extracted text the case works from
+  attachment: Omit<Attachment, 'content'>;
+}
+
+// manifest.json of a case bundle. Every other entry is listed with its SHA-512, and the manifest's own
+// SHA-512 is in manifest.sha512, in the format sha512sum -c reads.
+export interface BundleManifest {
+  format: 'verum-omnis-case-bundle';
+  version: number;
+  exportedAt: string;
+  case: { id: string; name: string; createdAt: string };
+  files: BundleFile[];
+  entries: { path: string; sha512: string }[];
+}
+
+export interface BundleImport {
+  record: CaseRecord;
+  originals: Map<string, Uint8Array>; // Verified original files, by SHA-512
+  quarantined: { file: QuarantinedFile; bytes?: Uint8Array }[];
+  textOnly: string[]; // Names of files the bundle carried as extracted text only
+  manifestHash: string;
+  signature: SignatureCheck;
+}
+
+export interface CaseSummary {
+  id: string;
+  name: string;
+  updatedAt: string;
+  fileCount: number;
+}
+
+export type ProviderKind = 'gemini' | 'openai' | 'anthropic' | 'ollama';
+
+export type SafetyThreshold = 'BLOCK_MEDIUM_AND_ABOVE' | 'BLOCK_ONLY_HIGH' | 'BLOCK_NONE';
+
+export interface ProviderConfig {
+  apiKey?: string;
+  baseUrl?: string;
+  model: string;
+  safetyThreshold?: SafetyThreshold; // Gemini only: the block threshold applied to every harm category
+}
+
+export interface ConsensusSlot {
+  id: string;
+  label: string;
+  provider: ProviderKind;
+  model?: string; // Overrides the provider's default model for this slot
+  systemInstruction: string;
+}
+
+// API keys by backend, kept apart from the other settings so they are never written to local storage.
+export type ApiKeys = Partial<Record<ProviderKind, string>>;
+
+export interface ProviderSettings {
+  providers: Record<ProviderKind, ProviderConfig>;
+  slots: ConsensusSlot[];
+  retrieval: RetrievalSettings;
+  resilience: ResilienceSettings;
+  memory: MemorySettings;
+  transcription: TranscriptionSettings;
+}
+
+export interface ResilienceSettings {
+  timeoutSeconds: number; // For streams, the longest wait for the next piece of text
+  maxRetries: number; // Retries after the first call, for failures that may be temporary
+}
+
+// A Whisper-style speech-to-text server with the OpenAI-compatible /audio/transcriptions endpoint, run locally.
+export interface TranscriptionSettings {
+  baseUrl: string;
+  model: string;
+  language: string; // ISO 639-1 code, e.g. 'en'; empty to detect
+}
+
+export interface MemorySettings {
+  historyTokenBudget: number; // Estimated tokens of earlier turns sent verbatim; older turns are summarised. 0 sends none
+}
+
+export interface ProviderRequest {
+  prompt: string;
+  systemInstruction: string;
+  history?: ConversationTurn[]; // Earlier turns of the conversation, oldest first
+  signal?: AbortSignal; // Aborts the request, or the stream part-way through
+}
+
+export interface ProviderOutput {
+  text: string;
+  usage?: { inputTokens: number; outputTokens: number }; // As reported by the provider, when it does
+}
+
+export interface AiProvider {
+  kind: ProviderKind;
+  label: string;
+  defaultModel: string;
+  defaultBaseUrl: string;
+  requiresApiKey: boolean;
+  generate: (request: ProviderRequest, config: ProviderConfig) => Promise<string>;
+  // Streams the answer, calling onText with each new piece of text as it arrives.
+  stream: (request: ProviderRequest, config: ProviderConfig, onText: (delta: string) => void) => Promise<ProviderOutput>;
+  embed?: (texts: string[], config: ProviderConfig) => Promise<number[][]>; // One vector per text
+}
+
+export type RedactionCategory = 'name' | 'id_number' | 'phone' | 'email' | 'bank_account' | 'address' | 'custom';
+
+export interface PseudonymEntry {
+  original: string;
+  pseudonym: string; // e.g. [PERSON_1]
+  category: RedactionCategory;
+}
+
+export interface RedactionSpan {
+  start: number; // Offsets into the source text
+  end: number;
+  original: string;
+  pseudonym: string;
+  category: RedactionCategory;
+}
+
+export interface RedactionResult {
+  source: string;
+  text: string;
+  spans: RedactionSpan[];
+  map: PseudonymEntry[];
+}
+
+export interface RedactionSettings {
+  customTerms: string[]; // Always redacted
+  exemptTerms: string[]; // Detected but approved to send as-is
+}
+
+export type ExtractorKind = 'text' | 'csv' | 'pdf' | 'docx' | 'xlsx' | 'email' | 'msg' | 'whatsapp' | 'ocr' | 'audio' | 'unsupported';
+
+export interface ExtractionResult {
+  text: string;
+  extractor: ExtractorKind;
+  lossy: boolean;
+  notes: string[]; // What was skipped or approximated, shown next to the file
+}
+
+export interface FileExtractor {
+  kind: ExtractorKind;
+  label: string;
+  matches: (file: File, head: Uint8Array) => boolean; // head holds the first bytes, for magic numbers
+  extract: (file: File) => Promise<ExtractionResult>;
+}
+
+export type MetadataSource = 'file-system' | 'exif' | 'pdf-info' | 'xmp' | 'docx-core';
+
+export interface EvidenceMetadata {
+  sources: MetadataSource[];
+  fileLastModified?: string; // ISO 8601, from the browser's File.lastModified
+  title?: string;
+  author?: string;
+  lastModifiedBy?: string;
+  creatorTool?: string; // Application that created the file, or EXIF Software
+  producer?: string;
+  createdAt?: string; // ISO 8601 where the source gives a time zone, otherwise local time without offset
+  modifiedAt?: string;
+  xmpCreatedAt?: string; // Kept apart from the PDF Info dates so the two can be compared
+  xmpModifiedAt?: string;
+  revisions?: number; // PDF incremental saves, or the DOCX revision counter
+  captureTime?: string; // EXIF DateTimeOriginal
+  device?: string;
+  gps?: { latitude: number; longitude: number };
+  gpsTime?: string;
+}
+
+export type MetadataComparison =
+  | { kind: 'metadata'; field: keyof EvidenceMetadata }
+  | { kind: 'content' | 'notes'; text: string; start: number; end: number }
+  | { kind: 'name'; text: string };
+
+export interface MetadataFlag {
+  field: keyof EvidenceMetadata;
+  message: string;
+  comparedWith?: MetadataComparison; // What the field contradicts; absent when the flag stands on its own
+}
+
+export interface TimelineSource {
+  kind: 'attachment' | 'model' | 'manual';
+  fileHash?: string; // Attachment events: the SHA-512 of the file the event was read from
+  fileName?: string;
+  messageId?: string; // Model events: the chat message the answer came from
+  start?: number; // Character span of the sentence within the file content or answer text
+  end?: number;
+}
+
+export interface TimelineEvent {
+  id: string;
+  date: string; // YYYY-MM-DD
+  time?: string; // HH:MM
+  description: string;
+  source: TimelineSource;
+  replaces?: string; // A manual entry that corrects (or, with dismissed, removes) an extracted event
+  dismissed?: boolean;
+}
+
+export interface TimelineConflict {
+  eventIds: [string, string];
+  reason: string;
+}
+
+export interface Timeline {
+  events: TimelineEvent[]; // Chronological
+  conflicts: TimelineConflict[];
+}
+
+export type ContradictionLayer = 'timeline' | 'statements' | 'behaviour' | 'metadata' | 'financial' | 'coercion' | 'rights' | 'intent';
+
+export type ContradictionSeverity = 'high' | 'medium' | 'low';
+
+export interface ContradictionStatement {
+  text: string;
+  fileHash?: string; // SHA-512 of the case file; absent for case notes and AI answers
+  fileName?: string;
+  start?: number; // Character span within the file content or notes
+  end?: number;
+}
+
+export interface Contradiction {
+  id: string;
+  layer: ContradictionLayer;
+  severity: ContradictionSeverity;
+  statements: [ContradictionStatement, ContradictionStatement];
+  explanation: string;
+}
+
+export interface ContradictionAnalysis {
+  findings: Contradiction[];
+  fileHashes: string[]; // The case files the run covered, to tell when it is out of date
+  analyzedAt: string;
+}
+
+export interface ConstitutionStamp {
+  version: string;
+  hash: string; // SHA-512 of the active constitution's exact text
+}
+
+// The sections of verum-constitution.json the app enforces; the rest is carried along unread.
+export interface Constitution {
+  version: string;
+  engine: string;
+  description: string;
+  core_principles: Record<string, string>;
+  security: Record<string, boolean | string>;
+  ai_integration: {
+    allowed_systems: string[];
+    redaction_required_before_analysis: boolean;
+    zero_raw_data_leak_policy: boolean;
+    triple_ai_consensus: { enabled: boolean; procedure: string };
+  };
+  ethical_constraints: Record<string, boolean>;
+  output_requirements: Record<string, boolean | string>;
+  governance: {
+    immutability: boolean;
+    change_requires: string[];
+    propagation_rule: string;
+  };
+  [section: string]: unknown;
+}
+
+export interface ConstitutionAmendment {
+  amendedAt: string;
+  reason: string;
+  version: string; // Version declared by the new text
+  previousHash: string;
+  hash: string;
+}
+
+export interface ActiveConstitution {
+  constitution: Constitution;
+  text: string; // Exact text the stamp is computed over
+  source: 'bundled' | 'amended';
+  amendments: ConstitutionAmendment[];
+  loadError?: string; // Why a stored amendment was ignored in favour of the bundled text
+}
+
+// Answers to each governance.change_requires entry, collected before an amendment is applied.
+export interface ConstitutionChangeApproval {
+  authorised: boolean; // your_explicit_authorisation
+  reason: string; // logged_reason
+  warningAcknowledged: boolean; // multi-AI_consensus_warning
+}
+
+export interface ReportTimelineEntry {
+  date: string; // YYYY-MM-DD, or YYYY-MM / YYYY when only that is known
+  event: string;
+  sources: string[]; // Case file names
+}
+
+export interface ReportFact {
+  statement: string;
+  sources: string[];
+}
+
+export interface ReportContradiction {
+  description: string;
+  statements: string[]; // The conflicting statements, quoted
+  sources: string[];
+  severity: ContradictionSeverity;
+}
+
+export interface ReportViolation {
+  right: string; // The right or rule breached, e.g. "Right to notice"
+  description: string;
+  sources: string[];
+  severity: ContradictionSeverity;
+}
+
+export interface ReportGuidance {
+  action: string;
+  rationale: string;
+}
+
+export interface CaseReport {
+  timeline: ReportTimelineEntry[];
+  facts: ReportFact[];
+  contradictions: ReportContradiction[];
+  violations: ReportViolation[];
+  guidance: ReportGuidance[];
+}
+
+export interface CaseReportRecord {
+  report: CaseReport;
+  stamp: ConstitutionStamp;
+  generatedAt: string;
+  provider: string; // Slot label and model that wrote the report
+  attempts: number; // Provider calls needed to get a valid report
+  repairs: string[]; // Schema violations corrected locally rather than by asking again
+  fileHashes: string[]; // The case files the report covers
+}
+
+export type AuditAction =
+  | 'file_added' | 'file_removed' | 'prompt_sent' | 'send_refused' | 'response_received' | 'response_failed' | 'export'
+  | 'constitution_changed' | 'embedding_request' | 'file_classified' | 'case_imported';
+
+export interface AuditEntry {
+  index: number;
+  timestamp: string;
+  action: AuditAction;
+  summary: string;
+  data: Record<string, unknown>; // JSON-serialisable detail, e.g. the exact redacted context sent
+  previousHash: string; // SHA-512 of the previous entry; 128 zeros for the first
+  hash: string; // SHA-512 over this entry's canonical JSON, previousHash included
+}
+
+export interface AuditVerification {
+  intact: boolean;
+  checked: number;
+  brokenAt?: number; // Index of the first entry that fails
+  reason?: string;
 }
@@ -1,7 +1,37 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Tesseract's worker, engine and English model, served from the app itself so OCR works offline.
+// Only the LSTM engines are needed: the default OCR engine mode never loads the legacy model.
+const OCR_ASSETS: Record<string, string> = {
+  'tesseract/worker.min.js': 'node_modules/tesseract.js/dist/worker.min.js',
+  'tesseract/core/tesseract-core-lstm.wasm.js': 'node_modules/tesseract.js-core/tesseract-core-lstm.wasm.js',
+  'tesseract/core/tesseract-core-simd-lstm.wasm.js': 'node_modules/tesseract.js-core/tesseract-core-simd-lstm.wasm.js',
+  'tesseract/lang/eng.traineddata.gz': 'node_modules/@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz',
+};
+
+function ocrAssets(): Plugin {
+  return {
+    name: 'verum-ocr-assets',
+    configureServer(server) {
+      server.middlewares.use((req, res, next) => {
+        const source = OCR_ASSETS[(req.url || '').split('?')[0].replace(/^\//, '')];
+        if (!source) return next();
+        // The model is gunzipped by Tesseract, so it goes out as plain bytes, not as a Content-Encoding.
+        res.setHeader('Content-Type', source.endsWith('.js') ? 'text/javascript' : 'application/octet-stream');
+        fs.createReadStream(path.resolve(__dirname, source)).pipe(res);
+      });
+    },
+    generateBundle() {
+      for (const [fileName, source] of Object.entries(OCR_ASSETS)) {
+        this.emitFile({ type: 'asset', fileName, source: fs.readFileSync(path.resolve(__dirname, source)) });
+      }
+    },
+  };
+}
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +39,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), ocrAssets()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)